@@ -12,6 +12,8 @@ const nextConfig: NextConfig = {
     resolveAlias: {
       "@hypedelta/types": path.resolve(__dirname, "../../src/types.ts"),
       "@hypedelta/storage": path.resolve(__dirname, "../../src/storage.ts"),
+      "@hypedelta/predictions": path.resolve(__dirname, "../../src/predictions.ts"),
+      "@hypedelta/health": path.resolve(__dirname, "../../src/health.ts"),
     },
   },
 
@@ -21,6 +23,8 @@ const nextConfig: NextConfig = {
       ...config.resolve.alias,
       "@hypedelta/types": path.resolve(__dirname, "../../src/types.ts"),
       "@hypedelta/storage": path.resolve(__dirname, "../../src/storage.ts"),
+      "@hypedelta/predictions": path.resolve(__dirname, "../../src/predictions.ts"),
+      "@hypedelta/health": path.resolve(__dirname, "../../src/health.ts"),
     };
     return config;
   },
@@ -33,11 +33,13 @@ async function getRecentActivity(): Promise<ActivityItem[]> {
   });
 
   try {
-    // Get recent content fetches (grouped by hour)
+    // Get recent content fetches (grouped by hour). fetched_at only moves when
+    // an item is new or its content changed; first_fetched_at tells them apart.
     const fetchActivity = await pool.query(`
       SELECT
         date_trunc('hour', fetched_at) as hour,
-        COUNT(*) as count
+        COUNT(*) as count,
+        COUNT(*) FILTER (WHERE first_fetched_at = fetched_at) as new_count
       FROM content
       WHERE fetched_at > NOW() - INTERVAL '7 days'
       GROUP BY date_trunc('hour', fetched_at)
@@ -88,12 +90,14 @@ async function getRecentActivity(): Promise<ActivityItem[]> {
 
     // Add fetch activities
     for (const row of fetchActivity.rows) {
+      const count = parseInt(row.count, 10);
+      const newCount = parseInt(row.new_count, 10);
       activities.push({
         id: `fetch-${row.hour}`,
         type: "fetch",
         timestamp: row.hour,
-        details: `Fetched ${row.count} content items`,
-        count: parseInt(row.count, 10),
+        details: `Fetched ${newCount} new and ${count - newCount} updated content items`,
+        count,
       });
     }
 
@@ -1,14 +1,42 @@
 import Link from "next/link";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { getSources } from "@/lib/db";
-import { ArrowLeft, Users, Building2, CheckCircle, ExternalLink, RefreshCw } from "lucide-react";
+import { getSourceAdapters, getSourceAlerts, getSources, type Source } from "@/lib/db";
+import { ArrowLeft, Users, Building2, CheckCircle, ExternalLink, RefreshCw, ShieldAlert, Bell } from "lucide-react";
 import { SourceToggle } from "@/components/source-toggle";
+import { QuarantineRelease } from "@/components/quarantine-release";
 
 export const dynamic = "force-dynamic";
 
+function HealthBadge({ source }: { source: Source }) {
+  if (source.quarantined_at) {
+    return (
+      <Badge variant="destructive" className="text-xs" title={source.last_error ?? undefined}>
+        Quarantined
+      </Badge>
+    );
+  }
+  if (source.consecutive_failures > 0) {
+    return (
+      <Badge variant="warning" className="text-xs" title={source.last_error ?? undefined}>
+        Failing ×{source.consecutive_failures}
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="success" className="text-xs">
+      Healthy
+    </Badge>
+  );
+}
+
 export default async function SourcesPage() {
-  const sources = await getSources();
+  const [sources, adapters, alerts] = await Promise.all([
+    getSources(),
+    getSourceAdapters(),
+    getSourceAlerts(),
+  ]);
+  const adapterByType = new Map(adapters.map((adapter) => [adapter.type, adapter]));
 
   // Group by category
   const byCategory = sources.reduce((acc, source) => {
@@ -42,7 +70,7 @@ export default async function SourcesPage() {
       </div>
 
       {/* Summary stats */}
-      <div className="grid gap-4 md:grid-cols-4 mb-8">
+      <div className="grid gap-4 md:grid-cols-5 mb-8">
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium">Total Sources</CardTitle>
@@ -84,6 +112,17 @@ export default async function SourcesPage() {
             <div className="text-2xl font-bold">{byCategory.critic?.length || 0}</div>
           </CardContent>
         </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <ShieldAlert className="h-4 w-4 text-red-500" />
+              Quarantined
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{sources.filter((s) => s.quarantined_at).length}</div>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Sources by category */}
@@ -103,75 +142,137 @@ export default async function SourcesPage() {
             </CardHeader>
             <CardContent>
               <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                {categorySources.map((source) => (
-                  <div
-                    key={source.id}
-                    className={`p-4 rounded-lg border ${
-                      source.is_active ? "bg-background" : "bg-muted/50 opacity-60"
-                    }`}
-                  >
-                    <div className="flex items-start justify-between mb-2">
-                      <div>
-                        <p className="font-medium">@{source.identifier}</p>
-                        {source.author_name && (
-                          <p className="text-sm text-muted-foreground">{source.author_name}</p>
-                        )}
+                {categorySources.map((source) => {
+                  const adapter = adapterByType.get(source.type);
+                  return (
+                    <div
+                      key={source.id}
+                      className={`p-4 rounded-lg border ${
+                        source.is_active ? "bg-background" : "bg-muted/50 opacity-60"
+                      }`}
+                    >
+                      <div className="flex items-start justify-between mb-2">
+                        <div>
+                          <p className="font-medium">@{source.identifier}</p>
+                          {source.author_name && (
+                            <p className="text-sm text-muted-foreground">{source.author_name}</p>
+                          )}
+                        </div>
+                        <SourceToggle
+                          sourceId={source.id}
+                          isActive={source.is_active}
+                          identifier={source.identifier}
+                        />
                       </div>
-                      <SourceToggle
-                        sourceId={source.id}
-                        isActive={source.is_active}
-                        identifier={source.identifier}
-                      />
-                    </div>
 
-                    <div className="flex flex-wrap gap-1 mb-3">
-                      <Badge variant="outline" className="text-xs capitalize">
-                        {source.type}
-                      </Badge>
-                      {source.fetch_frequency_hours && (
-                        <Badge variant="outline" className="text-xs">
-                          Every {source.fetch_frequency_hours}h
+                      <div className="flex flex-wrap gap-1 mb-3">
+                        <HealthBadge source={source} />
+                        <Badge variant="outline" className="text-xs capitalize">
+                          {adapter?.display_name ?? source.type}
                         </Badge>
+                        {source.fetch_frequency_hours && (
+                          <Badge variant="outline" className="text-xs">
+                            Every {source.fetch_frequency_hours}h
+                          </Badge>
+                        )}
+                        {source.researcher && source.researcher !== source.identifier && (
+                          <Link href={`/researchers/${encodeURIComponent(source.researcher)}`}>
+                            <Badge variant="secondary" className="text-xs">
+                              Linked to @{source.researcher}
+                            </Badge>
+                          </Link>
+                        )}
+                      </div>
+
+                      {source.tags && source.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mb-3">
+                          {source.tags.map((tag) => (
+                            <Badge key={tag} variant="secondary" className="text-xs">
+                              {tag}
+                            </Badge>
+                          ))}
+                        </div>
                       )}
-                    </div>
 
-                    {source.tags && source.tags.length > 0 && (
-                      <div className="flex flex-wrap gap-1 mb-3">
-                        {source.tags.map((tag) => (
-                          <Badge key={tag} variant="secondary" className="text-xs">
-                            {tag}
-                          </Badge>
-                        ))}
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        {adapter?.profile_url && (
+                          <a
+                            href={adapter.profile_url.replace("{identifier}", encodeURIComponent(source.identifier))}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center gap-1 hover:underline"
+                          >
+                            <ExternalLink className="h-3 w-3" />
+                            {adapter.display_name}
+                          </a>
+                        )}
                       </div>
-                    )}
 
-                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                      {source.type === "twitter" && (
-                        <a
-                          href={`https://twitter.com/${source.identifier}`}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="flex items-center gap-1 hover:underline"
-                        >
-                          <ExternalLink className="h-3 w-3" />
-                          Twitter
-                        </a>
+                      {source.last_fetched && (
+                        <p className="text-xs text-muted-foreground mt-2">
+                          Last fetched: {new Date(source.last_fetched).toLocaleDateString()}
+                        </p>
+                      )}
+                      {(source.last_success_at || source.avg_item_yield != null) && (
+                        <p className="text-xs text-muted-foreground">
+                          {source.last_success_at &&
+                            `Last success: ${new Date(source.last_success_at).toLocaleDateString()}`}
+                          {source.last_success_at && source.avg_item_yield != null && " · "}
+                          {source.avg_item_yield != null &&
+                            `~${Number(source.avg_item_yield).toFixed(1)} new items per fetch`}
+                        </p>
+                      )}
+                      {source.quarantined_at && (
+                        <div className="mt-3">
+                          <QuarantineRelease sourceId={source.id} identifier={source.identifier} />
+                        </div>
                       )}
                     </div>
-
-                    {source.last_fetched && (
-                      <p className="text-xs text-muted-foreground mt-2">
-                        Last fetched: {new Date(source.last_fetched).toLocaleDateString()}
-                      </p>
-                    )}
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </CardContent>
           </Card>
         ))}
       </div>
 
+      {/* Recent health alerts */}
+      {alerts.length > 0 && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Bell className="h-5 w-5 text-yellow-500" />
+              Recent Alerts
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-2 text-sm">
+              {alerts.map((alert) => (
+                <li key={alert.id} className="flex flex-wrap items-center gap-2">
+                  <Badge
+                    variant={
+                      alert.kind === "quarantined"
+                        ? "destructive"
+                        : alert.kind === "failing"
+                          ? "warning"
+                          : "success"
+                    }
+                    className="text-xs capitalize"
+                  >
+                    {alert.kind}
+                  </Badge>
+                  <span className="font-medium">@{alert.identifier}</span>
+                  {alert.message && <span className="text-muted-foreground">{alert.message}</span>}
+                  <span className="text-xs text-muted-foreground ml-auto">
+                    {new Date(alert.created_at).toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Info about source management */}
       <Card className="mt-6">
         <CardHeader>
@@ -185,12 +286,32 @@ export default async function SourcesPage() {
             Toggle the switch next to each source to activate or deactivate it.
             Inactive sources will not be fetched during operations.
           </p>
+          <p className="mb-3">
+            Sources that keep failing are retried with increasing delays and quarantined after
+            repeated failures. Clear the quarantine once the source is fixed, or use{" "}
+            <code className="text-xs">ai-intel health --release &lt;id&gt;</code>.
+          </p>
           <p>
             To add new sources, use the CLI:
           </p>
           <pre className="mt-2 p-3 bg-muted rounded-md text-xs">
             npm run add-source -- --identifier="username" --type="twitter" --category="lab-researcher"
           </pre>
+          {adapters.length > 0 && (
+            <>
+              <p className="mt-4 mb-2">Available source types:</p>
+              <ul className="space-y-1">
+                {adapters.map((adapter) => (
+                  <li key={adapter.type}>
+                    <code className="text-xs">{adapter.type}</code>
+                    {" — "}
+                    {adapter.display_name}
+                    {adapter.identifier_label && ` (identifier: ${adapter.identifier_label})`}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -1,6 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { isAuthenticatedRequest } from "@/lib/auth";
 import { query } from "@/lib/db";
+import { raiseAlert, type SourceAlert } from "@hypedelta/health";
+
+// Alerts raised here take the same path as the fetcher's and the CLI's:
+// stored in source_alerts, logged, and posted to SOURCE_ALERT_WEBHOOK_URL
+const alertStore = {
+  async recordAlert(alert: SourceAlert): Promise<void> {
+    await query(
+      "INSERT INTO source_alerts (source_id, kind, message) VALUES ($1, $2, $3)",
+      [alert.sourceId, alert.kind, alert.message]
+    );
+  },
+};
 
 // PATCH /api/admin/sources/[id] - Update source
 export async function PATCH(
@@ -48,21 +60,52 @@ export async function PATCH(
       values.push(body.category || null);
     }
 
-    if (updates.length === 0) {
+    const clearQuarantine = body.clear_quarantine === true;
+    if (updates.length === 0 && !clearQuarantine) {
       return NextResponse.json({ error: "No valid fields to update" }, { status: 400 });
     }
 
-    values.push(sourceId);
-    const rows = await query<Record<string, unknown>>(
-      `UPDATE sources SET ${updates.join(", ")} WHERE id = $${paramIndex} RETURNING *`,
-      values
-    );
+    let source: Record<string, unknown> | undefined;
+    if (updates.length > 0) {
+      values.push(sourceId);
+      const rows = await query<Record<string, unknown>>(
+        `UPDATE sources SET ${updates.join(", ")} WHERE id = $${paramIndex} RETURNING *`,
+        values
+      );
+      if (rows.length === 0) {
+        return NextResponse.json({ error: "Source not found" }, { status: 404 });
+      }
+      source = rows[0];
+    }
 
-    if (rows.length === 0) {
-      return NextResponse.json({ error: "Source not found" }, { status: 404 });
+    // Clearing quarantine gives a clean slate, so the next fetch run tries
+    // it. Like SourceStore.releaseQuarantine, only a quarantined source
+    // changes, and only then is the release alerted.
+    if (clearQuarantine) {
+      const [released] = await query<Record<string, unknown>>(
+        `UPDATE sources SET quarantined_at = NULL, consecutive_failures = 0, next_fetch_at = NULL
+         WHERE id = $1 AND quarantined_at IS NOT NULL
+         RETURNING *`,
+        [sourceId]
+      );
+      if (released) {
+        source = released;
+        await raiseAlert(alertStore, {
+          sourceId,
+          source: String(released.identifier),
+          sourceType: String(released.type),
+          kind: "released",
+          message: "quarantine cleared from the admin page",
+        });
+      } else if (!source) {
+        [source] = await query<Record<string, unknown>>("SELECT * FROM sources WHERE id = $1", [sourceId]);
+        if (!source) {
+          return NextResponse.json({ error: "Source not found" }, { status: 404 });
+        }
+      }
     }
 
-    return NextResponse.json({ success: true, source: rows[0] });
+    return NextResponse.json({ success: true, source });
   } catch (error) {
     console.error("Error updating source:", error);
     return NextResponse.json({ error: "Failed to update source" }, { status: 500 });
@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { getClaims } from "@/lib/db";
 import { Pagination } from "@/components/ui/pagination";
 import { SearchInput } from "@/components/search-input";
-import { MessageSquare, Calendar, User, ExternalLink, X } from "lucide-react";
+import { MessageSquare, Calendar, User, ExternalLink, X, Layers, ShieldCheck, ShieldAlert } from "lucide-react";
 import Link from "next/link";
 
 export const dynamic = "force-dynamic";
@@ -58,6 +58,7 @@ export default async function ClaimsPage({ searchParams }: ClaimsPageProps) {
     days,
     limit: ITEMS_PER_PAGE,
     offset,
+    groupByCluster: true,
   });
 
   const totalPages = Math.ceil(total / ITEMS_PER_PAGE);
@@ -72,7 +73,8 @@ export default async function ClaimsPage({ searchParams }: ClaimsPageProps) {
       <div className="mb-8">
         <h1 className="text-3xl font-bold mb-2">Claims Browser</h1>
         <p className="text-muted-foreground">
-          Search and filter through extracted claims from AI researchers.
+          Search and filter through extracted claims from AI researchers. Near-duplicate
+          claims are grouped, so each entry is a distinct idea.
         </p>
       </div>
 
@@ -181,7 +183,7 @@ export default async function ClaimsPage({ searchParams }: ClaimsPageProps) {
 
       {/* Results count */}
       <p className="text-sm text-muted-foreground mb-4">
-        Showing {offset + 1}-{Math.min(offset + claims.length, total)} of {total} claims
+        Showing {offset + 1}-{Math.min(offset + claims.length, total)} of {total} distinct claims
         {params.q && ` matching "${params.q}"`}
         {params.topic && ` in topic "${params.topic}"`}
         {params.type && ` of type "${params.type}"`}
@@ -248,9 +250,27 @@ export default async function ClaimsPage({ searchParams }: ClaimsPageProps) {
 
                 {/* Supporting quote if available */}
                 {claim.supporting_quote && (
-                  <blockquote className="border-l-2 border-muted pl-3 text-sm text-muted-foreground italic">
-                    "{claim.supporting_quote}"
-                  </blockquote>
+                  <div className="space-y-1">
+                    <blockquote className="border-l-2 border-muted pl-3 text-sm text-muted-foreground italic">
+                      "{claim.supporting_quote}"
+                    </blockquote>
+                    {claim.quote_verified === true && (
+                      <Badge variant="outline" className="border-green-500 text-green-600 gap-1">
+                        <ShieldCheck className="h-3 w-3" />
+                        Verified quote
+                      </Badge>
+                    )}
+                    {claim.quote_verified === false && (
+                      <Badge
+                        variant="outline"
+                        className="border-orange-500 text-orange-600 gap-1"
+                        title="This quote could not be found in the source text"
+                      >
+                        <ShieldAlert className="h-3 w-3" />
+                        Unverified quote
+                      </Badge>
+                    )}
+                  </div>
                 )}
 
                 {/* Metadata */}
@@ -275,6 +295,17 @@ export default async function ClaimsPage({ searchParams }: ClaimsPageProps) {
                     <Calendar className="h-3 w-3" />
                     <span>{formatRelativeTime(new Date(claim.extracted_at))}</span>
                   </div>
+                  {claim.cluster_size && claim.cluster_size > 1 && (
+                    <div className="flex items-center gap-1">
+                      <Layers className="h-3 w-3" />
+                      <span>
+                        Said {claim.cluster_size} times by {claim.cluster_authors} author
+                        {claim.cluster_authors === 1 ? "" : "s"}
+                        {claim.cluster_first_seen &&
+                          `, first ${formatRelativeTime(new Date(claim.cluster_first_seen))}`}
+                      </span>
+                    </div>
+                  )}
                   {claim.confidence && (
                     <span>Confidence: {Math.round(claim.confidence * 100)}%</span>
                   )}
@@ -3,8 +3,8 @@ import { notFound } from "next/navigation";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Breadcrumb } from "@/components/ui/breadcrumb";
-import { getClaims, getResearchers, getPredictions } from "@/lib/db";
-import { Calendar, ExternalLink, MessageSquare, TrendingUp, Target } from "lucide-react";
+import { getClaims, getResearchers, getPredictions, getResearcherCalibration, getResearcherPapers } from "@/lib/db";
+import { Calendar, ExternalLink, MessageSquare, TrendingUp, Target, Gauge } from "lucide-react";
 
 export const dynamic = "force-dynamic";
 
@@ -17,16 +17,18 @@ export default async function ResearcherPage({ params }: ResearcherPageProps) {
   const decodedHandle = decodeURIComponent(handle);
 
   // Get researcher info and claims
-  const [researchers, claimsResult, predictions] = await Promise.all([
+  const [researchers, claimsResult, predictions, calibration, papers] = await Promise.all([
     getResearchers(365), // Get all researchers
     getClaims({ author: decodedHandle, days: 90, limit: 50 }),
     getPredictions({ author: decodedHandle, limit: 20 }),
+    getResearcherCalibration(decodedHandle),
+    getResearcherPapers(decodedHandle),
   ]);
   const claims = claimsResult.claims;
 
   const researcher = researchers.find((r) => r.handle === decodedHandle);
 
-  if (!researcher && claims.length === 0) {
+  if (!researcher && claims.length === 0 && papers.length === 0) {
     notFound();
   }
 
@@ -230,10 +232,114 @@ export default async function ResearcherPage({ params }: ResearcherPageProps) {
               </CardContent>
             </Card>
           )}
+
+          {/* Papers */}
+          {papers.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Papers</CardTitle>
+                <CardDescription>arXiv papers listing this researcher as an author</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {papers.map((paper) => (
+                    <div key={paper.id} className="border-l-2 border-muted pl-3 py-1">
+                      <div className="flex flex-wrap items-center gap-2 mb-1">
+                        {paper.primary_category && (
+                          <Badge variant="outline" className="text-xs">
+                            {paper.primary_category}
+                          </Badge>
+                        )}
+                        {paper.published_at && (
+                          <span className="text-xs text-muted-foreground">
+                            {new Date(paper.published_at).toLocaleDateString()}
+                          </span>
+                        )}
+                      </div>
+                      {paper.url ? (
+                        <a
+                          href={paper.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-sm font-medium hover:underline inline-flex items-center gap-1"
+                        >
+                          {paper.title || paper.url}
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      ) : (
+                        <p className="text-sm font-medium">{paper.title}</p>
+                      )}
+                      {paper.authors && paper.authors.length > 0 && (
+                        <p className="text-xs text-muted-foreground mt-1">{paper.authors.join(", ")}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         {/* Sidebar */}
         <div className="space-y-6">
+          {/* Calibration */}
+          {calibration && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Gauge className="h-5 w-5" />
+                  Calibration
+                </CardTitle>
+                <CardDescription>
+                  Stated confidence vs. outcomes over {calibration.resolved_count} resolved predictions
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 gap-3 mb-4">
+                  <div>
+                    <p className="text-xs text-muted-foreground">Brier score</p>
+                    <p className="text-lg font-bold">{calibration.brier_score.toFixed(3)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Log loss</p>
+                    <p className="text-lg font-bold">{calibration.log_loss.toFixed(3)}</p>
+                  </div>
+                </div>
+                <p className={`text-sm mb-4 ${
+                  Math.abs(calibration.overconfidence) < 0.05
+                    ? "text-green-600"
+                    : calibration.overconfidence > 0
+                    ? "text-red-600"
+                    : "text-amber-600"
+                }`}>
+                  {Math.abs(calibration.overconfidence) < 0.05
+                    ? "Well calibrated"
+                    : `${calibration.overconfidence > 0 ? "Overconfident" : "Underconfident"} by ${Math.round(Math.abs(calibration.overconfidence) * 100)} points`}
+                </p>
+                <div className="space-y-2">
+                  {calibration.buckets.map((bucket) => (
+                    <div key={bucket.lower} className="space-y-1">
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>
+                          Said {Math.round(bucket.lower * 100)}–{Math.round(bucket.upper * 100)}%
+                        </span>
+                        <span>
+                          {Math.round(bucket.observed_rate * 100)}% right (n={bucket.count})
+                        </span>
+                      </div>
+                      <div className="h-2 bg-muted rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-primary rounded-full"
+                          style={{ width: `${bucket.observed_rate * 100}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Top Topics */}
           <Card>
             <CardHeader>
@@ -3,8 +3,15 @@ import { notFound } from "next/navigation";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Breadcrumb } from "@/components/ui/breadcrumb";
-import { getClaims, getTopicStats } from "@/lib/db";
-import { Calendar, User, ExternalLink, FlaskConical, Users, ArrowRight } from "lucide-react";
+import {
+  getArgumentMaps,
+  getClaimRelations,
+  getClaims,
+  getTopicStats,
+  type ArgumentMap,
+  type ClaimRelation,
+} from "@/lib/db";
+import { Calendar, User, ExternalLink, FlaskConical, Users, ArrowRight, Scale } from "lucide-react";
 
 export const dynamic = "force-dynamic";
 
@@ -32,9 +39,10 @@ export default async function TopicPage({ params }: TopicPageProps) {
   const decodedTopic = decodeURIComponent(topic);
 
   // Get topic stats and claims
-  const [topicStats, claimsResult] = await Promise.all([
+  const [topicStats, claimsResult, argumentMaps] = await Promise.all([
     getTopicStats(30),
     getClaims({ topic: decodedTopic, days: 30, limit: 50 }),
+    getArgumentMaps({ topic: decodedTopic, days: 30, limit: 5 }),
   ]);
   const claims = claimsResult.claims;
 
@@ -46,6 +54,13 @@ export default async function TopicPage({ params }: TopicPageProps) {
 
   const labClaims = claims.filter((c) => c.author_category === "lab-researcher");
   const criticClaims = claims.filter((c) => c.author_category === "critic");
+
+  const shownClaims = [...labClaims.slice(0, 10), ...criticClaims.slice(0, 10)];
+  const relations = await getClaimRelations(shownClaims.map((c) => c.id));
+  const relationsByClaim = new Map<string, ClaimRelation[]>();
+  for (const relation of relations) {
+    relationsByClaim.set(relation.claim_id, [...(relationsByClaim.get(relation.claim_id) ?? []), relation]);
+  }
   const bullishness = Number(stats?.avg_bullishness) || 0.5;
 
   return (
@@ -139,7 +154,7 @@ export default async function TopicPage({ params }: TopicPageProps) {
                 <p className="text-sm text-muted-foreground">No lab researcher claims on this topic.</p>
               ) : (
                 labClaims.slice(0, 10).map((claim) => (
-                  <ClaimItem key={claim.id} claim={claim} />
+                  <ClaimItem key={claim.id} claim={claim} relations={relationsByClaim.get(claim.id)} />
                 ))
               )}
             </div>
@@ -163,7 +178,7 @@ export default async function TopicPage({ params }: TopicPageProps) {
                 <p className="text-sm text-muted-foreground">No critic claims on this topic.</p>
               ) : (
                 criticClaims.slice(0, 10).map((claim) => (
-                  <ClaimItem key={claim.id} claim={claim} />
+                  <ClaimItem key={claim.id} claim={claim} relations={relationsByClaim.get(claim.id)} />
                 ))
               )}
             </div>
@@ -171,6 +186,28 @@ export default async function TopicPage({ params }: TopicPageProps) {
         </Card>
       </div>
 
+      {/* Critic arguments */}
+      {argumentMaps.length > 0 && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="h-5 w-5 text-orange-500" />
+              Critic Arguments
+            </CardTitle>
+            <CardDescription>
+              The structure behind long-form critiques: thesis, premises, and what they concede
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-6">
+              {argumentMaps.map((argument) => (
+                <ArgumentItem key={argument.id} argument={argument} />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* All claims link */}
       <div className="mt-6 text-center">
         <Link
@@ -186,6 +223,7 @@ export default async function TopicPage({ params }: TopicPageProps) {
 }
 
 interface ClaimItemProps {
+  relations?: ClaimRelation[];
   claim: {
     id: string;
     claim_text: string;
@@ -197,7 +235,7 @@ interface ClaimItemProps {
   };
 }
 
-function ClaimItem({ claim }: ClaimItemProps) {
+function ClaimItem({ claim, relations = [] }: ClaimItemProps) {
   return (
     <div className="border-l-2 border-muted pl-3 py-1">
       <div className="flex flex-wrap items-center gap-2 mb-1">
@@ -246,6 +284,97 @@ function ClaimItem({ claim }: ClaimItemProps) {
           </a>
         )}
       </div>
+      {relations.slice(0, 2).map((relation) => (
+        <RelationLine key={relation.other_claim_id} relation={relation} />
+      ))}
+    </div>
+  );
+}
+
+function RelationLine({ relation }: { relation: ClaimRelation }) {
+  const who = relation.other_author_handle ? `@${relation.other_author_handle}` : "Someone";
+  const verb = relation.relation === "contradicts" ? "said the opposite" : "agreed";
+  const when =
+    relation.days_apart === 0
+      ? "the same day"
+      : `${relation.days_apart} day${relation.days_apart === 1 ? "" : "s"} ${relation.direction}`;
+
+  return (
+    <p
+      className={`mt-2 text-xs ${relation.relation === "contradicts" ? "text-red-600" : "text-green-600"}`}
+      title={relation.other_claim_text}
+    >
+      {relation.other_author_handle ? (
+        <Link href={`/researchers/${relation.other_author_handle}`} className="hover:underline">
+          {who}
+        </Link>
+      ) : (
+        who
+      )}{" "}
+      {verb} {when}: &ldquo;{relation.other_claim_text.slice(0, 100)}
+      {relation.other_claim_text.length > 100 ? "..." : ""}&rdquo;
+    </p>
+  );
+}
+
+function ArgumentItem({ argument }: { argument: ArgumentMap }) {
+  return (
+    <div className="border-l-2 border-orange-200 pl-4">
+      <p className="font-medium mb-1">{argument.main_thesis}</p>
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground mb-3">
+        {argument.author_handle && (
+          <Link
+            href={`/researchers/${argument.author_handle}`}
+            className="flex items-center gap-1 hover:underline"
+          >
+            <User className="h-3 w-3" />
+            @{argument.author_handle}
+          </Link>
+        )}
+        {argument.url && (
+          <a
+            href={argument.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 hover:underline"
+          >
+            <ExternalLink className="h-3 w-3" />
+            {argument.title || "Source"}
+          </a>
+        )}
+        {argument.claim_ids.length > 0 && (
+          <span>{argument.claim_ids.length} linked claims</span>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 text-sm">
+        <ArgumentList label="Premises" items={argument.premises} ordered />
+        <ArgumentList label="Evidence cited" items={argument.evidence} />
+        <ArgumentList label="Concessions" items={argument.concessions} />
+        <ArgumentList label="Weaknesses" items={argument.weaknesses} />
+      </div>
+
+      {argument.steelman_response && (
+        <div className="mt-3 text-sm">
+          <p className="text-xs font-medium text-muted-foreground mb-1">Steelman response</p>
+          <p className="text-muted-foreground">{argument.steelman_response}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ArgumentList({ label, items, ordered = false }: { label: string; items: string[]; ordered?: boolean }) {
+  if (items.length === 0) return null;
+  const List = ordered ? "ol" : "ul";
+  return (
+    <div>
+      <p className="text-xs font-medium text-muted-foreground mb-1">{label}</p>
+      <List className={`${ordered ? "list-decimal" : "list-disc"} pl-4 space-y-1`}>
+        {items.map((item, i) => (
+          <li key={i}>{item}</li>
+        ))}
+      </List>
     </div>
   );
 }
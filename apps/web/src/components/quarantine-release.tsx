@@ -0,0 +1,49 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useRouter } from "next/navigation";
+
+interface QuarantineReleaseProps {
+  sourceId: number;
+  identifier: string;
+}
+
+export function QuarantineRelease({ sourceId, identifier }: QuarantineReleaseProps) {
+  const [loading, setLoading] = useState(false);
+  const router = useRouter();
+
+  async function release() {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/admin/sources/${sourceId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ clear_quarantine: true }),
+      });
+
+      if (response.ok) {
+        router.refresh();
+      } else {
+        const data = await response.json();
+        alert(data.error || "Failed to clear quarantine");
+      }
+    } catch (error) {
+      alert("Failed to clear quarantine");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={release}
+      disabled={loading}
+      aria-label={`Clear quarantine of ${identifier}`}
+    >
+      {loading ? "Clearing..." : "Clear quarantine"}
+    </Button>
+  );
+}
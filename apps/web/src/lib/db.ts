@@ -6,6 +6,7 @@
  */
 
 import pg from "pg";
+import { computeCalibration, predictionOutcome, RESOLVED_STATUSES } from "@hypedelta/predictions";
 const { Pool } = pg;
 
 // Singleton pool instance
@@ -59,10 +60,18 @@ export interface Claim {
   related_to: string[] | null;
   original_quote: string | null;
   supporting_quote: string | null;
+  // Whether supporting_quote was found in the source text (null when there is no quote)
+  quote_verified: boolean | null;
+  quote_match_score: number | null;
   author_handle: string | null;
   author_category: string | null;
   source_url: string | null;
   extracted_at: string;
+  // Set when claims are grouped by cluster
+  cluster_id?: number | null;
+  cluster_size?: number;
+  cluster_authors?: number;
+  cluster_first_seen?: string | null;
 }
 
 export async function getClaims(options: {
@@ -74,8 +83,13 @@ export async function getClaims(options: {
   days?: number;
   limit?: number;
   offset?: number;
+  // Return one row (the latest matching member) per claim cluster, so
+  // near-duplicates count once
+  groupByCluster?: boolean;
 }): Promise<{ claims: Claim[]; total: number }> {
-  const { topic, author, authorCategory, claimType, search, days = 30, limit = 50, offset = 0 } = options;
+  const {
+    topic, author, authorCategory, claimType, search, days = 30, limit = 50, offset = 0, groupByCluster = false,
+  } = options;
 
   // Input validation
   const safeDays = Math.max(1, Math.min(365, Math.floor(Number(days) || 30)));
@@ -96,9 +110,11 @@ export async function getClaims(options: {
   }
 
   if (author) {
-    // The authoritative author is the source identifier (extracted_claims.author
-    // is frequently NULL), so filter via the content -> source relationship.
-    conditions.push(`s.identifier = $${paramIndex++}`);
+    // The authoritative author is the content's matched researcher (papers),
+    // else the source's researcher handle, else its identifier
+    // (extracted_claims.author is frequently NULL), so filter via the
+    // content -> source relationship.
+    conditions.push(`COALESCE(c.researcher, s.researcher, s.identifier) = $${paramIndex++}`);
     params.push(author);
   }
 
@@ -124,20 +140,48 @@ export async function getClaims(options: {
      JOIN content c ON e.content_id = c.id
      JOIN sources s ON c.source_id = s.id`;
 
+  // Unclustered claims are their own group
+  const groupKey = `COALESCE('cluster_' || e.cluster_id::text, e.id)`;
+
   // Get total count
   const countResult = await queryOne<{ count: string }>(
-    `SELECT COUNT(*) as count ${fromClause} ${whereClause}`,
+    `SELECT COUNT(${groupByCluster ? `DISTINCT ${groupKey}` : "*"}) as count ${fromClause} ${whereClause}`,
     params
   );
   const total = parseInt(countResult?.count || "0", 10);
 
-  // Get claims with aliased fields. author_handle resolves to the source
-  // identifier so it is consistent with the researcher views.
+  if (groupByCluster) {
+    const claims = await query<Claim>(
+      `SELECT * FROM (
+         SELECT DISTINCT ON (${groupKey})
+           e.id, e.content_id, e.claim_text, e.claim_type, e.topic, e.stance, e.bullishness, e.confidence,
+           e.timeframe, e.target_entity, e.evidence_provided, e.quoteworthiness, e.related_to,
+           e.original_quote as supporting_quote, e.quote_verified, e.quote_match_score,
+           COALESCE(c.researcher, s.researcher, s.identifier) as author_handle, e.author_category,
+           e.source_url, e.extracted_at, e.cluster_id,
+           COALESCE(cl.member_count, 1) as cluster_size,
+           COALESCE(cl.author_count, 1) as cluster_authors,
+           cl.first_seen as cluster_first_seen
+         ${fromClause}
+         LEFT JOIN claim_clusters cl ON cl.id = e.cluster_id
+         ${whereClause}
+         ORDER BY ${groupKey}, e.extracted_at DESC
+       ) grouped
+       ORDER BY extracted_at DESC
+       LIMIT $${paramIndex++} OFFSET $${paramIndex}`,
+      [...params, safeLimit, safeOffset]
+    );
+    return { claims, total };
+  }
+
+  // Get claims with aliased fields. author_handle resolves the same way as the
+  // author filter above so it is consistent with the researcher views.
   const claims = await query<Claim>(
     `SELECT
        e.id, e.content_id, e.claim_text, e.claim_type, e.topic, e.stance, e.bullishness, e.confidence,
        e.timeframe, e.target_entity, e.evidence_provided, e.quoteworthiness, e.related_to,
-       e.original_quote as supporting_quote, s.identifier as author_handle, e.author_category,
+       e.original_quote as supporting_quote, e.quote_verified, e.quote_match_score,
+       COALESCE(c.researcher, s.researcher, s.identifier) as author_handle, e.author_category,
        e.source_url, e.extracted_at
      ${fromClause} ${whereClause}
      ORDER BY e.extracted_at DESC
@@ -154,7 +198,8 @@ export async function getClaimsByTopic(topic: string, days = 30): Promise<Claim[
     `SELECT
        id, content_id, claim_text, claim_type, topic, stance, bullishness, confidence,
        timeframe, target_entity, evidence_provided, quoteworthiness, related_to,
-       original_quote as supporting_quote, author as author_handle, author_category,
+       original_quote as supporting_quote, quote_verified, quote_match_score,
+       author as author_handle, author_category,
        source_url, extracted_at
      FROM extracted_claims
      WHERE topic = $1 AND extracted_at > NOW() - make_interval(days => $2)
@@ -163,6 +208,106 @@ export async function getClaimsByTopic(topic: string, days = 30): Promise<Claim[
   );
 }
 
+export interface ClaimRelation {
+  claim_id: string;
+  other_claim_id: string;
+  relation: "supports" | "contradicts";
+  // "earlier": claim_id was made after the other claim; "later": before it
+  direction: "earlier" | "later";
+  confidence: number;
+  other_claim_text: string;
+  other_author_handle: string | null;
+  other_extracted_at: string;
+  days_apart: number;
+}
+
+/**
+ * Supporting/contradicting edges for the given claims, seen from each claim's
+ * side, e.g. "X said the opposite three days earlier".
+ */
+export async function getClaimRelations(claimIds: string[]): Promise<ClaimRelation[]> {
+  if (claimIds.length === 0) return [];
+  return query<ClaimRelation>(
+    `SELECT
+       r.claim_id, r.other_claim_id, r.relation, r.direction, r.confidence,
+       o.claim_text as other_claim_text, COALESCE(oc.researcher, s.researcher, s.identifier) as other_author_handle,
+       o.extracted_at as other_extracted_at,
+       ABS(EXTRACT(DAY FROM (COALESCE(oc.published_at, o.extracted_at) - COALESCE(mc.published_at, m.extracted_at))))::int as days_apart
+     FROM (
+       SELECT source_claim_id as claim_id, target_claim_id as other_claim_id, relation,
+              'earlier' as direction, confidence
+       FROM claim_edges WHERE source_claim_id = ANY($1)
+       UNION ALL
+       SELECT target_claim_id, source_claim_id, relation, 'later', confidence
+       FROM claim_edges WHERE target_claim_id = ANY($1)
+     ) r
+     JOIN extracted_claims m ON m.id = r.claim_id
+     JOIN extracted_claims o ON o.id = r.other_claim_id
+     LEFT JOIN content mc ON mc.id = m.content_id
+     LEFT JOIN content oc ON oc.id = o.content_id
+     LEFT JOIN sources s ON s.id = oc.source_id
+     ORDER BY r.confidence DESC`,
+    [claimIds]
+  );
+}
+
+// ============================================================================
+// ARGUMENT MAPS
+// ============================================================================
+
+export interface ArgumentMap {
+  id: number;
+  content_id: number;
+  author_handle: string | null;
+  topic: string;
+  main_thesis: string;
+  premises: string[];
+  evidence: string[];
+  target_claims: string[];
+  concessions: string[];
+  weaknesses: string[];
+  steelman_response: string | null;
+  claim_ids: string[];
+  title: string | null;
+  url: string | null;
+  published_at: string | null;
+}
+
+export async function getArgumentMaps(options: {
+  topic?: string;
+  days?: number;
+  limit?: number;
+}): Promise<ArgumentMap[]> {
+  const { topic, days = 30, limit = 10 } = options;
+  const safeDays = Math.max(1, Math.min(365, Math.floor(Number(days) || 30)));
+  const safeLimit = Math.max(1, Math.min(100, Math.floor(Number(limit) || 10)));
+
+  const conditions = [`c.published_at > NOW() - make_interval(days => $1)`];
+  const params: unknown[] = [safeDays];
+
+  if (topic) {
+    params.push(topic);
+    conditions.push(`a.topic = $${params.length}`);
+  }
+
+  params.push(safeLimit);
+  return query<ArgumentMap>(
+    `SELECT
+       a.id, a.content_id, COALESCE(c.researcher, s.researcher, s.identifier) as author_handle, a.topic, a.main_thesis,
+       COALESCE(a.premises, '{}') as premises, COALESCE(a.evidence, '{}') as evidence,
+       COALESCE(a.target_claims, '{}') as target_claims, COALESCE(a.concessions, '{}') as concessions,
+       COALESCE(a.weaknesses, '{}') as weaknesses, a.steelman_response,
+       COALESCE(a.claim_ids, '{}') as claim_ids, c.title, c.url, c.published_at
+     FROM argument_maps a
+     JOIN content c ON a.content_id = c.id
+     JOIN sources s ON c.source_id = s.id
+     WHERE ${conditions.join(" AND ")}
+     ORDER BY c.published_at DESC
+     LIMIT $${params.length}`,
+    params
+  );
+}
+
 // ============================================================================
 // TOPICS
 // ============================================================================
@@ -301,11 +446,20 @@ export interface Source {
   identifier: string;
   author_name: string | null;
   category: string | null;
+  researcher: string | null;
   tags: string[] | null;
   last_fetched: string | null;
   fetch_frequency_hours: number | null;
   is_active: boolean;
   created_at: string;
+  // Fetch health, recorded by the core fetcher
+  consecutive_failures: number;
+  last_error: string | null;
+  last_error_at: string | null;
+  last_success_at: string | null;
+  avg_item_yield: number | null;
+  next_fetch_at: string | null;
+  quarantined_at: string | null;
 }
 
 export async function getSources(): Promise<Source[]> {
@@ -320,6 +474,48 @@ export async function getActiveSources(): Promise<Source[]> {
   );
 }
 
+/** A change in a source's fetch health: failing, quarantined, recovered or released */
+export interface SourceAlert {
+  id: number;
+  source_id: number;
+  identifier: string;
+  type: string;
+  kind: "failing" | "quarantined" | "recovered" | "released";
+  message: string | null;
+  created_at: string;
+}
+
+export async function getSourceAlerts(limit = 20): Promise<SourceAlert[]> {
+  return query<SourceAlert>(
+    `SELECT a.id, a.source_id, s.identifier, s.type, a.kind, a.message, a.created_at
+     FROM source_alerts a
+     JOIN sources s ON s.id = a.source_id
+     ORDER BY a.created_at DESC
+     LIMIT $1`,
+    [limit]
+  );
+}
+
+/** Source adapters registered in the core, synced by `seed` and `adapters --sync` */
+export interface SourceAdapter {
+  type: string;
+  display_name: string;
+  description: string | null;
+  identifier_label: string | null;
+  profile_url: string | null;
+  min_interval_ms: number | null;
+  default_fetch_frequency_hours: number | null;
+}
+
+export async function getSourceAdapters(): Promise<SourceAdapter[]> {
+  return query<SourceAdapter>(
+    `SELECT type, display_name, description, identifier_label, profile_url,
+            min_interval_ms, default_fetch_frequency_hours
+     FROM source_adapters
+     ORDER BY type`
+  );
+}
+
 // ============================================================================
 // CONTENT
 // ============================================================================
@@ -336,7 +532,7 @@ export async function getContentStats(): Promise<ContentStats> {
     `SELECT
        COUNT(*) as total_content,
        COUNT(*) FILTER (WHERE processed_at IS NOT NULL) as processed_content,
-       COUNT(*) FILTER (WHERE processed_at IS NULL) as unprocessed_content,
+       COUNT(*) FILTER (WHERE processed_at IS NULL AND duplicate_of IS NULL) as unprocessed_content,
        COUNT(*) FILTER (WHERE fetched_at > NOW() - INTERVAL '24 hours') as content_last_24h
      FROM content`
   );
@@ -360,12 +556,14 @@ export interface ResearcherStats {
 export async function getResearchers(days = 30): Promise<ResearcherStats[]> {
   const safeDays = Math.max(1, Math.min(365, Math.floor(Number(days) || 30)));
   // Get researchers with claim stats via content->source join
-  // (author field in extracted_claims may be NULL, but source relationship exists)
+  // (author field in extracted_claims may be NULL, but source relationship exists).
+  // Accounts linked to one researcher are counted together under their handle,
+  // as are papers matched to them (whose source is the arXiv feed, not theirs).
   const researchers = await query<ResearcherStats>(
     `SELECT
-       s.identifier as handle,
-       s.author_name as name,
-       s.category as category,
+       COALESCE(c.researcher, s.researcher, s.identifier) as handle,
+       MAX(s.author_name) FILTER (WHERE c.researcher IS NULL) as name,
+       MAX(s.category) FILTER (WHERE c.researcher IS NULL) as category,
        NULL as affiliation,
        COUNT(DISTINCT e.id) as claim_count,
        AVG(e.bullishness) as avg_bullishness,
@@ -377,10 +575,10 @@ export async function getResearchers(days = 30): Promise<ResearcherStats[]> {
        SELECT author, COUNT(*) as prediction_count
        FROM predictions
        GROUP BY author
-     ) p ON s.identifier = p.author
+     ) p ON COALESCE(c.researcher, s.researcher, s.identifier) = p.author
      WHERE e.extracted_at > NOW() - make_interval(days => $1)
-       AND s.type != 'arxiv'
-     GROUP BY s.identifier, s.author_name, s.category, p.prediction_count
+       AND (s.type != 'arxiv' OR c.researcher IS NOT NULL)
+     GROUP BY COALESCE(c.researcher, s.researcher, s.identifier), p.prediction_count
      ORDER BY claim_count DESC
      LIMIT 100`,
     [safeDays]
@@ -395,17 +593,44 @@ export async function getResearcherClaims(author: string, days = 90): Promise<Cl
     `SELECT
        e.id, e.content_id, e.claim_text, e.claim_type, e.topic, e.stance, e.bullishness, e.confidence,
        e.timeframe, e.target_entity, e.evidence_provided, e.quoteworthiness, e.related_to,
-       e.original_quote as supporting_quote, s.identifier as author_handle, e.author_category,
+       e.original_quote as supporting_quote, e.quote_verified, e.quote_match_score,
+       COALESCE(c.researcher, s.researcher, s.identifier) as author_handle, e.author_category,
        e.source_url, e.extracted_at
      FROM extracted_claims e
      JOIN content c ON e.content_id = c.id
      JOIN sources s ON c.source_id = s.id
-     WHERE s.identifier = $1 AND e.extracted_at > NOW() - make_interval(days => $2)
+     WHERE COALESCE(c.researcher, s.researcher, s.identifier) = $1 AND e.extracted_at > NOW() - make_interval(days => $2)
      ORDER BY e.extracted_at DESC`,
     [author, safeDays]
   );
 }
 
+export interface ResearcherPaper {
+  id: number;
+  title: string | null;
+  url: string | null;
+  published_at: string | null;
+  authors: string[] | null;
+  primary_category: string | null;
+}
+
+/** arXiv papers with the researcher among their matched authors */
+export async function getResearcherPapers(handle: string, limit = 20): Promise<ResearcherPaper[]> {
+  const safeLimit = Math.max(1, Math.min(100, Math.floor(Number(limit) || 20)));
+  return query<ResearcherPaper>(
+    `SELECT
+       c.id, c.title, c.url, c.published_at,
+       ARRAY(SELECT jsonb_array_elements_text(c.metadata->'authors')) as authors,
+       c.metadata->>'primaryCategory' as primary_category
+     FROM content c
+     JOIN sources s ON c.source_id = s.id
+     WHERE s.type = 'arxiv' AND c.metadata->'researchers' ? $1
+     ORDER BY c.published_at DESC
+     LIMIT $2`,
+    [handle, safeLimit]
+  );
+}
+
 // ============================================================================
 // PREDICTIONS
 // ============================================================================
@@ -462,6 +687,64 @@ export async function getPredictions(options: {
   );
 }
 
+export interface CalibrationBucket {
+  lower: number;
+  upper: number;
+  count: number;
+  mean_confidence: number;
+  observed_rate: number;
+}
+
+export interface Calibration {
+  resolved_count: number;
+  brier_score: number;
+  log_loss: number;
+  mean_confidence: number;
+  observed_rate: number;
+  // mean_confidence - observed_rate; positive means overconfident
+  overconfidence: number;
+  buckets: CalibrationBucket[];
+}
+
+/**
+ * Calibration of an author's resolved predictions against the confidence they
+ * were made with, scored by the core package's computeCalibration so the page
+ * agrees with PredictionTracker.getCalibration.
+ */
+export async function getResearcherCalibration(author: string): Promise<Calibration | null> {
+  const rows = await query<{ confidence: number; status: string; accuracy_score: number | null }>(
+    `SELECT confidence, status, accuracy_score
+     FROM predictions
+     WHERE author = $1
+       AND status = ANY($2)
+       AND confidence IS NOT NULL`,
+    [author, RESOLVED_STATUSES]
+  );
+
+  const resolved = rows.flatMap((row) => {
+    const outcome = predictionOutcome(row.status, row.accuracy_score);
+    return outcome === null ? [] : [{ confidence: Number(row.confidence), outcome }];
+  });
+  if (resolved.length === 0) return null;
+
+  const report = computeCalibration(author, resolved);
+  return {
+    resolved_count: report.count,
+    brier_score: report.brierScore,
+    log_loss: report.logLoss,
+    mean_confidence: report.meanConfidence,
+    observed_rate: report.observedRate,
+    overconfidence: report.overconfidence,
+    buckets: report.buckets.map((b) => ({
+      lower: b.lower,
+      upper: b.upper,
+      count: b.count,
+      mean_confidence: b.meanConfidence,
+      observed_rate: b.observedRate,
+    })),
+  };
+}
+
 // ============================================================================
 // SYSTEM STATUS
 // ============================================================================
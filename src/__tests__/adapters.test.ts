@@ -0,0 +1,242 @@
+/**
+ * Source Adapter Registry Tests
+ *
+ * Tests for adapter registration, dispatch from the fetcher, and seeding
+ * sources from data/sources.json through each adapter's config schema.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('pg', () => {
+  const mockQuery = vi.fn();
+  const MockPool = vi.fn(() => ({
+    query: mockQuery,
+    end: vi.fn(),
+    connect: vi.fn(async () => ({ query: mockQuery, release: vi.fn() })),
+  }));
+  return { default: { Pool: MockPool }, Pool: MockPool };
+});
+
+vi.mock('../../data/sources.json', () => ({
+  default: {
+    twitter: [
+      { handle: 'karpathy', name: 'Andrej Karpathy', category: 'independent', priority: 'high' },
+      { name: 'No handle', category: 'openai' },
+    ],
+    lesswrong: [{ tag: 'ai', name: 'LessWrong AI' }],
+    notAnAdapter: [{ id: 'ignored' }],
+    researchers: [
+      { handle: 'karpathy', accounts: { twitter: 'karpathy', mastodon: '@karpathy@example.social' } },
+      { accounts: { twitter: 'nobody' } },
+    ],
+  },
+}));
+
+import pg from 'pg';
+import { getAdapter, listAdapters, registerAdapter, type SourceAdapter } from '../adapters';
+import { AIIntelFetcher, researcherNameKey, seedSources } from '../fetcher';
+import { z } from 'zod';
+
+const mockPool = new pg.Pool({ connectionString: 'mock://test' });
+const mockQuery = mockPool.query as ReturnType<typeof vi.fn>;
+
+describe('source adapter registry', () => {
+  it('should register the built-in adapters', () => {
+    expect(listAdapters().map(a => a.type)).toEqual([
+      'twitter', 'substack', 'youtube', 'blog', 'podcast', 'lesswrong', 'arxiv', 'bluesky', 'hackernews', 'reddit', 'github', 'mastodon',
+    ]);
+    // Built-in adapters leave request spacing to the shared limiter
+    expect(getAdapter('arxiv')?.rateLimit.minIntervalMs).toBe(0);
+    expect(getAdapter('threads')).toBeUndefined();
+  });
+
+  it('should reject a second adapter for the same type', () => {
+    expect(() => registerAdapter({ ...getAdapter('blog')! })).toThrow('already registered');
+  });
+
+  it('should convert sources.json entries with the adapter defaults', () => {
+    const twitter = getAdapter('twitter')!;
+    const lesswrong = getAdapter('lesswrong')!;
+
+    expect(twitter.toSource(twitter.configSchema.parse({ handle: 'a', category: 'openai', priority: 'high' })))
+      .toMatchObject({ type: 'twitter', identifier: 'a', fetchFrequencyHours: 4 });
+    expect(lesswrong.toSource(lesswrong.configSchema.parse({ tag: 'ai' })))
+      .toMatchObject({ identifier: 'ai', category: 'safety', fetchFrequencyHours: 12 });
+    expect(twitter.configSchema.safeParse({ name: 'No handle' }).success).toBe(false);
+  });
+});
+
+describe('AIIntelFetcher.fetchSource', () => {
+  const fetcher = new AIIntelFetcher({ dbUrl: 'postgresql://localhost/test' });
+
+  it('should dispatch to the adapter registered for the source type', async () => {
+    const fetch = vi.fn(async () => [{
+      id: '1',
+      source: 'custom',
+      sourceType: 'custom-feed',
+      author: 'someone',
+      content: 'hello',
+      publishedAt: new Date(),
+    }]);
+    registerAdapter({
+      type: 'custom-feed',
+      displayName: 'Custom',
+      description: 'Test adapter',
+      identifierLabel: 'Feed ID',
+      defaultFetchFrequencyHours: 24,
+      rateLimit: { minIntervalMs: 0 },
+      configSchema: z.object({ id: z.string() }),
+      toSource: entry => ({ type: 'custom-feed', identifier: entry.id }),
+      fetch,
+    } satisfies SourceAdapter<{ id: string }>);
+
+    const source = { type: 'custom-feed', identifier: 'feed-1' };
+    const context = { validators: {} };
+    const content = await fetcher.fetchSource(source, context);
+
+    expect(fetch).toHaveBeenCalledWith(source, context);
+    expect(content[0].content).toBe('hello');
+  });
+
+  it('should throw for a type with no adapter', async () => {
+    await expect(fetcher.fetchSource({ type: 'gopher', identifier: 'x' }))
+      .rejects.toThrow('Unknown source type: gopher');
+  });
+});
+
+describe('link-only duplicates', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should store link posts to ingested content as its duplicates', async () => {
+    const item = (id: string, linksTo?: string) => ({
+      id, source: 'links', sourceType: 'link-feed', author: 'a', content: id, linksTo, publishedAt: new Date(),
+    });
+    registerAdapter({
+      type: 'link-feed',
+      displayName: 'Links',
+      description: 'Test adapter',
+      identifierLabel: 'Feed',
+      defaultFetchFrequencyHours: 24,
+      rateLimit: { minIntervalMs: 0 },
+      configSchema: z.object({}),
+      toSource: () => ({ type: 'link-feed', identifier: 'x' }),
+      fetch: async () => [
+        item('seen', 'http://blog.example.com/post'),
+        item('unseen', 'https://blog.example.com/other'),
+        item('self-post'),
+      ],
+    });
+    // The blog post is stored from another source as https://blog.example.com/post
+    mockQuery.mockImplementation(async (sql: string, params?: any[]) => {
+      if (sql.includes('bit_count')) {
+        return { rows: params?.[2] === 'https://blog.example.com/post' ? [{ id: 7, reason: 'link' }] : [] };
+      }
+      if (sql.includes('SELECT external_id')) return { rows: [] };
+      return { rows: [{ id: 1, inserted: true }] };
+    });
+
+    const fetcher = new AIIntelFetcher({ dbUrl: 'postgresql://localhost/test' });
+    const { successful } = await fetcher.fetchSources([{ id: 1, type: 'link-feed', identifier: 'x' }]);
+
+    const stored = mockQuery.mock.calls
+      .filter(([sql]) => sql.includes('INSERT INTO content'))
+      .map(([, params]) => ({ id: params[1], sharedUrl: params[15], duplicateOf: params[17] }));
+    expect(stored).toEqual([
+      { id: 'seen', sharedUrl: 'https://blog.example.com/post', duplicateOf: 7 },
+      { id: 'unseen', sharedUrl: 'https://blog.example.com/other', duplicateOf: null },
+      { id: 'self-post', sharedUrl: null, duplicateOf: null },
+    ]);
+    expect(successful[0]).toMatchObject({ count: 3, duplicates: 1, new: 3 });
+  });
+});
+
+describe('paper author attribution', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should compare names without accents, punctuation or middle initials', () => {
+    expect(researcherNameKey('Quoc V. Le')).toBe(researcherNameKey('Quoc Le'));
+    expect(researcherNameKey('José Hernández-Orallo')).toBe('jose orallo');
+    expect(researcherNameKey('Prince')).toBe('');
+  });
+
+  it('should attribute papers to the first tracked researcher among their authors', async () => {
+    registerAdapter({
+      type: 'paper-feed',
+      displayName: 'Papers',
+      description: 'Test adapter',
+      identifierLabel: 'Feed',
+      defaultFetchFrequencyHours: 24,
+      rateLimit: { minIntervalMs: 0 },
+      configSchema: z.object({}),
+      toSource: () => ({ type: 'paper-feed', identifier: 'x' }),
+      fetch: async () => [
+        { id: 'p1', source: 'papers', sourceType: 'paper-feed', author: 'A et al.', content: 'x', publishedAt: new Date(),
+          authors: ['Ana Smith', 'Denny Zhou', 'Jason  Wei'] },
+        { id: 'p2', source: 'papers', sourceType: 'paper-feed', author: 'B', content: 'y', publishedAt: new Date(),
+          authors: ['Untracked Person'] },
+      ],
+    });
+    mockQuery.mockImplementation(async (sql: string) =>
+      sql.includes('author_name as name')
+        ? { rows: [{ name: 'Jason Wei', handle: '_jasonwei' }, { name: 'Denny Zhou', handle: 'denny_zhou' }] }
+        : { rows: [{ id: 1, inserted: true }] }
+    );
+
+    const fetcher = new AIIntelFetcher({ dbUrl: 'postgresql://localhost/test' });
+    await fetcher.fetchSources([{ id: 1, type: 'paper-feed', identifier: 'x' }]);
+
+    const inserts = mockQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO content'));
+    expect(inserts[0][1][12]).toBe('denny_zhou');
+    expect(JSON.parse(inserts[0][1][10]).researchers).toEqual(['denny_zhou', '_jasonwei']);
+    expect(inserts[1][1][12]).toBeNull();
+  });
+});
+
+describe('seedSources', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.mockResolvedValue({ rows: [{ id: 1 }] });
+  });
+
+  it('should upsert valid entries and skip ones failing the adapter schema', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await seedSources('postgresql://localhost/test');
+
+    const sourceInserts = mockQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO sources'));
+    expect(sourceInserts.map(([, params]) => params.slice(0, 2))).toEqual([
+      ['twitter', 'karpathy'],
+      ['lesswrong', 'ai'],
+    ]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Skipping invalid twitter source'));
+  });
+
+  it("should link each researcher's accounts under their handle", async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await seedSources('postgresql://localhost/test');
+
+    const links = mockQuery.mock.calls.filter(([sql]) => sql.includes('SET researcher = $1'));
+    expect(links).toHaveLength(1);
+    expect(links[0][1]).toEqual(['karpathy', ['twitter', 'mastodon'], ['karpathy', '@karpathy@example.social']]);
+    // The mocked update reports one linked row of two
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("1 of 2 accounts aren't seeded sources"));
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Skipping invalid researcher'));
+  });
+
+  it('should mirror every registered adapter into source_adapters', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await seedSources('postgresql://localhost/test');
+
+    const adapterInserts = mockQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO source_adapters'));
+    expect(adapterInserts.map(([, params]) => params[0])).toEqual(listAdapters().map(a => a.type));
+    expect(adapterInserts[0][1]).toContain('https://twitter.com/{identifier}');
+  });
+});
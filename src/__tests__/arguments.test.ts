@@ -0,0 +1,66 @@
+/**
+ * Argument Mapping Tests
+ *
+ * Tests for selecting long-form critiques and normalizing argument maps.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { argumentMapFromResult, isLongFormCritique, ARGUMENT_MIN_LENGTH } from '../arguments';
+import type { FilteredContent } from '../types';
+
+const essay = (overrides: Partial<FilteredContent> = {}): FilteredContent => ({
+  source: 'garymarcus',
+  sourceType: 'substack',
+  author: 'Gary Marcus',
+  content: 'x'.repeat(ARGUMENT_MIN_LENGTH),
+  publishedAt: new Date(),
+  relevance: 0.9,
+  topic: 'reasoning',
+  contentType: 'critique',
+  isSubstantive: true,
+  authorCategory: 'critic',
+  ...overrides,
+});
+
+describe('isLongFormCritique', () => {
+  it('should accept long-form critic content from essay sources', () => {
+    expect(isLongFormCritique(essay())).toBe(true);
+    expect(isLongFormCritique(essay({ sourceType: 'lesswrong' }))).toBe(true);
+  });
+
+  it('should skip short items, other sources and non-critics', () => {
+    expect(isLongFormCritique(essay({ content: 'Too short to map' }))).toBe(false);
+    expect(isLongFormCritique(essay({ sourceType: 'twitter' }))).toBe(false);
+    expect(isLongFormCritique(essay({ authorCategory: 'lab-researcher' }))).toBe(false);
+  });
+});
+
+describe('argumentMapFromResult', () => {
+  const context = { contentId: 3, author: 'garymarcus', topic: 'reasoning', claimIds: ['claim_a'] };
+
+  it('should normalize the mapped structure', () => {
+    const map = argumentMapFromResult({
+      mainThesis: 'LLMs do not reason',
+      premises: ['Performance collapses on perturbed problems', '', 42],
+      evidence: ['GSM-Symbolic results'],
+      concessions: ['Benchmarks have improved'],
+      steelmanResponse: 'Humans fail on perturbations too',
+    }, context);
+
+    expect(map).toMatchObject({
+      ...context,
+      mainThesis: 'LLMs do not reason',
+      premises: ['Performance collapses on perturbed problems'],
+      evidence: ['GSM-Symbolic results'],
+      targetClaims: [],
+      concessions: ['Benchmarks have improved'],
+      weaknesses: [],
+      steelmanResponse: 'Humans fail on perturbations too',
+    });
+  });
+
+  it('should reject results without a thesis', () => {
+    expect(argumentMapFromResult({ premises: ['a'] }, context)).toBeNull();
+    expect(argumentMapFromResult({ raw: 'not json' }, context)).toBeNull();
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Article Extraction Tests
+ *
+ * Tests for pulling full articles from the linked page when a feed item
+ * carries only a summary, and for the fetcher doing so only for new items.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('pg', () => {
+  const mockQuery = vi.fn();
+  const MockPool = vi.fn(() => ({
+    query: mockQuery,
+    end: vi.fn(),
+    connect: vi.fn(async () => ({ query: mockQuery, release: vi.fn() })),
+  }));
+  return { default: { Pool: MockPool }, Pool: MockPool };
+});
+
+import pg from 'pg';
+import { z } from 'zod';
+import { expandSummaries, extractArticleFromHtml } from '../adapters/articles';
+import { registerAdapter } from '../adapters';
+import { AIIntelFetcher } from '../fetcher';
+import type { RawContent } from '../types';
+
+const mockQuery = (new pg.Pool() as any).query;
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const paragraph = 'Scaling laws continue to hold for reasoning models trained with reinforcement learning, '
+  + 'and the gains from additional inference compute show no sign of flattening at current budgets. ';
+
+const articlePage = `
+  <html>
+    <head><title>Research update</title></head>
+    <body>
+      <nav><a href="/">Home</a> <a href="/blog">Blog</a></nav>
+      <article>
+        <h1>Research update</h1>
+        ${Array.from({ length: 8 }, () => `<p>${paragraph}</p>`).join('\n')}
+      </article>
+      <footer>Copyright 2026</footer>
+    </body>
+  </html>
+`;
+
+const summaryItem: RawContent = {
+  id: 'post-1',
+  source: 'blog:example.com',
+  sourceType: 'blog',
+  author: 'Lab',
+  title: 'Research update',
+  content: 'Our latest results on scaling.',
+  url: 'https://example.com/blog/research-update',
+  publishedAt: new Date('2026-01-01'),
+  metadata: { htmlContent: '<p>Our latest results on scaling.</p>' },
+};
+
+describe('extractArticleFromHtml', () => {
+  it('should extract the article body and drop page chrome', async () => {
+    const article = await extractArticleFromHtml(articlePage, 'https://example.com/blog/research-update');
+
+    expect(article?.method).toBe('readability');
+    expect(article?.text).toContain('Scaling laws continue to hold');
+    expect(article?.text).not.toContain('Copyright');
+    expect(article?.html).toContain('<p>');
+  });
+
+  it('should fall back from Readability when it finds nothing longer than the feed text', async () => {
+    const url = 'https://example.com/blog/research-update';
+    const readable = await extractArticleFromHtml(articlePage, url);
+    const longer = await extractArticleFromHtml(articlePage, url, readable!.text.length);
+
+    expect(longer?.method).not.toBe('readability');
+    expect(longer === null || longer.text.length > readable!.text.length).toBe(true);
+  });
+});
+
+describe('expandSummaries', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should replace a short item with the linked article', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 200, text: async () => articlePage });
+
+    const [item] = await expandSummaries([summaryItem]);
+
+    expect(mockFetch).toHaveBeenCalledWith(summaryItem.url, expect.anything());
+    expect(item.content.length).toBeGreaterThan(1000);
+    expect(item.html).toBeDefined();
+    expect(item.metadata).toMatchObject({
+      extractionMethod: 'readability',
+      feedSummary: 'Our latest results on scaling.',
+      htmlContent: '<p>Our latest results on scaling.</p>',
+    });
+  });
+
+  it('should leave items at or above the threshold alone', async () => {
+    const long = { ...summaryItem, content: paragraph.repeat(20) };
+
+    const [item] = await expandSummaries([long]);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(item.content).toBe(long.content);
+    expect(item.metadata?.extractionMethod).toBe('feed');
+  });
+
+  it('should keep the feed text when the page fails to load', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 403, text: async () => '' });
+
+    const [item] = await expandSummaries([summaryItem]);
+
+    expect(item.content).toBe(summaryItem.content);
+    expect(item.html).toBeUndefined();
+    expect(item.metadata?.extractionMethod).toBe('feed');
+  });
+});
+
+describe('summary expansion on fetch', () => {
+  let feedItem = summaryItem;
+  registerAdapter({
+    type: 'summary-feed',
+    displayName: 'Summaries',
+    description: 'Test adapter',
+    identifierLabel: 'Feed',
+    defaultFetchFrequencyHours: 24,
+    rateLimit: { minIntervalMs: 0 },
+    expandsSummaries: true,
+    configSchema: z.object({}),
+    toSource: () => ({ type: 'summary-feed', identifier: 'x' }),
+    fetch: async () => [feedItem],
+  });
+
+  const storedArticle = {
+    external_id: 'post-1',
+    content_text: 'The full article as stored.',
+    content_html: '<p>The full article as stored.</p>',
+    metadata: { extractionMethod: 'readability', feedSummary: summaryItem.content, wordCount: 5 },
+  };
+
+  /** Route the fetcher's queries; `stored` says what the source already has */
+  function database(stored: { ids: string[]; articles?: typeof storedArticle[] }) {
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('feedSummary')) return { rows: stored.articles ?? [] };
+      if (sql.includes('SELECT external_id')) return { rows: stored.ids.map(external_id => ({ external_id })) };
+      if (sql.includes('bit_count')) return { rows: [] };
+      return { rows: [{ id: 1, inserted: stored.ids.length === 0 }] };
+    });
+  }
+
+  async function storedText(): Promise<string> {
+    const fetcher = new AIIntelFetcher({ dbUrl: 'postgresql://localhost/test' });
+    await fetcher.fetchSources([{ id: 1, type: 'summary-feed', identifier: 'x' }]);
+    const insert = mockQuery.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO content'));
+    return insert[1][4];
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFetch.mockReset();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    feedItem = summaryItem;
+  });
+
+  it('should download the article of a new item', async () => {
+    database({ ids: [] });
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 200, text: async () => articlePage });
+
+    expect(await storedText()).toContain('Scaling laws continue to hold');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the stored article of an unchanged item without downloading it', async () => {
+    database({ ids: ['post-1'], articles: [storedArticle] });
+
+    expect(await storedText()).toBe(storedArticle.content_text);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should keep the stored article when a changed summary fails to download', async () => {
+    feedItem = { ...summaryItem, content: 'Our latest results on scaling, revised.' };
+    database({ ids: ['post-1'], articles: [storedArticle] });
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 503, headers: new Headers(), text: async () => '' });
+
+    expect(await storedText()).toBe(storedArticle.content_text);
+  });
+
+  it('should not retry stored items that were never expanded', async () => {
+    database({ ids: ['post-1'] });
+
+    expect(await storedText()).toBe(summaryItem.content);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
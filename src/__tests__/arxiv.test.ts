@@ -0,0 +1,159 @@
+/**
+ * arXiv Adapter Tests
+ *
+ * Parses a recorded export API response, and runs full-text mode with
+ * pdftotext mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+
+// The adapter runs pdftotext through util.promisify(execFile)
+vi.mock('child_process', async () => {
+  const { promisify } = await import('util');
+  const pdftotext = vi.fn(async () => ({
+    stdout: Buffer.from('Test-Time Compute Scaling Laws\n\n1 Introduc-\ntion\fWe study...\n'),
+    stderr: Buffer.alloc(0),
+  }));
+  return { execFile: Object.assign(vi.fn(), { [promisify.custom]: pdftotext }) };
+});
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { ARXIV_CONFIG, backfillArxiv, fetchArxiv, formatArxivAuthors, parseArxivFeed } from '../adapters/arxiv';
+import type { FetchContext } from '../adapters';
+import { RATE_LIMIT_CONFIG } from '../ratelimit';
+
+const feed = readFileSync(new URL('./fixtures/arxiv/query-cs.AI.xml', import.meta.url), 'utf8');
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+const pdftotext = (execFile as any)[promisify.custom];
+
+describe('parseArxivFeed', () => {
+  it('should read authors with their affiliations', () => {
+    const [paper, benchmark] = parseArxivFeed(feed);
+
+    expect(paper.authors.map(a => a.name)).toEqual(['Jason Wei', 'Hyung Won Chung', 'Denny Zhou', 'Quoc V. Le']);
+    expect(paper.authors[0].affiliations).toEqual(['Meta Superintelligence Labs']);
+    expect(paper.authors[1].affiliations).toEqual([]);
+    expect(benchmark.authors[0].affiliations).toEqual(['University of Edinburgh', 'Alan Turing Institute']);
+  });
+
+  it('should read the primary category separately from cross-lists', () => {
+    const [paper] = parseArxivFeed(feed);
+
+    expect(paper.primaryCategory).toBe('cs.CL');
+    expect(paper.categories).toEqual(['cs.CL', 'cs.AI']);
+  });
+
+  it('should collapse whitespace and keep identifiers and links', () => {
+    const [paper, benchmark] = parseArxivFeed(feed);
+
+    expect(paper).toMatchObject({
+      id: '2610.11873v1',
+      title: 'Test-Time Compute Scaling Laws for Multi-Step Reasoning',
+      pdfUrl: 'http://arxiv.org/pdf/2610.11873v1',
+      comment: '32 pages, 11 figures',
+      publishedAt: new Date('2026-10-15T17:59:58Z'),
+    });
+    expect(paper.abstract).toMatch(/^We study how accuracy .* the bottleneck\.$/);
+    expect(benchmark.doi).toBe('10.48550/arXiv.2610.11802');
+  });
+
+  it('should abbreviate long author lists', () => {
+    const [paper, benchmark] = parseArxivFeed(feed);
+
+    expect(formatArxivAuthors(paper.authors)).toBe('Jason Wei et al.');
+    expect(formatArxivAuthors(benchmark.authors)).toBe('Ana Pérez-García');
+  });
+});
+
+describe('fetchArxiv', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async (url: string) => url.includes('/api/query')
+      ? { ok: true, status: 200, text: async () => feed }
+      : { ok: true, status: 200, arrayBuffer: async () => new ArrayBuffer(8) });
+    pdftotext.mockClear();
+    RATE_LIMIT_CONFIG.providers['export.arxiv.org'] = { requestsPerSecond: 1000, burst: 10 };
+    RATE_LIMIT_CONFIG.providers['arxiv.org'] = { requestsPerSecond: 1000, burst: 10 };
+    RATE_LIMIT_CONFIG.retryBaseMs = 0;
+  });
+
+  afterEach(() => {
+    ARXIV_CONFIG.fullText = false;
+  });
+
+  it('should attribute papers to their authors and keep the abstract', async () => {
+    const [paper] = await fetchArxiv('cs.AI');
+
+    expect(decodeURIComponent(mockFetch.mock.calls[0][0])).toContain('search_query=cat:cs.AI');
+    expect(paper).toMatchObject({
+      author: 'Jason Wei et al.',
+      authors: ['Jason Wei', 'Hyung Won Chung', 'Denny Zhou', 'Quoc V. Le'],
+      metadata: {
+        primaryCategory: 'cs.CL',
+        affiliations: { 'Jason Wei': ['Meta Superintelligence Labs'] },
+        extractionMethod: 'abstract',
+      },
+    });
+    expect(paper.content).toBe(paper.metadata?.abstract);
+    expect(pdftotext).not.toHaveBeenCalled();
+  });
+
+  it('should store PDF text in full-text mode and skip papers stored earlier', async () => {
+    ARXIV_CONFIG.fullText = true;
+    const context: FetchContext = { validators: {}, state: { fullText: ['2610.11802v2'] } };
+
+    const items = await fetchArxiv('cs.AI', context);
+
+    expect(items.map(i => i.id)).toEqual(['2610.11873v1']);
+    expect(mockFetch.mock.calls.map(([url]) => url)).toContain('http://arxiv.org/pdf/2610.11873v1');
+    expect(items[0].content).toBe('Test-Time Compute Scaling Laws\n\n1 Introduction\nWe study...');
+    expect(items[0].metadata).toMatchObject({ extractionMethod: 'pdftotext', fullText: true });
+    expect(context.nextState).toEqual({ fullText: ['2610.11802v2', '2610.11873v1'] });
+  });
+
+  it('should keep the abstract when a PDF fails to download', async () => {
+    ARXIV_CONFIG.fullText = true;
+    mockFetch.mockImplementation(async (url: string) => url.includes('/api/query')
+      ? { ok: true, status: 200, text: async () => feed }
+      : { ok: false, status: 503, headers: new Headers() });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const context: FetchContext = { validators: {} };
+
+    const items = await fetchArxiv('cs.AI', context);
+
+    expect(items).toHaveLength(2);
+    expect(items[0].metadata?.extractionMethod).toBe('abstract');
+    expect(context.nextState).toEqual({ fullText: [] });
+  });
+});
+
+describe('backfillArxiv', () => {
+  beforeEach(() => {
+    ARXIV_CONFIG.backfillPageSize = 2;
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue({ ok: true, status: 200, text: async () => feed });
+  });
+
+  afterEach(() => {
+    ARXIV_CONFIG.backfillPageSize = 100;
+  });
+
+  it('should page on by offset while every paper is newer than the backfill date', async () => {
+    const page = await backfillArxiv('cs.AI', { since: new Date('2026-01-01'), cursor: { start: 4 } });
+
+    expect(mockFetch.mock.calls[0][0]).toContain('start=4&max_results=2');
+    expect(page.items).toHaveLength(2);
+    expect(page.cursor).toEqual({ start: 6 });
+  });
+
+  it('should finish at the first paper older than the backfill date', async () => {
+    const page = await backfillArxiv('cs.AI', { since: new Date('2026-10-15T00:00:00Z') });
+
+    expect(page.items.map(i => i.id)).toEqual(['2610.11873v1']);
+    expect(page.cursor).toBeUndefined();
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Backfill Tests
+ *
+ * Runs the fetcher's historical backfill against a test adapter whose
+ * history is three pages long, with the database mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockQuery = vi.fn();
+vi.mock('pg', () => {
+  const MockPool = vi.fn(() => ({ query: mockQuery, end: vi.fn() }));
+  return { default: { Pool: MockPool }, Pool: MockPool };
+});
+
+import { z } from 'zod';
+import { registerAdapter, type BackfillRequest } from '../adapters';
+import { AIIntelFetcher, BACKFILL_CONFIG } from '../fetcher';
+import type { RawContent, Source } from '../types';
+
+const item = (id: string): RawContent => ({
+  id, source: 'history', sourceType: 'history-feed', author: 'a', content: id, publishedAt: new Date('2026-03-01'),
+});
+
+// Page n holds post-n; the last page has no cursor
+const backfill = vi.fn(async (_source: Source, request: BackfillRequest) => {
+  const page: number = request.cursor?.page ?? 0;
+  return { items: [item(`post-${page}`)], cursor: page < 2 ? { page: page + 1 } : undefined };
+});
+
+registerAdapter({
+  type: 'history-feed',
+  displayName: 'History',
+  description: 'Test adapter',
+  identifierLabel: 'Feed',
+  defaultFetchFrequencyHours: 24,
+  rateLimit: { minIntervalMs: 0 },
+  configSchema: z.object({}),
+  toSource: () => ({ type: 'history-feed', identifier: 'x' }),
+  fetch: async () => [],
+  backfill,
+});
+
+const source: Source = { id: 1, type: 'history-feed', identifier: 'x' };
+const since = new Date('2026-01-01T00:00:00Z');
+
+function pendingBackfill(cursor: Record<string, any> | null) {
+  mockQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes('FROM source_backfills')) {
+      return { rows: [{ sourceId: 1, since, cursor, status: cursor ? 'running' : 'pending' }] };
+    }
+    return sql.includes('INSERT INTO content') ? { rows: [{ id: 1, inserted: true }] } : { rows: [] };
+  });
+}
+
+function backfillUpdates(): unknown[][] {
+  return mockQuery.mock.calls
+    .filter(([sql]) => sql.includes('UPDATE source_backfills'))
+    .map(([, params]) => params);
+}
+
+describe('AIIntelFetcher backfill', () => {
+  const fetcher = new AIIntelFetcher({ dbUrl: 'postgresql://localhost/test' });
+
+  beforeEach(() => {
+    BACKFILL_CONFIG.minPageIntervalMs = 0;
+    mockQuery.mockReset();
+    backfill.mockClear();
+  });
+
+  it('should queue sources whose adapter can backfill and report the rest', async () => {
+    mockQuery.mockResolvedValue({ rows: [] });
+
+    const { queued, unsupported } = await fetcher.queueBackfills(
+      [source, { id: 2, type: 'blog', identifier: 'https://example.com/feed' }],
+      since
+    );
+
+    expect(queued).toEqual([source]);
+    expect(unsupported.map(s => s.type)).toEqual(['blog']);
+    const [, params] = mockQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO source_backfills'))!;
+    expect(params).toEqual([1, since]);
+  });
+
+  it('should resume from the stored cursor, mark its content backfilled and finish', async () => {
+    pendingBackfill({ page: 1 });
+
+    const { successful } = await fetcher.runBackfills([source]);
+
+    expect(backfill.mock.calls.map(([, request]) => request)).toEqual([
+      { since, cursor: { page: 1 } },
+      { since, cursor: { page: 2 } },
+    ]);
+    const inserts = mockQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO content'));
+    expect(inserts.map(([, params]) => [params[1], params[13]])).toEqual([['post-1', true], ['post-2', true]]);
+    expect(backfillUpdates()).toEqual([[1, '{"page":2}', 1], [1, null, 1]]);
+    expect(successful).toEqual([expect.objectContaining({ source: 'x', pages: 2, new: 2, done: true })]);
+  });
+
+  it('should stop after the run\'s page budget and leave the rest for the next run', async () => {
+    pendingBackfill(null);
+
+    const { successful } = await fetcher.runBackfills([source], { pagesPerRun: 1 });
+
+    expect(backfill).toHaveBeenCalledTimes(1);
+    expect(backfillUpdates()).toEqual([[1, '{"page":1}', 1]]);
+    expect(successful[0]).toMatchObject({ pages: 1, done: false });
+  });
+
+  it('should record a failed page so the backfill is retried from its cursor', async () => {
+    pendingBackfill({ page: 1 });
+    backfill.mockRejectedValueOnce(new Error('429 Too Many Requests'));
+
+    const { successful, failed } = await fetcher.runBackfills([source]);
+
+    expect(successful).toEqual([]);
+    expect(failed).toEqual([{ source: 'x', error: '429 Too Many Requests' }]);
+    expect(backfillUpdates()).toEqual([[1, '429 Too Many Requests']]);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Bluesky Adapter Tests
+ *
+ * Runs the adapter's AT Protocol client against recorded getAuthorFeed pages.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import page1 from './fixtures/bluesky/author-feed-1.json';
+import page2 from './fixtures/bluesky/author-feed-2.json';
+import { BLUESKY_CONFIG, fetchBluesky } from '../adapters/bluesky';
+import type { FetchContext } from '../adapters';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function respond(body: unknown) {
+  return new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } });
+}
+
+function requestedCursor(call: unknown[]): string | null {
+  return new URL(call[0] as string).searchParams.get('cursor');
+}
+
+describe('fetchBluesky', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T00:00:00Z'));
+    BLUESKY_CONFIG.backfillMonths = 6;
+    BLUESKY_CONFIG.maxPages = 30;
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async (url: string) =>
+      respond(new URL(url).searchParams.get('cursor') ? page2 : page1)
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should page back through the feed to the backfill date for a new source', async () => {
+    const context: FetchContext = { validators: {} };
+    const items = await fetchBluesky('simonwillison.net', 'Simon Willison', context);
+
+    expect(mockFetch.mock.calls[0][0]).toContain('app.bsky.feed.getAuthorFeed?actor=simonwillison.net&limit=100');
+    expect(requestedCursor(mockFetch.mock.calls[1])).toBe(page1.cursor);
+    // The March post is older than six months and ends the backfill
+    expect(items.map(i => i.publishedAt.toISOString().slice(0, 10))).toEqual([
+      '2026-10-16', '2026-10-15', '2026-10-14', '2026-06-01',
+    ]);
+    expect(context.nextState).toEqual({ newestSeen: '2026-10-16T10:00:00.000Z' });
+  });
+
+  it('should stop at the newest post seen on the previous fetch', async () => {
+    const context: FetchContext = { validators: {}, state: { newestSeen: '2026-10-15T12:00:00.000Z' } };
+    const items = await fetchBluesky('simonwillison.net', undefined, context);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(items).toHaveLength(1);
+    expect(context.nextState).toEqual({ newestSeen: '2026-10-16T10:00:00.000Z' });
+  });
+
+  it('should leave a cursor to resume from when it runs out of pages', async () => {
+    BLUESKY_CONFIG.maxPages = 1;
+    const first: FetchContext = { validators: {} };
+    await fetchBluesky('simonwillison.net', undefined, first);
+
+    expect(first.nextState).toEqual({
+      newestSeen: '2026-10-16T10:00:00.000Z',
+      backfill: { cursor: page1.cursor, until: '2026-04-19T00:00:00.000Z' },
+    });
+
+    mockFetch.mockClear();
+    const resumed: FetchContext = { validators: {}, state: first.nextState };
+    const items = await fetchBluesky('simonwillison.net', undefined, resumed);
+
+    expect(requestedCursor(mockFetch.mock.calls[0])).toBe(page1.cursor);
+    expect(items.map(i => i.content)).toEqual(['Local models are now good enough for most of my coding questions.']);
+    expect(resumed.nextState).toEqual({ newestSeen: '2026-10-16T10:00:00.000Z' });
+  });
+
+  it('should skip reposts and attach parent and quoted posts as context', async () => {
+    const items = await fetchBluesky('simonwillison.net');
+    const [, reply, quote] = items;
+
+    expect(items.some(i => i.content.startsWith('LLMs still fail'))).toBe(false);
+    expect(reply.metadata).toMatchObject({
+      isReply: true,
+      quoted: [{
+        kind: 'parent',
+        author: 'rodneyabrooks.bsky.social',
+        authorName: 'Rodney Brooks',
+        text: 'Prediction: no general purpose home robot ships at scale before 2035.',
+        url: 'https://bsky.app/profile/rodneyabrooks.bsky.social/post/3m3wx5kq3vs2c',
+      }],
+    });
+    expect(quote.metadata).toMatchObject({
+      isQuote: true,
+      quoted: [{ kind: 'quote', author: 'melaniemitchell.bsky.social', text: 'Benchmarks saturate because they leak into training data.' }],
+    });
+  });
+
+  it('should store links, mentions and hashtags from facets', async () => {
+    const [post, , , older] = await fetchBluesky('simonwillison.net');
+
+    expect(post.metadata).toMatchObject({
+      links: ['https://simonwillison.net/2026/Oct/16/prompt-injection/'],
+      mentions: [{ did: 'did:plc:mmitchell3k2j5v7x4q6r2s', handle: 'melaniemitchell.bsky.social' }],
+      tags: ['promptinjection'],
+      likes: 210,
+    });
+    expect(older.metadata?.links).toEqual(['https://simonwillison.net/2026/Jun/1/local-models/']);
+  });
+});
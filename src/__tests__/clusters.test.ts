@@ -0,0 +1,40 @@
+/**
+ * Claim Clustering Tests
+ *
+ * Tests for centroid updates and collapsing claims to one per cluster.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { collapseClusters, parseVector, updateCentroid } from '../clusters';
+
+describe('updateCentroid', () => {
+  it('should keep the running mean of member embeddings', () => {
+    expect(updateCentroid([1, 0], 1, [0, 1])).toEqual([0.5, 0.5]);
+    expect(updateCentroid([0.5, 0.5], 2, [1, 1])).toEqual([2 / 3, 2 / 3]);
+  });
+});
+
+describe('parseVector', () => {
+  it('should parse pgvector text output', () => {
+    expect(parseVector('[0.25,-1,3]')).toEqual([0.25, -1, 3]);
+    expect(parseVector([1, 2])).toEqual([1, 2]);
+  });
+});
+
+describe('collapseClusters', () => {
+  it('should keep one representative per cluster with its size and author spread', () => {
+    const collapsed = collapseClusters([
+      { id: 'a', author: 'alice', quoteworthiness: 0.2, cluster_id: 1 },
+      { id: 'b', author: 'bob', quoteworthiness: 0.9, cluster_id: 1 },
+      { id: 'c', author: 'alice', quoteworthiness: 0.5, cluster_id: 1 },
+      { id: 'd', author: 'carol', quoteworthiness: 0.4, cluster_id: null },
+      { id: 'e', author: 'dave', cluster_id: 2 },
+    ]);
+
+    expect(collapsed.map(c => [c.id, c.clusterSize, c.authorCount])).toEqual([
+      ['b', 3, 2],
+      ['d', 1, 1],
+      ['e', 1, 1],
+    ]);
+  });
+});
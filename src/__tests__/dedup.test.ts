@@ -0,0 +1,200 @@
+/**
+ * Cross-Source Deduplication Tests
+ *
+ * URL normalization, short-link resolution (fetch mocked), SimHash
+ * distances, and the fetcher linking new items to their canonical content
+ * (pg mocked).
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('pg', () => {
+  const mockQuery = vi.fn();
+  const MockPool = vi.fn(() => ({
+    query: mockQuery,
+    end: vi.fn(),
+    connect: vi.fn(async () => ({ query: mockQuery, release: vi.fn() })),
+  }));
+  return { default: { Pool: MockPool }, Pool: MockPool };
+});
+
+import pg from 'pg';
+import { z } from 'zod';
+import { hammingDistance, normalizeUrl, sharedLink, simhash, unshortenUrl } from '../dedup';
+import { registerAdapter } from '../adapters';
+import { AIIntelFetcher } from '../fetcher';
+import type { RawContent } from '../types';
+
+const mockQuery = (new pg.Pool() as any).query;
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const ESSAY = `Scaling laws predicted the loss of language models with surprising accuracy
+  across six orders of magnitude of compute, but the downstream capabilities we care about
+  emerge far less smoothly. In this post I argue that evaluation suites built from static
+  benchmarks systematically overstate progress, because contamination and prompt tuning
+  inflate scores, and that held-out tasks written after the training cutoff tell a very
+  different story about where reasoning actually stands today. The first section reviews
+  how the original scaling papers fit power laws to pretraining loss and why that fit held
+  up so well. The second looks at three popular reasoning benchmarks, traces how much of
+  their test data leaked into public crawls, and measures how scores move when questions are
+  paraphrased. The third proposes a rolling evaluation, refreshed every quarter by outside
+  contributors, and shows that frontier models gain far less on it than on the static sets.
+  None of this means progress has stalled; it means we should be more careful about which
+  numbers we quote when we tell people how fast it is going.`;
+
+const OTHER_ESSAY = `Reinforcement learning from human feedback has become the default recipe for
+  aligning chat models, yet the reward models at its core are brittle in ways that matter. In
+  this post I argue that preference data collected from crowd workers rewards confident tone
+  over correctness, because annotators rarely verify claims, and that models trained on it
+  learn to sound right rather than be right. None of this means the method is doomed; it
+  means we should be more careful about what the numbers we optimise actually measure.`;
+
+function post(id: string, content: string, extra: Partial<RawContent> = {}): RawContent {
+  return { id, source: 'test', sourceType: 'dedup-feed', author: 'a', content, publishedAt: new Date(), ...extra };
+}
+
+describe('normalizeUrl', () => {
+  it('should strip tracking parameters, fragments, www and trailing slashes', () => {
+    expect(normalizeUrl('http://www.Example.com/post/?utm_source=twitter&b=2&a=1&fbclid=x#comments'))
+      .toBe('https://example.com/post?a=1&b=2');
+    expect(normalizeUrl('https://m.example.com/post')).toBe('https://example.com/post');
+    expect(normalizeUrl('not a url')).toBeNull();
+    expect(normalizeUrl('mailto:someone@example.com')).toBeNull();
+  });
+
+  it('should map arXiv abstract and PDF links to the unversioned abstract', () => {
+    expect(normalizeUrl('https://arxiv.org/pdf/2401.01234v2.pdf')).toBe('https://arxiv.org/abs/2401.01234');
+    expect(normalizeUrl('http://arxiv.org/abs/2401.01234v1')).toBe('https://arxiv.org/abs/2401.01234');
+  });
+});
+
+describe('unshortenUrl', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('should follow shortener redirects without fetching the target', async () => {
+    mockFetch.mockResolvedValueOnce(new Response(null, {
+      status: 301, headers: { location: 'https://blog.example.com/post?utm_medium=social' }
+    }));
+
+    expect(await unshortenUrl('https://t.co/abc123')).toBe('https://blog.example.com/post?utm_medium=social');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][1]).toMatchObject({ method: 'HEAD', redirect: 'manual' });
+
+    // Resolved once per process
+    await unshortenUrl('https://t.co/abc123');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should leave other links, and short links that fail, as they are', async () => {
+    mockFetch.mockRejectedValueOnce(new Error('ECONNRESET'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await unshortenUrl('https://blog.example.com/post')).toBe('https://blog.example.com/post');
+    expect(await unshortenUrl('https://bit.ly/broken')).toBe('https://bit.ly/broken');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('simhash', () => {
+  it('should put lightly edited copies a few bits apart and different texts far apart', () => {
+    const original = simhash(ESSAY)!;
+    const edited = simhash(`${ESSAY.replace('surprising', 'remarkable')}\n\nThanks for reading!`)!;
+    const crossPosted = simhash(`Crossposted from my blog.\n\n${ESSAY}`)!;
+    const other = simhash(OTHER_ESSAY)!;
+
+    expect(hammingDistance(original, edited)).toBeLessThanOrEqual(3);
+    expect(hammingDistance(original, crossPosted)).toBeLessThanOrEqual(3);
+    expect(hammingDistance(original, other)).toBeGreaterThan(10);
+  });
+
+  it('should skip texts too short to fingerprint', () => {
+    expect(simhash('Big if true')).toBeNull();
+  });
+});
+
+describe('sharedLink', () => {
+  it('should take the link of short posts, ignoring links to the post itself', () => {
+    expect(sharedLink(post('1', 'Great read https://blog.example.com/post', { url: 'https://x.com/a/status/1' })))
+      .toBe('https://blog.example.com/post');
+    expect(sharedLink(post('2', 'New paper!', { metadata: { links: ['https://arxiv.org/abs/2401.01234'] } })))
+      .toBe('https://arxiv.org/abs/2401.01234');
+    expect(sharedLink(post('3', 'https://blog.example.com/post', { url: 'https://blog.example.com/post' })))
+      .toBeUndefined();
+  });
+
+  it('should not treat long items citing links as shares', () => {
+    expect(sharedLink(post('4', `${ESSAY} See https://blog.example.com/post`))).toBeUndefined();
+  });
+});
+
+describe('fetcher deduplication', () => {
+  let fetched: RawContent[] = [];
+
+  registerAdapter({
+    type: 'dedup-feed',
+    displayName: 'Dedup',
+    description: 'Test adapter',
+    identifierLabel: 'Feed',
+    defaultFetchFrequencyHours: 24,
+    rateLimit: { minIntervalMs: 0 },
+    configSchema: z.object({}),
+    toSource: () => ({ type: 'dedup-feed', identifier: 'x' }),
+    fetch: async () => fetched,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function inserts() {
+    return mockQuery.mock.calls
+      .filter(([sql]: [string]) => sql.includes('INSERT INTO content'))
+      .map(([, params]: [string, any[]]) => ({
+        id: params[1], canonicalUrl: params[14], simhash: params[16], duplicateOf: params[17], reason: params[18]
+      }));
+  }
+
+  it('should link cross-posted text to the earlier copy and count it', async () => {
+    fetched = [post('copy', ESSAY, { url: 'https://medium.com/@a/scaling?utm_source=rss' })];
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('bit_count')) return { rows: [{ id: 42, reason: 'text' }] };
+      if (sql.includes('SELECT external_id')) return { rows: [] };
+      if (sql.includes('WITH canonical')) return { rows: [{ adopted: 0 }] };
+      return { rows: [{ id: 1, inserted: true }] };
+    });
+
+    const fetcher = new AIIntelFetcher({ dbUrl: 'postgresql://localhost/test' });
+    const { successful } = await fetcher.fetchSources([{ id: 1, type: 'dedup-feed', identifier: 'x' }]);
+
+    expect(inserts()).toEqual([{
+      id: 'copy',
+      canonicalUrl: 'https://medium.com/@a/scaling',
+      simhash: simhash(ESSAY)!.toString(),
+      duplicateOf: 42,
+      reason: 'text',
+    }]);
+    expect(successful[0]).toMatchObject({ new: 1, duplicates: 1 });
+    // Earlier shares of the new item's URL are pointed at it
+    const adopt = mockQuery.mock.calls.find(([sql]: [string]) => sql.includes('WITH canonical'));
+    expect(adopt?.[1]).toEqual([1, 'copy', 'https://medium.com/@a/scaling']);
+  });
+
+  it('should only fingerprint items the source has not stored before', async () => {
+    fetched = [post('known', ESSAY), post('fresh', 'Short and new')];
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('SELECT external_id')) return { rows: [{ external_id: 'known' }] };
+      if (sql.includes('bit_count')) return { rows: [] };
+      return { rows: sql.includes('INSERT INTO content') ? [{ id: 1, inserted: false }] : [] };
+    });
+
+    const fetcher = new AIIntelFetcher({ dbUrl: 'postgresql://localhost/test' });
+    await fetcher.fetchSources([{ id: 1, type: 'dedup-feed', identifier: 'x' }]);
+
+    const lookups = mockQuery.mock.calls.filter(([sql]: [string]) => sql.includes('bit_count'));
+    expect(lookups).toHaveLength(1);
+    expect(inserts().map((i: { simhash: string | null }) => i.simhash)).toEqual([null, null]);
+  });
+});
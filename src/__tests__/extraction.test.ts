@@ -0,0 +1,130 @@
+/**
+ * Chunked Extraction Tests
+ *
+ * Tests for splitting long items, locating quotes and merging claims across
+ * chunks.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  chunkForExtraction,
+  filterSample,
+  locateQuote,
+  mergeChunkClaims,
+  quotedContext,
+  splitForExtraction,
+  EXTRACTION_CHUNK_SIZE
+} from '../extraction';
+import type { ExtractedClaim, FilteredContent } from '../types';
+
+function item(url: string, content: string): FilteredContent {
+  return { url, content, author: 'alice', sourceType: 'podcast' } as unknown as FilteredContent;
+}
+
+function claim(claimText: string, overrides: Partial<ExtractedClaim> = {}): ExtractedClaim {
+  return {
+    claimText,
+    claimType: 'opinion',
+    topic: 'general',
+    stance: 'neutral',
+    bullishness: 0.5,
+    confidence: 0.5,
+    timeframe: null,
+    sourceUrl: 'https://example.com/a',
+    ...overrides,
+  } as ExtractedClaim;
+}
+
+describe('chunkForExtraction', () => {
+  it('should keep short items whole', () => {
+    expect(chunkForExtraction('A short post.')).toEqual([
+      { text: 'A short post.', index: 0, startChar: 0, endChar: 13 },
+    ]);
+  });
+
+  it('should split long text without paragraph breaks into bounded chunks', () => {
+    // A transcript is one unbroken paragraph
+    const transcript = 'and then we scaled it up and it kept working '.repeat(300);
+    const chunks = chunkForExtraction(transcript);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(c => c.text.length <= EXTRACTION_CHUNK_SIZE * 1.5)).toBe(true);
+  });
+});
+
+describe('splitForExtraction', () => {
+  it('should produce one unit per chunk carrying its item', () => {
+    const long = item('https://example.com/long', Array(20).fill('x'.repeat(400)).join('\n\n'));
+    const short = item('https://example.com/short', 'Scaling works.');
+    const units = splitForExtraction([long, short]);
+
+    const longUnits = units.filter(u => u.item === long);
+    expect(longUnits.length).toBeGreaterThan(1);
+    expect(longUnits.every(u => u.chunkCount === longUnits.length)).toBe(true);
+    expect(units.filter(u => u.item === short)).toHaveLength(1);
+  });
+});
+
+describe('filterSample', () => {
+  it('should give the title and the opening chunk of long items', () => {
+    const paragraphs = Array.from({ length: 20 }, (_, i) => `Section ${i}. ${'x'.repeat(400)}`);
+    const essay = { ...item('https://example.com/essay', paragraphs.join('\n\n')), title: 'Why scaling will continue' };
+    const sample = filterSample(essay);
+
+    expect(sample.startsWith('Why scaling will continue\n\nSection 0.')).toBe(true);
+    expect(sample).toContain('Section 5.');
+    expect(sample).not.toContain('Section 19.');
+    expect(filterSample(item('https://example.com/short', 'Scaling works.'))).toBe('Scaling works.');
+  });
+});
+
+describe('quotedContext', () => {
+  it("should give quoted posts' authors and text, and nothing for items without any", () => {
+    const quote = {
+      ...item('https://x.com/karpathy/status/1', 'Strongly disagree.'),
+      metadata: {
+        quoted: [{ kind: 'quote', id: '2', author: 'someVC', authorName: 'Some VC', text: 'Agents are solved.', url: 'https://x.com/someVC/status/2' }],
+      },
+    };
+
+    expect(quotedContext(quote)).toEqual([{ kind: 'quote', author: 'someVC', text: 'Agents are solved.' }]);
+    expect(quotedContext(item('https://example.com/a', 'No quotes here.'))).toEqual([]);
+  });
+});
+
+describe('locateQuote', () => {
+  const text = 'Intro. Reasoning models will saturate benchmarks. Later: reasoning models will saturate benchmarks.';
+
+  it('should find the occurrence nearest the chunk start', () => {
+    expect(locateQuote(text, 'reasoning models will saturate benchmarks.', 0)).toEqual({ start: 57, end: 99 });
+    expect(locateQuote(text, 'Reasoning models will saturate benchmarks.', 0)).toEqual({ start: 7, end: 49 });
+  });
+
+  it('should return null for missing or paraphrased quotes', () => {
+    expect(locateQuote(text, undefined)).toBeNull();
+    expect(locateQuote(text, 'Benchmarks will be saturated')).toBeNull();
+  });
+});
+
+describe('mergeChunkClaims', () => {
+  it('should collapse duplicates from overlapping chunks to the most quoteworthy', () => {
+    const merged = mergeChunkClaims([
+      claim('Scaling is hitting a wall.', { quoteworthiness: 0.4, chunkIndex: 0 }),
+      claim('scaling is hitting a wall', { quoteworthiness: 0.8, chunkIndex: 1 }),
+      claim('RL will matter more than pretraining.', { chunkIndex: 1 }),
+    ]);
+
+    expect(merged.map(c => [c.claimText, c.chunkIndex])).toEqual([
+      ['scaling is hitting a wall', 1],
+      ['RL will matter more than pretraining.', 1],
+    ]);
+  });
+
+  it('should not merge the same claim from different items', () => {
+    const merged = mergeChunkClaims([
+      claim('Scaling is hitting a wall.'),
+      claim('Scaling is hitting a wall.', { sourceUrl: 'https://example.com/b' }),
+    ]);
+    expect(merged).toHaveLength(2);
+  });
+});
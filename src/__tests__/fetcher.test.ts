@@ -1,7 +1,8 @@
 /**
  * Fetcher Tests
  *
- * Tests for AIIntelFetcher with mocked HTTP requests.
+ * Tests for AIIntelFetcher and the built-in source adapters with mocked HTTP
+ * requests.
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
@@ -10,12 +11,13 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
 
-// Mock child_process for yt-dlp
+// Mock child_process for yt-dlp and pdftotext
 vi.mock('child_process', () => ({
   exec: vi.fn((cmd, callback) => {
     callback(null, JSON.stringify({ entries: [] }), '');
   }),
   execSync: vi.fn(() => ''),
+  execFile: vi.fn(),
 }));
 
 // The parser is imported as default export and used with `new Parser()`
@@ -40,10 +42,11 @@ vi.mock('rss-parser', () => {
     ],
   };
 
-  // Return a class constructor
+  // Return a class constructor. The adapters share one module-level parser,
+  // so use plain functions that survive vi.restoreAllMocks between tests.
   const MockParser = function(this: any) {
-    this.parseURL = vi.fn().mockResolvedValue(mockFeed);
-    this.parseString = vi.fn().mockResolvedValue(mockFeed);
+    this.parseURL = async () => mockFeed;
+    this.parseString = async () => mockFeed;
   };
   return {
     default: MockParser,
@@ -52,6 +55,14 @@ vi.mock('rss-parser', () => {
 
 // Import after mocks
 import { AIIntelFetcher } from '../fetcher';
+import { fetchSubstack } from '../adapters/substack';
+import { fetchBlog } from '../adapters/blog';
+import { fetchPodcast } from '../adapters/podcast';
+import { fetchLessWrong } from '../adapters/lesswrong';
+import { fetchArxiv } from '../adapters/arxiv';
+import { fetchBluesky } from '../adapters/bluesky';
+import { fetchTwitter } from '../adapters/twitter';
+import type { FetchContext } from '../adapters';
 
 describe('AIIntelFetcher', () => {
   let fetcher: AIIntelFetcher;
@@ -94,9 +105,18 @@ describe('AIIntelFetcher', () => {
     });
   });
 
+  const feedResponse = (status = 200, headers: Record<string, string> = {}) => ({
+    ok: status < 300,
+    status,
+    headers: new Headers(headers),
+    text: async () => '<rss></rss>',
+  });
+
   describe('fetchSubstack', () => {
     it('should parse substack RSS feed', async () => {
-      const result = await (fetcher as any).fetchSubstack(
+      mockFetch.mockResolvedValueOnce(feedResponse());
+
+      const result = await fetchSubstack(
         'https://test.substack.com/feed',
         'Test Author'
       );
@@ -108,7 +128,9 @@ describe('AIIntelFetcher', () => {
 
   describe('fetchBlog', () => {
     it('should parse generic RSS/Atom feed', async () => {
-      const result = await (fetcher as any).fetchBlog(
+      mockFetch.mockResolvedValueOnce(feedResponse());
+
+      const result = await fetchBlog(
         'https://blog.example.com/feed.xml',
         'Blog Author'
       );
@@ -118,6 +140,31 @@ describe('AIIntelFetcher', () => {
     });
   });
 
+  describe('conditional feed requests', () => {
+    it('should send stored validators and keep the new ones', async () => {
+      mockFetch.mockResolvedValueOnce(feedResponse(200, { ETag: '"v2"', 'Last-Modified': 'Wed, 02 Oct 2024 10:00:00 GMT' }));
+      const context: FetchContext = { validators: { etag: '"v1"' } };
+
+      const result = await fetchBlog('https://blog.example.com/feed.xml', 'Blog Author', context);
+
+      expect(result.length).toBeGreaterThan(0);
+      expect(mockFetch.mock.calls[0][1].headers['If-None-Match']).toBe('"v1"');
+      expect(mockFetch.mock.calls[0][1].headers['If-Modified-Since']).toBeUndefined();
+      expect(context.nextValidators).toEqual({ etag: '"v2"', lastModified: 'Wed, 02 Oct 2024 10:00:00 GMT' });
+    });
+
+    it('should return no items on 304 Not Modified', async () => {
+      mockFetch.mockResolvedValueOnce(feedResponse(304));
+      const context: FetchContext = { validators: { lastModified: 'Wed, 02 Oct 2024 10:00:00 GMT' } };
+
+      const result = await fetchPodcast('https://pod.example.com/rss', 'Pod', context);
+
+      expect(result).toEqual([]);
+      expect(context.notModified).toBe(true);
+      expect(context.nextValidators).toEqual(context.validators);
+    });
+  });
+
   describe('fetchLessWrong', () => {
     it('should query LessWrong GraphQL API', async () => {
       mockFetch.mockResolvedValueOnce({
@@ -141,7 +188,7 @@ describe('AIIntelFetcher', () => {
         }),
       });
 
-      const result = await (fetcher as any).fetchLessWrong('AI');
+      const result = await fetchLessWrong('AI');
 
       expect(mockFetch).toHaveBeenCalled();
       expect(Array.isArray(result)).toBe(true);
@@ -169,51 +216,48 @@ describe('AIIntelFetcher', () => {
         text: async () => mockXml,
       });
 
-      const result = await (fetcher as any).fetchArxiv('cs.AI');
+      const result = await fetchArxiv('cs.AI');
 
-      expect(mockFetch).toHaveBeenCalledWith(
-        expect.stringContaining('export.arxiv.org')
-      );
+      expect(mockFetch.mock.calls[0][0]).toContain('export.arxiv.org');
       expect(Array.isArray(result)).toBe(true);
     });
   });
 
   describe('fetchBluesky', () => {
     it('should fetch from Bluesky AT Protocol', async () => {
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({
           feed: [
             {
               post: {
                 uri: 'at://did:plc:xxx/app.bsky.feed.post/yyy',
-                cid: 'cid123',
+                cid: 'bafyreibkc7ksubzhlv6fmzulshnj7qb444vtzfysmon7qrfkkzvt6at6aa',
                 record: {
+                  $type: 'app.bsky.feed.post',
                   text: 'Test Bluesky post about AI',
                   createdAt: new Date().toISOString(),
                 },
                 author: {
+                  did: 'did:plc:kft6lu4trxowqmter2b6vg6z',
                   handle: 'testuser.bsky.social',
                   displayName: 'Test User',
                 },
                 likeCount: 10,
                 repostCount: 5,
                 replyCount: 2,
+                indexedAt: new Date().toISOString(),
               },
             },
           ],
-        }),
-      });
+        }), { status: 200, headers: { 'content-type': 'application/json' } }));
 
-      const result = await (fetcher as any).fetchBluesky(
+      const result = await fetchBluesky(
         'testuser.bsky.social',
         'Test User'
       );
 
-      expect(mockFetch).toHaveBeenCalledWith(
-        expect.stringContaining('bsky.app')
-      );
-      expect(Array.isArray(result)).toBe(true);
+      expect(mockFetch.mock.calls[0][0]).toContain('bsky.app');
+      expect(result).toHaveLength(1);
+      expect(result[0].metadata).toMatchObject({ likes: 10, reposts: 5 });
     });
   });
 
@@ -238,7 +282,7 @@ describe('AIIntelFetcher', () => {
         `,
       });
 
-      const result = await (fetcher as any).fetchTwitter('testuser', 'Test User');
+      const result = await fetchTwitter('testuser', 'Test User');
 
       expect(Array.isArray(result)).toBe(true);
     });
@@ -0,0 +1,192 @@
+/**
+ * GitHub Adapter Tests
+ *
+ * Runs the adapter against recorded REST API responses.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import repo from './fixtures/github/repo.json';
+import releases from './fixtures/github/releases.json';
+import tags from './fixtures/github/tags.json';
+import tagCommit from './fixtures/github/commit-9f1c2e7.json';
+import readme from './fixtures/github/readme.json';
+import readmeCommits from './fixtures/github/readme-commits.json';
+import orgRepos from './fixtures/github/org-repos.json';
+import { fetchGitHub, githubAdapter, GITHUB_CONFIG } from '../adapters/github';
+import type { FetchContext } from '../adapters';
+import { RATE_LIMIT_CONFIG } from '../ratelimit';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const REPO = '/repos/EleutherAI/lm-evaluation-harness';
+
+function respond(body: unknown) {
+  return { ok: true, status: 200, headers: new Headers(), json: async () => body };
+}
+
+// Route requests to the recorded responses by URL; org repos get empty activity
+function routeFixtures(url: string) {
+  const path = url.replace('https://api.github.com', '');
+  if (path === REPO) return respond(repo);
+  if (path.startsWith(`${REPO}/releases`)) return respond(releases);
+  if (path.startsWith(`${REPO}/tags`)) return respond(tags);
+  if (path.startsWith(`${REPO}/commits/9f1c2e7`)) return respond(tagCommit);
+  if (path.startsWith(`${REPO}/commits?path=README.md`)) return respond(readmeCommits);
+  if (path === `${REPO}/readme`) return respond(readme);
+  if (path.startsWith('/orgs/anthropics/repos')) return respond(orgRepos);
+  if (/\/(releases|tags)\?/.test(path)) return respond([]);
+  return { ok: false, status: 404, headers: new Headers(), json: async () => null };
+}
+
+function context(state?: Record<string, any>): FetchContext {
+  return { validators: {}, state };
+}
+
+describe('fetchGitHub', () => {
+  beforeEach(() => {
+    GITHUB_CONFIG.token = '';
+    RATE_LIMIT_CONFIG.providers['api.github.com'] = { requestsPerSecond: 1000, burst: 10 };
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async (url: string) => routeFixtures(url));
+  });
+
+  afterEach(() => {
+    GITHUB_CONFIG.token = '';
+    vi.restoreAllMocks();
+  });
+
+  it('should send a bearer token only when one is configured', async () => {
+    await fetchGitHub('EleutherAI/lm-evaluation-harness');
+    expect(mockFetch.mock.calls[0][1].headers.Authorization).toBeUndefined();
+
+    mockFetch.mockClear();
+    GITHUB_CONFIG.token = 'ghp_test';
+    await fetchGitHub('EleutherAI/lm-evaluation-harness');
+    expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe('Bearer ghp_test');
+  });
+
+  it('should store published release notes with repository metadata', async () => {
+    const items = await fetchGitHub('EleutherAI/lm-evaluation-harness');
+
+    const release = items.find(i => i.id === 'release:183200411');
+    expect(release).toMatchObject({
+      sourceType: 'github',
+      author: 'baberabb',
+      title: 'EleutherAI/lm-evaluation-harness v0.4.9',
+      url: 'https://github.com/EleutherAI/lm-evaluation-harness/releases/tag/v0.4.9',
+      publishedAt: new Date('2026-10-10T15:00:12Z'),
+      metadata: { kind: 'release', stars: 9850, starsDelta: null, language: 'Python', provider: 'github' },
+    });
+    expect(release?.content).toContain('Add long-context reasoning tasks');
+    expect(items.some(i => i.id === 'release:183200999')).toBe(false);
+  });
+
+  it('should store tags without a published release, dated by their commit', async () => {
+    const items = await fetchGitHub('EleutherAI/lm-evaluation-harness');
+
+    expect(items.filter(i => i.metadata?.kind === 'tag').map(i => i.id)).toEqual(['tag:v0.5.0-rc1']);
+    expect(items.find(i => i.id === 'tag:v0.5.0-rc1')?.publishedAt).toEqual(new Date('2026-10-13T09:00:00Z'));
+  });
+
+  it('should key the README by its blob sha', async () => {
+    const items = await fetchGitHub('EleutherAI/lm-evaluation-harness');
+
+    const readmeItem = items.find(i => i.metadata?.kind === 'readme');
+    expect(readmeItem).toMatchObject({
+      id: 'readme:b7e3f1d2c4a5968778695a4b3c2d1e0f9a8b7c6d',
+      author: 'Hailey Schoelkopf',
+      publishedAt: new Date('2026-09-28T12:10:00Z'),
+    });
+    expect(readmeItem?.content).toContain('# Language Model Evaluation Harness');
+  });
+
+  it('should report the change in stars since the previous fetch', async () => {
+    const ctx = context({ stars: { 'EleutherAI/lm-evaluation-harness': 9800 } });
+    const items = await fetchGitHub('EleutherAI/lm-evaluation-harness', ctx);
+
+    expect(items[0].metadata?.starsDelta).toBe(50);
+    expect(ctx.nextState!.stars).toEqual({ 'EleutherAI/lm-evaluation-harness': 9850 });
+  });
+
+  it('should look up tag commits and README history only for revisions not seen before', async () => {
+    const ctx = context();
+    const first = await fetchGitHub('EleutherAI/lm-evaluation-harness', ctx);
+
+    mockFetch.mockClear();
+    const second = await fetchGitHub('EleutherAI/lm-evaluation-harness', context(ctx.nextState));
+
+    const paths = mockFetch.mock.calls.map(([url]: [string]) => url.replace('https://api.github.com', ''));
+    expect(paths.some(p => p.includes('/commits'))).toBe(false);
+    expect(second.map(i => [i.id, i.publishedAt, i.author])).toEqual(first.map(i => [i.id, i.publishedAt, i.author]));
+  });
+
+  it('should keep unauthenticated fetches within their request budget', async () => {
+    const freshTags = Array.from({ length: 5 }, (_, i) => ({ name: `v1.${i}`, commit: { sha: `${i}`.repeat(40) } }));
+    mockFetch.mockImplementation(async (url: string) => {
+      if (/\/tags\?/.test(url)) return respond(freshTags);
+      if (/\/commits\/\d+$/.test(url)) return respond(tagCommit);
+      return routeFixtures(url);
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const ctx = context();
+
+    const items = await fetchGitHub('anthropics', ctx);
+
+    expect(mockFetch).toHaveBeenCalledTimes(10);
+    expect(items.filter(i => i.metadata?.kind === 'tag')).toHaveLength(5);
+    // The repository the budget didn't reach is fetched next time
+    expect(Object.keys(ctx.nextState!.tags)).toEqual(['anthropics/anthropic-sdk-python']);
+  });
+
+  it('should send nothing more once the hourly limit is used up', async () => {
+    // An hour back, so the limit has reset again once real time returns
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() - 60 * 60 * 1000);
+    const reset = Math.floor(Date.now() / 1000) + 600;
+    mockFetch.mockResolvedValueOnce({
+      ok: true, status: 200, json: async () => repo,
+      headers: new Headers({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(reset) }),
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await fetchGitHub('EleutherAI/lm-evaluation-harness')).toEqual([]);
+    await expect(fetchGitHub('EleutherAI/lm-evaluation-harness')).rejects.toThrow('rate limit exhausted until');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime((reset + 1) * 1000);
+    expect((await fetchGitHub('EleutherAI/lm-evaluation-harness')).length).toBeGreaterThan(0);
+    vi.useRealTimers();
+  });
+
+  it("should watch an org's active repositories, fewer without a token", async () => {
+    const ctx = context();
+    await fetchGitHub('anthropics', ctx);
+    expect(Object.keys(ctx.nextState!.stars)).toEqual([
+      'anthropics/anthropic-sdk-python', 'anthropics/evals',
+    ]);
+
+    GITHUB_CONFIG.token = 'ghp_test';
+    await fetchGitHub('anthropics', ctx);
+    expect(Object.keys(ctx.nextState!.stars)).toHaveLength(4);
+  });
+
+  it('should explain an exhausted rate limit', async () => {
+    mockFetch.mockResolvedValue({
+      ok: false, status: 403, headers: new Headers({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1' }),
+    });
+
+    await expect(fetchGitHub('EleutherAI/lm-evaluation-harness')).rejects.toThrow('set GITHUB_TOKEN');
+  });
+});
+
+describe('githubAdapter', () => {
+  it('should seed from repo or org entries', () => {
+    const source = githubAdapter.toSource(
+      githubAdapter.configSchema.parse({ repo: 'meta-llama/llama-models', category: 'meta' })
+    );
+
+    expect(source).toMatchObject({ type: 'github', identifier: 'meta-llama/llama-models', category: 'meta' });
+    expect(githubAdapter.configSchema.safeParse({ org: 'openai', repo: 'openai/evals', category: 'openai' }).success).toBe(false);
+  });
+});
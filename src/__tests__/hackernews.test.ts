@@ -0,0 +1,126 @@
+/**
+ * Hacker News Adapter Tests
+ *
+ * Runs the adapter against recorded Algolia and Firebase responses.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import frontPage from './fixtures/hackernews/front-page.json';
+import storyTree from './fixtures/hackernews/item-41000001.json';
+import userComments from './fixtures/hackernews/user-comments.json';
+import {
+  fetchHackerNews,
+  formatHackerNewsIdentifier,
+  hackernewsAdapter,
+  parseHackerNewsIdentifier
+} from '../adapters/hackernews';
+import { RATE_LIMIT_CONFIG } from '../ratelimit';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const karma: Record<string, number> = { veteran_dev: 25000, newbie42: 12 };
+
+function respond(body: unknown) {
+  return { ok: true, status: 200, json: async () => body };
+}
+
+// Route requests to the recorded responses by URL
+function routeFixtures(url: string) {
+  if (url.includes('/search?') && url.includes('front_page')) return respond(frontPage);
+  if (url.includes('/search_by_date?') && url.includes('author_veteran_dev')) return respond(userComments);
+  if (url.endsWith('/items/41000001')) return respond(storyTree);
+  if (url.includes('/items/')) return respond({ id: 0, type: 'story', author: 'x', children: [] });
+  const user = url.match(/\/user\/([^/]+)\.json$/)?.[1];
+  if (user) return respond(user in karma ? { id: user, karma: karma[user] } : null);
+  return { ok: false, status: 404, json: async () => null };
+}
+
+describe('Hacker News identifiers', () => {
+  it('should round-trip each feed mode', () => {
+    for (const identifier of ['user:pg', 'search:LLM agents?points=50', 'front?points=150']) {
+      expect(formatHackerNewsIdentifier(parseHackerNewsIdentifier(identifier))).toBe(identifier);
+    }
+    expect(parseHackerNewsIdentifier('front')).toEqual({ mode: 'front', minPoints: 100 });
+    expect(() => parseHackerNewsIdentifier('search:')).toThrow('Invalid Hacker News source');
+  });
+
+  it('should build identifiers from sources.json entries', () => {
+    const source = hackernewsAdapter.toSource(
+      hackernewsAdapter.configSchema.parse({ search: 'AGI', minScore: 50, name: 'HN: AGI' })
+    );
+    expect(source).toMatchObject({ identifier: 'search:AGI?points=50', category: 'independent' });
+    expect(hackernewsAdapter.configSchema.safeParse({ user: 'pg', frontPage: true }).success).toBe(false);
+  });
+});
+
+describe('fetchHackerNews', () => {
+  beforeEach(() => {
+    RATE_LIMIT_CONFIG.retryBaseMs = 0;
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async (url: string) => routeFixtures(url));
+  });
+
+  it('should query front-page stories above the score threshold', async () => {
+    const items = await fetchHackerNews('front?points=150');
+
+    const searchUrl = mockFetch.mock.calls[0][0] as string;
+    expect(searchUrl).toContain('hn.algolia.com/api/v1/search?');
+    expect(decodeURIComponent(searchUrl)).toContain('numericFilters=points>=150');
+    expect(items.map(i => i.id)).toEqual(['41000001', '41000002']);
+    expect(items[0]).toMatchObject({
+      sourceType: 'hackernews',
+      author: 'throwaway_ml',
+      url: 'https://news.ycombinator.com/item?id=41000001',
+      metadata: { points: 412, storyUrl: 'https://example.org/reasoning-benchmark', defaultAuthorCategory: 'independent' },
+    });
+  });
+
+  it('should fold only high-karma threads, with their replies, into the story', async () => {
+    const [story] = await fetchHackerNews('front?points=150');
+
+    expect(story.metadata?.foldedThreads).toBe(1);
+    expect(story.content).toContain('[veteran_dev (25000 karma)] The held-out split');
+    expect(story.content).toContain('↳ [newbie42] Paraphrased versions');
+    expect(story.content).not.toContain('First!');
+  });
+
+  it('should look each commenter up once per fetch', async () => {
+    await fetchHackerNews('front?points=150');
+
+    const userLookups = mockFetch.mock.calls.map(([url]) => url as string).filter(url => url.includes('/user/'));
+    expect(userLookups.filter(url => url.includes('newbie42'))).toHaveLength(1);
+  });
+
+  it('should include Ask HN text', async () => {
+    const items = await fetchHackerNews('front?points=150');
+
+    expect(items[1].content).toContain('rolled all of them back');
+    expect(items[1].metadata?.foldedThreads).toBe(0);
+  });
+
+  it("should follow a user's comments", async () => {
+    const items = await fetchHackerNews('user:veteran_dev', 'Veteran Dev');
+
+    expect(decodeURIComponent(mockFetch.mock.calls[0][0])).toContain('tags=(story,comment),author_veteran_dev');
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      author: 'Veteran Dev',
+      title: 'Comment on: New benchmark shows LLM reasoning gains are mostly memorization',
+      content: 'Scaling inference compute is not the same as scaling understanding.',
+      metadata: { kind: 'comment', storyId: 41000001 },
+    });
+  });
+
+  it('should keep the story when its discussion is unavailable', async () => {
+    mockFetch.mockImplementation(async (url: string) =>
+      url.includes('/items/') ? { ok: false, status: 503, headers: new Headers(), json: async () => null } : routeFixtures(url)
+    );
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const items = await fetchHackerNews('front?points=150');
+
+    expect(items).toHaveLength(2);
+    expect(items[0].metadata?.foldedThreads).toBe(0);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Source Health Tests
+ *
+ * Backoff and quarantine decisions, and how the fetcher records each
+ * source's outcome and raises alerts, with the database and webhook mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const mockQuery = vi.fn();
+vi.mock('pg', () => {
+  const MockPool = vi.fn(() => ({ query: mockQuery, end: vi.fn() }));
+  return { default: { Pool: MockPool }, Pool: MockPool };
+});
+
+import { z } from 'zod';
+import { registerAdapter } from '../adapters';
+import { AIIntelFetcher } from '../fetcher';
+import {
+  SOURCE_HEALTH_CONFIG, failureAlertKind, postAlert, skipReason, type SourceHealth,
+} from '../health';
+import type { Source } from '../types';
+
+const fetchFeed = vi.fn(async () => []);
+
+registerAdapter({
+  type: 'health-feed',
+  displayName: 'Health',
+  description: 'Test adapter',
+  identifierLabel: 'Feed',
+  defaultFetchFrequencyHours: 24,
+  rateLimit: { minIntervalMs: 0 },
+  configSchema: z.object({}),
+  toSource: () => ({ type: 'health-feed', identifier: 'x' }),
+  fetch: fetchFeed,
+});
+
+const source: Source = { id: 1, type: 'health-feed', identifier: 'x' };
+const now = new Date('2026-06-01T12:00:00Z');
+
+function health(overrides: Partial<SourceHealth> = {}): SourceHealth {
+  return {
+    sourceId: 1,
+    consecutiveFailures: 0,
+    lastError: null,
+    lastErrorAt: null,
+    lastSuccessAt: null,
+    avgItemYield: null,
+    nextFetchAt: null,
+    quarantinedAt: null,
+    ...overrides,
+  };
+}
+
+/** Answer the health lookup with `current` and a failed fetch with `failures` */
+function mockSourceRows(current: SourceHealth, failures = current.consecutiveFailures + 1) {
+  mockQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes('WHERE id = ANY($1)')) return { rows: [current] };
+    if (sql.includes('consecutive_failures = consecutive_failures + 1')) {
+      return { rows: [{ consecutiveFailures: failures, quarantined: failures >= SOURCE_HEALTH_CONFIG.quarantineAfter }] };
+    }
+    return { rows: [] };
+  });
+}
+
+function alertInserts(): unknown[][] {
+  return mockQuery.mock.calls
+    .filter(([sql]) => sql.includes('INSERT INTO source_alerts'))
+    .map(([, params]) => params);
+}
+
+describe('skipReason', () => {
+  it('should fetch healthy sources and failing ones due a retry', () => {
+    expect(skipReason(undefined, now)).toBeNull();
+    expect(skipReason(health(), now)).toBeNull();
+    expect(skipReason(health({ consecutiveFailures: 2, nextFetchAt: new Date('2026-06-01T11:00:00Z') }), now)).toBeNull();
+  });
+
+  it('should skip quarantined sources and failing ones still backing off', () => {
+    expect(skipReason(health({ consecutiveFailures: 5, quarantinedAt: now }), now))
+      .toBe('quarantined after 5 failures');
+    expect(skipReason(health({ consecutiveFailures: 1, nextFetchAt: new Date('2026-06-01T12:30:00Z') }), now))
+      .toBe('backing off until 2026-06-01T12:30:00.000Z');
+  });
+});
+
+describe('failureAlertKind', () => {
+  it('should alert on the first failure and on quarantine only', () => {
+    const { quarantineAfter } = SOURCE_HEALTH_CONFIG;
+    expect(failureAlertKind(1)).toBe('failing');
+    expect(failureAlertKind(2)).toBeNull();
+    expect(failureAlertKind(quarantineAfter)).toBe('quarantined');
+    expect(failureAlertKind(quarantineAfter + 1)).toBeNull();
+  });
+});
+
+describe('AIIntelFetcher source health', () => {
+  const fetcher = new AIIntelFetcher({ dbUrl: 'postgresql://localhost/test' });
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    fetchFeed.mockReset();
+    fetchFeed.mockResolvedValue([]);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should skip a quarantined source unless forced', async () => {
+    mockSourceRows(health({ consecutiveFailures: 5, quarantinedAt: now }));
+
+    const result = await fetcher.fetchSources([source]);
+
+    expect(fetchFeed).not.toHaveBeenCalled();
+    expect(result.skipped).toEqual([{ source: 'x', reason: 'quarantined after 5 failures' }]);
+
+    const forced = await fetcher.fetchSources([source], { force: true });
+
+    expect(fetchFeed).toHaveBeenCalledTimes(1);
+    expect(forced.skipped).toEqual([]);
+    expect(forced.successful).toHaveLength(1);
+    expect(alertInserts()).toEqual([[1, 'recovered', 'fetched after 5 failures']]);
+  });
+
+  it('should record a failure and alert when a source starts failing', async () => {
+    mockSourceRows(health());
+    fetchFeed.mockRejectedValueOnce(new Error('503 Service Unavailable'));
+
+    const { failed } = await fetcher.fetchSources([source]);
+
+    expect(failed).toEqual([{ source: 'x', error: '503 Service Unavailable' }]);
+    const [, params] = mockQuery.mock.calls.find(([sql]) => sql.includes('consecutive_failures = consecutive_failures + 1'))!;
+    expect(params.slice(0, 2)).toEqual([1, '503 Service Unavailable']);
+    expect(alertInserts()).toEqual([[1, 'failing', '503 Service Unavailable']]);
+  });
+
+  it('should quarantine a source on its last allowed failure', async () => {
+    const failures = SOURCE_HEALTH_CONFIG.quarantineAfter;
+    mockSourceRows(health({ consecutiveFailures: failures - 1 }), failures);
+    fetchFeed.mockRejectedValueOnce(new Error('404 Not Found'));
+
+    await fetcher.fetchSources([source], { force: true });
+
+    expect(alertInserts()).toEqual([[1, 'quarantined', `${failures} failures in a row, last: 404 Not Found`]]);
+  });
+
+  it('should not alert again while a source keeps failing', async () => {
+    mockSourceRows(health({ consecutiveFailures: 1 }));
+    fetchFeed.mockRejectedValueOnce(new Error('timeout'));
+
+    await fetcher.fetchSources([source]);
+
+    expect(alertInserts()).toEqual([]);
+  });
+});
+
+describe('postAlert', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should post the formatted alert to the webhook', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(new Response('ok'));
+    global.fetch = mockFetch;
+    const alert = { sourceId: 1, source: 'x', sourceType: 'blog', kind: 'quarantined' as const, message: '5 failures' };
+
+    await postAlert(alert, 'https://hooks.example.com/alerts');
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://hooks.example.com/alerts');
+    expect(JSON.parse(init.body)).toEqual({ text: '⛔ blog source x quarantined: 5 failures', alert });
+  });
+
+  it('should do nothing without a webhook URL', async () => {
+    const mockFetch = vi.fn();
+    global.fetch = mockFetch;
+
+    await postAlert({ sourceId: 1, source: 'x', sourceType: 'blog', kind: 'failing', message: 'e' }, '');
+
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
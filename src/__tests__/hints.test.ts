@@ -0,0 +1,50 @@
+/**
+ * Research Hint Tests
+ *
+ * Tests for normalizing hint-detection output.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { hintFromDetection } from '../hints';
+
+describe('hintFromDetection', () => {
+  const context = {
+    contentId: 7,
+    author: 'polynoamial',
+    madeAt: new Date('2025-02-01T00:00:00Z'),
+  };
+
+  it('should normalize a detected hint', () => {
+    const hint = hintFromDetection({
+      hintText: "Can't say much, but test-time compute scaling is going to surprise people",
+      impliedCapability: 'Reasoning model with large gains from test-time compute',
+      confidence: 0.7,
+      timeframe: 'next few months',
+      domain: 'reasoning',
+    }, context);
+
+    expect(hint).toEqual({
+      ...context,
+      hintText: "Can't say much, but test-time compute scaling is going to surprise people",
+      impliedCapability: 'Reasoning model with large gains from test-time compute',
+      confidence: 0.7,
+      timeframe: 'next few months',
+      domain: 'reasoning',
+    });
+  });
+
+  it('should reject hints without an implied capability', () => {
+    expect(hintFromDetection({ hintText: 'Exciting times', confidence: 0.9 }, context)).toBeNull();
+    expect(hintFromDetection({ impliedCapability: '   ' }, context)).toBeNull();
+    expect(hintFromDetection(null, context)).toBeNull();
+  });
+
+  it('should clamp confidence and fill defaults', () => {
+    const hint = hintFromDetection({ impliedCapability: 'Native video generation', confidence: 3 }, context);
+
+    expect(hint?.confidence).toBe(1);
+    expect(hint?.hintText).toBe('Native video generation');
+    expect(hint?.domain).toBe('general');
+    expect(hint?.timeframe).toBeUndefined();
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Mastodon Adapter Tests
+ *
+ * Runs the adapter against recorded statuses API responses and a feed.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import account from './fixtures/mastodon/account.json';
+import statuses from './fixtures/mastodon/statuses.json';
+import { fetchMastodon, mastodonAdapter, parseMastodonHandle } from '../adapters/mastodon';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Simon Willison</title>
+    <item>
+      <guid isPermaLink="true">https://simonwillison.net/@simon/113300000000000001</guid>
+      <link>https://simonwillison.net/@simon/113300000000000001</link>
+      <pubDate>Wed, 15 Oct 2026 17:02:11 +0000</pubDate>
+      <description>&lt;p&gt;New release of llm adds support for structured output schemas.&lt;/p&gt;</description>
+    </item>
+  </channel>
+</rss>`;
+
+function respond(body: unknown) {
+  return { ok: true, status: 200, headers: new Headers(), json: async () => body };
+}
+
+describe('parseMastodonHandle', () => {
+  it('should split a handle into user and instance', () => {
+    expect(parseMastodonHandle('@simon@simonwillison.net')).toEqual({ user: 'simon', instance: 'simonwillison.net' });
+    expect(parseMastodonHandle('emilymbender@DAIR-community.social').instance).toBe('dair-community.social');
+    expect(() => parseMastodonHandle('@simon')).toThrow('expected @user@instance');
+  });
+});
+
+describe('fetchMastodon', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.includes('/api/v1/accounts/lookup')) return respond(account);
+      if (url.includes(`/api/v1/accounts/${account.id}/statuses`)) return respond(statuses);
+      return { ok: false, status: 404, headers: new Headers(), json: async () => null };
+    });
+  });
+
+  it("should look the account up on its instance and read its statuses", async () => {
+    await fetchMastodon('@simon@simonwillison.net');
+
+    expect(mockFetch.mock.calls[0][0]).toBe('https://simonwillison.net/api/v1/accounts/lookup?acct=simon');
+    expect(mockFetch.mock.calls[1][0]).toContain(`/api/v1/accounts/${account.id}/statuses?limit=40&exclude_reblogs=true`);
+  });
+
+  it('should skip boosts and keep favourites and reblogs in metadata', async () => {
+    const items = await fetchMastodon('@simon@simonwillison.net', 'Simon Willison');
+
+    expect(items.map(i => i.id)).toEqual(['113300000000000001', '113300000000000003']);
+    expect(items[0]).toMatchObject({
+      sourceType: 'mastodon',
+      author: 'Simon Willison',
+      url: 'https://simonwillison.net/@simon/113300000000000001',
+      metadata: { favourites: 214, reblogs: 61, replies: 18, linkUrl: 'https://simonwillison.net/2026/Oct/15/llm/' },
+    });
+  });
+
+  it('should strip HTML, keeping line breaks and content warnings', async () => {
+    const items = await fetchMastodon('@simon@simonwillison.net');
+
+    expect(items[0].content).toBe(
+      'New release of llm adds support for structured output schemas across every plugin.\n\n' +
+      'Details: simonwillison.net/2026/Oct/15/llm/'
+    );
+    expect(items[1].content).toBe(
+      "CW: AI security\n\nThread on why I still don't trust agents with my email.\nPrompt injection is unsolved."
+    );
+    expect(items[1].metadata?.isReply).toBe(true);
+  });
+
+  it("should fall back to the account's feed when the API is unavailable", async () => {
+    mockFetch.mockImplementation(async (url: string) =>
+      url.endsWith('/@simon.rss')
+        ? { ok: true, status: 200, headers: new Headers(), text: async () => FEED }
+        : { ok: false, status: 401, headers: new Headers(), json: async () => null }
+    );
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const items = await fetchMastodon('@simon@simonwillison.net');
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      id: '113300000000000001',
+      content: 'New release of llm adds support for structured output schemas.',
+      metadata: { viaFeed: true },
+    });
+  });
+});
+
+describe('mastodonAdapter', () => {
+  it('should normalize handles when seeding', () => {
+    const source = mastodonAdapter.toSource(
+      mastodonAdapter.configSchema.parse({ handle: 'simon@SimonWillison.net', category: 'independent' })
+    );
+
+    expect(source).toMatchObject({ type: 'mastodon', identifier: '@simon@simonwillison.net' });
+    expect(mastodonAdapter.configSchema.safeParse({ handle: 'simon', category: 'independent' }).success).toBe(false);
+  });
+});
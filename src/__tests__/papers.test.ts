@@ -0,0 +1,201 @@
+/**
+ * Paper Reception Tests
+ *
+ * Runs the metadata clients against recorded Semantic Scholar and OpenReview
+ * responses, summarizes reception, and enriches papers with fake clients.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockQuery = vi.fn();
+vi.mock('pg', () => {
+  const MockPool = vi.fn(() => ({ query: mockQuery, end: vi.fn() }));
+  return { default: { Pool: MockPool }, Pool: MockPool };
+});
+
+import semanticScholarPaper from './fixtures/papers/semantic-scholar-paper.json';
+import openReviewSearch from './fixtures/papers/openreview-search.json';
+import openReviewForum from './fixtures/papers/openreview-forum.json';
+import { AIIntelOrchestrator } from '../index';
+import {
+  OpenReviewClient,
+  SemanticScholarClient,
+  parseReviewScore,
+  summarizeReception,
+  type PaperMetadataClient,
+  type PaperReceptionRow,
+  type PaperRef
+} from '../papers';
+import { RATE_LIMIT_CONFIG } from '../ratelimit';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+RATE_LIMIT_CONFIG.providers['api.semanticscholar.org'] = { requestsPerSecond: 1000, burst: 10 };
+RATE_LIMIT_CONFIG.providers['api2.openreview.net'] = { requestsPerSecond: 1000, burst: 10 };
+RATE_LIMIT_CONFIG.retryBaseMs = 0;
+
+const paper: PaperRef = {
+  contentId: 12,
+  arxivId: '2610.11873v2',
+  title: 'Test-Time Compute Scaling Laws for Multi-Step Reasoning',
+};
+
+function respond(body: unknown, status = 200) {
+  return { ok: status < 400, status, headers: new Headers(), json: async () => body };
+}
+
+describe('parseReviewScore', () => {
+  it('should read numeric ratings and the number leading a rating label', () => {
+    expect(parseReviewScore(6)).toBe(6);
+    expect(parseReviewScore('8: accept, good paper')).toBe(8);
+    expect(parseReviewScore('Strong accept')).toBeNull();
+    expect(parseReviewScore(undefined)).toBeNull();
+  });
+});
+
+describe('SemanticScholarClient', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('should look the paper up by arXiv id without its version', async () => {
+    mockFetch.mockResolvedValue(respond(semanticScholarPaper));
+
+    const record = await new SemanticScholarClient({ apiKey: 's2-key' }).lookup(paper);
+
+    expect(mockFetch.mock.calls[0][0]).toContain('/graph/v1/paper/arXiv:2610.11873?fields=');
+    expect(mockFetch.mock.calls[0][1]).toEqual({ headers: { 'x-api-key': 's2-key' } });
+    expect(record).toEqual({
+      externalId: semanticScholarPaper.paperId,
+      url: semanticScholarPaper.url,
+      citationCount: 37,
+      influentialCitationCount: 4,
+      venue: undefined,
+    });
+  });
+
+  it('should return null for papers it does not know and throw on other errors', async () => {
+    const client = new SemanticScholarClient();
+
+    mockFetch.mockResolvedValue(respond({ error: 'Paper not found' }, 404));
+    expect(await client.lookup(paper)).toBeNull();
+
+    mockFetch.mockResolvedValue(respond({}, 429));
+    await expect(client.lookup(paper)).rejects.toThrow('Semantic Scholar API error: 429');
+  });
+});
+
+describe('OpenReviewClient', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async (url: string) =>
+      url.includes('/notes/search') ? respond(openReviewSearch) : respond(openReviewForum)
+    );
+  });
+
+  it('should pick the forum whose title matches and read its reviews and decision', async () => {
+    const record = await new OpenReviewClient().lookup(paper);
+
+    expect(mockFetch.mock.calls[1][0]).toBe('https://api2.openreview.net/notes?forum=Hq7vL2nW8d&limit=1000');
+    expect(record).toEqual({
+      externalId: 'Hq7vL2nW8d',
+      url: 'https://openreview.net/forum?id=Hq7vL2nW8d',
+      venue: 'Submitted to ICLR 2027',
+      reviewScores: [3, 5, 4],
+      decision: 'Reject',
+    });
+  });
+
+  it('should return null when no forum has the same title', async () => {
+    const record = await new OpenReviewClient().lookup({ ...paper, title: 'Scaling Laws for Reward Models' });
+
+    expect(record).toBeNull();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('summarizeReception', () => {
+  const row = (overrides: Partial<PaperReceptionRow>): PaperReceptionRow => ({
+    contentId: 1,
+    topic: 'reasoning',
+    meanReviewScore: null,
+    decision: null,
+    citationCount: null,
+    labMentions: 0,
+    ...overrides,
+  });
+
+  it('should compare lab-promoted papers with the median across all topics', () => {
+    const reception = summarizeReception([
+      row({ contentId: 1, meanReviewScore: 4, decision: 'Reject', labMentions: 3, citationCount: 40 }),
+      row({ contentId: 2, meanReviewScore: 5.5, labMentions: 1, citationCount: 10 }),
+      row({ contentId: 3, citationCount: 2 }),
+      row({ contentId: 4, topic: 'agents', meanReviewScore: 7, decision: 'Accept (Poster)' }),
+      row({ contentId: 5, topic: 'agents', meanReviewScore: 6.5 }),
+    ]);
+
+    expect(reception.overallMedianReviewScore).toBe(6);
+    expect(reception.topics[0]).toEqual({
+      topic: 'reasoning',
+      papers: 3,
+      reviewedPapers: 2,
+      medianReviewScore: 4.75,
+      accepted: 0,
+      rejected: 1,
+      medianCitations: 10,
+      labPromotedPapers: 2,
+      labPromotedReviewed: 2,
+      labPromotedBelowMedian: 2,
+    });
+    expect(reception.topics[1]).toMatchObject({ topic: 'agents', accepted: 1, labPromotedPapers: 0 });
+  });
+});
+
+describe('AIIntelOrchestrator.enrichPapers', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockQuery.mockImplementation(async (sql: string) =>
+      sql.includes('MAX(captured_at)') ? { rows: [paper] } : { rows: [] }
+    );
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should snapshot every source, including misses, and carry on past failures', async () => {
+    const clients: PaperMetadataClient[] = [
+      { source: 'semantic-scholar', lookup: vi.fn().mockResolvedValue({ externalId: 's2', citationCount: 37 }) },
+      { source: 'openreview', lookup: vi.fn().mockResolvedValue(null) },
+      { source: 'openreview', lookup: vi.fn().mockRejectedValue(new Error('OpenReview API error: 503')) },
+    ];
+    const orchestrator = new AIIntelOrchestrator({
+      projectDir: '/test',
+      dbUrl: 'postgresql://localhost/test',
+      paperClients: clients,
+    });
+
+    const result = await orchestrator.enrichPapers();
+
+    expect(result).toEqual({ checked: 1, found: 1 });
+    const inserts = mockQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO paper_snapshots'));
+    expect(inserts.map(([, params]) => params.slice(0, 4))).toEqual([
+      [12, 'semantic-scholar', true, 's2'],
+      [12, 'openreview', false, null],
+    ]);
+  });
+
+  it('should store the mean of the review scores alongside them', async () => {
+    const orchestrator = new AIIntelOrchestrator({
+      projectDir: '/test',
+      dbUrl: 'postgresql://localhost/test',
+      paperClients: [{
+        source: 'openreview',
+        lookup: vi.fn().mockResolvedValue({ externalId: 'Hq7vL2nW8d', reviewScores: [3, 5, 4], decision: 'Reject' }),
+      }],
+    });
+
+    await orchestrator.enrichPapers();
+
+    const [, params] = mockQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO paper_snapshots'))!;
+    expect(params.slice(8)).toEqual([[3, 5, 4], 4, 'Reject']);
+  });
+});
@@ -98,6 +98,53 @@ describe('AIIntelOrchestrator', () => {
       expect(result.processed).toBe(1);
     });
 
+    it('should leave content unprocessed when its filter or extraction batch fails', async () => {
+      const skills = new AIIntelOrchestrator({ projectDir: '/test', dbUrl: 'postgresql://localhost/test', useSkills: true });
+      const agent = (skills as any).agent;
+      const pool = (skills as any).contentStore.pool;
+      const item = (id: number) => ({
+        id, source: 'twitter', sourceType: 'twitter', author: 'testuser', publishedAt: new Date(),
+        content: `Item ${id}: AI reasoning capabilities are improving rapidly and substantively`,
+      });
+      const markedProcessed = () => (pool.query as any).mock.calls
+        .filter((c: any[]) => c[0].includes('SET processed_at'))
+        .flatMap((c: any[]) => c[1][0]);
+
+      // One assessment dropped as invalid: item 2 is retried, item 1 is irrelevant
+      vi.spyOn(agent, 'filterContent').mockResolvedValueOnce({
+        assessments: [{ idx: 0, relevance: 0.1, topic: 'reasoning', contentType: 'noise', authorCategory: 'unknown', isSubstantive: false }],
+        dropped: 1,
+      });
+      await skills.processBatch([item(1), item(2)] as any);
+      expect(markedProcessed()).toEqual([1]);
+
+      (pool.query as any).mockClear();
+      vi.spyOn(agent, 'filterContent').mockResolvedValueOnce({
+        assessments: [{ idx: 0, relevance: 0.9, topic: 'reasoning', contentType: 'opinion', authorCategory: 'unknown', isSubstantive: true }],
+        dropped: 0,
+      });
+      vi.spyOn(agent, 'extractClaims').mockResolvedValueOnce(null);
+      const result = await skills.processBatch([item(3)] as any);
+      expect(result.relevant).toBe(0);
+      expect(markedProcessed()).toEqual([]);
+    });
+
+    it('should mark content processed even when clustering fails', async () => {
+      const pool = (orchestrator.contentStore as any).pool;
+      vi.spyOn(orchestrator, 'clusterClaims').mockRejectedValueOnce(new Error('lock timeout'));
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = await orchestrator.processBatch([{
+        id: 7, source: 'twitter', sourceType: 'twitter', author: 'testuser', publishedAt: new Date(),
+        content: 'AI reasoning capabilities are improving rapidly and substantively',
+      }] as any);
+
+      expect(result.processed).toBe(1);
+      const marked = (pool.query as any).mock.calls.filter((c: any[]) => c[0].includes('SET processed_at'));
+      expect(marked.flatMap((c: any[]) => c[1][0])).toContain(7);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Failed to cluster claims'));
+    });
+
     it('should handle empty batch', async () => {
       const result = await orchestrator.processBatch([]);
 
@@ -134,6 +181,159 @@ describe('AIIntelOrchestrator', () => {
       expect(statements.some((s: string) => s.includes('INSERT INTO extracted_claims'))).toBe(true);
     });
 
+    it('records prediction claims in the ledger within the transaction', async () => {
+      const pool = (orchestrator.contentStore as any).pool;
+      const publishedAt = new Date('2025-01-01T00:00:00Z');
+      const filtered = sampleContent().map((item: any) => ({
+        ...item,
+        publishedAt,
+        relevance: 1,
+        topic: 'agents',
+        contentType: 'prediction',
+        authorCategory: 'lab-researcher',
+        isSubstantive: true,
+      }));
+
+      await (orchestrator as any).storeResults(filtered, [
+        {
+          claimText: 'Agents will run most software engineering by next year',
+          claimType: 'prediction',
+          topic: 'agents',
+          stance: 'bullish',
+          bullishness: 0.9,
+          confidence: 0.7,
+          timeframe: 'near-term',
+          author: 'testuser',
+          sourceUrl: 'https://example.com/post/1',
+        },
+      ]);
+
+      const calls = (pool.query as any).mock.calls;
+      const statements = calls.map((c: any[]) => c[0]);
+      const insert = calls.find((c: any[]) => c[0].includes('INSERT INTO predictions'));
+      expect(insert).toBeDefined();
+      // Written before COMMIT, inside the same transaction as the claim
+      expect(statements.findIndex((s: string) => s.includes('INSERT INTO predictions')))
+        .toBeLessThan(statements.indexOf('COMMIT'));
+
+      // [id, claim_id, text, author, confidence, timeframe, topic, made_at, target_date]
+      const params = insert[1];
+      expect(params[1]).toMatch(/^claim_/);
+      expect(params[3]).toBe('testuser');
+      expect(params[7]).toEqual(publishedAt);
+      expect(params[8]).toEqual(new Date('2026-01-01T00:00:00Z'));
+    });
+
+    it('stores detected hints against their content within the transaction', async () => {
+      const pool = (orchestrator.contentStore as any).pool;
+      const publishedAt = new Date('2025-01-01T00:00:00Z');
+      const [item] = sampleContent().map((c: any) => ({
+        ...c,
+        publishedAt,
+        relevance: 1,
+        topic: 'reasoning',
+        contentType: 'research-hint',
+        authorCategory: 'lab-researcher',
+        isSubstantive: true,
+      }));
+
+      await (orchestrator as any).storeResults([item], [], new Map([
+        [item, [
+          { hintText: "Can't say much yet", impliedCapability: 'Long-horizon agent benchmark results', confidence: 0.6, domain: 'agents' },
+          { hintText: 'No capability named' },
+        ]],
+      ]));
+
+      const calls = (pool.query as any).mock.calls;
+      const statements = calls.map((c: any[]) => c[0]);
+      const inserts = calls.filter((c: any[]) => c[0].includes('INSERT INTO research_hints'));
+      expect(inserts).toHaveLength(1);
+      expect(statements.findIndex((s: string) => s.includes('INSERT INTO research_hints')))
+        .toBeLessThan(statements.indexOf('COMMIT'));
+
+      // [content_id, author, hint_text, implied_capability, confidence, timeframe, domain, made_at]
+      const params = inserts[0][1];
+      expect(params[0]).toBe(1);
+      expect(params[1]).toBe('testuser');
+      expect(params[3]).toBe('Long-horizon agent benchmark results');
+      expect(params[7]).toEqual(publishedAt);
+    });
+
+    it('links argument maps to the claims extracted from the same content', async () => {
+      const pool = (orchestrator.contentStore as any).pool;
+      const [item] = sampleContent().map((c: any) => ({
+        ...c,
+        relevance: 1,
+        topic: 'reasoning',
+        contentType: 'critique',
+        authorCategory: 'critic',
+        isSubstantive: true,
+      }));
+
+      await (orchestrator as any).storeResults([item], [
+        {
+          claimText: 'Scaling alone will not produce reasoning',
+          claimType: 'critique',
+          topic: 'reasoning',
+          stance: 'bearish',
+          bullishness: 0.2,
+          confidence: 0.8,
+          sourceUrl: 'https://example.com/post/1',
+        },
+      ], new Map(), new Map([
+        [item, { mainThesis: 'LLMs do not reason', premises: ['Performance collapses on perturbed problems'] }],
+      ]));
+
+      const calls = (pool.query as any).mock.calls;
+      const insert = calls.find((c: any[]) => c[0].includes('INSERT INTO argument_maps'));
+      expect(insert).toBeDefined();
+
+      // [content_id, author, topic, main_thesis, premises, evidence, target_claims,
+      //  concessions, weaknesses, steelman_response, claim_ids]
+      const params = insert[1];
+      expect(params[0]).toBe(1);
+      expect(params[3]).toBe('LLMs do not reason');
+      expect(params[10]).toHaveLength(1);
+      expect(params[10][0]).toMatch(/^claim_/);
+    });
+
+    it('stores confident relations as claim edges', async () => {
+      const pool = (orchestrator.contentStore as any).pool;
+      const [item] = sampleContent().map((c: any) => ({
+        ...c,
+        relevance: 1,
+        topic: 'scaling',
+        contentType: 'opinion',
+        authorCategory: 'critic',
+        isSubstantive: true,
+      }));
+
+      await (orchestrator as any).storeResults([item], [
+        {
+          claimText: 'Pretraining scaling has hit a wall',
+          claimType: 'opinion',
+          topic: 'scaling',
+          stance: 'bearish',
+          bullishness: 0.2,
+          confidence: 0.8,
+          sourceUrl: 'https://example.com/post/1',
+          relations: [
+            { targetClaimId: 'claim_old', relation: 'contradicts', confidence: 0.8, similarity: 0.85, method: 'nli' },
+            { targetClaimId: 'claim_weak', relation: 'contradicts', confidence: 0.4, similarity: 0.8, method: 'heuristic' },
+          ],
+        },
+      ]);
+
+      const calls = (pool.query as any).mock.calls;
+      const edges = calls.filter((c: any[]) => c[0].includes('INSERT INTO claim_edges'));
+      expect(edges).toHaveLength(1);
+      expect(edges[0][1]).toEqual([expect.stringMatching(/^claim_/), 'claim_old', 'contradicts', 0.8, 0.85, 'nli', undefined]);
+
+      // Both neighbours are still recorded on the claim itself
+      const claimInsert = calls.find((c: any[]) => c[0].includes('INSERT INTO extracted_claims'));
+      expect(JSON.parse(claimInsert[1][17]).potentialContradictions).toEqual(['claim_old', 'claim_weak']);
+    });
+
     it('rolls back and rethrows when a write fails', async () => {
       const pool = (orchestrator.contentStore as any).pool;
       const client = {
@@ -157,6 +357,47 @@ describe('AIIntelOrchestrator', () => {
     });
   });
 
+  describe('clusterClaims', () => {
+    it('joins close claims to the nearest cluster and seeds new ones otherwise', async () => {
+      const pool = (orchestrator.clusterStore as any).pool;
+      const client = {
+        query: vi.fn().mockImplementation((sql: string, params?: any[]) => {
+          if (sql.includes('WHERE c.cluster_id IS NULL')) {
+            return Promise.resolve({ rows: [
+              { id: 'claim_near', claimText: 'Scaling is hitting a wall', topic: 'scaling', author: 'alice', extractedAt: new Date(), embedding: '[1,0]' },
+              { id: 'claim_far', claimText: 'Agents will book flights', topic: 'agents', author: 'bob', extractedAt: new Date(), embedding: '[0,1]' },
+            ] });
+          }
+          if (sql.includes('FROM claim_clusters')) {
+            const near = params?.[0] === '[1,0]';
+            return Promise.resolve({ rows: [
+              { id: 7, memberCount: 3, centroid: '[0.9,0.1]', similarity: near ? 0.95 : 0.2 },
+            ] });
+          }
+          if (sql.includes('INSERT INTO claim_clusters')) {
+            return Promise.resolve({ rows: [{ id: 8 }] });
+          }
+          return Promise.resolve({ rows: [] });
+        }),
+        release: vi.fn(),
+      };
+      pool.connect.mockResolvedValueOnce(client);
+
+      const result = await orchestrator.clusterClaims();
+
+      expect(result).toEqual({ clustered: 2, created: 1 });
+      const calls = client.query.mock.calls;
+      const update = calls.find((c: any[]) => c[0].includes('UPDATE claim_clusters'));
+      expect(update[1][0]).toBe(7);
+      expect(update[1][1]).toBe(`[${[(0.9 * 3 + 1) / 4, (0.1 * 3) / 4].join(',')}]`);
+      const assignments = calls
+        .filter((c: any[]) => c[0].includes('UPDATE extracted_claims SET cluster_id'))
+        .map((c: any[]) => c[1]);
+      expect(assignments).toEqual([['claim_near', 7], ['claim_far', 8]]);
+      expect(calls.map((c: any[]) => c[0])).toContain('COMMIT');
+    });
+  });
+
   describe('Filter stage', () => {
     it('should assign default relevance when skills disabled', async () => {
       const rawContent: RawContent[] = [
@@ -203,6 +444,46 @@ describe('AIIntelOrchestrator', () => {
     });
   });
 
+  describe('Verify stage', () => {
+    const content = [
+      {
+        source: 'substack',
+        sourceType: 'substack',
+        author: 'critic',
+        url: 'https://example.com/post',
+        content: 'I keep hearing it. But “scaling alone won’t get us there” is my view.',
+        publishedAt: new Date(),
+      },
+    ] as FilteredContent[];
+
+    const claims = [
+      { claimText: 'Scaling is not enough', originalQuote: '"scaling alone won\'t get us there"', sourceUrl: 'https://example.com/post' },
+      { claimText: 'AGI by 2027', originalQuote: 'AGI arrives in 2027, full stop', sourceUrl: 'https://example.com/post' },
+      { claimText: 'No quote given', sourceUrl: 'https://example.com/post' },
+    ];
+
+    it('flags claims whose quotes are not in the source', () => {
+      const verified = (orchestrator as any).verifyStage(content, claims);
+
+      expect(verified.map((c: any) => c.quoteVerified)).toEqual([true, false, undefined]);
+      expect(verified[0].quoteMatchScore).toBe(1);
+      expect(content[0].content.slice(verified[0].quoteStart, verified[0].quoteEnd))
+        .toBe('scaling alone won’t get us there');
+    });
+
+    it('drops them when dropUnverifiedQuotes is set', () => {
+      const strict = new AIIntelOrchestrator({
+        projectDir: '/test',
+        dbUrl: 'postgresql://localhost/test',
+        useSkills: false,
+        dropUnverifiedQuotes: true,
+      });
+
+      const verified = (strict as any).verifyStage(content, claims);
+      expect(verified.map((c: any) => c.claimText)).toEqual(['Scaling is not enough', 'No quote given']);
+    });
+  });
+
   describe('Enrich stage', () => {
     it('should add embeddings to claims', async () => {
       const claims = [
@@ -0,0 +1,161 @@
+/**
+ * Prediction Ledger Tests
+ *
+ * Tests for target-date derivation, claim → prediction conversion and
+ * calibration scoring.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  deriveTargetDate,
+  predictionFromClaim,
+  resolutionFromAssessment,
+  predictionOutcome,
+  computeCalibration,
+} from '../predictions';
+
+describe('deriveTargetDate', () => {
+  const madeAt = new Date('2025-03-15T12:00:00Z');
+
+  it('should add the horizon for each timeframe', () => {
+    expect(deriveTargetDate('near-term', madeAt).toISOString()).toBe('2026-03-15T12:00:00.000Z');
+    expect(deriveTargetDate('medium-term', madeAt).toISOString()).toBe('2028-03-15T12:00:00.000Z');
+    expect(deriveTargetDate('long-term', madeAt).toISOString()).toBe('2035-03-15T12:00:00.000Z');
+  });
+
+  it('should fall back to the unspecified horizon for null or unknown timeframes', () => {
+    expect(deriveTargetDate(null, madeAt).toISOString()).toBe('2027-03-15T12:00:00.000Z');
+    expect(deriveTargetDate('someday', madeAt).toISOString()).toBe('2027-03-15T12:00:00.000Z');
+  });
+
+  it('should not mutate the input date', () => {
+    deriveTargetDate('near-term', madeAt);
+    expect(madeAt.toISOString()).toBe('2025-03-15T12:00:00.000Z');
+  });
+});
+
+describe('predictionFromClaim', () => {
+  it('should link back to the claim and carry the resolved author', () => {
+    const prediction = predictionFromClaim(
+      {
+        claimText: 'Agents will handle most coding tasks within a year',
+        confidence: 0.8,
+        timeframe: 'near-term',
+        topic: 'agents',
+      },
+      {
+        claimId: 'claim_1',
+        author: 'karpathy',
+        madeAt: new Date('2025-01-01T00:00:00Z'),
+      }
+    );
+
+    expect(prediction).toMatchObject({
+      claimId: 'claim_1',
+      author: 'karpathy',
+      confidence: 0.8,
+      timeframe: 'near-term',
+      topic: 'agents',
+    });
+    expect(prediction.targetDate?.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('should record a missing timeframe as unspecified', () => {
+    const prediction = predictionFromClaim(
+      { claimText: 'AGI eventually', confidence: 0.5, timeframe: null, topic: 'general' },
+      { claimId: 'claim_2', author: 'someone', madeAt: new Date('2025-01-01T00:00:00Z') }
+    );
+
+    expect(prediction.timeframe).toBe('unspecified');
+  });
+});
+
+describe('resolutionFromAssessment', () => {
+  const evidence = [
+    { claimId: 'claim_a', text: 'It shipped', similarity: 0.8 },
+    { claimId: 'claim_b', text: 'Still not shipped', similarity: 0.7 },
+  ];
+
+  it('should build a proposal limited to evidence the model was shown', () => {
+    const resolution = resolutionFromAssessment('pred_1', {
+      predictionId: 'pred_1',
+      status: 'partially-verified',
+      accuracyScore: 1.4,
+      evidence: 'Shipped, but later than predicted',
+      evidenceClaimIds: ['claim_a', 'claim_invented'],
+    }, evidence);
+
+    expect(resolution).toEqual({
+      predictionId: 'pred_1',
+      proposedStatus: 'partially-verified',
+      accuracyScore: 1,
+      evidenceSummary: 'Shipped, but later than predicted',
+      evidenceClaimIds: ['claim_a'],
+      notes: undefined,
+    });
+  });
+
+  it('should reject unknown statuses', () => {
+    expect(resolutionFromAssessment('pred_1', { status: 'probably' }, evidence)).toBeNull();
+  });
+
+  it('should leave the score empty when the model gives none', () => {
+    const resolution = resolutionFromAssessment('pred_1', { status: 'unfalsifiable', accuracyScore: null }, evidence);
+    expect(resolution?.accuracyScore).toBeUndefined();
+  });
+});
+
+describe('predictionOutcome', () => {
+  it('should map resolved statuses to outcomes', () => {
+    expect(predictionOutcome('verified')).toBe(1);
+    expect(predictionOutcome('falsified')).toBe(0);
+    expect(predictionOutcome('partially-verified')).toBe(0.5);
+  });
+
+  it('should prefer an explicit accuracy score', () => {
+    expect(predictionOutcome('partially-verified', 0.8)).toBe(0.8);
+    expect(predictionOutcome('verified', null)).toBe(1);
+  });
+
+  it('should return null for unresolved statuses', () => {
+    expect(predictionOutcome('pending')).toBeNull();
+    expect(predictionOutcome('too-early', 0.5)).toBeNull();
+  });
+});
+
+describe('computeCalibration', () => {
+  it('should score a perfectly calibrated author', () => {
+    const report = computeCalibration('alice', [
+      { confidence: 1, outcome: 1 },
+      { confidence: 0, outcome: 0 },
+    ]);
+
+    expect(report.count).toBe(2);
+    expect(report.brierScore).toBe(0);
+    expect(report.overconfidence).toBe(0);
+  });
+
+  it('should report overconfidence and bucket by stated confidence', () => {
+    const report = computeCalibration('bob', [
+      { confidence: 0.9, outcome: 0 },
+      { confidence: 0.9, outcome: 1 },
+      { confidence: 0.95, outcome: 0 },
+      { confidence: 0.3, outcome: 0 },
+    ]);
+
+    expect(report.brierScore).toBeCloseTo((0.81 + 0.01 + 0.9025 + 0.09) / 4);
+    expect(report.overconfidence).toBeCloseTo((0.9 + 0.9 + 0.95 + 0.3 - 1) / 4);
+    expect(report.buckets.map(b => [b.lower, b.count])).toEqual([[0.3, 1], [0.9, 3]]);
+    expect(report.buckets[1].observedRate).toBeCloseTo(1 / 3);
+  });
+
+  it('should keep log loss finite for certain misses', () => {
+    const report = computeCalibration('carol', [{ confidence: 1, outcome: 0 }]);
+    expect(Number.isFinite(report.logLoss)).toBe(true);
+    expect(report.logLoss).toBeCloseTo(-Math.log(0.01));
+  });
+
+  it('should return an empty report with no resolved predictions', () => {
+    expect(computeCalibration('dave', [])).toMatchObject({ count: 0, buckets: [] });
+  });
+});
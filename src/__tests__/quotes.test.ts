@@ -0,0 +1,77 @@
+/**
+ * Quote Verification Tests
+ *
+ * Tests for aligning extracted quotes against source text.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { matchQuote, verifyClaimQuote, QUOTE_MATCH_THRESHOLD } from '../quotes';
+import type { ExtractedClaim } from '../types';
+
+const source = `We trained it for longer.\n\nHonestly, I think   “reasoning models
+will saturate most benchmarks” within two years — but that's not AGI.`;
+
+describe('matchQuote', () => {
+  it('should tolerate whitespace, punctuation and quote characters', () => {
+    const match = matchQuote(source, '"Reasoning models will saturate most benchmarks"');
+
+    expect(match.verified).toBe(true);
+    expect(match.score).toBe(1);
+    expect(source.slice(match.start, match.end)).toBe('reasoning models\nwill saturate most benchmarks');
+  });
+
+  it('should accept small transcription differences', () => {
+    const match = matchQuote(source, "I think reasoning models will saturate most benchmarks within 2 years, but that's not AGI");
+    expect(match.score).toBeGreaterThanOrEqual(QUOTE_MATCH_THRESHOLD);
+    expect(match.verified).toBe(true);
+  });
+
+  it('should reject fabricated quotes', () => {
+    const match = matchQuote(source, 'AGI will arrive within two years');
+    expect(match.verified).toBe(false);
+    expect(match.score).toBeLessThan(QUOTE_MATCH_THRESHOLD);
+  });
+
+  it('should reject reordered quotes', () => {
+    const match = matchQuote(source, 'most benchmarks will saturate reasoning models');
+    expect(match.verified).toBe(false);
+    expect(match.score).toBeLessThan(QUOTE_MATCH_THRESHOLD);
+  });
+
+  it('should reject quotes that add or drop a negation', () => {
+    const longer = 'I think reasoning models will saturate most benchmarks within two years';
+    expect(matchQuote(source, longer).verified).toBe(true);
+    expect(matchQuote(source, longer.replace('will', "won't")).verified).toBe(false);
+    expect(matchQuote(source, longer.replace('will', 'will not')).verified).toBe(false);
+    expect(matchQuote(source, "but that's AGI").verified).toBe(false);
+  });
+
+  it('should handle quotes longer than the source', () => {
+    expect(matchQuote('Short.', 'A much longer quote than the source').verified).toBe(false);
+    expect(matchQuote('', 'anything')).toEqual({ verified: false, score: 0 });
+  });
+});
+
+describe('verifyClaimQuote', () => {
+  const claim = { claimText: 'Benchmarks will saturate', originalQuote: 'reasoning models will saturate' } as ExtractedClaim;
+
+  it('should leave claims without a quote unflagged', () => {
+    const noQuote = { claimText: 'x' } as ExtractedClaim;
+    expect(verifyClaimQuote(noQuote, source)).toBe(noQuote);
+  });
+
+  it('should flag quotes when the source text is unavailable', () => {
+    expect(verifyClaimQuote(claim, undefined)).toMatchObject({ quoteVerified: false, quoteMatchScore: 0 });
+  });
+
+  it('should keep offsets already located during extraction', () => {
+    const located = verifyClaimQuote({ ...claim, quoteStart: 3, quoteEnd: 9 }, source);
+    expect(located).toMatchObject({ quoteVerified: true, quoteMatchScore: 1, quoteStart: 3, quoteEnd: 9 });
+  });
+
+  it('should clear offsets for unverified quotes', () => {
+    const unverified = verifyClaimQuote({ ...claim, originalQuote: 'nothing like this' }, source);
+    expect(unverified.quoteVerified).toBe(false);
+    expect(unverified.quoteStart).toBeUndefined();
+  });
+});
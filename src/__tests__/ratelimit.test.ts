@@ -0,0 +1,145 @@
+/**
+ * Rate Limiter Tests
+ *
+ * Token-bucket spacing per host and retries of 429 and 5xx responses, with
+ * timers (including performance.now) faked and fetch mocked, and local
+ * Ollama embeddings bypassing the limiter.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RATE_LIMIT_CONFIG, RateLimiter, parseRetryAfter, rateLimiter } from '../ratelimit';
+import { EmbeddingService } from '../embeddings';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function respond(status: number, headers: Record<string, string> = {}) {
+  return new Response(status === 204 ? null : 'body', { status, headers });
+}
+
+/** Run `task`, returning when it settled on the fake clock */
+async function settledAt<T>(task: Promise<T>): Promise<number> {
+  await task;
+  return performance.now();
+}
+
+describe('RateLimiter', () => {
+  let limiter: RateLimiter;
+  let start: number;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date', 'performance'] });
+    start = performance.now();
+    limiter = new RateLimiter();
+    RATE_LIMIT_CONFIG.providers['api.example.com'] = { requestsPerSecond: 2, burst: 1 };
+    RATE_LIMIT_CONFIG.retryBaseMs = 1000;
+    RATE_LIMIT_CONFIG.maxRetries = 3;
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue(respond(200));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should space requests to a host by its policy, queueing concurrent callers', async () => {
+    const times = Promise.all([1, 2, 3].map(() => settledAt(limiter.acquire('api.example.com'))));
+    await vi.runAllTimersAsync();
+
+    expect((await times).map(t => Math.round(t - start))).toEqual([0, 500, 1000]);
+    expect(limiter.getMetrics()['api.example.com']).toMatchObject({ requests: 3, waitMs: 1500 });
+  });
+
+  it('should not hold other hosts back', async () => {
+    await limiter.acquire('api.example.com');
+    const other = settledAt(limiter.acquire('feeds.example.org'));
+    await vi.runAllTimersAsync();
+
+    expect(await other).toBe(start);
+  });
+
+  it('should retry server errors with backoff and count them', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    mockFetch
+      .mockResolvedValueOnce(respond(503))
+      .mockResolvedValueOnce(respond(502))
+      .mockResolvedValueOnce(respond(200));
+
+    const pending = limiter.fetch('https://api.example.com/items');
+    await vi.runAllTimersAsync();
+    const response = await pending;
+
+    expect(response.status).toBe(200);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    // Half of 1s, then half of 2s, each at least the policy's 500ms spacing
+    expect(Math.round(performance.now() - start)).toBe(1500);
+    expect(limiter.getMetrics()['api.example.com']).toMatchObject({ requests: 3, retries: 2, serverErrors: 2 });
+  });
+
+  it('should wait out Retry-After on a 429 and pause the host meanwhile', async () => {
+    RATE_LIMIT_CONFIG.retryBaseMs = 0;
+    mockFetch.mockResolvedValueOnce(respond(429, { 'Retry-After': '5' }));
+
+    const first = settledAt(limiter.fetch('https://api.example.com/a'));
+    // Queued behind the pause rather than sent while the host is limiting us
+    await vi.advanceTimersByTimeAsync(1000);
+    const second = settledAt(limiter.fetch('https://api.example.com/b'));
+    await vi.runAllTimersAsync();
+
+    expect(Math.round((await first) - start)).toBe(5000);
+    expect(Math.round((await second) - start)).toBeGreaterThanOrEqual(5000);
+    expect(limiter.getMetrics()['api.example.com']).toMatchObject({ rateLimited: 1, retries: 1 });
+  });
+
+  it('should return the last response once retries run out', async () => {
+    RATE_LIMIT_CONFIG.retryBaseMs = 0;
+    mockFetch.mockResolvedValue(respond(500));
+
+    const pending = limiter.fetch('https://api.example.com/items');
+    await vi.runAllTimersAsync();
+
+    expect((await pending).status).toBe(500);
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not retry client errors or wait out a Retry-After past retryMaxMs', async () => {
+    mockFetch.mockResolvedValueOnce(respond(404));
+    expect((await limiter.fetch('https://api.example.com/missing')).status).toBe(404);
+
+    mockFetch.mockResolvedValueOnce(respond(429, { 'Retry-After': '3600' }));
+    const pending = limiter.fetch('https://api.example.com/items');
+    await vi.runAllTimersAsync();
+
+    expect((await pending).status).toBe(429);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should read seconds and HTTP dates', () => {
+    const now = Date.parse('2026-10-19T12:00:00Z');
+
+    expect(parseRetryAfter('120', now)).toBe(120_000);
+    expect(parseRetryAfter('Mon, 19 Oct 2026 12:00:30 GMT', now)).toBe(30_000);
+    expect(parseRetryAfter('Mon, 19 Oct 2026 11:00:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter(null, now)).toBeNull();
+    expect(parseRetryAfter('soon', now)).toBeNull();
+  });
+});
+
+describe('local embeddings', () => {
+  it('should not send Ollama requests through the limiter', async () => {
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async () => new Response(JSON.stringify({ embedding: [0.1, 0.2] })));
+    const acquire = vi.spyOn(rateLimiter, 'acquire');
+
+    const service = new EmbeddingService({ provider: 'ollama', baseUrl: 'http://ollama:11434' });
+    const embeddings = await service.embedBatch(Array.from({ length: 12 }, (_, i) => `text ${i}`));
+
+    expect(embeddings).toHaveLength(12);
+    expect(mockFetch).toHaveBeenCalledTimes(12);
+    expect(acquire).not.toHaveBeenCalled();
+    acquire.mockRestore();
+  });
+});
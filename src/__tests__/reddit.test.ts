@@ -0,0 +1,98 @@
+/**
+ * Reddit Adapter Tests
+ *
+ * Runs the adapter against recorded listing and comment responses.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import hot from './fixtures/reddit/hot.json';
+import comments from './fixtures/reddit/comments-1fz0001.json';
+import { fetchReddit, redditAdapter } from '../adapters/reddit';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function respond(body: unknown) {
+  return { ok: true, status: 200, json: async () => body };
+}
+
+async function fetchWithTimers(subreddit: string) {
+  // Reddit's rate limit spaces comment requests out; don't wait for real
+  const pending = fetchReddit(subreddit);
+  await vi.runAllTimersAsync();
+  return pending;
+}
+
+describe('fetchReddit', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.includes('/hot.json')) return respond(hot);
+      if (url.includes('/comments/1fz0001/')) return respond(comments);
+      return { ok: false, status: 404, json: async () => null };
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should read the hot listing with a descriptive user agent', async () => {
+    await fetchWithTimers('MachineLearning');
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://www.reddit.com/r/MachineLearning/hot.json?limit=50&raw_json=1');
+    expect(init.headers['User-Agent']).toContain('ai-intel');
+  });
+
+  it('should skip stickied posts and map score and comment counts into metadata', async () => {
+    const items = await fetchWithTimers('MachineLearning');
+
+    expect(items.map(i => i.id)).toEqual(['1fz0001', '1fz0002']);
+    expect(items[0]).toMatchObject({
+      sourceType: 'reddit',
+      author: 'skeptical_phd',
+      url: 'https://www.reddit.com/r/MachineLearning/comments/1fz0001/d_are_reasoning_benchmarks_saturated/',
+      metadata: { score: 845, upvoteRatio: 0.94, commentCount: 212, flair: 'Discussion', provider: 'reddit' },
+    });
+  });
+
+  it('should include only top comments above the score threshold', async () => {
+    const [discussion] = await fetchWithTimers('MachineLearning');
+
+    expect(discussion.content).toContain('[benchmark_maintainer, 310 points] We rotate a private split');
+    expect(discussion.content).not.toContain('lol');
+    expect(discussion.content).not.toContain('[deleted]');
+    expect(discussion.metadata?.topCommentCount).toBe(1);
+  });
+
+  it('should mark link-only posts with their target and skip comment requests without comments', async () => {
+    const items = await fetchWithTimers('MachineLearning');
+
+    expect(items[0].linksTo).toBeUndefined();
+    expect(items[1].linksTo).toBe('https://example-lab.ai/blog/test-time-compute');
+    expect(mockFetch.mock.calls.some(([url]) => url.includes('1fz0002'))).toBe(false);
+  });
+
+  it('should keep posts when their comments fail to load', async () => {
+    mockFetch.mockImplementation(async (url: string) =>
+      url.includes('/hot.json') ? respond(hot) : { ok: false, status: 429, headers: new Headers(), json: async () => null }
+    );
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const items = await fetchWithTimers('MachineLearning');
+
+    expect(items).toHaveLength(2);
+    expect(items[0].metadata?.topCommentCount).toBe(0);
+  });
+});
+
+describe('redditAdapter', () => {
+  it('should seed from subreddit entries', () => {
+    const source = redditAdapter.toSource(redditAdapter.configSchema.parse({ subreddit: 'LocalLLaMA' }));
+
+    expect(source).toMatchObject({ type: 'reddit', identifier: 'LocalLLaMA', category: 'independent' });
+    expect(redditAdapter.configSchema.safeParse({ subreddit: 'r/LocalLLaMA' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Claim Relation Tests
+ *
+ * Tests for the stance heuristic and how it combines with model judgements.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyRelation, isStoredRelation, stanceHeuristic } from '../relations';
+
+describe('stanceHeuristic', () => {
+  it('should flag opposite stances as contradicting', () => {
+    expect(stanceHeuristic({ stance: 'bullish', bullishness: 0.6 }, { stance: 'bearish', bullishness: 0.4 }))
+      .toBe('contradicts');
+  });
+
+  it('should flag a wide bullishness gap as contradicting', () => {
+    expect(stanceHeuristic({ stance: 'neutral', bullishness: 0.9 }, { stance: 'neutral', bullishness: 0.3 }))
+      .toBe('contradicts');
+  });
+
+  it('should flag matching non-neutral stances as supporting', () => {
+    expect(stanceHeuristic({ stance: 'bearish', bullishness: 0.2 }, { stance: 'bearish', bullishness: 0.3 }))
+      .toBe('supports');
+  });
+
+  it('should return null when the signal is ambiguous', () => {
+    expect(stanceHeuristic({ stance: 'neutral', bullishness: 0.5 }, { stance: 'neutral', bullishness: 0.6 }))
+      .toBeNull();
+    expect(stanceHeuristic({ stance: 'bullish', bullishness: 0.9 }, { stance: 'bullish', bullishness: 0.6 }))
+      .toBeNull();
+  });
+});
+
+describe('classifyRelation', () => {
+  const neighbour = { targetClaimId: 'claim_old', similarity: 0.82 };
+
+  it('should follow the model judgement and boost agreeing heuristics', () => {
+    const relation = classifyRelation(
+      { relation: 'contradicts', confidence: 0.7, rationale: 'Opposite predictions' },
+      'contradicts',
+      neighbour
+    );
+
+    expect(relation).toMatchObject({ relation: 'contradicts', method: 'nli', rationale: 'Opposite predictions' });
+    expect(relation.confidence).toBeCloseTo(0.8);
+    expect(isStoredRelation(relation)).toBe(true);
+  });
+
+  it('should lower confidence when the heuristic disagrees', () => {
+    const relation = classifyRelation({ relation: 'supports', confidence: 0.6 }, 'contradicts', neighbour);
+
+    expect(relation.relation).toBe('supports');
+    expect(relation.confidence).toBeCloseTo(0.4);
+    expect(isStoredRelation(relation)).toBe(false);
+  });
+
+  it('should fall back to the heuristic without storing it as an edge', () => {
+    const relation = classifyRelation(undefined, 'contradicts', neighbour);
+
+    expect(relation).toMatchObject({ relation: 'contradicts', method: 'heuristic', targetClaimId: 'claim_old' });
+    expect(isStoredRelation(relation)).toBe(false);
+  });
+
+  it('should ignore judgements with an unknown relation', () => {
+    expect(classifyRelation({ relation: 'maybe' }, null, neighbour).relation).toBe('unrelated');
+  });
+});
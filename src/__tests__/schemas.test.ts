@@ -0,0 +1,168 @@
+/**
+ * Output Validation Tests
+ *
+ * Tests for the stage output schemas and the agent's repair retry.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Each query() call yields the next queued model output
+const outputs: string[] = [];
+const prompts: string[] = [];
+
+vi.mock('@anthropic-ai/claude-agent-sdk', () => ({
+  query: vi.fn(async function* ({ prompt }: { prompt: string }) {
+    prompts.push(prompt);
+    yield { type: 'result', subtype: 'success', result: outputs.shift() ?? '{}' };
+  }),
+}));
+
+import { AIIntelAgent } from '../agent-sdk-wrapper';
+import {
+  ExtractionOutputSchema,
+  FilterOutputSchema,
+  ClaimOutputSchema,
+  HypeAssessmentOutputSchema,
+  validateListOutput,
+  validateOutput
+} from '../schemas';
+
+const validClaim = {
+  claimText: 'Scaling will continue to work',
+  claimType: 'prediction',
+  topic: 'scaling',
+  stance: 'bullish',
+  bullishness: 0.8,
+  confidence: 0.7,
+};
+
+describe('validateOutput', () => {
+  it('should accept output matching the schema', () => {
+    const result = validateOutput(ExtractionOutputSchema, { claims: [validClaim] });
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject values outside the type unions with their paths', () => {
+    const result = validateOutput(ExtractionOutputSchema, {
+      claims: [{ ...validClaim, topic: 'vibes', stance: 'optimistic', bullishness: 1.4 }],
+    });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.errors.map(e => e.split(':')[0])).toEqual([
+      'claims.0.topic',
+      'claims.0.stance',
+      'claims.0.bullishness',
+    ]);
+  });
+
+  it('should reject missing fields instead of defaulting them', () => {
+    expect(validateOutput(FilterOutputSchema, {
+      assessments: [{ relevance: 0.9, topic: 'agents', isSubstantive: true }],
+    }).success).toBe(false);
+    expect(validateOutput(HypeAssessmentOutputSchema, {
+      overhypedTopics: [],
+      underhypedTopics: [],
+      summary: 'No sentiment given',
+    }).success).toBe(false);
+  });
+});
+
+describe('validateListOutput', () => {
+  it('should drop only the invalid items, with their paths', () => {
+    const result = validateListOutput('claims', ClaimOutputSchema, {
+      claims: [validClaim, { ...validClaim, stance: 'optimistic' }, validClaim],
+    });
+
+    expect(result).toMatchObject({ success: true, dropped: 1, errors: [expect.stringMatching(/^claims\.1\.stance:/)] });
+    if (result.success) expect(result.items).toHaveLength(2);
+  });
+
+  it('should fail when there is no list', () => {
+    expect(validateListOutput('claims', ClaimOutputSchema, { raw: 'nope' }).success).toBe(false);
+  });
+});
+
+describe('AIIntelAgent output repair', () => {
+  const units = [{
+    item: { id: 'x', author: 'alice', content: 'Scaling will continue to work.' },
+    chunk: { text: 'Scaling will continue to work.', index: 0, startChar: 0, endChar: 30 },
+    chunkCount: 1,
+  }] as any[];
+
+  let agent: AIIntelAgent;
+
+  beforeEach(() => {
+    outputs.length = 0;
+    prompts.length = 0;
+    agent = new AIIntelAgent({ projectDir: '/test' });
+  });
+
+  it('should not retry valid output', async () => {
+    outputs.push(JSON.stringify({ claims: [validClaim] }));
+
+    const result = await agent.extractClaims(units);
+
+    expect(result!.claims).toHaveLength(1);
+    expect(prompts).toHaveLength(1);
+    expect(agent.getValidationStats().extraction).toEqual({ invalid: 0, repaired: 0, failed: 0 });
+  });
+
+  it('should send one repair prompt listing the errors and use the repaired output', async () => {
+    outputs.push(JSON.stringify({ claims: [{ ...validClaim, topic: 'vibes' }] }));
+    outputs.push(JSON.stringify({ claims: [validClaim] }));
+
+    const result = await agent.extractClaims(units);
+
+    expect(result!.claims[0].topic).toBe('scaling');
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain('claims.0.topic');
+    expect(agent.getValidationStats().extraction).toEqual({ invalid: 1, repaired: 1, failed: 0 });
+  });
+
+  it('should give up after a failed repair and count the failure', async () => {
+    outputs.push('not json at all');
+    outputs.push(JSON.stringify({ claims: [{ ...validClaim, stance: 'optimistic' }] }));
+
+    const result = await agent.extractClaims(units);
+
+    expect(result).toEqual({ claims: [], dropped: 1 });
+    expect(prompts).toHaveLength(2);
+    expect(agent.getValidationStats().extraction).toEqual({ invalid: 1, repaired: 0, failed: 1 });
+
+    agent.resetValidationStats();
+    expect(agent.getValidationStats().extraction.invalid).toBe(0);
+  });
+
+  it('should keep the valid claims when a repair leaves some invalid', async () => {
+    const bad = { ...validClaim, stance: 'optimistic' };
+    outputs.push(JSON.stringify({ claims: [validClaim, bad, validClaim] }));
+    outputs.push(JSON.stringify({ claims: [bad] }));
+
+    const result = await agent.extractClaims(units);
+
+    expect(result).toMatchObject({ dropped: 1 });
+    expect(result!.claims).toHaveLength(2);
+  });
+
+  it('should return null when neither attempt produced a list', async () => {
+    outputs.push('not json at all');
+    outputs.push('still not json');
+
+    expect(await agent.filterContent([{ id: 1, content: 'x' }])).toBeNull();
+    expect(agent.getValidationStats().filter.failed).toBe(1);
+  });
+
+  it('should fall back to computed sentiment when synthesis output is invalid', async () => {
+    outputs.push(JSON.stringify({ labConsensus: 'Labs are optimistic' }));
+    outputs.push(JSON.stringify({ labConsensus: 'Labs are optimistic' }));
+
+    const result = await agent.synthesize(
+      [{ claimText: 'x', authorCategory: 'lab-researcher', bullishness: 0.9 }],
+      'scaling'
+    );
+
+    expect(result.hypeDelta.labSentiment).toBe(0.9);
+    expect(agent.getValidationStats().synthesis.failed).toBe(1);
+  });
+});
@@ -13,12 +13,21 @@ vi.mock('pg', () => {
   const MockPool = vi.fn(() => ({
     query: mockQuery,
     end: vi.fn(),
+    // Transactional methods share mockQuery so BEGIN/COMMIT are observable.
+    connect: vi.fn(async () => ({ query: mockQuery, release: vi.fn() })),
   }));
   return { default: { Pool: MockPool }, Pool: MockPool };
 });
 
 import pg from 'pg';
-import { ContentStore, ClaimStore, SourceStore, SynthesisStore, PredictionTracker } from '../storage';
+import {
+  ContentStore,
+  ClaimStore,
+  SourceStore,
+  SynthesisStore,
+  PredictionTracker,
+  PredictionResolutionQueue
+} from '../storage';
 import type { Source, Content, EnrichedClaim } from '../storage';
 
 const mockPool = new pg.Pool({ connectionString: 'mock://test' });
@@ -52,6 +61,46 @@ describe('ContentStore', () => {
     });
   });
 
+  describe('upsertFetched', () => {
+    const content: Content = {
+      sourceId: 1,
+      externalId: 'post-1',
+      title: 'A post',
+      contentText: 'Body text',
+    };
+
+    it('should report new, updated and unchanged items', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: 1, inserted: true, changed: true }] })
+        .mockResolvedValueOnce({ rows: [{ id: 1, inserted: false, changed: true }] })
+        .mockResolvedValueOnce({ rows: [{ id: 1, inserted: false, changed: false }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      expect(await store.upsertFetched(content)).toBe('new');
+      expect(await store.upsertFetched(content)).toBe('updated');
+      // Metadata-only change: written, but not counted as an update
+      expect(await store.upsertFetched(content)).toBe('unchanged');
+      expect(await store.upsertFetched(content)).toBe('unchanged');
+    });
+
+    it('should hash title and text only, and still write changed metadata', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      await store.upsertFetched({ ...content, metadata: { likes: 1 } });
+      await store.upsertFetched({ ...content, metadata: { likes: 2 } });
+      await store.upsertFetched({ ...content, contentText: 'Edited body' });
+
+      const [sql, first] = mockQuery.mock.calls[0];
+      const hashes = mockQuery.mock.calls.map(([, params]) => params[11]);
+      expect(sql).toContain('WHERE content.content_hash IS DISTINCT FROM EXCLUDED.content_hash');
+      expect(sql).toContain('OR content.metadata IS DISTINCT FROM EXCLUDED.metadata');
+      expect(sql).toContain('metadata = EXCLUDED.metadata');
+      expect(first[11]).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashes[1]).toBe(hashes[0]);
+      expect(hashes[2]).not.toBe(hashes[0]);
+    });
+  });
+
   describe('getRecent', () => {
     it('should return content from last N days', async () => {
       const mockContent = [
@@ -191,6 +240,41 @@ describe('SourceStore', () => {
     });
   });
 
+  describe('cache validators', () => {
+    it('should store validators returned by the adapter when marking fetched', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await store.markFetched(3, { validators: { etag: '"abc"' } });
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('etag = $2, last_modified = $3'),
+        [3, '"abc"', null]
+      );
+    });
+
+    it('should store adapter state alongside', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await store.markFetched(3, { state: { stars: 10 } });
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('last_fetched = NOW(), adapter_state = $2'),
+        [3, '{"stars":10}']
+      );
+    });
+
+    it('should read stored validators and state back', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ etag: null, last_modified: 'Tue, 01 Oct 2024 10:00:00 GMT', adapter_state: null }],
+      });
+
+      expect(await store.getFetchContext(3)).toEqual({
+        validators: { etag: undefined, lastModified: 'Tue, 01 Oct 2024 10:00:00 GMT' },
+        state: undefined,
+      });
+    });
+  });
+
   describe('getDueForFetch', () => {
     it('should return sources due for fetching', async () => {
       const mockSources = [
@@ -326,3 +410,74 @@ describe('PredictionTracker', () => {
     });
   });
 });
+
+describe('PredictionResolutionQueue', () => {
+  let queue: PredictionResolutionQueue;
+  let tracker: PredictionTracker;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.mockReset();
+    queue = new PredictionResolutionQueue('postgresql://localhost/test');
+    tracker = new PredictionTracker('postgresql://localhost/test');
+  });
+
+  describe('propose', () => {
+    it('should queue a proposal without touching the prediction', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 7 }] });
+
+      const id = await queue.propose({
+        predictionId: 'pred_1',
+        proposedStatus: 'falsified',
+        accuracyScore: 0.1,
+        evidenceSummary: 'Did not happen',
+      });
+
+      expect(id).toBe(7);
+      const statements = mockQuery.mock.calls.map((c: any[]) => c[0]);
+      expect(statements.some((s: string) => s.includes('INSERT INTO prediction_resolutions'))).toBe(true);
+      expect(statements.some((s: string) => s.includes('UPDATE predictions'))).toBe(false);
+    });
+  });
+
+  describe('accept', () => {
+    it('should apply the proposal via updateStatus in one transaction', async () => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('UPDATE prediction_resolutions')) {
+          return {
+            rows: [{
+              id: 7,
+              predictionId: 'pred_1',
+              proposedStatus: 'verified',
+              accuracyScore: 0.9,
+              evidenceSummary: 'Shipped',
+            }],
+          };
+        }
+        return { rows: [] };
+      });
+
+      const applied = await queue.accept(7, tracker);
+
+      expect(applied).toBe(true);
+      const statements = mockQuery.mock.calls.map((c: any[]) => c[0]);
+      expect(statements[0]).toBe('BEGIN');
+      expect(statements[statements.length - 1]).toBe('COMMIT');
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE predictions'),
+        ['pred_1', 'verified', 0.9, 'Shipped']
+      );
+    });
+
+    it('should not update the prediction when the proposal was already reviewed', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      const applied = await queue.accept(7, tracker);
+
+      expect(applied).toBe(false);
+      const statements = mockQuery.mock.calls.map((c: any[]) => c[0]);
+      expect(statements).toContain('ROLLBACK');
+      expect(statements.some((s: string) => s.includes('UPDATE predictions'))).toBe(false);
+    });
+  });
+});
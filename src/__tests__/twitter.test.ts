@@ -0,0 +1,142 @@
+/**
+ * Twitter Adapter Tests
+ *
+ * Runs the TwitterAPI.io path against a recorded last_tweets response:
+ * self-threads, replies to others, quote tweets and retweets.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import lastTweets from './fixtures/twitter/last_tweets.json';
+import threadContext from './fixtures/twitter/thread_context.json';
+import { backfillTwitter, fetchTwitter, TWITTER_API_CONFIG } from '../adapters/twitter';
+import { RATE_LIMIT_CONFIG } from '../ratelimit';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function respond(body: unknown, status = 200) {
+  return { ok: status < 400, status, headers: new Headers(), json: async () => body, text: async () => JSON.stringify(body) };
+}
+
+describe('fetchTwitter via TwitterAPI.io', () => {
+  beforeEach(() => {
+    TWITTER_API_CONFIG.apiKey = 'test-key';
+    RATE_LIMIT_CONFIG.retryBaseMs = 0;
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async (url: string) =>
+      url.includes('/thread_context') ? respond(threadContext) : respond(lastTweets)
+    );
+  });
+
+  it('should request replies and drop those addressed to other people', async () => {
+    const items = await fetchTwitter('karpathy', 'Andrej Karpathy');
+
+    expect(mockFetch.mock.calls[0][0]).toContain('last_tweets?userName=karpathy&includeReplies=true');
+    expect(items.map(i => i.id)).toEqual([
+      '1846200000000000050',
+      '1846100000000000040',
+      '1845950000000000020',
+      '1845900000000000060',
+    ]);
+  });
+
+  it('should stitch a self-thread into one item with ordered segments', async () => {
+    const items = await fetchTwitter('karpathy');
+    const thread = items.find(i => i.id === '1845950000000000020')!;
+
+    expect(thread.content).toBe(
+      '1/ Some thoughts on where scaling is heading 🧵\n\n' +
+      '2/ The pretraining curves are still smooth, but the marginal capability per FLOP has clearly dropped.\n\n' +
+      "3/ So my bet: most of the next year's gains come from better RL environments, not bigger pretraining runs."
+    );
+    expect(thread.publishedAt).toEqual(new Date('2026-10-14T17:02:11Z'));
+    expect(thread.metadata).toMatchObject({ isThread: true, likeCount: 4300 });
+    expect(thread.metadata?.partialThread).toBeUndefined();
+
+    const segments = thread.metadata?.segments as { id: string; start: number; end: number }[];
+    expect(segments.map(s => s.id)).toEqual(['1845950000000000020', '1845950000000000021', '1845950000000000022']);
+    expect(thread.content.slice(segments[1].start, segments[1].end)).toMatch(/^2\/ The pretraining/);
+  });
+
+  it("should fetch a thread's earlier tweets when only a later reply was fetched", async () => {
+    const items = await fetchTwitter('karpathy');
+    const thread = items.find(i => i.id === '1845900000000000060')!;
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.stringContaining('/twitter/tweet/thread_context?tweetId=1846300000000000061'),
+      expect.anything()
+    );
+    expect(thread.content).toBe(
+      'We ran the new long-context evals on every open model we could get.\n\n' +
+      'Update: the eval numbers above hold up on the held-out split too.'
+    );
+  });
+
+  it("should keep a thread's fetched part on its own when its context is unavailable", async () => {
+    mockFetch.mockImplementation(async (url: string) =>
+      url.includes('/thread_context') ? respond({}, 500) : respond(lastTweets)
+    );
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const items = await fetchTwitter('karpathy');
+    const partial = items.find(i => i.id === '1846300000000000061')!;
+
+    expect(partial.content).toBe('Update: the eval numbers above hold up on the held-out split too.');
+    expect(partial.metadata).toMatchObject({ isThread: true, partialThread: true });
+  });
+
+  it('should keep quoted and retweeted tweets as context apart from the author\'s text', async () => {
+    const items = await fetchTwitter('karpathy');
+    const quote = items.find(i => i.id === '1846100000000000040')!;
+    const retweet = items.find(i => i.id === '1846200000000000050')!;
+    const thread = items.find(i => i.id === '1845950000000000020')!;
+
+    expect(quote.content).not.toContain('Agents are basically solved');
+    expect(quote.metadata?.quoted).toEqual([{
+      kind: 'quote',
+      id: '1846090000000000002',
+      author: 'someVC',
+      authorName: 'Some VC',
+      text: 'Agents are basically solved. 2027 is the year every company runs on autonomous agents.',
+      url: 'https://x.com/someVC/status/1846090000000000002',
+    }]);
+    expect(retweet.metadata).toMatchObject({ isRetweet: true, quoted: [{ kind: 'retweet', author: 'sama' }] });
+    expect(thread.metadata?.quoted).toMatchObject([{ kind: 'quote', author: 'EpochAIResearch', segment: 1 }]);
+  });
+});
+
+describe('backfillTwitter', () => {
+  const since = new Date('2026-09-01T00:00:00Z');
+  const searchQuery = (call: unknown[]) => new URL(call[0] as string).searchParams;
+
+  beforeEach(() => {
+    TWITTER_API_CONFIG.apiKey = 'test-key';
+    RATE_LIMIT_CONFIG.retryBaseMs = 0;
+    mockFetch.mockReset();
+  });
+
+  it('should search a window back from its end and follow the search cursor', async () => {
+    mockFetch.mockResolvedValue(respond({ tweets: lastTweets.data.tweets.slice(0, 1), has_next_page: true, next_cursor: 'c2' }));
+
+    const page = await backfillTwitter('karpathy', undefined, { since, cursor: { until: '2026-10-19T12:00:00.000Z' } });
+
+    expect(searchQuery(mockFetch.mock.calls[0]).get('query'))
+      .toBe('from:karpathy since:2026-10-12_12:00:00_UTC until:2026-10-19_12:00:00_UTC');
+    expect(page.items).toHaveLength(1);
+    expect(page.cursor).toEqual({ until: '2026-10-19T12:00:00.000Z', cursor: 'c2' });
+  });
+
+  it('should move to the previous window, and finish at the backfill date', async () => {
+    mockFetch.mockResolvedValue(respond({ tweets: [], has_next_page: false }));
+
+    const next = await backfillTwitter('karpathy', undefined, {
+      since, cursor: { until: '2026-10-19T12:00:00.000Z', cursor: 'c2' },
+    });
+    expect(searchQuery(mockFetch.mock.calls[0]).get('cursor')).toBe('c2');
+    expect(next.cursor).toEqual({ until: '2026-10-12T12:00:00.000Z' });
+
+    const last = await backfillTwitter('karpathy', undefined, { since, cursor: { until: '2026-09-05T00:00:00.000Z' } });
+    expect(searchQuery(mockFetch.mock.calls[1]).get('query')).toContain('since:2026-09-01_00:00:00_UTC');
+    expect(last.cursor).toBeUndefined();
+  });
+});
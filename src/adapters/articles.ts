@@ -0,0 +1,115 @@
+/**
+ * Full-article extraction for feed items that carry only a summary.
+ *
+ * Some feeds ship a teaser instead of the post (no content:encoded, or show
+ * notes that link to a transcript page). For items whose text is shorter than
+ * ARTICLE_MIN_CHARS we fetch the linked page and extract the article body with
+ * Readability, falling back to article-extractor when Readability finds
+ * nothing longer than the feed text.
+ *
+ * Adapters whose feeds do this set expandsSummaries; the fetcher expands only
+ * items it hasn't stored yet, so each page is downloaded once (see
+ * AIIntelFetcher.storeItems).
+ */
+
+import { Readability } from '@mozilla/readability';
+import { extractFromHtml } from '@extractus/article-extractor';
+import { JSDOM } from 'jsdom';
+import type { RawContent } from '../types';
+import { rateLimitedFetch } from '../ratelimit';
+import { htmlToText } from './feeds';
+
+/** Feed text shorter than this is treated as a summary */
+export const ARTICLE_MIN_CHARS = 1500;
+
+const ARTICLE_TIMEOUT_MS = 15000;
+
+export type ExtractionMethod = 'feed' | 'readability' | 'article-extractor';
+
+export interface ExtractedArticle {
+  html: string;
+  text: string;
+  method: Exclude<ExtractionMethod, 'feed'>;
+}
+
+/**
+ * Extract the main article from a page's HTML: Readability's when its text
+ * is longer than `minLength` (the feed text it would replace), otherwise
+ * article-extractor's. Returns null when neither finds anything longer.
+ */
+export async function extractArticleFromHtml(html: string, url: string, minLength = 0): Promise<ExtractedArticle | null> {
+  const dom = new JSDOM(html, { url });
+  const article = new Readability(dom.window.document).parse();
+  const text = article?.textContent?.trim() ?? '';
+  if (article?.content && text.length > minLength) {
+    return { html: article.content, text, method: 'readability' };
+  }
+
+  const extracted = await extractFromHtml(html, url);
+  if (extracted?.content) {
+    const text = htmlToText(extracted.content);
+    if (text.length > minLength) {
+      return { html: extracted.content, text, method: 'article-extractor' };
+    }
+  }
+
+  return null;
+}
+
+export async function fetchArticle(url: string, minLength = 0): Promise<ExtractedArticle | null> {
+  const response = await rateLimitedFetch(url, {
+    headers: { 'User-Agent': 'ai-intel (+article)', Accept: 'text/html' },
+    signal: AbortSignal.timeout(ARTICLE_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Article request failed: ${response.status}`);
+  }
+  return extractArticleFromHtml(await response.text(), url, minLength);
+}
+
+/** An item with its feed text, marked as such */
+export function asFeedItem(item: RawContent): RawContent {
+  return { ...item, metadata: { ...item.metadata, extractionMethod: 'feed' as ExtractionMethod } };
+}
+
+/**
+ * Replace short feed items with the article on their linked page, recording
+ * how each item's text was obtained in metadata.extractionMethod. Items keep
+ * their feed text when the page can't be fetched or yields nothing longer.
+ */
+export async function expandSummaries(items: RawContent[], minChars = ARTICLE_MIN_CHARS): Promise<RawContent[]> {
+  const expanded: RawContent[] = [];
+
+  for (const item of items) {
+    const feedItem = asFeedItem(item);
+
+    if (!item.url || item.content.length >= minChars) {
+      expanded.push(feedItem);
+      continue;
+    }
+
+    try {
+      const article = await fetchArticle(item.url, item.content.length);
+      if (article) {
+        expanded.push({
+          ...item,
+          content: article.text,
+          html: article.html,
+          metadata: {
+            ...item.metadata,
+            extractionMethod: article.method,
+            feedSummary: item.content,
+            wordCount: article.text.split(/\s+/).length
+          }
+        });
+        continue;
+      }
+    } catch (e) {
+      console.warn(`Article extraction failed for ${item.url}: ${e instanceof Error ? e.message : e}`);
+    }
+
+    expanded.push(feedItem);
+  }
+
+  return expanded;
+}
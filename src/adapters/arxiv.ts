@@ -0,0 +1,303 @@
+/**
+ * arXiv adapter (export API, by category or search query)
+ *
+ * Entries are read from the API's Atom response, including each author's
+ * name and affiliations and the paper's primary category. Authors are matched
+ * to tracked researchers by the fetcher.
+ *
+ * With ARXIV_FULL_TEXT=true the newest papers' PDFs are downloaded and their
+ * text extracted locally with pdftotext (poppler), so claim extraction reads
+ * the whole paper in chunks rather than the abstract.
+ */
+
+import { execFile } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+import { JSDOM } from 'jsdom';
+import { z } from 'zod';
+import type { ContentCategory, RawContent, Source } from '../types';
+import { rateLimitedFetch } from '../ratelimit';
+import type { BackfillPage, BackfillRequest, FetchContext, SourceAdapter } from './registry';
+
+const ARXIV_NS = 'http://arxiv.org/schemas/atom';
+
+export const ARXIV_CONFIG = {
+  fullText: process.env.ARXIV_FULL_TEXT === 'true',
+  maxPdfsPerFetch: 10,
+  // Past this, pages are mostly references and appendices
+  maxPages: 40,
+  backfillPageSize: 100,
+};
+
+// Papers whose full text is stored, remembered so later fetches skip them
+const MAX_REMEMBERED_PAPERS = 500;
+
+// ============================================================================
+// ATOM PARSING
+// ============================================================================
+
+export interface ArxivAuthor {
+  name: string;
+  affiliations: string[];
+}
+
+export interface ArxivEntry {
+  id: string;
+  url: string;
+  title: string;
+  abstract: string;
+  authors: ArxivAuthor[];
+  primaryCategory?: string;
+  categories: string[];
+  publishedAt: Date;
+  updatedAt?: Date;
+  pdfUrl: string;
+  comment?: string;
+  journalRef?: string;
+  doi?: string;
+}
+
+function collapse(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+export function parseArxivFeed(xml: string): ArxivEntry[] {
+  const document = new JSDOM(xml, { contentType: 'text/xml' }).window.document;
+
+  return Array.from(document.getElementsByTagName('entry')).map(entry => {
+    const child = (name: string) => entry.getElementsByTagName(name)[0]?.textContent;
+    const arxivChild = (name: string) => entry.getElementsByTagNameNS(ARXIV_NS, name)[0];
+    const url = collapse(child('id'));
+    const links = Array.from(entry.getElementsByTagName('link'));
+    const pdfLink = links.find(link => link.getAttribute('title') === 'pdf' || link.getAttribute('type') === 'application/pdf');
+
+    return {
+      id: url.split('/abs/')[1] || url,
+      url,
+      title: collapse(child('title')),
+      abstract: collapse(child('summary')),
+      authors: Array.from(entry.getElementsByTagName('author')).map(author => ({
+        name: collapse(author.getElementsByTagName('name')[0]?.textContent),
+        affiliations: Array.from(author.getElementsByTagNameNS(ARXIV_NS, 'affiliation'))
+          .map(affiliation => collapse(affiliation.textContent))
+          .filter(Boolean),
+      })).filter(author => author.name),
+      primaryCategory: arxivChild('primary_category')?.getAttribute('term') || undefined,
+      categories: Array.from(entry.getElementsByTagName('category'))
+        .map(category => category.getAttribute('term'))
+        .filter((term): term is string => !!term),
+      publishedAt: new Date(collapse(child('published')) || Date.now()),
+      updatedAt: child('updated') ? new Date(collapse(child('updated'))) : undefined,
+      pdfUrl: pdfLink?.getAttribute('href') || `${url.replace('/abs/', '/pdf/')}.pdf`,
+      comment: collapse(arxivChild('comment')?.textContent) || undefined,
+      journalRef: collapse(arxivChild('journal_ref')?.textContent) || undefined,
+      doi: collapse(arxivChild('doi')?.textContent) || undefined,
+    };
+  });
+}
+
+/** Display form of an author list: up to three names, else "First et al." */
+export function formatArxivAuthors(authors: ArxivAuthor[]): string {
+  if (authors.length <= 3) return authors.map(a => a.name).join(', ');
+  return `${authors[0].name} et al.`;
+}
+
+// ============================================================================
+// FETCHING
+// ============================================================================
+
+export async function fetchArxiv(query: string, context?: FetchContext): Promise<RawContent[]> {
+  const entries = await searchArxiv(query, 0, 50);
+  const items = entries.map(entry => entryToContent(entry, query));
+
+  if (ARXIV_CONFIG.fullText) {
+    return addFullText(items, context);
+  }
+  return items;
+}
+
+/**
+ * Page back through a query's submissions by offset. Backfilled papers keep
+ * their abstracts; downloading every PDF in a category's history is more
+ * than the backfill is for.
+ */
+export async function backfillArxiv(query: string, request: BackfillRequest): Promise<BackfillPage> {
+  const start: number = request.cursor?.start ?? 0;
+  const entries = await searchArxiv(query, start, ARXIV_CONFIG.backfillPageSize);
+  const items = entries
+    .filter(entry => entry.publishedAt >= request.since)
+    .map(entry => entryToContent(entry, query));
+
+  // Submissions come newest first, so a short page is the end of the history
+  const done = items.length < entries.length || entries.length < ARXIV_CONFIG.backfillPageSize;
+  return {
+    items,
+    cursor: done ? undefined : { start: start + entries.length },
+  };
+}
+
+async function searchArxiv(query: string, start: number, maxResults: number): Promise<ArxivEntry[]> {
+  // If query looks like a category (e.g., "cs.AI"), format for arXiv API
+  // arXiv expects "cat:cs.AI" for category search
+  const searchQuery = query.match(/^[a-z]+\.[A-Z]+$/i)
+    ? `cat:${query}`
+    : query;
+
+  const params = new URLSearchParams({
+    search_query: searchQuery,
+    start: String(start),
+    max_results: String(maxResults),
+    sortBy: 'submittedDate',
+    sortOrder: 'descending'
+  });
+
+  const response = await rateLimitedFetch(`http://export.arxiv.org/api/query?${params}`);
+  if (!response.ok) {
+    throw new Error(`arXiv API error: ${response.status}`);
+  }
+
+  return parseArxivFeed(await response.text());
+}
+
+function entryToContent(entry: ArxivEntry, query: string): RawContent {
+  return {
+    id: entry.id,
+    source: 'arxiv',
+    sourceType: 'arxiv',
+    author: formatArxivAuthors(entry.authors),
+    authors: entry.authors.map(a => a.name),
+    title: entry.title,
+    content: entry.abstract,
+    url: entry.url,
+    publishedAt: entry.publishedAt,
+    metadata: {
+      query,
+      authors: entry.authors.map(a => a.name),
+      affiliations: Object.fromEntries(
+        entry.authors.filter(a => a.affiliations.length > 0).map(a => [a.name, a.affiliations])
+      ),
+      primaryCategory: entry.primaryCategory,
+      categories: entry.categories,
+      pdfUrl: entry.pdfUrl,
+      comment: entry.comment,
+      journalRef: entry.journalRef,
+      doi: entry.doi,
+      updatedAt: entry.updatedAt,
+      abstract: entry.abstract,
+      extractionMethod: 'abstract'
+    }
+  };
+}
+
+/**
+ * Replace the newest papers' abstracts with their PDF text. Papers stored
+ * with full text by an earlier fetch are left out, so the stored text isn't
+ * overwritten by the abstract; a failed download keeps the abstract.
+ */
+async function addFullText(items: RawContent[], context?: FetchContext): Promise<RawContent[]> {
+  const stored = new Set<string>(context?.state?.fullText ?? []);
+  const pending = items.filter(item => !stored.has(item.id!));
+  let downloads = 0;
+
+  for (const item of pending) {
+    if (downloads >= ARXIV_CONFIG.maxPdfsPerFetch) break;
+    downloads++;
+
+    try {
+      const text = await fetchPdfText(item.metadata!.pdfUrl);
+      if (!text) continue;
+      item.content = text;
+      item.metadata = { ...item.metadata, extractionMethod: 'pdftotext', fullText: true };
+      stored.add(item.id!);
+    } catch (e) {
+      console.warn(`arXiv full text for ${item.id} unavailable: ${e}`);
+    }
+  }
+
+  if (context) {
+    context.nextState = { ...context.state, fullText: [...stored].slice(-MAX_REMEMBERED_PAPERS) };
+  }
+  return pending;
+}
+
+async function fetchPdfText(pdfUrl: string): Promise<string | null> {
+  const response = await rateLimitedFetch(pdfUrl);
+  if (!response.ok) {
+    throw new Error(`PDF request failed: ${response.status}`);
+  }
+  return extractPdfText(Buffer.from(await response.arrayBuffer()));
+}
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Text of a PDF's first ARXIV_CONFIG.maxPages pages, via pdftotext. Runs
+ * asynchronously so other sources' fetches carry on meanwhile.
+ */
+export async function extractPdfText(pdf: Buffer): Promise<string | null> {
+  const dir = await mkdtemp(join(tmpdir(), 'arxiv-'));
+  try {
+    const file = join(dir, 'paper.pdf');
+    await writeFile(file, pdf);
+    const { stdout } = await execFileAsync(
+      'pdftotext',
+      ['-l', String(ARXIV_CONFIG.maxPages), '-enc', 'UTF-8', file, '-'],
+      { encoding: 'buffer', maxBuffer: 20 * 1024 * 1024, timeout: 60000 }
+    );
+    const text = stdout.toString()
+      // Rejoin words hyphenated across line breaks, and drop page breaks
+      .replace(/(\w)-\n(\w)/g, '$1$2')
+      .replace(/\f/g, '\n')
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+    return text || null;
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+// ============================================================================
+// ADAPTER
+// ============================================================================
+
+// Here `category` is the arXiv category (e.g. "cs.AI"), not a ContentCategory
+const entrySchema = z.object({
+  category: z.string().min(1),
+  name: z.string().optional(),
+});
+
+export const arxivAdapter: SourceAdapter<z.infer<typeof entrySchema>> = {
+  type: 'arxiv',
+  displayName: 'arXiv',
+  description: 'Newest submissions in an arXiv category or matching a search query, with authors and affiliations',
+  identifierLabel: 'arXiv category or query',
+  profileUrl: 'https://arxiv.org/list/{identifier}/recent',
+  defaultFetchFrequencyHours: 24,
+  rateLimit: { minIntervalMs: 0 },
+  configSchema: entrySchema,
+
+  toSource: entry => ({
+    type: 'arxiv',
+    identifier: entry.category,
+    authorName: entry.name,
+    category: 'academic' as ContentCategory,
+    fetchFrequencyHours: 24,
+  }),
+
+  fetch: (source: Source, context?: FetchContext) => fetchArxiv(source.identifier, context),
+
+  backfill: (source: Source, request: BackfillRequest) => backfillArxiv(source.identifier, request),
+
+  async healthCheck() {
+    if (!ARXIV_CONFIG.fullText) return { ok: true };
+    try {
+      await execFileAsync('pdftotext', ['-v'], { timeout: 10000 });
+      return { ok: true };
+    } catch {
+      return { ok: false, message: 'ARXIV_FULL_TEXT is set but pdftotext (poppler-utils) is not installed' };
+    }
+  },
+};
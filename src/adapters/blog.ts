@@ -0,0 +1,64 @@
+/**
+ * Blog adapter (generic RSS/Atom)
+ */
+
+import { z } from 'zod';
+import type { RawContent, Source } from '../types';
+import { categorySchema, fetchFeed, htmlToText } from './feeds';
+import type { FetchContext, SourceAdapter } from './registry';
+
+export async function fetchBlog(
+  feedUrl: string,
+  authorName?: string,
+  context?: FetchContext
+): Promise<RawContent[]> {
+  const feed = await fetchFeed(feedUrl, context);
+  if (!feed) return [];
+
+  return feed.items.map(item => {
+    const fullContent = item.contentEncoded || item.content || '';
+    const textContent = htmlToText(fullContent);
+
+    return {
+      id: item.guid || item.link || '',
+      source: `blog:${new URL(feedUrl).hostname}`,
+      sourceType: 'blog',
+      author: authorName || item.creator || feed.title || '',
+      title: item.title,
+      content: textContent || item.contentSnippet || '',
+      url: item.link,
+      publishedAt: new Date(item.pubDate || Date.now()),
+      metadata: {
+        htmlContent: fullContent
+      }
+    };
+  });
+}
+
+const entrySchema = z.object({
+  url: z.string().url(),
+  author: z.string().optional(),
+  category: categorySchema,
+});
+
+export const blogAdapter: SourceAdapter<z.infer<typeof entrySchema>> = {
+  type: 'blog',
+  displayName: 'Blog',
+  description: 'Posts from any RSS or Atom feed',
+  identifierLabel: 'Feed URL',
+  profileUrl: '{identifier}',
+  defaultFetchFrequencyHours: 24,
+  rateLimit: { minIntervalMs: 0 },
+  expandsSummaries: true,
+  configSchema: entrySchema,
+
+  toSource: entry => ({
+    type: 'blog',
+    identifier: entry.url,
+    authorName: entry.author,
+    category: entry.category,
+    fetchFrequencyHours: 24,
+  }),
+
+  fetch: (source: Source, context?: FetchContext) => fetchBlog(source.identifier, source.authorName, context),
+};
@@ -0,0 +1,289 @@
+/**
+ * Bluesky adapter (AT Protocol public AppView, via @atproto/api)
+ *
+ * The author feed is paged with its cursor back to the newest post seen on
+ * the previous fetch, or, for a source fetched for the first time, back
+ * BLUESKY_CONFIG.backfillMonths so a newly added researcher arrives with
+ * their recent history. Reposts are skipped; replies carry their parent post
+ * and quote posts the quoted post as context (metadata.quoted), and links,
+ * mentions and hashtags from the post's facets are kept in metadata.
+ */
+
+import {
+  AppBskyEmbedExternal,
+  AppBskyEmbedRecord,
+  AppBskyEmbedRecordWithMedia,
+  AppBskyFeedDefs,
+  AppBskyFeedPost,
+  BskyAgent,
+  RichText,
+  type AtpAgentFetchHandler
+} from '@atproto/api';
+import { z } from 'zod';
+import type { QuotedContent, RawContent, Source } from '../types';
+import { rateLimitedFetch } from '../ratelimit';
+import { categorySchema } from './feeds';
+import type { BackfillPage, BackfillRequest, FetchContext, SourceAdapter } from './registry';
+
+export const BLUESKY_CONFIG = {
+  service: 'https://public.api.bsky.app',
+  pageSize: 100,
+  // Bounds a single fetch; a backfill cut short resumes from its cursor
+  maxPages: 30,
+  backfillMonths: Number(process.env.BLUESKY_BACKFILL_MONTHS) || 6,
+};
+
+/**
+ * XRPC transport for every agent: the library's default handler, but through
+ * the shared rate limiter so AppView requests are spaced and retried.
+ */
+const rateLimitedXrpc: AtpAgentFetchHandler = async (uri, method, headers, body) => {
+  const response = await rateLimitedFetch(uri, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  const isJson = response.headers.get('content-type')?.includes('application/json');
+  return {
+    status: response.status,
+    headers: Object.fromEntries(response.headers.entries()),
+    body: text && isJson ? JSON.parse(text) : text || undefined,
+  };
+};
+
+BskyAgent.configure({ fetch: rateLimitedXrpc });
+
+// ============================================================================
+// POSTS
+// ============================================================================
+
+function postUrl(handle: string, uri: string): string {
+  return `https://bsky.app/profile/${handle}/post/${uri.split('/').pop()}`;
+}
+
+function postText(record: unknown): string {
+  return AppBskyFeedPost.isRecord(record) ? record.text : '';
+}
+
+/** Links, mentions and hashtags marked up in the post's facets */
+function facetMetadata(record: AppBskyFeedPost.Record): {
+  links: string[];
+  mentions: { did: string; handle: string }[];
+  tags: string[];
+} {
+  const links: string[] = [];
+  const mentions: { did: string; handle: string }[] = [];
+  const tags: string[] = [];
+
+  const text = new RichText({ text: record.text, facets: record.facets });
+  for (const segment of text.segments()) {
+    if (segment.link) links.push(segment.link.uri);
+    if (segment.mention) mentions.push({ did: segment.mention.did, handle: segment.text.replace(/^@/, '') });
+    if (segment.tag) tags.push(segment.tag.tag);
+  }
+
+  return { links, mentions, tags };
+}
+
+/** The post a quote post embeds, with or without media alongside */
+function embeddedRecord(post: AppBskyFeedDefs.PostView): AppBskyEmbedRecord.ViewRecord | null {
+  const record = AppBskyEmbedRecord.isView(post.embed)
+    ? post.embed.record
+    : AppBskyEmbedRecordWithMedia.isView(post.embed)
+      ? post.embed.record.record
+      : null;
+  return AppBskyEmbedRecord.isViewRecord(record) ? record : null;
+}
+
+function contextFrom(
+  kind: QuotedContent['kind'],
+  uri: string,
+  author: { handle: string; displayName?: string },
+  record: unknown
+): QuotedContent {
+  return {
+    kind,
+    id: uri,
+    author: author.handle,
+    authorName: author.displayName || undefined,
+    text: postText(record),
+    url: postUrl(author.handle, uri),
+  };
+}
+
+function postToContent(item: AppBskyFeedDefs.FeedViewPost, handle: string, authorName?: string): RawContent | null {
+  const { post } = item;
+  if (!AppBskyFeedPost.isRecord(post.record)) return null;
+  const record = post.record;
+
+  const quoted: QuotedContent[] = [];
+  const parent = item.reply?.parent;
+  if (AppBskyFeedDefs.isPostView(parent)) {
+    quoted.push(contextFrom('parent', parent.uri, parent.author, parent.record));
+  }
+  const embedded = embeddedRecord(post);
+  if (embedded) {
+    quoted.push(contextFrom('quote', embedded.uri, embedded.author, embedded.value));
+  }
+
+  const facets = facetMetadata(record);
+  const external = AppBskyEmbedExternal.isView(post.embed) ? post.embed.external.uri : undefined;
+  if (external && !facets.links.includes(external)) facets.links.push(external);
+
+  return {
+    id: post.uri,
+    source: `bluesky:${handle}`,
+    sourceType: 'bluesky',
+    author: authorName || post.author.displayName || handle,
+    content: record.text,
+    url: postUrl(post.author.handle, post.uri),
+    publishedAt: new Date(record.createdAt),
+    metadata: {
+      likes: post.likeCount,
+      reposts: post.repostCount,
+      replies: post.replyCount,
+      isReply: !!record.reply,
+      ...(record.reply ? { replyRoot: record.reply.root.uri, replyParent: record.reply.parent.uri } : {}),
+      isQuote: !!embedded,
+      ...facets,
+      ...(record.langs ? { langs: record.langs } : {}),
+      ...(quoted.length > 0 ? { quoted } : {})
+    }
+  };
+}
+
+// ============================================================================
+// FETCHING
+// ============================================================================
+
+/** When a feed item entered the feed: the repost time for reposts */
+function feedTime(item: AppBskyFeedDefs.FeedViewPost): string {
+  return AppBskyFeedDefs.isReasonRepost(item.reason) ? item.reason.indexedAt : item.post.indexedAt;
+}
+
+interface FeedPage {
+  items: RawContent[];
+  /** Newest feed time on the page */
+  newest?: string;
+  /** Whether the page reached a post at or before the stop time */
+  reachedStop: boolean;
+  cursor?: string;
+}
+
+/** One page of the author feed, cut off at the stop time */
+async function readFeedPage(
+  agent: BskyAgent,
+  handle: string,
+  authorName: string | undefined,
+  stopAt: string,
+  cursor?: string
+): Promise<FeedPage> {
+  const { data } = await agent.getAuthorFeed({ actor: handle, limit: BLUESKY_CONFIG.pageSize, cursor });
+  const items: RawContent[] = [];
+  let newest: string | undefined;
+
+  for (const item of data.feed) {
+    const time = feedTime(item);
+    if (time <= stopAt) {
+      return { items, newest, reachedStop: true };
+    }
+    if (!newest || time > newest) newest = time;
+    // Reposts are someone else's post
+    if (AppBskyFeedDefs.isReasonRepost(item.reason)) continue;
+
+    const content = postToContent(item, handle, authorName);
+    if (content) items.push(content);
+  }
+
+  return { items, newest, reachedStop: false, cursor: data.feed.length > 0 ? data.cursor : undefined };
+}
+
+/**
+ * Page the author feed back to the stop date. State keeps the newest feed
+ * time seen, where the next fetch stops. A fetch that runs out of pages
+ * before its stop date leaves its cursor in state, and the next fetch resumes
+ * from there; posts newer than newestSeen are picked up once it's done.
+ */
+export async function fetchBluesky(
+  handle: string,
+  authorName?: string,
+  context?: FetchContext
+): Promise<RawContent[]> {
+  const agent = new BskyAgent({ service: BLUESKY_CONFIG.service });
+  const state = context?.state ?? {};
+
+  const backfill = state.backfill as { cursor: string; until: string } | undefined;
+  const backfillFrom = new Date();
+  backfillFrom.setMonth(backfillFrom.getMonth() - BLUESKY_CONFIG.backfillMonths);
+  const stopAt: string = backfill?.until ?? state.newestSeen ?? backfillFrom.toISOString();
+
+  const items: RawContent[] = [];
+  let newest: string | undefined;
+  let cursor: string | undefined = backfill?.cursor;
+  let reachedStop = false;
+
+  for (let page = 0; page < BLUESKY_CONFIG.maxPages; page++) {
+    const result = await readFeedPage(agent, handle, authorName, stopAt, cursor);
+    items.push(...result.items);
+    if (result.newest && (!newest || result.newest > newest)) newest = result.newest;
+    ({ reachedStop, cursor } = result);
+    if (reachedStop || !cursor) break;
+  }
+
+  if (context) {
+    context.nextState = {
+      newestSeen: backfill ? state.newestSeen : newest ?? state.newestSeen,
+      ...(!reachedStop && cursor ? { backfill: { cursor, until: stopAt } } : {})
+    };
+  }
+  return items;
+}
+
+/** Page back through the author feed to a date, a page at a time */
+export async function backfillBluesky(
+  handle: string,
+  authorName: string | undefined,
+  request: BackfillRequest
+): Promise<BackfillPage> {
+  const agent = new BskyAgent({ service: BLUESKY_CONFIG.service });
+  const page = await readFeedPage(agent, handle, authorName, request.since.toISOString(), request.cursor?.cursor);
+  return {
+    items: page.items,
+    cursor: !page.reachedStop && page.cursor ? { cursor: page.cursor } : undefined,
+  };
+}
+
+// ============================================================================
+// ADAPTER
+// ============================================================================
+
+const entrySchema = z.object({
+  handle: z.string().min(1),
+  name: z.string().optional(),
+  category: categorySchema,
+});
+
+export const blueskyAdapter: SourceAdapter<z.infer<typeof entrySchema>> = {
+  type: 'bluesky',
+  displayName: 'Bluesky',
+  description: 'Posts from a Bluesky account, paged back to the last fetch (or months of history for new sources), with reply and quote context',
+  identifierLabel: 'Bluesky handle',
+  profileUrl: 'https://bsky.app/profile/{identifier}',
+  defaultFetchFrequencyHours: 6,
+  rateLimit: { minIntervalMs: 0 },
+  configSchema: entrySchema,
+
+  toSource: entry => ({
+    type: 'bluesky',
+    identifier: entry.handle,
+    authorName: entry.name,
+    category: entry.category,
+    fetchFrequencyHours: 6,
+  }),
+
+  fetch: (source: Source, context?: FetchContext) => fetchBluesky(source.identifier, source.authorName, context),
+
+  backfill: (source: Source, request: BackfillRequest) =>
+    backfillBluesky(source.identifier, source.authorName, request),
+};
@@ -0,0 +1,63 @@
+/**
+ * Shared helpers for feed-based adapters (RSS/Atom).
+ */
+
+import Parser from 'rss-parser';
+import { JSDOM } from 'jsdom';
+import { z } from 'zod';
+import type { ContentCategory } from '../types';
+import { rateLimitedFetch } from '../ratelimit';
+import type { FetchContext } from './registry';
+
+export const rssParser: Parser = new Parser({
+  customFields: {
+    item: [
+      ['dc:creator', 'creator'],
+      ['content:encoded', 'contentEncoded']
+    ]
+  }
+});
+
+/**
+ * Fetch and parse a feed, sending the context's cache validators as a
+ * conditional GET. Returns null when the server answers 304 Not Modified.
+ */
+export async function fetchFeed(url: string, context?: FetchContext): Promise<Parser.Output<any> | null> {
+  const headers: Record<string, string> = {
+    'User-Agent': 'ai-intel (+rss)',
+    Accept: 'application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8',
+  };
+  if (context?.validators.etag) headers['If-None-Match'] = context.validators.etag;
+  if (context?.validators.lastModified) headers['If-Modified-Since'] = context.validators.lastModified;
+
+  const response = await rateLimitedFetch(url, { headers });
+
+  if (response.status === 304) {
+    if (context) {
+      context.notModified = true;
+      context.nextValidators = context.validators;
+    }
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Feed request failed: ${response.status}`);
+  }
+
+  if (context) {
+    context.nextValidators = {
+      etag: response.headers.get('etag') ?? undefined,
+      lastModified: response.headers.get('last-modified') ?? undefined,
+    };
+  }
+
+  return rssParser.parseString(await response.text());
+}
+
+export function htmlToText(html: string): string {
+  const dom = new JSDOM(html);
+  return dom.window.document.body.textContent?.trim() || '';
+}
+
+// Category values in data/sources.json are the ContentCategory union; they
+// aren't enumerated here so new labs can be added to the file alone.
+export const categorySchema = z.string().transform(value => value as ContentCategory);
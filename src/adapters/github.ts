@@ -0,0 +1,376 @@
+/**
+ * GitHub adapter (REST API, with or without a token)
+ *
+ * A source is a repository ("owner/repo") or an organization ("owner"), in
+ * which case its most recently pushed repositories are watched. For each
+ * repository we store release notes, tags pushed without a release, and each
+ * new revision of the README. Every item carries the repository's metadata
+ * (stars, the change in stars since the last fetch, language).
+ *
+ * Set GITHUB_TOKEN for 5,000 requests an hour; without it the API allows 60,
+ * so organizations are limited to fewer repositories and each fetch to a
+ * small request budget. Tag commits and the README's last change are looked
+ * up once and remembered in the source's state. A fetch that runs out of
+ * budget, or finds the hourly limit used up, keeps what it has; the rest
+ * comes next time.
+ */
+
+import { z } from 'zod';
+import type { RawContent, Source } from '../types';
+import { rateLimitedFetch } from '../ratelimit';
+import { categorySchema } from './feeds';
+import type { FetchContext, SourceAdapter } from './registry';
+
+const GITHUB_API = 'https://api.github.com';
+
+export const GITHUB_CONFIG = {
+  token: process.env.GITHUB_TOKEN || '',
+};
+
+const RELEASES_PER_REPO = 10;
+const TAGS_PER_REPO = 5;
+const ORG_REPOS = { authenticated: 10, unauthenticated: 2 };
+/** Requests per fetch of one source */
+const REQUEST_BUDGET = { authenticated: 200, unauthenticated: 10 };
+
+// ============================================================================
+// API SHAPES
+// ============================================================================
+
+interface GitHubRepo {
+  full_name: string;
+  html_url: string;
+  description: string | null;
+  language: string | null;
+  stargazers_count: number;
+  forks_count: number;
+  open_issues_count: number;
+  pushed_at: string;
+  archived: boolean;
+  fork: boolean;
+}
+
+interface GitHubRelease {
+  id: number;
+  tag_name: string;
+  name: string | null;
+  body: string | null;
+  html_url: string;
+  draft: boolean;
+  prerelease: boolean;
+  published_at: string | null;
+  created_at: string;
+  author: { login: string } | null;
+}
+
+interface GitHubTag {
+  name: string;
+  commit: { sha: string };
+}
+
+interface GitHubCommit {
+  sha: string;
+  commit: { author: { name: string; date: string } | null; committer: { date: string } | null };
+}
+
+interface GitHubReadme {
+  sha: string;
+  path: string;
+  html_url: string;
+  content: string;
+  encoding: string;
+}
+
+/** The commit a tag or README revision was last seen at */
+interface KnownCommit {
+  sha: string;
+  date?: string;
+  author?: string;
+  commit?: string;
+}
+
+/**
+ * What the adapter keeps between fetches, per repository: stars, the commits
+ * of bare tags, and the README's last change
+ */
+interface GitHubState {
+  stars?: Record<string, number>;
+  tags?: Record<string, Record<string, KnownCommit>>;
+  readmes?: Record<string, KnownCommit>;
+}
+
+// ============================================================================
+// FETCHING
+// ============================================================================
+
+// When the hourly limit is used up, no requests are sent until it resets
+let exhaustedUntil = 0;
+
+/** Requests left to one fetch */
+interface RequestBudget {
+  remaining: number;
+}
+
+function canRequest(budget: RequestBudget): boolean {
+  return budget.remaining > 0 && Date.now() >= exhaustedUntil;
+}
+
+async function getJson<T>(budget: RequestBudget, path: string): Promise<T> {
+  if (Date.now() < exhaustedUntil) {
+    throw new Error(`GitHub API rate limit exhausted until ${new Date(exhaustedUntil).toISOString()}`);
+  }
+  if (budget.remaining <= 0) throw new Error('GitHub request budget for this fetch is used up');
+  budget.remaining--;
+
+  const headers: Record<string, string> = {
+    Accept: 'application/vnd.github+json',
+    'X-GitHub-Api-Version': '2022-11-28',
+  };
+  if (GITHUB_CONFIG.token) headers.Authorization = `Bearer ${GITHUB_CONFIG.token}`;
+
+  const response = await rateLimitedFetch(`${GITHUB_API}${path}`, { headers });
+  const remaining = response.headers.get('x-ratelimit-remaining');
+  if (remaining === '0') {
+    const reset = Number(response.headers.get('x-ratelimit-reset'));
+    exhaustedUntil = reset > 0 ? reset * 1000 : Date.now() + 60 * 60 * 1000;
+  }
+  if (!response.ok) {
+    throw new Error(
+      remaining === '0'
+        ? 'GitHub API rate limit exhausted (set GITHUB_TOKEN for a higher limit)'
+        : `GitHub API error: ${response.status}`
+    );
+  }
+  return response.json() as Promise<T>;
+}
+
+export async function fetchGitHub(identifier: string, context?: FetchContext): Promise<RawContent[]> {
+  const state = (context?.state as GitHubState | undefined) ?? {};
+  const previous = state.stars ?? {};
+  const budget = { remaining: GITHUB_CONFIG.token ? REQUEST_BUDGET.authenticated : REQUEST_BUDGET.unauthenticated };
+  // Repositories this fetch doesn't reach keep what was known about them
+  const next: Required<GitHubState> = {
+    stars: { ...previous },
+    tags: { ...state.tags },
+    readmes: { ...state.readmes },
+  };
+  const results: RawContent[] = [];
+
+  for (const repo of await resolveRepos(budget, identifier)) {
+    if (!canRequest(budget)) {
+      console.warn(`Stopping GitHub fetch of ${identifier} at ${repo.full_name}: out of requests`);
+      break;
+    }
+
+    next.stars[repo.full_name] = repo.stargazers_count;
+    const repoMetadata = {
+      repo: repo.full_name,
+      stars: repo.stargazers_count,
+      starsDelta: repo.full_name in previous ? repo.stargazers_count - previous[repo.full_name] : null,
+      language: repo.language,
+      forks: repo.forks_count,
+      openIssues: repo.open_issues_count,
+      provider: 'github'
+    };
+
+    const releases = await getJson<GitHubRelease[]>(budget, `/repos/${repo.full_name}/releases?per_page=${RELEASES_PER_REPO}`);
+    const published = releases.filter(r => !r.draft);
+    results.push(...published.map(release => releaseToContent(repo, release, repoMetadata)));
+
+    if (canRequest(budget)) {
+      const releasedTags = new Set(published.map(r => r.tag_name));
+      const tags = await fetchBareTags(budget, repo, releasedTags, state.tags?.[repo.full_name] ?? {}, repoMetadata);
+      results.push(...tags.items);
+      next.tags[repo.full_name] = tags.known;
+    }
+
+    if (canRequest(budget)) {
+      const readme = await fetchReadme(budget, repo, state.readmes?.[repo.full_name], repoMetadata);
+      if (readme) {
+        results.push(readme.item);
+        next.readmes[repo.full_name] = readme.known;
+      }
+    }
+  }
+
+  if (context) context.nextState = next satisfies GitHubState;
+
+  return results;
+}
+
+async function resolveRepos(budget: RequestBudget, identifier: string): Promise<GitHubRepo[]> {
+  if (identifier.includes('/')) {
+    return [await getJson<GitHubRepo>(budget, `/repos/${identifier}`)];
+  }
+
+  const limit = GITHUB_CONFIG.token ? ORG_REPOS.authenticated : ORG_REPOS.unauthenticated;
+  const repos = await getJson<GitHubRepo[]>(budget, `/orgs/${identifier}/repos?sort=pushed&direction=desc&per_page=${limit * 2}`);
+  return repos.filter(r => !r.archived && !r.fork).slice(0, limit);
+}
+
+function releaseToContent(
+  repo: GitHubRepo,
+  release: GitHubRelease,
+  repoMetadata: Record<string, unknown>
+): RawContent {
+  const title = `${repo.full_name} ${release.name || release.tag_name}`;
+  return {
+    id: `release:${release.id}`,
+    source: `github:${repo.full_name}`,
+    sourceType: 'github',
+    author: release.author?.login || repo.full_name.split('/')[0],
+    title,
+    content: [title, release.body || ''].filter(Boolean).join('\n\n'),
+    url: release.html_url,
+    publishedAt: new Date(release.published_at || release.created_at),
+    metadata: {
+      ...repoMetadata,
+      kind: 'release',
+      tag: release.tag_name,
+      prerelease: release.prerelease
+    }
+  };
+}
+
+/**
+ * Tags pushed without a release, dated by their commit. Commits of tags seen
+ * before at the same sha aren't looked up again; new tags past the budget
+ * wait for the next fetch.
+ */
+async function fetchBareTags(
+  budget: RequestBudget,
+  repo: GitHubRepo,
+  releasedTags: Set<string>,
+  previous: Record<string, KnownCommit>,
+  repoMetadata: Record<string, unknown>
+): Promise<{ items: RawContent[]; known: Record<string, KnownCommit> }> {
+  const tags = await getJson<GitHubTag[]>(budget, `/repos/${repo.full_name}/tags?per_page=${TAGS_PER_REPO}`);
+  const items: RawContent[] = [];
+  const known: Record<string, KnownCommit> = {};
+
+  for (const tag of tags.filter(t => !releasedTags.has(t.name))) {
+    let seen: KnownCommit | undefined = previous[tag.name];
+    if (seen?.sha !== tag.commit.sha) {
+      if (!canRequest(budget)) continue;
+      const commit = await getJson<GitHubCommit>(budget, `/repos/${repo.full_name}/commits/${tag.commit.sha}`);
+      seen = {
+        sha: tag.commit.sha,
+        date: commit.commit.committer?.date || commit.commit.author?.date,
+        author: commit.commit.author?.name,
+      };
+    }
+    known[tag.name] = seen;
+
+    items.push({
+      id: `tag:${tag.name}`,
+      source: `github:${repo.full_name}`,
+      sourceType: 'github',
+      author: seen.author || repo.full_name.split('/')[0],
+      title: `${repo.full_name} ${tag.name}`,
+      content: `${repo.full_name} tagged ${tag.name} (commit ${tag.commit.sha.slice(0, 7)}) without release notes.`
+        + (repo.description ? `\n\n${repo.description}` : ''),
+      url: `${repo.html_url}/tree/${encodeURIComponent(tag.name)}`,
+      publishedAt: seen.date ? new Date(seen.date) : new Date(),
+      metadata: {
+        ...repoMetadata,
+        kind: 'tag',
+        tag: tag.name,
+        sha: tag.commit.sha
+      }
+    });
+  }
+
+  return { items, known };
+}
+
+/**
+ * The README at its current revision. Each revision is its own item, keyed
+ * by blob sha, so an edited README (e.g. a new leaderboard) is a new item.
+ * Its last change is only looked up for a revision not seen before.
+ */
+async function fetchReadme(
+  budget: RequestBudget,
+  repo: GitHubRepo,
+  previous: KnownCommit | undefined,
+  repoMetadata: Record<string, unknown>
+): Promise<{ item: RawContent; known: KnownCommit } | null> {
+  let readme: GitHubReadme;
+  try {
+    readme = await getJson<GitHubReadme>(budget, `/repos/${repo.full_name}/readme`);
+  } catch {
+    return null; // No README, or out of requests
+  }
+
+  let known = previous?.sha === readme.sha ? previous : undefined;
+  if (!known) {
+    if (!canRequest(budget)) return null;
+    const [lastChange] = await getJson<GitHubCommit[]>(
+      budget,
+      `/repos/${repo.full_name}/commits?path=${encodeURIComponent(readme.path)}&per_page=1`
+    );
+    known = {
+      sha: readme.sha,
+      date: lastChange?.commit.committer?.date,
+      author: lastChange?.commit.author?.name,
+      commit: lastChange?.sha,
+    };
+  }
+  const text = Buffer.from(readme.content, readme.encoding === 'base64' ? 'base64' : 'utf8').toString('utf8');
+
+  const item: RawContent = {
+    id: `readme:${readme.sha}`,
+    source: `github:${repo.full_name}`,
+    sourceType: 'github',
+    author: known.author || repo.full_name.split('/')[0],
+    title: `${repo.full_name} README`,
+    content: text,
+    url: readme.html_url,
+    publishedAt: known.date ? new Date(known.date) : new Date(repo.pushed_at),
+    metadata: {
+      ...repoMetadata,
+      kind: 'readme',
+      sha: readme.sha,
+      commit: known.commit
+    }
+  };
+  return { item, known };
+}
+
+// ============================================================================
+// ADAPTER
+// ============================================================================
+
+const entrySchema = z.object({
+  repo: z.string().regex(/^[\w.-]+\/[\w.-]+$/, 'Expected owner/repo').optional(),
+  org: z.string().regex(/^[\w.-]+$/, 'Expected an organization login').optional(),
+  name: z.string().optional(),
+  category: categorySchema,
+}).refine(entry => !!entry.repo !== !!entry.org, { message: 'Set exactly one of repo or org' });
+
+export const githubAdapter: SourceAdapter<z.infer<typeof entrySchema>> = {
+  type: 'github',
+  displayName: 'GitHub',
+  description: 'Releases, bare tags and README revisions of a repository or an organization\'s active repositories',
+  identifierLabel: 'owner/repo or organization',
+  profileUrl: 'https://github.com/{identifier}',
+  defaultFetchFrequencyHours: 12,
+  rateLimit: { minIntervalMs: 0 },
+  configSchema: entrySchema,
+
+  toSource: entry => ({
+    type: 'github',
+    identifier: (entry.repo || entry.org)!,
+    authorName: entry.name,
+    category: entry.category,
+    fetchFrequencyHours: 12,
+  }),
+
+  // Source names label orgs and repos, not release authors
+  fetch: (source: Source, context?: FetchContext) => fetchGitHub(source.identifier, context),
+
+  async healthCheck() {
+    return GITHUB_CONFIG.token
+      ? { ok: true }
+      : { ok: true, message: `GITHUB_TOKEN is not set; unauthenticated requests are limited to 60 an hour (${REQUEST_BUDGET.unauthenticated} per fetch)` };
+  },
+};
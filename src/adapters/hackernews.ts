@@ -0,0 +1,320 @@
+/**
+ * Hacker News adapter (Algolia search API, Firebase API for commenter karma)
+ *
+ * A source follows one of:
+ *   user:<username>           - the user's stories and comments
+ *   search:<query>?points=N   - stories matching a keyword search
+ *   front?points=N            - front-page stories
+ *
+ * Each story's discussion is folded into its content: top-level comment
+ * threads started by commenters with at least HN_COMMENTER_MIN_KARMA karma,
+ * with their first replies. Commenters default to the independent author
+ * category unless the filter can tell otherwise. A link story with neither
+ * text nor folded threads sets `linksTo`, like Reddit link posts.
+ */
+
+import { z } from 'zod';
+import type { AuthorCategory, ContentCategory, RawContent, Source } from '../types';
+import { rateLimitedFetch } from '../ratelimit';
+import { categorySchema, htmlToText } from './feeds';
+import type { SourceAdapter } from './registry';
+
+const ALGOLIA_URL = 'https://hn.algolia.com/api/v1';
+const FIREBASE_URL = 'https://hacker-news.firebaseio.com/v0';
+
+/** Karma a commenter needs for their thread to be folded into a story */
+export const HN_COMMENTER_MIN_KARMA = 1000;
+
+const DEFAULT_MIN_POINTS = { search: 20, front: 100 } as const;
+const HITS_PER_PAGE = 50;
+const MAX_THREADS_CONSIDERED = 30;  // top-level comments whose author karma is looked up
+const MAX_FOLDED_THREADS = 10;
+const MAX_REPLIES = 5;
+const MAX_REPLY_DEPTH = 2;
+
+const HN_AUTHOR_CATEGORY: AuthorCategory = 'independent';
+
+// ============================================================================
+// API SHAPES
+// ============================================================================
+
+interface AlgoliaHit {
+  objectID: string;
+  created_at: string;
+  author: string;
+  title?: string | null;
+  url?: string | null;
+  points?: number | null;
+  num_comments?: number | null;
+  story_text?: string | null;
+  comment_text?: string | null;
+  story_id?: number | null;
+  story_title?: string | null;
+  _tags?: string[];
+}
+
+interface AlgoliaItem {
+  id: number;
+  created_at: string;
+  type: 'story' | 'comment' | 'poll' | 'pollopt' | 'job';
+  author: string | null;
+  title?: string | null;
+  url?: string | null;
+  text?: string | null;
+  points?: number | null;
+  children: AlgoliaItem[];
+}
+
+interface FirebaseUser {
+  id: string;
+  karma: number;
+}
+
+// ============================================================================
+// IDENTIFIERS
+// ============================================================================
+
+export type HackerNewsFeed =
+  | { mode: 'user'; user: string }
+  | { mode: 'search'; query: string; minPoints: number }
+  | { mode: 'front'; minPoints: number };
+
+export function parseHackerNewsIdentifier(identifier: string): HackerNewsFeed {
+  const [target, queryString = ''] = identifier.split('?');
+  const points = new URLSearchParams(queryString).get('points');
+  const [mode, ...rest] = target.split(':');
+  const value = rest.join(':').trim();
+
+  switch (mode) {
+    case 'user':
+      if (!value) break;
+      return { mode: 'user', user: value };
+    case 'search':
+      if (!value) break;
+      return { mode: 'search', query: value, minPoints: points ? Number(points) : DEFAULT_MIN_POINTS.search };
+    case 'front':
+      return { mode: 'front', minPoints: points ? Number(points) : DEFAULT_MIN_POINTS.front };
+  }
+
+  throw new Error(`Invalid Hacker News source: ${identifier}`);
+}
+
+export function formatHackerNewsIdentifier(feed: HackerNewsFeed): string {
+  switch (feed.mode) {
+    case 'user':
+      return `user:${feed.user}`;
+    case 'search':
+      return `search:${feed.query}?points=${feed.minPoints}`;
+    case 'front':
+      return `front?points=${feed.minPoints}`;
+  }
+}
+
+// ============================================================================
+// FETCHING
+// ============================================================================
+
+async function getJson<T>(url: string): Promise<T> {
+  const response = await rateLimitedFetch(url);
+  if (!response.ok) {
+    throw new Error(`Hacker News API error: ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+export async function fetchHackerNews(identifier: string, authorName?: string): Promise<RawContent[]> {
+  const feed = parseHackerNewsIdentifier(identifier);
+  const params = new URLSearchParams({ hitsPerPage: String(HITS_PER_PAGE) });
+  let endpoint = 'search_by_date';
+
+  if (feed.mode === 'user') {
+    params.set('tags', `(story,comment),author_${feed.user}`);
+  } else if (feed.mode === 'search') {
+    params.set('query', feed.query);
+    params.set('tags', 'story');
+    params.set('numericFilters', `points>=${feed.minPoints}`);
+  } else {
+    endpoint = 'search';
+    params.set('tags', 'front_page');
+    params.set('numericFilters', `points>=${feed.minPoints}`);
+  }
+
+  const { hits } = await getJson<{ hits: AlgoliaHit[] }>(`${ALGOLIA_URL}/${endpoint}?${params}`);
+
+  // Karma lookups are shared across the stories in one fetch
+  const karma = new Map<string, number>();
+  const results: RawContent[] = [];
+
+  for (const hit of hits) {
+    const isComment = hit._tags?.includes('comment') ?? !!hit.comment_text;
+    results.push(isComment
+      ? commentToContent(hit, identifier, authorName)
+      : await storyToContent(hit, identifier, authorName, karma));
+  }
+
+  return results;
+}
+
+function discussionUrl(id: string | number): string {
+  return `https://news.ycombinator.com/item?id=${id}`;
+}
+
+function commentToContent(hit: AlgoliaHit, source: string, authorName?: string): RawContent {
+  return {
+    id: hit.objectID,
+    source: `hackernews:${source}`,
+    sourceType: 'hackernews',
+    author: authorName || hit.author,
+    title: hit.story_title ? `Comment on: ${hit.story_title}` : undefined,
+    content: htmlToText(hit.comment_text || ''),
+    url: discussionUrl(hit.objectID),
+    publishedAt: new Date(hit.created_at),
+    metadata: {
+      kind: 'comment',
+      storyId: hit.story_id,
+      defaultAuthorCategory: HN_AUTHOR_CATEGORY
+    }
+  };
+}
+
+async function storyToContent(
+  hit: AlgoliaHit,
+  source: string,
+  authorName: string | undefined,
+  karma: Map<string, number>
+): Promise<RawContent> {
+  const threads = await fetchHighKarmaThreads(hit.objectID, karma);
+  const parts = [
+    hit.title || '',
+    hit.story_text ? htmlToText(hit.story_text) : '',
+    hit.url ? `Link: ${hit.url}` : '',
+  ].filter(Boolean);
+
+  if (threads.length > 0) {
+    parts.push(`Discussion (threads from commenters with ${HN_COMMENTER_MIN_KARMA}+ karma):\n\n${threads.join('\n\n')}`);
+  }
+
+  return {
+    id: hit.objectID,
+    source: `hackernews:${source}`,
+    sourceType: 'hackernews',
+    author: authorName || hit.author,
+    title: hit.title || undefined,
+    content: parts.join('\n\n'),
+    url: discussionUrl(hit.objectID),
+    linksTo: hit.url && !hit.story_text && threads.length === 0 ? hit.url : undefined,
+    publishedAt: new Date(hit.created_at),
+    metadata: {
+      kind: 'story',
+      points: hit.points ?? 0,
+      numComments: hit.num_comments ?? 0,
+      storyUrl: hit.url,
+      foldedThreads: threads.length,
+      defaultAuthorCategory: HN_AUTHOR_CATEGORY
+    }
+  };
+}
+
+/**
+ * Render the story's top-level threads whose authors clear the karma bar.
+ * A failed tree or karma lookup leaves the story without its discussion.
+ */
+async function fetchHighKarmaThreads(storyId: string, karma: Map<string, number>): Promise<string[]> {
+  let tree: AlgoliaItem;
+  try {
+    tree = await getJson<AlgoliaItem>(`${ALGOLIA_URL}/items/${storyId}`);
+  } catch (e) {
+    console.warn(`HN discussion for ${storyId} unavailable: ${e}`);
+    return [];
+  }
+
+  const threads: string[] = [];
+  for (const comment of tree.children.filter(isLive).slice(0, MAX_THREADS_CONSIDERED)) {
+    if (threads.length >= MAX_FOLDED_THREADS) break;
+    const authorKarma = await getKarma(comment.author!, karma);
+    if (authorKarma >= HN_COMMENTER_MIN_KARMA) {
+      threads.push(renderThread(comment, 0, authorKarma));
+    }
+  }
+  return threads;
+}
+
+async function getKarma(user: string, cache: Map<string, number>): Promise<number> {
+  const cached = cache.get(user);
+  if (cached !== undefined) return cached;
+
+  let karma = 0;
+  try {
+    const profile = await getJson<FirebaseUser | null>(`${FIREBASE_URL}/user/${encodeURIComponent(user)}.json`);
+    karma = profile?.karma ?? 0;
+  } catch {
+    // Treat an unavailable profile as low karma
+  }
+  cache.set(user, karma);
+  return karma;
+}
+
+function isLive(item: AlgoliaItem): boolean {
+  return !!item.author && !!item.text;
+}
+
+function renderThread(comment: AlgoliaItem, depth: number, authorKarma?: number): string {
+  const indent = '  '.repeat(depth);
+  const label = authorKarma !== undefined ? `${comment.author} (${authorKarma} karma)` : comment.author;
+  const lines = [`${indent}${depth > 0 ? '↳ ' : ''}[${label}] ${htmlToText(comment.text || '')}`];
+
+  if (depth < MAX_REPLY_DEPTH) {
+    for (const reply of comment.children.filter(isLive).slice(0, MAX_REPLIES)) {
+      lines.push(renderThread(reply, depth + 1));
+    }
+  }
+  return lines.join('\n');
+}
+
+// ============================================================================
+// ADAPTER
+// ============================================================================
+
+const entrySchema = z.object({
+  user: z.string().min(1).optional(),
+  search: z.string().min(1).optional(),
+  frontPage: z.boolean().optional(),
+  minScore: z.number().int().nonnegative().optional(),
+  name: z.string().optional(),
+  category: categorySchema.optional(),
+}).refine(
+  entry => [entry.user, entry.search, entry.frontPage].filter(Boolean).length === 1,
+  { message: 'Set exactly one of user, search or frontPage' }
+);
+
+type HackerNewsEntry = z.infer<typeof entrySchema>;
+
+function entryToFeed(entry: HackerNewsEntry): HackerNewsFeed {
+  if (entry.user) return { mode: 'user', user: entry.user };
+  if (entry.search) return { mode: 'search', query: entry.search, minPoints: entry.minScore ?? DEFAULT_MIN_POINTS.search };
+  return { mode: 'front', minPoints: entry.minScore ?? DEFAULT_MIN_POINTS.front };
+}
+
+export const hackernewsAdapter: SourceAdapter<HackerNewsEntry> = {
+  type: 'hackernews',
+  displayName: 'Hacker News',
+  description: 'Stories with high-karma discussion threads, from a user, a keyword search or the front page',
+  identifierLabel: 'user:<name>, search:<query>?points=N or front?points=N',
+  defaultFetchFrequencyHours: 6,
+  rateLimit: { minIntervalMs: 0 },
+  configSchema: entrySchema,
+
+  toSource: entry => ({
+    type: 'hackernews',
+    identifier: formatHackerNewsIdentifier(entryToFeed(entry)),
+    authorName: entry.name,
+    category: entry.category || ('independent' as ContentCategory),
+    fetchFrequencyHours: entry.user ? 12 : 6,
+  }),
+
+  // Feed names (e.g. "HN front page") aren't authors; only user feeds pass one
+  fetch: (source: Source) => fetchHackerNews(
+    source.identifier,
+    source.identifier.startsWith('user:') ? source.authorName : undefined
+  ),
+};
@@ -0,0 +1,49 @@
+/**
+ * Built-in source adapters, registered on import.
+ */
+
+import { registerAdapter } from './registry';
+import { twitterAdapter } from './twitter';
+import { substackAdapter } from './substack';
+import { youtubeAdapter } from './youtube';
+import { blogAdapter } from './blog';
+import { podcastAdapter } from './podcast';
+import { lesswrongAdapter } from './lesswrong';
+import { arxivAdapter } from './arxiv';
+import { blueskyAdapter } from './bluesky';
+import { hackernewsAdapter } from './hackernews';
+import { redditAdapter } from './reddit';
+import { githubAdapter } from './github';
+import { mastodonAdapter } from './mastodon';
+
+for (const adapter of [
+  twitterAdapter,
+  substackAdapter,
+  youtubeAdapter,
+  blogAdapter,
+  podcastAdapter,
+  lesswrongAdapter,
+  arxivAdapter,
+  blueskyAdapter,
+  hackernewsAdapter,
+  redditAdapter,
+  githubAdapter,
+  mastodonAdapter,
+]) {
+  registerAdapter(adapter);
+}
+
+export {
+  registerAdapter,
+  getAdapter,
+  listAdapters,
+  checkAdapterHealth,
+  loadExternalAdapters,
+  type SourceAdapter,
+  type CacheValidators,
+  type FetchContext,
+  type RateLimitPolicy,
+  type AdapterHealth,
+  type BackfillRequest,
+  type BackfillPage
+} from './registry';
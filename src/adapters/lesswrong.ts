@@ -0,0 +1,116 @@
+/**
+ * LessWrong / Alignment Forum adapter (GraphQL API, by tag)
+ */
+
+import { z } from 'zod';
+import type { ContentCategory, RawContent, Source } from '../types';
+import { rateLimitedFetch } from '../ratelimit';
+import { categorySchema, htmlToText } from './feeds';
+import type { BackfillPage, BackfillRequest, SourceAdapter } from './registry';
+
+export const LESSWRONG_CONFIG = {
+  pageSize: 50,
+};
+
+export async function fetchLessWrong(tag: string = 'ai'): Promise<RawContent[]> {
+  const posts = await queryPosts(tag, 0);
+  return posts.map(postToContent);
+}
+
+/** Page back through a tag's posts, newest first, by offset */
+export async function backfillLessWrong(tag: string, request: BackfillRequest): Promise<BackfillPage> {
+  const offset: number = request.cursor?.offset ?? 0;
+  const posts = await queryPosts(tag, offset);
+  const items = posts.map(postToContent).filter(item => item.publishedAt >= request.since);
+
+  const done = items.length < posts.length || posts.length < LESSWRONG_CONFIG.pageSize;
+  return {
+    items,
+    cursor: done ? undefined : { offset: offset + posts.length },
+  };
+}
+
+async function queryPosts(tag: string, offset: number): Promise<any[]> {
+  // LessWrong API uses tag slugs (e.g., "ai-safety") not tag IDs
+  // Using filterSettings for more reliable tag filtering
+  const query = `
+    query GetPosts($tagSlug: String, $limit: Int, $offset: Int) {
+      posts(input: {
+        terms: {
+          limit: $limit
+          offset: $offset
+          filterSettings: { tags: [{ tagSlug: $tagSlug, filterMode: "Required" }] }
+          sortedBy: "new"
+        }
+      }) {
+        results {
+          _id
+          title
+          slug
+          postedAt
+          baseScore
+          user { username displayName }
+          contents { html wordCount }
+        }
+      }
+    }
+  `;
+
+  const response = await rateLimitedFetch('https://www.lesswrong.com/graphql', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      query,
+      variables: { tagSlug: tag, limit: LESSWRONG_CONFIG.pageSize, offset }
+    })
+  });
+
+  const data = await response.json();
+  return data.data?.posts?.results || [];
+}
+
+function postToContent(post: any): RawContent {
+  return {
+    id: post._id,
+    source: 'lesswrong',
+    sourceType: 'lesswrong',
+    author: post.user?.displayName || post.user?.username || '',
+    title: post.title,
+    content: htmlToText(post.contents?.html || ''),
+    url: `https://www.lesswrong.com/posts/${post._id}/${post.slug}`,
+    publishedAt: new Date(post.postedAt),
+    metadata: {
+      score: post.baseScore,
+      wordCount: post.contents?.wordCount
+    }
+  };
+}
+
+const entrySchema = z.object({
+  tag: z.string().min(1),
+  name: z.string().optional(),
+  category: categorySchema.optional(),
+});
+
+export const lesswrongAdapter: SourceAdapter<z.infer<typeof entrySchema>> = {
+  type: 'lesswrong',
+  displayName: 'LessWrong',
+  description: 'Newest LessWrong posts carrying a tag',
+  identifierLabel: 'Tag slug',
+  profileUrl: 'https://www.lesswrong.com/tag/{identifier}',
+  defaultFetchFrequencyHours: 12,
+  rateLimit: { minIntervalMs: 0 },
+  configSchema: entrySchema,
+
+  toSource: entry => ({
+    type: 'lesswrong',
+    identifier: entry.tag,
+    authorName: entry.name,
+    category: entry.category || ('safety' as ContentCategory),
+    fetchFrequencyHours: 12,
+  }),
+
+  fetch: (source: Source) => fetchLessWrong(source.identifier),
+
+  backfill: (source: Source, request: BackfillRequest) => backfillLessWrong(source.identifier, request),
+};
@@ -0,0 +1,188 @@
+/**
+ * Mastodon adapter (public account statuses API, RSS fallback)
+ *
+ * A source is an account handle, "@user@instance". Statuses come from the
+ * instance's public API; instances that require authentication for it still
+ * publish the account's feed, which has the statuses without counts. Boosts
+ * are skipped, as retweets are.
+ */
+
+import { z } from 'zod';
+import type { RawContent, Source } from '../types';
+import { rateLimitedFetch } from '../ratelimit';
+import { categorySchema, fetchFeed, htmlToText } from './feeds';
+import type { SourceAdapter } from './registry';
+
+const STATUS_LIMIT = 40;
+
+// ============================================================================
+// API SHAPES
+// ============================================================================
+
+interface MastodonAccount {
+  id: string;
+  acct: string;
+  display_name: string;
+  url: string;
+}
+
+interface MastodonStatus {
+  id: string;
+  created_at: string;
+  url: string | null;
+  uri: string;
+  content: string;
+  spoiler_text: string;
+  language: string | null;
+  in_reply_to_id: string | null;
+  reblog: MastodonStatus | null;
+  favourites_count: number;
+  reblogs_count: number;
+  replies_count: number;
+  account: MastodonAccount;
+  card?: { url: string } | null;
+}
+
+// ============================================================================
+// HANDLES
+// ============================================================================
+
+export interface MastodonHandle {
+  user: string;
+  instance: string;
+}
+
+export function parseMastodonHandle(handle: string): MastodonHandle {
+  const match = handle.trim().match(/^@?([\w.-]+)@([\w-]+(?:\.[\w-]+)+)$/);
+  if (!match) {
+    throw new Error(`Invalid Mastodon handle: ${handle} (expected @user@instance)`);
+  }
+  return { user: match[1], instance: match[2].toLowerCase() };
+}
+
+// ============================================================================
+// FETCHING
+// ============================================================================
+
+async function getJson<T>(url: string): Promise<T> {
+  const response = await rateLimitedFetch(url, { headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    throw new Error(`Mastodon API error: ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+export async function fetchMastodon(handle: string, authorName?: string): Promise<RawContent[]> {
+  const { user, instance } = parseMastodonHandle(handle);
+  const base = `https://${instance}`;
+
+  let statuses: MastodonStatus[];
+  try {
+    const account = await getJson<MastodonAccount>(
+      `${base}/api/v1/accounts/lookup?acct=${encodeURIComponent(user)}`
+    );
+    statuses = await getJson<MastodonStatus[]>(
+      `${base}/api/v1/accounts/${account.id}/statuses?limit=${STATUS_LIMIT}&exclude_reblogs=true`
+    );
+  } catch (e) {
+    console.warn(`Mastodon API unavailable for ${handle}, reading the feed instead: ${e}`);
+    return fetchMastodonFeed(handle, base, user, authorName);
+  }
+
+  return statuses
+    // Older instances ignore exclude_reblogs
+    .filter(status => !status.reblog)
+    .map(status => ({
+      id: status.id,
+      source: `mastodon:${handle}`,
+      sourceType: 'mastodon',
+      author: authorName || status.account.display_name || handle,
+      content: statusText(status.content, status.spoiler_text),
+      url: status.url || status.uri,
+      publishedAt: new Date(status.created_at),
+      metadata: {
+        favourites: status.favourites_count,
+        reblogs: status.reblogs_count,
+        replies: status.replies_count,
+        isReply: !!status.in_reply_to_id,
+        language: status.language,
+        linkUrl: status.card?.url,
+        provider: 'mastodon'
+      }
+    }));
+}
+
+/** The account's public RSS feed, which lists the account's own statuses only */
+async function fetchMastodonFeed(
+  handle: string,
+  base: string,
+  user: string,
+  authorName?: string
+): Promise<RawContent[]> {
+  const feed = await fetchFeed(`${base}/@${user}.rss`);
+  if (!feed) return [];
+
+  return feed.items.map(item => ({
+    id: item.guid?.split('/').pop() || item.link || '',
+    source: `mastodon:${handle}`,
+    sourceType: 'mastodon',
+    author: authorName || handle,
+    content: statusText(item.content || item.description || ''),
+    url: item.link || item.guid || '',
+    publishedAt: new Date(item.isoDate || item.pubDate || Date.now()),
+    metadata: {
+      provider: 'mastodon',
+      viaFeed: true
+    }
+  }));
+}
+
+/** Status HTML to text, keeping paragraph and line breaks */
+function statusText(html: string, contentWarning?: string): string {
+  const text = htmlToText(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/p>\s*<p>/gi, '\n\n')
+  );
+  return contentWarning ? `CW: ${contentWarning}\n\n${text}` : text;
+}
+
+// ============================================================================
+// ADAPTER
+// ============================================================================
+
+const entrySchema = z.object({
+  handle: z.string().refine(handle => {
+    try {
+      parseMastodonHandle(handle);
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'Expected @user@instance'),
+  name: z.string().optional(),
+  category: categorySchema,
+});
+
+export const mastodonAdapter: SourceAdapter<z.infer<typeof entrySchema>> = {
+  type: 'mastodon',
+  displayName: 'Mastodon',
+  description: 'Recent statuses from a Mastodon account, without boosts',
+  identifierLabel: '@user@instance',
+  defaultFetchFrequencyHours: 6,
+  rateLimit: { minIntervalMs: 0 },
+  configSchema: entrySchema,
+
+  toSource: entry => {
+    const { user, instance } = parseMastodonHandle(entry.handle);
+    return {
+      type: 'mastodon',
+      identifier: `@${user}@${instance}`,
+      authorName: entry.name,
+      category: entry.category,
+      fetchFrequencyHours: 6,
+    };
+  },
+
+  fetch: (source: Source) => fetchMastodon(source.identifier, source.authorName),
+};
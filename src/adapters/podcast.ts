@@ -0,0 +1,60 @@
+/**
+ * Podcast adapter (RSS episode listings)
+ */
+
+import { z } from 'zod';
+import type { RawContent, Source } from '../types';
+import { categorySchema, fetchFeed } from './feeds';
+import type { FetchContext, SourceAdapter } from './registry';
+
+export async function fetchPodcast(
+  feedUrl: string,
+  authorName?: string,
+  context?: FetchContext
+): Promise<RawContent[]> {
+  const feed = await fetchFeed(feedUrl, context);
+  if (!feed) return [];
+
+  return feed.items.map(item => ({
+    id: item.guid || item.link || '',
+    source: `podcast:${feed.title || new URL(feedUrl).hostname}`,
+    sourceType: 'podcast',
+    author: authorName || feed.title || '',
+    title: item.title,
+    content: item.contentSnippet || item.content || '',
+    url: item.link,
+    publishedAt: new Date(item.pubDate || Date.now()),
+    metadata: {
+      duration: item.itunes?.duration,
+      audioUrl: item.enclosure?.url,
+      episodeNumber: item.itunes?.episode
+    }
+  }));
+}
+
+const entrySchema = z.object({
+  rss: z.string().url(),
+  name: z.string().optional(),
+  category: categorySchema,
+});
+
+export const podcastAdapter: SourceAdapter<z.infer<typeof entrySchema>> = {
+  type: 'podcast',
+  displayName: 'Podcast',
+  description: 'Episode descriptions from a podcast RSS feed',
+  identifierLabel: 'Podcast RSS URL',
+  defaultFetchFrequencyHours: 48,
+  rateLimit: { minIntervalMs: 0 },
+  expandsSummaries: true,
+  configSchema: entrySchema,
+
+  toSource: entry => ({
+    type: 'podcast',
+    identifier: entry.rss,
+    authorName: entry.name,
+    category: entry.category,
+    fetchFrequencyHours: 48,
+  }),
+
+  fetch: (source: Source, context?: FetchContext) => fetchPodcast(source.identifier, source.authorName, context),
+};
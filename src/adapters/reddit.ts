@@ -0,0 +1,180 @@
+/**
+ * Reddit adapter (public .json listing endpoints)
+ *
+ * Pulls a subreddit's hot listing and, for the highest-scoring posts, their
+ * top comments above REDDIT_COMMENT_MIN_SCORE as context. Link posts with no
+ * text of their own set `linksTo`, so the fetcher stores them as shares of
+ * the linked page (see dedup.ts).
+ */
+
+import { z } from 'zod';
+import type { ContentCategory, RawContent, Source } from '../types';
+import { rateLimitedFetch } from '../ratelimit';
+import { categorySchema } from './feeds';
+import type { SourceAdapter } from './registry';
+
+const REDDIT_URL = 'https://www.reddit.com';
+// Reddit rejects requests with generic user agents
+const USER_AGENT = 'ai-intel/0.1 (research aggregation)';
+
+/** Comments below this score aren't included as context */
+export const REDDIT_COMMENT_MIN_SCORE = 20;
+
+const LISTING_LIMIT = 50;
+const MAX_POSTS_WITH_COMMENTS = 10;
+const MAX_COMMENTS = 5;
+
+// ============================================================================
+// API SHAPES
+// ============================================================================
+
+interface RedditPost {
+  id: string;
+  title: string;
+  selftext: string;
+  author: string;
+  url: string;
+  permalink: string;
+  created_utc: number;
+  score: number;
+  upvote_ratio: number;
+  num_comments: number;
+  is_self: boolean;
+  stickied: boolean;
+  link_flair_text: string | null;
+  domain: string;
+}
+
+interface RedditComment {
+  id: string;
+  author: string;
+  body: string;
+  score: number;
+  stickied: boolean;
+}
+
+interface Listing<T> {
+  data: { children: { kind: string; data: T }[] };
+}
+
+// ============================================================================
+// FETCHING
+// ============================================================================
+
+async function getJson<T>(path: string): Promise<T> {
+  const response = await rateLimitedFetch(`${REDDIT_URL}${path}`, {
+    headers: { 'User-Agent': USER_AGENT },
+  });
+  if (!response.ok) {
+    throw new Error(`Reddit API error: ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+export async function fetchReddit(subreddit: string): Promise<RawContent[]> {
+  const listing = await getJson<Listing<RedditPost>>(
+    `/r/${encodeURIComponent(subreddit)}/hot.json?limit=${LISTING_LIMIT}&raw_json=1`
+  );
+
+  const posts = listing.data.children
+    .filter(child => child.kind === 't3' && !child.data.stickied)
+    .map(child => child.data);
+
+  // Comments cost a request per post, so only the top posts get them
+  const withComments = new Set(
+    [...posts]
+      .filter(post => post.num_comments > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_POSTS_WITH_COMMENTS)
+      .map(post => post.id)
+  );
+
+  const results: RawContent[] = [];
+  for (const post of posts) {
+    let comments: RedditComment[] = [];
+    if (withComments.has(post.id)) {
+      comments = await fetchTopComments(post);
+    }
+    results.push(postToContent(post, subreddit, comments));
+  }
+
+  return results;
+}
+
+async function fetchTopComments(post: RedditPost): Promise<RedditComment[]> {
+  try {
+    const [, comments] = await getJson<[Listing<RedditPost>, Listing<RedditComment>]>(
+      `${post.permalink}.json?sort=top&depth=1&limit=${MAX_COMMENTS * 3}&raw_json=1`
+    );
+    return comments.data.children
+      .filter(child => child.kind === 't1')
+      .map(child => child.data)
+      .filter(c => !c.stickied && c.score >= REDDIT_COMMENT_MIN_SCORE && c.author !== '[deleted]')
+      .slice(0, MAX_COMMENTS);
+  } catch (e) {
+    console.warn(`Reddit comments for ${post.id} unavailable: ${e}`);
+    return [];
+  }
+}
+
+function postToContent(post: RedditPost, subreddit: string, comments: RedditComment[]): RawContent {
+  const parts = [post.title];
+  if (post.selftext) parts.push(post.selftext);
+  if (!post.is_self) parts.push(`Link: ${post.url}`);
+  if (comments.length > 0) {
+    parts.push(`Top comments:\n\n${comments.map(c => `[${c.author}, ${c.score} points] ${c.body}`).join('\n\n')}`);
+  }
+
+  return {
+    id: post.id,
+    source: `reddit:${subreddit}`,
+    sourceType: 'reddit',
+    author: post.author,
+    title: post.title,
+    content: parts.join('\n\n'),
+    url: `${REDDIT_URL}${post.permalink}`,
+    // A link post with nothing of its own is a share of its target
+    linksTo: !post.is_self && !post.selftext ? post.url : undefined,
+    publishedAt: new Date(post.created_utc * 1000),
+    metadata: {
+      score: post.score,
+      upvoteRatio: post.upvote_ratio,
+      commentCount: post.num_comments,
+      topCommentCount: comments.length,
+      flair: post.link_flair_text,
+      linkUrl: post.is_self ? undefined : post.url,
+      provider: 'reddit'
+    }
+  };
+}
+
+// ============================================================================
+// ADAPTER
+// ============================================================================
+
+const entrySchema = z.object({
+  subreddit: z.string().regex(/^[A-Za-z0-9_]+$/, 'Subreddit name without the r/ prefix'),
+  name: z.string().optional(),
+  category: categorySchema.optional(),
+});
+
+export const redditAdapter: SourceAdapter<z.infer<typeof entrySchema>> = {
+  type: 'reddit',
+  displayName: 'Reddit',
+  description: 'Hot posts from a subreddit, with top comments as context',
+  identifierLabel: 'Subreddit',
+  profileUrl: 'https://www.reddit.com/r/{identifier}',
+  defaultFetchFrequencyHours: 6,
+  rateLimit: { minIntervalMs: 0 },
+  configSchema: entrySchema,
+
+  toSource: entry => ({
+    type: 'reddit',
+    identifier: entry.subreddit,
+    authorName: entry.name,
+    category: entry.category || ('independent' as ContentCategory),
+    fetchFrequencyHours: 6,
+  }),
+
+  fetch: (source: Source) => fetchReddit(source.identifier),
+};
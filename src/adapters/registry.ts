@@ -0,0 +1,162 @@
+/**
+ * Source Adapter Registry
+ *
+ * Every platform the fetcher can read from is a SourceAdapter registered
+ * here under its source type. The fetcher, seedSources and the admin UI look
+ * adapters up by type instead of switching over a fixed list, so a new
+ * platform is a new adapter module rather than a change to the core.
+ *
+ * Adapters outside this repo can be loaded at startup by listing their module
+ * paths in SOURCE_ADAPTERS (comma-separated). Each module should export a
+ * SourceAdapter, or an array of them, as its default export.
+ */
+
+import path from 'path';
+import { pathToFileURL } from 'url';
+import type { z } from 'zod';
+import type { RawContent, Source } from '../types';
+
+/**
+ * Extra spacing an adapter needs between its sources. Requests are already
+ * spaced per host by the shared limiter (see ratelimit.ts, and use
+ * rateLimitedFetch); minIntervalMs is a further pause between consecutive
+ * sources of the same type during a fetch run, for adapters whose requests
+ * don't go through it. Built-in adapters set it to 0.
+ */
+export interface RateLimitPolicy {
+  minIntervalMs: number;
+}
+
+/** HTTP cache validators from a source's previous response */
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Per-fetch state passed to an adapter. Adapters that support conditional
+ * requests send `validators`, then report what the server returned: the
+ * validators to keep for next time, and whether it answered 304 Not Modified
+ * (in which case fetch returns no items).
+ *
+ * `state` is whatever the adapter stored on this source last time (e.g.
+ * previous star counts); setting `nextState` replaces it.
+ */
+export interface FetchContext {
+  validators: CacheValidators;
+  nextValidators?: CacheValidators;
+  notModified?: boolean;
+  state?: Record<string, any>;
+  nextState?: Record<string, any>;
+}
+
+/**
+ * One step of a historical backfill. `cursor` is where the previous page
+ * left off (undefined for the first page); it's stored between pages so an
+ * interrupted backfill resumes where it stopped.
+ */
+export interface BackfillRequest {
+  since: Date;
+  cursor?: Record<string, any>;
+}
+
+/** A page of history, and the cursor for the next one (none when done) */
+export interface BackfillPage {
+  items: RawContent[];
+  cursor?: Record<string, any>;
+}
+
+export interface AdapterHealth {
+  ok: boolean;
+  message?: string;
+}
+
+export interface SourceAdapter<Entry = any> {
+  /** Value stored in sources.type, and the adapter's key in data/sources.json */
+  type: string;
+  displayName: string;
+  description: string;
+  /** What sources.identifier holds for this adapter (e.g. "Twitter handle") */
+  identifierLabel: string;
+  /** Link to a source's page; {identifier} is replaced with the identifier */
+  profileUrl?: string;
+  defaultFetchFrequencyHours: number;
+  rateLimit: RateLimitPolicy;
+  /**
+   * Whether short items are summaries of a linked page, to be replaced with
+   * the article on it when first stored (see articles.ts)
+   */
+  expandsSummaries?: boolean;
+
+  /** Shape of one entry in this adapter's section of data/sources.json */
+  configSchema: z.ZodType<Entry, z.ZodTypeDef, unknown>;
+  /** Convert a validated sources.json entry into a source row */
+  toSource(entry: Entry): Source;
+
+  fetch(source: Source, context?: FetchContext): Promise<RawContent[]>;
+
+  /**
+   * Read one page of a source's history older than what fetch returns,
+   * back to `since`. Adapters whose platform can't page back omit it.
+   */
+  backfill?(source: Source, request: BackfillRequest): Promise<BackfillPage>;
+
+  /**
+   * Check the adapter can run at all (credentials configured, binaries
+   * installed). Adapters without prerequisites can omit it.
+   */
+  healthCheck?(): Promise<AdapterHealth>;
+}
+
+const adapters = new Map<string, SourceAdapter>();
+
+export function registerAdapter(adapter: SourceAdapter): void {
+  if (adapters.has(adapter.type)) {
+    throw new Error(`Source adapter already registered for type: ${adapter.type}`);
+  }
+  adapters.set(adapter.type, adapter);
+}
+
+export function getAdapter(type: string): SourceAdapter | undefined {
+  return adapters.get(type);
+}
+
+export function listAdapters(): SourceAdapter[] {
+  return Array.from(adapters.values());
+}
+
+export async function checkAdapterHealth(adapter: SourceAdapter): Promise<AdapterHealth> {
+  if (!adapter.healthCheck) return { ok: true };
+  try {
+    return await adapter.healthCheck();
+  } catch (e) {
+    return { ok: false, message: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/**
+ * Import and register the adapter modules listed in SOURCE_ADAPTERS.
+ * Relative paths resolve against the working directory.
+ */
+export async function loadExternalAdapters(specifiers = process.env.SOURCE_ADAPTERS || ''): Promise<string[]> {
+  const loaded: string[] = [];
+
+  for (const specifier of specifiers.split(',').map(s => s.trim()).filter(Boolean)) {
+    const url = specifier.startsWith('.') || path.isAbsolute(specifier)
+      ? pathToFileURL(path.resolve(specifier)).href
+      : specifier;
+    const module = await import(url);
+    const exported = module.default ?? module.adapter;
+    const list: SourceAdapter[] = Array.isArray(exported) ? exported : [exported];
+
+    for (const adapter of list) {
+      if (!adapter?.type || typeof adapter.fetch !== 'function') {
+        throw new Error(`${specifier} does not export a source adapter`);
+      }
+      registerAdapter(adapter);
+      loaded.push(adapter.type);
+    }
+  }
+
+  return loaded;
+}
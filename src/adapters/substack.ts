@@ -0,0 +1,67 @@
+/**
+ * Substack adapter (RSS, with full post content in content:encoded)
+ */
+
+import { z } from 'zod';
+import type { RawContent, Source } from '../types';
+import { categorySchema, fetchFeed, htmlToText } from './feeds';
+import type { FetchContext, SourceAdapter } from './registry';
+
+export async function fetchSubstack(
+  feedUrl: string,
+  authorName?: string,
+  context?: FetchContext
+): Promise<RawContent[]> {
+  const feed = await fetchFeed(feedUrl, context);
+  if (!feed) return [];
+
+  return feed.items.map(item => {
+    // Substack includes full content in content:encoded
+    const fullContent = item.contentEncoded || item.content || '';
+    const textContent = htmlToText(fullContent);
+
+    return {
+      id: item.guid || item.link || '',
+      source: `substack:${new URL(feedUrl).hostname}`,
+      sourceType: 'substack',
+      author: authorName || item.creator || feed.title || '',
+      title: item.title,
+      content: textContent,
+      url: item.link,
+      publishedAt: new Date(item.pubDate || Date.now()),
+      metadata: {
+        htmlContent: fullContent,
+        wordCount: textContent.split(/\s+/).length
+      }
+    };
+  });
+}
+
+const entrySchema = z.object({
+  url: z.string().url(),
+  author: z.string().optional(),
+  category: categorySchema,
+  tier: z.number().int().optional(),
+});
+
+export const substackAdapter: SourceAdapter<z.infer<typeof entrySchema>> = {
+  type: 'substack',
+  displayName: 'Substack',
+  description: 'Newsletter posts from a Substack RSS feed, with full text',
+  identifierLabel: 'Feed URL',
+  profileUrl: '{identifier}',
+  defaultFetchFrequencyHours: 12,
+  rateLimit: { minIntervalMs: 0 },
+  expandsSummaries: true,
+  configSchema: entrySchema,
+
+  toSource: entry => ({
+    type: 'substack',
+    identifier: entry.url,
+    authorName: entry.author,
+    category: entry.category,
+    fetchFrequencyHours: entry.tier === 1 ? 6 : 12,
+  }),
+
+  fetch: (source: Source, context?: FetchContext) => fetchSubstack(source.identifier, source.authorName, context),
+};
@@ -0,0 +1,390 @@
+/**
+ * Twitter adapter (via TwitterAPI.io, with a legacy Nitter RSS fallback)
+ *
+ * Self-threads are stitched into one item and quoted or retweeted tweets are
+ * kept as context beside the author's own text (see tweetsToContent).
+ */
+
+import { z } from 'zod';
+import type { QuotedContent, RawContent, Source } from '../types';
+import { rateLimitedFetch } from '../ratelimit';
+import { categorySchema, htmlToText, rssParser } from './feeds';
+import type { BackfillPage, BackfillRequest, SourceAdapter } from './registry';
+
+// TwitterAPI.io configuration (https://twitterapi.io). Requests are spaced
+// by the api.twitterapi.io policy in RATE_LIMIT_CONFIG, which the adapter and
+// the fetcher's monitor mode share since they use the same API key.
+export const TWITTER_API_CONFIG = {
+  baseUrl: 'https://api.twitterapi.io',
+  apiKey: process.env.TWITTER_API_KEY || '',
+  // Backfill searches the account's history a window at a time, newest first
+  backfillWindowDays: 7,
+};
+
+// Legacy Nitter instances (fallback, mostly non-functional as of 2025)
+const NITTER_INSTANCES = [
+  'nitter.poast.org',
+  'nitter.privacydev.net',
+];
+
+export async function fetchTwitter(handle: string, authorName?: string): Promise<RawContent[]> {
+  // Primary: TwitterAPI.io
+  if (TWITTER_API_CONFIG.apiKey) {
+    try {
+      return await fetchTwitterViaAPI(handle, authorName);
+    } catch (e) {
+      console.warn(`TwitterAPI.io failed for ${handle}: ${e}`);
+      // Fall through to Nitter fallback
+    }
+  }
+
+  // Fallback: Nitter (mostly non-functional as of 2025)
+  return fetchTwitterViaNitter(handle, authorName);
+}
+
+async function fetchTwitterViaAPI(handle: string, authorName?: string): Promise<RawContent[]> {
+  // Replies are included so self-threads can be stitched; replies to other
+  // people are dropped in tweetsToContent
+  const response = await rateLimitedFetch(
+    `${TWITTER_API_CONFIG.baseUrl}/twitter/user/last_tweets?userName=${encodeURIComponent(handle)}&includeReplies=true`,
+    {
+      headers: {
+        'X-API-Key': TWITTER_API_CONFIG.apiKey,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`TwitterAPI.io returned ${response.status}: ${await response.text()}`);
+  }
+
+  const data = await response.json() as {
+    status: string;
+    data: { tweets: ApiTweet[] };
+  };
+
+  if (data.status !== 'success' || !data.data?.tweets) {
+    throw new Error(`TwitterAPI.io error: ${JSON.stringify(data)}`);
+  }
+
+  return tweetsToContent(data.data.tweets, handle, authorName);
+}
+
+// advanced_search's since:/until: operators take times as YYYY-MM-DD_HH:MM:SS_UTC
+function searchTime(date: Date): string {
+  return date.toISOString().replace('T', '_').replace(/\.\d+Z$/, '_UTC');
+}
+
+/**
+ * Page back through an account's tweets with advanced_search, one time window
+ * (TWITTER_API_CONFIG.backfillWindowDays) at a time from now back to
+ * `since`. The cursor holds the window's end and, while the window has more
+ * pages, the search's own cursor.
+ */
+export async function backfillTwitter(
+  handle: string,
+  authorName: string | undefined,
+  request: BackfillRequest
+): Promise<BackfillPage> {
+  if (!TWITTER_API_CONFIG.apiKey) {
+    throw new Error('Twitter API key required for backfill');
+  }
+
+  const until = new Date(request.cursor?.until ?? Date.now());
+  const windowStart = new Date(Math.max(
+    request.since.getTime(),
+    until.getTime() - TWITTER_API_CONFIG.backfillWindowDays * 24 * 60 * 60 * 1000
+  ));
+
+  const params = new URLSearchParams({
+    query: `from:${handle} since:${searchTime(windowStart)} until:${searchTime(until)}`,
+    queryType: 'Latest',
+  });
+  if (request.cursor?.cursor) params.set('cursor', request.cursor.cursor);
+
+  const response = await rateLimitedFetch(
+    `${TWITTER_API_CONFIG.baseUrl}/twitter/tweet/advanced_search?${params}`,
+    { headers: { 'X-API-Key': TWITTER_API_CONFIG.apiKey } }
+  );
+  if (!response.ok) {
+    throw new Error(`TwitterAPI.io returned ${response.status}: ${await response.text()}`);
+  }
+
+  const data = await response.json() as {
+    tweets?: ApiTweet[];
+    has_next_page?: boolean;
+    next_cursor?: string;
+  };
+  const items = await tweetsToContent(data.tweets ?? [], handle, authorName);
+
+  let cursor: Record<string, any> | undefined;
+  if (data.has_next_page && data.next_cursor) {
+    cursor = { until: until.toISOString(), cursor: data.next_cursor };
+  } else if (windowStart > request.since) {
+    cursor = { until: windowStart.toISOString() };
+  }
+  return { items, cursor };
+}
+
+// ============================================================================
+// THREADS AND QUOTES
+// ============================================================================
+
+/** A tweet as returned by TwitterAPI.io (the fields used here) */
+export interface ApiTweet {
+  id: string;
+  text: string;
+  url?: string;
+  createdAt: string;
+  likeCount?: number;
+  retweetCount?: number;
+  replyCount?: number;
+  viewCount?: number;
+  author?: {
+    userName: string;
+    name: string;
+  };
+  isReply?: boolean;
+  inReplyToUsername?: string;
+  conversationId?: string;
+  quoted_tweet?: ApiTweet | null;
+  retweeted_tweet?: ApiTweet | null;
+}
+
+// Tweet ids are time-ordered snowflakes
+function compareTweetIds(a: ApiTweet, b: ApiTweet): number {
+  return a.id.length - b.id.length || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+function tweetUrl(handle: string, tweet: ApiTweet): string {
+  return tweet.url || `https://twitter.com/${handle}/status/${tweet.id}`;
+}
+
+function quotedContent(tweet: ApiTweet, segment?: number): QuotedContent[] {
+  const quoted: QuotedContent[] = [];
+  const add = (kind: QuotedContent['kind'], other: ApiTweet) => quoted.push({
+    kind,
+    id: other.id,
+    author: other.author?.userName || 'unknown',
+    authorName: other.author?.name,
+    text: other.text,
+    url: other.author?.userName ? tweetUrl(other.author.userName, other) : other.url,
+    ...(segment !== undefined ? { segment } : {}),
+  });
+
+  if (tweet.retweeted_tweet) add('retweet', tweet.retweeted_tweet);
+  if (tweet.quoted_tweet) add('quote', tweet.quoted_tweet);
+  return quoted;
+}
+
+/**
+ * Turn an account's tweets into content items. Replies to other people are
+ * dropped; a self-thread (the author replying to themselves) becomes one item
+ * keyed by its first tweet, with the tweets' texts in order and their offsets
+ * in metadata.segments. When a thread's first tweet isn't among the fetched
+ * tweets its earlier part is fetched; if that fails the fetched part is kept
+ * as its own item (partialThread) rather than replacing the stored thread.
+ *
+ * Quoted and retweeted tweets are kept in metadata.quoted, apart from the
+ * author's own text, so extraction doesn't attribute them to the author.
+ */
+export async function tweetsToContent(
+  tweets: ApiTweet[],
+  handle: string,
+  authorName?: string
+): Promise<RawContent[]> {
+  const own = handle.toLowerCase();
+  const isSelfReply = (t: ApiTweet) => !!t.isReply && t.inReplyToUsername?.toLowerCase() === own;
+
+  const conversations = new Map<string, ApiTweet[]>();
+  for (const tweet of tweets) {
+    if (tweet.isReply && !isSelfReply(tweet)) continue;
+    // A thread's first tweet is the conversation's root, so its id is the key
+    const key = tweet.isReply ? tweet.conversationId || tweet.id : tweet.id;
+    conversations.set(key, [...(conversations.get(key) ?? []), tweet]);
+  }
+
+  const items: RawContent[] = [];
+  for (const [rootId, fetched] of conversations) {
+    let segments = fetched;
+    if (segments.some(isSelfReply) && !segments.some(t => t.id === rootId)) {
+      segments = await addThreadContext(segments, rootId, own);
+    }
+    segments = [...new Map(segments.map(t => [t.id, t])).values()].sort(compareTweetIds);
+
+    items.push(segments.length === 1 && !isSelfReply(segments[0])
+      ? tweetToContent(segments[0], handle, authorName)
+      : threadToContent(segments, handle, authorName, segments[0].id === rootId));
+  }
+
+  return items.sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
+}
+
+/**
+ * Add the author's earlier tweets in a thread from its conversation context.
+ * On failure the tweets are returned as they are.
+ */
+async function addThreadContext(tweets: ApiTweet[], rootId: string, own: string): Promise<ApiTweet[]> {
+  const first = [...tweets].sort(compareTweetIds)[0];
+  try {
+    const response = await rateLimitedFetch(
+      `${TWITTER_API_CONFIG.baseUrl}/twitter/tweet/thread_context?tweetId=${encodeURIComponent(first.id)}`,
+      { headers: { 'X-API-Key': TWITTER_API_CONFIG.apiKey } }
+    );
+    if (!response.ok) {
+      throw new Error(`TwitterAPI.io returned ${response.status}`);
+    }
+
+    const data = await response.json() as { tweets?: ApiTweet[] };
+    const earlier = (data.tweets ?? []).filter(t =>
+      t.author?.userName.toLowerCase() === own &&
+      (t.conversationId || t.id) === rootId &&
+      compareTweetIds(t, first) < 0 &&
+      (!t.isReply || t.inReplyToUsername?.toLowerCase() === own)
+    );
+    return [...earlier, ...tweets];
+  } catch (e) {
+    console.warn(`Thread context for tweet ${first.id} unavailable: ${e}`);
+    return tweets;
+  }
+}
+
+function tweetMetadata(tweet: ApiTweet): Record<string, any> {
+  return {
+    likeCount: tweet.likeCount,
+    retweetCount: tweet.retweetCount,
+    replyCount: tweet.replyCount,
+    viewCount: tweet.viewCount,
+    isRetweet: !!tweet.retweeted_tweet,
+    isQuote: !!tweet.quoted_tweet,
+    provider: 'twitterapi.io'
+  };
+}
+
+function tweetToContent(tweet: ApiTweet, handle: string, authorName?: string): RawContent {
+  const quoted = quotedContent(tweet);
+  return {
+    id: tweet.id,
+    source: `twitter:${handle}`,
+    sourceType: 'twitter',
+    author: authorName || tweet.author?.name || handle,
+    content: tweet.text,
+    url: tweetUrl(handle, tweet),
+    publishedAt: new Date(tweet.createdAt),
+    metadata: {
+      ...tweetMetadata(tweet),
+      ...(quoted.length > 0 ? { quoted } : {})
+    }
+  };
+}
+
+function threadToContent(
+  segments: ApiTweet[],
+  handle: string,
+  authorName: string | undefined,
+  complete: boolean
+): RawContent {
+  const [first] = segments;
+  let content = '';
+  const offsets = segments.map(tweet => {
+    if (content) content += '\n\n';
+    const start = content.length;
+    content += tweet.text;
+    return {
+      id: tweet.id,
+      url: tweetUrl(handle, tweet),
+      publishedAt: new Date(tweet.createdAt),
+      start,
+      end: content.length,
+    };
+  });
+  const quoted = segments.flatMap((tweet, i) => quotedContent(tweet, i));
+
+  return {
+    id: first.id,
+    source: `twitter:${handle}`,
+    sourceType: 'twitter',
+    author: authorName || first.author?.name || handle,
+    content,
+    url: tweetUrl(handle, first),
+    publishedAt: new Date(first.createdAt),
+    metadata: {
+      ...tweetMetadata(first),
+      isThread: true,
+      segments: offsets,
+      ...(complete ? {} : { partialThread: true }),
+      ...(quoted.length > 0 ? { quoted } : {})
+    }
+  };
+}
+
+async function fetchTwitterViaNitter(handle: string, authorName?: string): Promise<RawContent[]> {
+  for (const instance of NITTER_INSTANCES) {
+    try {
+      const feed = await rssParser.parseURL(
+        `https://${instance}/${handle}/rss`
+      );
+
+      return feed.items.map(item => {
+        const text = htmlToText(item.content || '');
+        const tweetId = item.guid?.split('/status/')[1] || item.guid || '';
+
+        return {
+          id: tweetId,
+          source: `twitter:${handle}`,
+          sourceType: 'twitter',
+          author: authorName || handle,
+          content: text,
+          url: `https://twitter.com/${handle}/status/${tweetId}`,
+          publishedAt: new Date(item.pubDate || Date.now()),
+          metadata: {
+            isThread: item.content?.includes('Show this thread'),
+            nitterInstance: instance,
+            provider: 'nitter'
+          }
+        };
+      });
+    } catch {
+      continue; // Try next instance
+    }
+  }
+
+  throw new Error(`All Twitter fetch methods failed for ${handle}`);
+}
+
+const entrySchema = z.object({
+  handle: z.string().min(1),
+  name: z.string().optional(),
+  category: categorySchema,
+  priority: z.string().optional(),
+});
+
+export const twitterAdapter: SourceAdapter<z.infer<typeof entrySchema>> = {
+  type: 'twitter',
+  displayName: 'Twitter',
+  description: 'Recent tweets via TwitterAPI.io, with self-threads stitched and quoted tweets kept as context, falling back to Nitter RSS',
+  identifierLabel: 'Twitter handle',
+  profileUrl: 'https://twitter.com/{identifier}',
+  defaultFetchFrequencyHours: 6,
+  rateLimit: { minIntervalMs: 0 },
+  configSchema: entrySchema,
+
+  toSource: entry => ({
+    type: 'twitter',
+    identifier: entry.handle,
+    authorName: entry.name,
+    category: entry.category,
+    fetchFrequencyHours: entry.priority === 'high' ? 4 : 6,
+  }),
+
+  fetch: (source: Source) => fetchTwitter(source.identifier, source.authorName),
+
+  backfill: (source: Source, request: BackfillRequest) =>
+    backfillTwitter(source.identifier, source.authorName, request),
+
+  async healthCheck() {
+    return TWITTER_API_CONFIG.apiKey
+      ? { ok: true }
+      : { ok: false, message: 'TWITTER_API_KEY is not set; only the Nitter fallback is available' };
+  },
+};
@@ -0,0 +1,124 @@
+/**
+ * YouTube adapter (recent channel uploads and auto-generated transcripts via yt-dlp)
+ */
+
+import { execSync } from 'child_process';
+import { z } from 'zod';
+import type { RawContent, Source } from '../types';
+import { rateLimiter } from '../ratelimit';
+import { categorySchema } from './feeds';
+import type { SourceAdapter } from './registry';
+
+// yt-dlp requests are spaced under this host's rate limit policy
+const YOUTUBE_HOST = 'www.youtube.com';
+
+export async function fetchYouTube(channelId: string, authorName?: string): Promise<RawContent[]> {
+  try {
+    // Get recent videos
+    await rateLimiter.acquire(YOUTUBE_HOST);
+    const output = execSync(
+      `yt-dlp --flat-playlist -j --playlist-end 20 "https://www.youtube.com/channel/${channelId}/videos" 2>/dev/null`,
+      { maxBuffer: 10 * 1024 * 1024, timeout: 60000 }
+    );
+
+    const videos = output
+      .toString()
+      .trim()
+      .split('\n')
+      .filter(Boolean)
+      .map(line => JSON.parse(line));
+
+    // Fetch transcripts for each video
+    const results: RawContent[] = [];
+
+    for (const video of videos.slice(0, 10)) { // Limit to 10 for transcripts
+      await rateLimiter.acquire(YOUTUBE_HOST);
+      const transcript = await fetchYouTubeTranscript(video.id);
+
+      results.push({
+        id: video.id,
+        source: `youtube:${channelId}`,
+        sourceType: 'youtube',
+        author: authorName || video.uploader || '',
+        title: video.title,
+        content: transcript || video.description || '',
+        url: `https://youtube.com/watch?v=${video.id}`,
+        publishedAt: video.timestamp ? new Date(video.timestamp * 1000) : new Date(),
+        metadata: {
+          duration: video.duration,
+          hasTranscript: !!transcript,
+          description: video.description
+        }
+      });
+    }
+
+    return results;
+  } catch (e) {
+    throw new Error(`Failed to fetch YouTube: ${e}`);
+  }
+}
+
+async function fetchYouTubeTranscript(videoId: string): Promise<string | null> {
+  const tempFile = `/tmp/${videoId}.en.json3`;
+  try {
+    // Use yt-dlp to get subtitles
+    const output = execSync(
+      `yt-dlp --skip-download --write-auto-sub --sub-lang en --sub-format json3 -o "/tmp/%(id)s" "https://youtube.com/watch?v=${videoId}" 2>/dev/null && cat ${tempFile} 2>/dev/null`,
+      { maxBuffer: 10 * 1024 * 1024, timeout: 30000 }
+    );
+
+    const data = JSON.parse(output.toString());
+    const text = data.events
+      ?.filter((e: any) => e.segs)
+      .map((e: any) => e.segs.map((s: any) => s.utf8).join(''))
+      .join(' ');
+
+    return text || null;
+  } catch {
+    return null;
+  } finally {
+    // Clean up temp file
+    try {
+      execSync(`rm -f ${tempFile} 2>/dev/null`);
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+}
+
+const entrySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().optional(),
+  category: categorySchema,
+  type: z.string().optional(),
+});
+
+export const youtubeAdapter: SourceAdapter<z.infer<typeof entrySchema>> = {
+  type: 'youtube',
+  displayName: 'YouTube',
+  description: 'Recent channel uploads with auto-generated English transcripts (requires yt-dlp)',
+  identifierLabel: 'Channel ID',
+  profileUrl: 'https://www.youtube.com/channel/{identifier}',
+  defaultFetchFrequencyHours: 24,
+  rateLimit: { minIntervalMs: 0 },
+  configSchema: entrySchema,
+
+  toSource: entry => ({
+    type: 'youtube',
+    identifier: entry.id,
+    authorName: entry.name,
+    category: entry.category,
+    fetchFrequencyHours: 24,
+  }),
+
+  fetch: (source: Source) => fetchYouTube(source.identifier, source.authorName),
+
+  async healthCheck() {
+    try {
+      execSync('yt-dlp --version', { stdio: 'ignore', timeout: 10000 });
+      return { ok: true };
+    } catch {
+      return { ok: false, message: 'yt-dlp is not installed' };
+    }
+  },
+};
@@ -20,6 +20,27 @@ import {
   type SDKAssistantMessage
 } from '@anthropic-ai/claude-agent-sdk';
 import { z } from 'zod';
+import {
+  PREDICTION_TRACKING_PROMPT,
+  HINT_DETECTION_PROMPT,
+  ARGUMENT_MAPPING_PROMPT,
+  CLAIM_RELATION_PROMPT,
+  OUTPUT_REPAIR_PROMPT
+} from './prompts';
+import {
+  emptyValidationStats,
+  validateListOutput,
+  validateOutput,
+  ClaimOutputSchema,
+  FilterAssessmentSchema,
+  HypeAssessmentOutputSchema,
+  PredictionTrackingOutputSchema,
+  SynthesisOutputSchema,
+  type OutputStage,
+  type ValidationStats
+} from './schemas';
+import { filterSample, quotedContext, type ExtractionUnit } from './extraction';
+import { rateLimitedFetch } from './ratelimit';
 
 // ============================================================================
 // CONFIGURATION
@@ -146,6 +167,7 @@ No hedging or excessive caveats.`,
 
 export class AIIntelAgent {
   private config: AIIntelAgentConfig;
+  private validationStats: ValidationStats = emptyValidationStats();
   
   constructor(config: AIIntelAgentConfig) {
     this.config = config;
@@ -250,15 +272,17 @@ Return the result as JSON.`;
   // ============================================================================
   
   /**
-   * Filter content for relevance (uses haiku/GLM via subagent)
+   * Filter content for relevance (uses haiku/GLM via subagent). Returns null
+   * when the batch produced no usable output; `dropped` counts assessments
+   * discarded as invalid.
    */
-  async filterContent(content: any[]): Promise<any> {
+  async filterContent(content: any[]): Promise<{ assessments: z.output<typeof FilterAssessmentSchema>[]; dropped: number } | null> {
     // Prepare content with IDs for tracking
     const contentWithIds = content.slice(0, 20).map((item, idx) => ({
       idx,
       id: (item as any).id,
       author: item.author,
-      content: item.content?.slice(0, 500) || item.content_text?.slice(0, 500) || '',
+      content: filterSample(item),
       url: item.url
     }));
 
@@ -284,32 +308,45 @@ IMPORTANT: Return ONLY valid JSON, no markdown, no explanation. Format:
     });
 
     if (!result.success) {
-      return { assessments: [] };
+      return null;
     }
 
-    return this.parseJsonFromOutput(result.output || '{}');
+    const validated = await this.parseValidatedList('filter', 'assessments', FilterAssessmentSchema, result.output || '{}');
+    return validated && { assessments: validated.items, dropped: validated.dropped };
   }
   
   /**
-   * Extract claims from filtered content
+   * Extract claims from chunks of filtered content. Each chunk is sent in
+   * full; the returned idx ties a claim back to its chunk. Returns null when
+   * the batch produced no usable output; invalid claims are dropped.
    */
-  async extractClaims(content: any[]): Promise<any> {
+  async extractClaims(units: ExtractionUnit[]): Promise<{ claims: z.output<typeof ClaimOutputSchema>[]; dropped: number } | null> {
     // Prepare content with IDs for tracking
-    const contentWithIds = content.slice(0, 10).map((item, idx) => ({
-      idx,
-      contentId: (item as any).id,
-      author: item.author,
-      content: item.content?.slice(0, 1000) || (item as any).content_text?.slice(0, 1000) || '',
-      topic: item.topic,
-      authorCategory: item.authorCategory
-    }));
+    const contentWithIds = units.slice(0, 10).map(({ item, chunk, chunkCount }, idx) => {
+      const quoted = quotedContext(item);
+      return {
+        idx,
+        contentId: (item as any).id,
+        author: item.author,
+        ...(chunkCount > 1 ? { part: `${chunk.index + 1} of ${chunkCount}` } : {}),
+        content: chunk.text,
+        ...(quoted.length > 0 ? { quoted } : {}),
+        topic: item.topic,
+        authorCategory: item.authorCategory
+      };
+    });
 
     const prompt = `You are a claim extractor for AI research content. Extract claims and return ONLY a JSON object.
 
 Content items:
 ${JSON.stringify(contentWithIds, null, 2)}
 
+Long items are split into parts; extract claims from each part as given.
+
+"content" is the author's own words. "quoted" lists posts the author quoted, retweeted or replied to, given only as context. Never attribute a claim made in quoted text to the author: extract it only when the author's own words state or endorse it, and then copy originalQuote from "content". A retweet with no words of the author's own has no claims.
+
 For each claim found, extract:
+- idx: the idx of the content item the claim came from (from input)
 - contentId: the source content's ID (from input)
 - claimText: the actual claim in clear language
 - claimType: fact|prediction|hint|opinion|critique
@@ -322,11 +359,12 @@ For each claim found, extract:
 - quoteworthiness: 0.0-1.0
 - author: from source
 - authorCategory: from source
+- originalQuote: the sentence from the content supporting the claim, copied verbatim
 
 Extract MULTIPLE claims per source when warranted. Focus on predictions, research hints, and substantive opinions.
 
 IMPORTANT: Return ONLY valid JSON, no markdown. Format:
-{"claims": [{"contentId": 123, "claimText": "...", "claimType": "prediction", ...}]}`;
+{"claims": [{"idx": 0, "contentId": 123, "claimText": "...", "claimType": "prediction", ...}]}`;
 
     const result = await this.runQuery(prompt, {
       allowedTools: ['Read'],
@@ -334,16 +372,18 @@ IMPORTANT: Return ONLY valid JSON, no markdown. Format:
     });
 
     if (!result.success) {
-      return { claims: [] };
+      return null;
     }
 
-    return this.parseJsonFromOutput(result.output || '{}');
+    const validated = await this.parseValidatedList('extraction', 'claims', ClaimOutputSchema, result.output || '{}');
+    return validated && { claims: validated.items, dropped: validated.dropped };
   }
   
   /**
-   * Synthesize claims into topic-level insights
+   * Synthesize claims into topic-level insights. Known contradictions between
+   * claims (from enrichment) are included so disagreements are grounded.
    */
-  async synthesize(claims: any[], topic: string): Promise<any> {
+  async synthesize(claims: any[], topic: string, contradictions: any[] = []): Promise<any> {
     // Group claims by author category for proper synthesis
     const labClaims = claims.filter(c =>
       ['anthropic', 'openai', 'deepmind', 'meta', 'google', 'xai', 'mistral'].includes(c.authorCategory?.toLowerCase()) ||
@@ -367,15 +407,21 @@ IMPORTANT: Return ONLY valid JSON, no markdown. Format:
     const labSentiment = avgBullishness(labClaims);
     const criticSentiment = avgBullishness(criticClaims);
 
-    // Format claims for synthesis (limit each category to 30 for token limits)
-    const formatClaims = (arr: any[], limit = 30) => arr.slice(0, limit).map(c => ({
-      text: c.claimText || c.claim_text,
-      author: c.author,
-      stance: c.stance,
-      bullishness: c.bullishness,
-      confidence: c.confidence,
-      claimType: c.claimType || c.claim_type
-    }));
+    // Format claims for synthesis (limit each category to 30 for token limits).
+    // Claims arrive collapsed to one per cluster; the most repeated ideas go
+    // first and carry how often (and by how many authors) they were made.
+    const formatClaims = (arr: any[], limit = 30) => [...arr]
+      .sort((a, b) => (b.clusterSize ?? 1) - (a.clusterSize ?? 1))
+      .slice(0, limit)
+      .map(c => ({
+        text: c.claimText || c.claim_text,
+        author: c.author,
+        stance: c.stance,
+        bullishness: c.bullishness,
+        confidence: c.confidence,
+        claimType: c.claimType || c.claim_type,
+        ...(c.clusterSize > 1 ? { repeatedTimes: c.clusterSize, repeatedByAuthors: c.authorCount } : {})
+      }));
 
     const prompt = `Use the topic-synthesis skill to synthesize ${claims.length} claims about "${topic}".
 
@@ -393,7 +439,10 @@ ${JSON.stringify(formatClaims(criticClaims), null, 2)}
 ## Independent Claims (${independentClaims.length} total, showing ${Math.min(30, independentClaims.length)}):
 ${JSON.stringify(formatClaims(independentClaims), null, 2)}
 
-## Pre-calculated Sentiment
+${contradictions.length > 0 ? `## Known Contradictions (${contradictions.length} total, showing ${Math.min(20, contradictions.length)}):
+${contradictions.slice(0, 20).map(e => `- ${e.sourceAuthor || 'unknown'}: "${e.sourceText}"\n  contradicts ${e.targetAuthor || 'unknown'}: "${e.targetText}"`).join('\n')}
+
+` : ''}## Pre-calculated Sentiment
 - Lab average bullishness: ${labSentiment.toFixed(2)}
 - Critic average bullishness: ${criticSentiment.toFixed(2)}
 - Hype delta: ${(labSentiment - criticSentiment).toFixed(2)}
@@ -414,8 +463,20 @@ Return ONLY valid JSON matching the topic-synthesis skill output format.`;
       maxTurns: 10
     });
 
-    if (!result.success) {
-      // Return calculated values even on failure
+    const computedHypeDelta = () => ({
+      delta: labSentiment - criticSentiment,
+      labSentiment,
+      criticSentiment,
+      interpretation: labSentiment - criticSentiment > 0.2 ? 'Potentially overhyped' :
+                     labSentiment - criticSentiment < -0.2 ? 'Potentially underhyped' : 'Relatively aligned'
+    });
+
+    const parsed = result.success
+      ? await this.parseValidated('synthesis', SynthesisOutputSchema, result.output || '{}')
+      : null;
+
+    if (!parsed) {
+      // Return calculated values when the query fails or its output is invalid
       return {
         labConsensus: `Lab researchers (${labClaims.length} claims) discuss ${topic} with ${labSentiment > 0.6 ? 'optimism' : labSentiment < 0.4 ? 'caution' : 'mixed views'}.`,
         criticConsensus: criticClaims.length > 0
@@ -426,37 +487,20 @@ Return ONLY valid JSON matching the topic-synthesis skill output format.`;
         emergingNarratives: [],
         predictions: [],
         evidenceQuality: 0.5,
-        hypeDelta: {
-          delta: labSentiment - criticSentiment,
-          labSentiment,
-          criticSentiment,
-          interpretation: labSentiment - criticSentiment > 0.2 ? 'Potentially overhyped' :
-                         labSentiment - criticSentiment < -0.2 ? 'Potentially underhyped' : 'Relatively aligned'
-        },
+        hypeDelta: computedHypeDelta(),
         synthesisNarrative: `${topic} discourse includes ${claims.length} claims across lab (${labClaims.length}), critic (${criticClaims.length}), and independent (${independentClaims.length}) sources.`
       };
     }
 
-    const parsed = this.parseJsonFromOutput(result.output || '{}');
-
     // Ensure hypeDelta has calculated values if not returned
-    if (!parsed.hypeDelta || typeof parsed.hypeDelta.delta !== 'number') {
-      parsed.hypeDelta = {
-        delta: labSentiment - criticSentiment,
-        labSentiment,
-        criticSentiment,
-        interpretation: labSentiment - criticSentiment > 0.2 ? 'Potentially overhyped' :
-                       labSentiment - criticSentiment < -0.2 ? 'Potentially underhyped' : 'Relatively aligned'
-      };
-    }
-
-    return parsed;
+    return { ...parsed, hypeDelta: parsed.hypeDelta ?? computedHypeDelta() };
   }
   
   /**
-   * Generate weekly digest
+   * Generate weekly digest. Argument maps of recent long-form critiques, when
+   * given, ground the Critic Corner in the critics' actual premises.
    */
-  async generateDigest(syntheses: any[], hypeAssessment: any): Promise<string> {
+  async generateDigest(syntheses: any[], hypeAssessment: any, criticArguments: any[] = []): Promise<string> {
     // Calculate claim distribution for balanced coverage
     const claimCounts = syntheses.map(s => ({
       topic: s.topic,
@@ -469,6 +513,19 @@ Return ONLY valid JSON matching the topic-synthesis skill output format.`;
       percentage: Math.round(100 * t.claimCount / totalClaims)
     }));
 
+    const criticSection = criticArguments.length > 0 ? `
+Critic Arguments (argument maps of this week's long-form critiques):
+${JSON.stringify(criticArguments.slice(0, 10).map(a => ({
+  author: a.author,
+  title: a.title,
+  url: a.url,
+  topic: a.topic,
+  mainThesis: a.mainThesis,
+  premises: a.premises,
+  concessions: a.concessions
+})), null, 2)}
+` : '';
+
     const prompt = `Generate a weekly AI research digest.
 
 CRITICAL: You MUST cover topics PROPORTIONALLY to their claim volume.
@@ -476,18 +533,19 @@ Do NOT let hype signals dominate the digest. A topic with 15% of claims
 should get roughly 3x the coverage of a topic with 5% of claims.
 
 CLAIM DISTRIBUTION (cover proportionally):
-${distribution.map(t => `- ${t.topic}: ${t.claimCount} claims (${t.percentage}%)`).join('\n')}
+${distribution.map(t => `- ${t.topic}: ${t.claimCount} distinct claims (${t.percentage}%)`).join('\n')}
 
 Topic Syntheses:
 ${JSON.stringify(syntheses, null, 2)}
 
 Hype Assessment:
 ${JSON.stringify(hypeAssessment, null, 2)}
-
+${criticSection}
 REQUIREMENTS:
 1. Include a "Topic Breakdown" section covering EACH topic with >3% of claims
 2. The TL;DR must mention topics from across the claim distribution, not just hyped ones
-3. Research Signals must include insights from multimodal, reasoning, agents - not just RLHF/safety
+3. Research Signals must include insights from multimodal, reasoning, agents - not just RLHF/safety${criticArguments.length > 0 ? `
+4. Critic Corner must cite specific premises from the Critic Arguments (attributed, with links), not one-line summaries` : ''}
 
 Use the digest-generation skill to create an engaging, balanced digest.
 Return the digest as markdown.`;
@@ -501,6 +559,97 @@ Return the digest as markdown.`;
     return result.output || '';
   }
   
+  /**
+   * Assess which topics are over- or underhyped across topic syntheses.
+   * Returns null when the skill fails or its output can't be validated.
+   * Paper reception (review scores and citations per topic, split by whether
+   * labs promoted the paper) lets it weigh enthusiasm against peer review.
+   */
+  async assessHype(syntheses: any[], paperReception?: any): Promise<any | null> {
+    const prompt = `Use the hype-assessment skill to process this input:
+
+${JSON.stringify(paperReception ? { syntheses, paperReception } : { syntheses }, null, 2)}
+
+Return the result as JSON.`;
+
+    const result = await this.runQuery(prompt, {
+      allowedTools: ['Skill', 'Read'],
+      useSkills: true,
+      maxTurns: 5
+    });
+
+    if (!result.success) {
+      return null;
+    }
+
+    return this.parseValidated('hype-assessment', HypeAssessmentOutputSchema, result.output || '{}');
+  }
+  
+  /**
+   * Assess predictions whose target date has passed against later evidence
+   */
+  async resolvePredictions(predictions: any[]): Promise<any> {
+    const result = await this.runQuery(PREDICTION_TRACKING_PROMPT(predictions), {
+      allowedTools: ['Read'],
+      maxTurns: 5
+    });
+
+    if (!result.success) {
+      return { assessments: [] };
+    }
+
+    return await this.parseValidated('prediction-tracking', PredictionTrackingOutputSchema, result.output || '{}')
+      ?? { assessments: [] };
+  }
+  
+  /**
+   * Detect hints about unreleased research in a single piece of content
+   */
+  async detectHints(content: any): Promise<any> {
+    const result = await this.runQuery(HINT_DETECTION_PROMPT(content), {
+      allowedTools: ['Read'],
+      maxTurns: 3
+    });
+
+    if (!result.success) {
+      return { hints: [] };
+    }
+
+    return this.parseJsonFromOutput(result.output || '{}');
+  }
+  
+  /**
+   * Map the argument structure of a long-form critique
+   */
+  async mapArgument(content: any): Promise<any> {
+    const result = await this.runQuery(ARGUMENT_MAPPING_PROMPT(content), {
+      allowedTools: ['Read'],
+      maxTurns: 3
+    });
+
+    if (!result.success) {
+      return {};
+    }
+
+    return this.parseJsonFromOutput(result.output || '{}');
+  }
+  
+  /**
+   * Judge whether new claims support or contradict similar earlier claims
+   */
+  async classifyClaimRelations(pairs: any[]): Promise<any> {
+    const result = await this.runQuery(CLAIM_RELATION_PROMPT(pairs), {
+      allowedTools: ['Read'],
+      maxTurns: 3
+    });
+
+    if (!result.success) {
+      return { judgements: [] };
+    }
+
+    return this.parseJsonFromOutput(result.output || '{}');
+  }
+  
   // ============================================================================
   // UTILITY METHODS
   // ============================================================================
@@ -528,6 +677,100 @@ Return the digest as markdown.`;
     return Object.keys(SUBAGENTS);
   }
   
+  /**
+   * Validation outcomes per stage since the last reset
+   */
+  getValidationStats(): ValidationStats {
+    return structuredClone(this.validationStats);
+  }
+  
+  resetValidationStats(): void {
+    this.validationStats = emptyValidationStats();
+  }
+  
+  recordValidation(stage: OutputStage, outcome: 'invalid' | 'repaired' | 'failed'): void {
+    this.validationStats[stage][outcome]++;
+  }
+  
+  /**
+   * Parse model output and validate it against a stage's schema. Invalid
+   * output gets one repair attempt: the model is shown its response and the
+   * validation errors and asked for corrected JSON. Returns null when the
+   * repaired output is still invalid, so callers fall back explicitly instead
+   * of defaulting missing fields.
+   */
+  private async parseValidated<S extends z.ZodTypeAny>(
+    stage: OutputStage,
+    schema: S,
+    output: string
+  ): Promise<z.output<S> | null> {
+    const first = validateOutput(schema, this.parseJsonFromOutput(output));
+    if (first.success) return first.data;
+
+    this.recordValidation(stage, 'invalid');
+    console.warn(`  ${stage} output failed validation (${first.errors.length} errors), requesting repair`);
+
+    const repair = await this.runQuery(OUTPUT_REPAIR_PROMPT(output, first.errors), {
+      allowedTools: [],
+      useSkills: false,
+      maxTurns: 1
+    });
+
+    if (repair.success) {
+      const second = validateOutput(schema, this.parseJsonFromOutput(repair.output || '{}'));
+      if (second.success) {
+        this.recordValidation(stage, 'repaired');
+        return second.data;
+      }
+      console.warn(`  ${stage} repair still invalid: ${second.errors.slice(0, 3).join('; ')}`);
+    }
+
+    this.recordValidation(stage, 'failed');
+    return null;
+  }
+  
+  /**
+   * parseValidated for list outputs, validated item by item (see
+   * validateListOutput). Output with invalid items gets the same one repair
+   * attempt; if the repair isn't wholly valid either, whichever attempt kept
+   * more items is used, without its invalid ones. Returns null only when
+   * neither attempt produced a list.
+   */
+  private async parseValidatedList<I extends z.ZodTypeAny>(
+    stage: OutputStage,
+    key: string,
+    itemSchema: I,
+    output: string
+  ): Promise<{ items: z.output<I>[]; dropped: number } | null> {
+    const first = validateListOutput(key, itemSchema, this.parseJsonFromOutput(output));
+    if (first.success && first.dropped === 0) return first;
+
+    this.recordValidation(stage, 'invalid');
+    console.warn(`  ${stage} output failed validation (${first.errors.length} errors), requesting repair`);
+
+    const repair = await this.runQuery(OUTPUT_REPAIR_PROMPT(output, first.errors), {
+      allowedTools: [],
+      useSkills: false,
+      maxTurns: 1
+    });
+    const second = repair.success
+      ? validateListOutput(key, itemSchema, this.parseJsonFromOutput(repair.output || '{}'))
+      : null;
+    if (second?.success && second.dropped === 0) {
+      this.recordValidation(stage, 'repaired');
+      return second;
+    }
+    if (second) console.warn(`  ${stage} repair still invalid: ${second.errors.slice(0, 3).join('; ')}`);
+
+    this.recordValidation(stage, 'failed');
+    const usable = [first, second].filter((attempt): attempt is Extract<typeof first, { success: true }> => !!attempt?.success);
+    if (usable.length === 0) return null;
+
+    const best = usable.reduce((a, b) => (b.items.length > a.items.length ? b : a));
+    if (best.dropped > 0) console.warn(`  ${stage}: dropped ${best.dropped} invalid items, kept ${best.items.length}`);
+    return best;
+  }
+
   /**
    * Parse JSON from model output, handling markdown code blocks
    */
@@ -605,7 +848,7 @@ export class GLMClient {
     maxTokens?: number;
     responseFormat?: { type: string };
   }): Promise<{ content: string }> {
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+    const response = await rateLimitedFetch(`${this.baseUrl}/chat/completions`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
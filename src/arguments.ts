@@ -0,0 +1,64 @@
+/**
+ * Argument Mapping
+ *
+ * Long-form critiques rarely reduce to a single claim. Critic essays from
+ * substack, blogs and LessWrong are mapped into their argument structure
+ * (thesis, premises, evidence, concessions, weaknesses, steelman) and stored
+ * alongside the claims extracted from the same content, so synthesis and the
+ * digest can engage with the actual premises rather than one-line summaries.
+ */
+
+import type { FilteredContent } from './types';
+import type { ArgumentMap } from './storage';
+
+/**
+ * Source types that carry long-form argument, and the minimum length for an
+ * item to count as long-form (short notes and link posts aren't worth mapping).
+ */
+export const ARGUMENT_SOURCE_TYPES = ['substack', 'blog', 'lesswrong'];
+export const ARGUMENT_MIN_LENGTH = 2000;
+
+export function isLongFormCritique(item: FilteredContent): boolean {
+  const text = item.content || (item as any).content_text || '';
+  return item.authorCategory === 'critic' &&
+    ARGUMENT_SOURCE_TYPES.includes(item.sourceType) &&
+    text.length >= ARGUMENT_MIN_LENGTH;
+}
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(v => (typeof v === 'string' ? v.trim() : ''))
+    .filter(v => v.length > 0);
+}
+
+/**
+ * Normalize the argument-mapping output for one item. Returns null when the
+ * model found no thesis, since an argument map without one isn't useful.
+ */
+export function argumentMapFromResult(
+  result: any,
+  context: {
+    contentId: number;
+    author: string;
+    topic: string;
+    claimIds: string[];
+  }
+): ArgumentMap | null {
+  const mainThesis = typeof result?.mainThesis === 'string' ? result.mainThesis.trim() : '';
+  if (!mainThesis) return null;
+
+  return {
+    contentId: context.contentId,
+    author: context.author,
+    topic: context.topic,
+    mainThesis,
+    premises: stringList(result.premises),
+    evidence: stringList(result.evidence),
+    targetClaims: stringList(result.targetClaims),
+    concessions: stringList(result.concessions),
+    weaknesses: stringList(result.weaknesses),
+    steelmanResponse: typeof result.steelmanResponse === 'string' ? result.steelmanResponse : undefined,
+    claimIds: context.claimIds,
+  };
+}
@@ -3,20 +3,42 @@
  * AI Intelligence CLI
  * 
  * Commands:
- *   fetch [source]     - Fetch content from sources
+ *   fetch [source]     - Fetch content from sources (--backfill for history)
+ *   adapters           - List registered source adapters and their health
  *   process            - Process pending content through extraction pipeline
  *   synthesize         - Run synthesis and generate digest
+ *   clusters           - Group near-duplicate claims into clusters
  *   query <topic>      - Query claims by topic
+ *   hints              - Research-hint track record and release matching
+ *   papers             - Peer-review and citation reception of arXiv papers
+ *   health             - Failing and quarantined sources
  *   status             - Show system status
  *   init               - Initialize database
  */
 
 import { Command } from 'commander';
 import { AIIntelOrchestrator } from './index';
-import { initializeDatabase, SourceStore, ContentStore, ClaimStore, SynthesisStore, PredictionTracker } from './storage';
+import {
+  initializeDatabase,
+  SourceStore,
+  ContentStore,
+  ClaimStore,
+  SynthesisStore,
+  PredictionTracker,
+  PredictionResolutionQueue,
+  HintStore,
+  ClusterStore,
+  PaperStore,
+  BackfillStore
+} from './storage';
 import { getEmbeddingDimension } from './embeddings';
-import { AIIntelFetcher } from './fetcher';
-import type { SynthesisOptions, ClaimQuery, Topic } from './types';
+import { AIIntelFetcher, summarizeFetch } from './fetcher';
+import { checkAdapterHealth, listAdapters, loadExternalAdapters } from './adapters';
+import { LAB_CATEGORIES, summarizeReception } from './papers';
+import { healthStatus, raiseAlert } from './health';
+import { rateLimiter } from './ratelimit';
+import type { ValidationStats } from './schemas';
+import type { SynthesisOptions, ClaimQuery, Source, Topic } from './types';
 
 // ============================================================================
 // CLI SETUP
@@ -35,9 +57,85 @@ const config = {
   dbUrl: process.env.DATABASE_URL || 'postgresql://localhost/ai_intel',
   embeddingProvider: (process.env.EMBEDDING_PROVIDER || 'ollama') as 'ollama' | 'openai' | 'voyage',
   useSkills: process.env.USE_SKILLS !== 'false',
-  glmFallback: process.env.GLM_FALLBACK === 'true'
+  glmFallback: process.env.GLM_FALLBACK === 'true',
+  detectHints: process.env.DETECT_HINTS === 'true',
+  dropUnverifiedQuotes: process.env.DROP_UNVERIFIED_QUOTES === 'true'
 };
 
+/**
+ * Print model outputs that failed schema validation during a run, if any
+ */
+function printValidation(stats: ValidationStats): void {
+  const invalid = Object.entries(stats).filter(([, counts]) => counts.invalid > 0);
+  if (invalid.length === 0) return;
+
+  console.log('\n⚠️  Invalid model outputs:');
+  for (const [stage, counts] of invalid) {
+    console.log(`  ${stage}: ${counts.invalid} invalid, ${counts.repaired} repaired, ${counts.failed} dropped`);
+  }
+}
+
+/**
+ * Print providers that pushed back during a run (429s, server errors), with
+ * how long requests waited on them
+ */
+function printRateLimits(): void {
+  const strained = Object.entries(rateLimiter.getMetrics())
+    .filter(([, m]) => m.rateLimited > 0 || m.serverErrors > 0);
+  if (strained.length === 0) return;
+
+  console.log('\n🚦 Provider pushback:');
+  for (const [host, m] of strained) {
+    console.log(`  ${host}: ${m.requests} requests, ${m.rateLimited} rate-limited, ${m.serverErrors} server errors, ${m.retries} retries, ${Math.round(m.waitMs / 1000)}s waiting`);
+  }
+}
+
+/**
+ * fetch --backfill: queue backfills to --since (if given), then advance the
+ * selected sources' pending backfills. Whatever's left resumes on the next
+ * run or the scheduler's backfill job.
+ */
+async function runBackfill(
+  fetcher: AIIntelFetcher,
+  sources: Source[],
+  options: { since?: string; pages?: string }
+): Promise<void> {
+  if (options.since) {
+    const since = new Date(options.since);
+    if (isNaN(since.getTime())) {
+      console.error(`Invalid --since date: ${options.since}`);
+      process.exit(1);
+    }
+
+    const { queued, unsupported } = await fetcher.queueBackfills(sources, since);
+    console.log(`Backfilling ${queued.length} sources to ${since.toISOString().slice(0, 10)}`);
+    if (unsupported.length > 0) {
+      const types = [...new Set(unsupported.map(s => s.type))];
+      console.log(`  Skipped ${unsupported.length} sources whose adapters can't backfill (${types.join(', ')})`);
+    }
+  }
+
+  const results = await fetcher.runBackfills(sources, {
+    pagesPerRun: options.pages ? parseInt(options.pages) : undefined
+  });
+
+  console.log('\n📚 Backfill Results:');
+  for (const result of results.successful) {
+    console.log(`  ${result.done ? '✓' : '…'} ${result.source}: ${result.pages} pages, ${result.new} new items${result.done ? '' : ' (continues next run)'}`);
+  }
+  if (results.successful.length === 0 && results.failed.length === 0) {
+    console.log('  No pending backfills for these sources');
+  }
+
+  if (results.failed.length > 0) {
+    console.log('\n❌ Failures (will resume from the last page read):');
+    results.failed.forEach(f => {
+      console.log(`  - ${f.source}: ${f.error}`);
+    });
+  }
+  printRateLimits();
+}
+
 // ============================================================================
 // COMMANDS
 // ============================================================================
@@ -65,12 +163,40 @@ program
     console.log('✓ Sources seeded');
   });
 
+program
+  .command('adapters')
+  .description('List registered source adapters and check their health')
+  .option('--sync', 'Record the adapters in the database for the web admin')
+  .action(async (options) => {
+    const adapters = listAdapters();
+
+    console.log(`\n🔌 ${adapters.length} source adapters:\n`);
+    for (const adapter of adapters) {
+      const health = await checkAdapterHealth(adapter);
+      console.log(`${health.ok ? '✓' : '✗'} ${adapter.type} (${adapter.displayName})`);
+      console.log(`   ${adapter.description}`);
+      const pause = adapter.rateLimit.minIntervalMs > 0 ? ` · ${adapter.rateLimit.minIntervalMs}ms between sources` : '';
+      console.log(`   Identifier: ${adapter.identifierLabel} · every ${adapter.defaultFetchFrequencyHours}h${pause}`);
+      if (health.message) console.log(`   ${health.message}`);
+    }
+
+    if (options.sync) {
+      await new SourceStore(config.dbUrl).syncAdapters(adapters);
+      console.log('\n✓ Adapters synced');
+    }
+  });
+
 program
   .command('fetch')
   .description('Fetch content from sources')
   .option('-s, --source <type>', 'Specific source type to fetch')
   .option('-a, --all', 'Fetch from all sources')
   .option('--due', 'Only fetch sources due for update')
+  .option('-i, --identifier <identifier>', 'Only the source with this identifier')
+  .option('--backfill', 'Page back through the sources\' history instead of fetching their current feeds')
+  .option('--since <date>', 'With --backfill: how far back to go (resumes pending backfills if omitted)')
+  .option('--pages <number>', 'With --backfill: most pages to read per source this run')
+  .option('--force', 'Also fetch quarantined sources and failing ones still backing off')
   .action(async (options) => {
     const fetcher = new AIIntelFetcher(config);
     const sourceStore = new SourceStore(config.dbUrl);
@@ -86,12 +212,28 @@ program
       sources = await sourceStore.getActive();
       console.log(`Fetching all ${sources.length} active sources`);
     }
+    if (options.identifier) {
+      sources = sources.filter(s => s.identifier === options.identifier);
+    }
+
+    if (options.backfill) {
+      await runBackfill(fetcher, sources, options);
+      return;
+    }
     
-    const results = await fetcher.fetchSources(sources);
+    const results = await fetcher.fetchSources(sources, { force: options.force });
+    const totals = summarizeFetch(results.successful);
     
     console.log('\n📊 Fetch Results:');
-    console.log(`  ✓ Fetched: ${results.successful.length}`);
+    console.log(`  ✓ Fetched: ${results.successful.length} (${totals.notModified} not modified)`);
     console.log(`  ✗ Failed: ${results.failed.length}`);
+    if (results.skipped.length > 0) {
+      console.log(`  ⏸  Skipped: ${results.skipped.length} unhealthy (see \`health\`, or fetch with --force)`);
+    }
+    console.log(`  📄 Items: ${totals.new} new, ${totals.updated} updated, ${totals.unchanged} unchanged`);
+    if (totals.duplicates > 0) {
+      console.log(`  🔗 ${totals.duplicates} new items duplicate content from other sources (see \`duplicates\`)`);
+    }
     
     if (results.failed.length > 0) {
       console.log('\n❌ Failures:');
@@ -99,6 +241,7 @@ program
         console.log(`  - ${f.source}: ${f.error}`);
       });
     }
+    printRateLimits();
   });
 
 program
@@ -106,15 +249,20 @@ program
   .description('Process pending content through extraction pipeline')
   .option('-d, --days <number>', 'Process content from last N days', '1')
   .option('-l, --limit <number>', 'Limit number of items to process', '100')
+  .option('--backfill', 'Process backfilled content of any age instead')
   .action(async (options) => {
     const orchestrator = new AIIntelOrchestrator(config);
     const contentStore = new ContentStore(config.dbUrl);
     
-    console.log(`Processing unprocessed content from last ${options.days} days...`);
+    console.log(options.backfill
+      ? 'Processing unprocessed backfilled content...'
+      : `Processing unprocessed content from last ${options.days} days...`);
 
     // Get unprocessed content (not already processed)
     const limit = parseInt(options.limit);
-    const content = await contentStore.getUnprocessed(parseInt(options.days), limit);
+    const content = options.backfill
+      ? await contentStore.getUnprocessedBackfill(limit)
+      : await contentStore.getUnprocessed(parseInt(options.days), limit);
 
     console.log(`Found ${content.length} unprocessed items to process`);
 
@@ -132,6 +280,64 @@ program
     console.log(`  ✓ Relevant: ${result.relevant}`);
     console.log(`  📝 Claims extracted: ${result.claimsExtracted}`);
     console.log(`  ⏱  Time: ${(elapsed / 1000).toFixed(1)}s`);
+    printValidation(result.validation);
+  });
+
+program
+  .command('clusters')
+  .description('Show recurring claims, grouped into clusters of near-duplicates')
+  .option('-d, --days <number>', 'Lookback days', '7')
+  .option('-t, --topic <topic>', 'Only this topic')
+  .option('--backfill', 'Cluster claims that have not been assigned yet')
+  .option('-l, --limit <number>', 'Max claims to cluster with --backfill', '500')
+  .action(async (options) => {
+    if (options.backfill) {
+      const orchestrator = new AIIntelOrchestrator(config);
+      const result = await orchestrator.clusterClaims({ limit: parseInt(options.limit) });
+      console.log(`✓ Clustered ${result.clustered} claims (${result.created} new clusters)`);
+      return;
+    }
+
+    const clusterStore = new ClusterStore(config.dbUrl);
+    const clusters = await clusterStore.getRecent(parseInt(options.days), options.topic);
+
+    console.log(`\n🧩 ${clusters.length} distinct claims in the last ${options.days} days:\n`);
+    clusters.slice(0, 20).forEach((c, i) => {
+      console.log(`${i + 1}. [${c.topic}] ${c.memberCount}× by ${c.authorCount} author${c.authorCount === 1 ? '' : 's'}`);
+      console.log(`   "${c.canonicalText.slice(0, 100)}${c.canonicalText.length > 100 ? '...' : ''}"`);
+      console.log(`   First seen: ${new Date(c.firstSeen).toISOString().split('T')[0]}`);
+      console.log();
+    });
+  });
+
+program
+  .command('duplicates')
+  .description('Show content shared most across sources, and who shared it')
+  .option('-d, --days <number>', 'Lookback days', '7')
+  .option('--backfill', 'Fingerprint stored content and link its duplicates')
+  .option('-l, --limit <number>', 'Max items to fingerprint with --backfill', '500')
+  .action(async (options) => {
+    if (options.backfill) {
+      const fetcher = new AIIntelFetcher({ dbUrl: config.dbUrl });
+      const result = await fetcher.fingerprintStored({ limit: parseInt(options.limit) });
+      console.log(`✓ Fingerprinted ${result.fingerprinted} items (${result.duplicates} duplicates)`);
+      return;
+    }
+
+    const contentStore = new ContentStore(config.dbUrl);
+    const amplified = await contentStore.getAmplified(parseInt(options.days));
+
+    console.log(`\n🔁 Most shared content in the last ${options.days} days:\n`);
+    if (amplified.length === 0) {
+      console.log('  (no cross-source duplicates)');
+      return;
+    }
+    amplified.forEach((item, i) => {
+      console.log(`${i + 1}. ${item.title || item.url || `content #${item.id}`} (${item.source})`);
+      console.log(`   ${item.shares} share${item.shares === 1 ? '' : 's'} by ${item.shared_by.join(', ')}`);
+      if (item.url) console.log(`   ${item.url}`);
+      console.log();
+    });
   });
 
 program
@@ -159,6 +365,7 @@ program
     console.log('\n📊 Synthesis Results:');
     console.log(`  📈 Topics analyzed: ${result.syntheses.length}`);
     console.log(`  ⏱  Time: ${(elapsed / 1000).toFixed(1)}s`);
+    printValidation(result.validation);
     
     // Show hype assessment summary
     console.log('\n🔥 Hype Assessment:');
@@ -248,9 +455,12 @@ program
     const claimStore = new ClaimStore(config.dbUrl);
     const synthesisStore = new SynthesisStore(config.dbUrl);
     const predictionTracker = new PredictionTracker(config.dbUrl);
+    const backfillStore = new BackfillStore(config.dbUrl);
     
     const sources = await sourceStore.getActive();
     const dueForFetch = await sourceStore.getDueForFetch();
+    const pendingBackfills = await backfillStore.getPending();
+    const unhealthy = await sourceStore.getUnhealthy();
     const recentContent = await contentStore.getRecent(7);
     const recentClaims = await claimStore.getRecent(7);
     const latestSynthesis = await synthesisStore.getLatest();
@@ -261,6 +471,14 @@ program
     console.log('📡 Sources:');
     console.log(`  Active: ${sources.length}`);
     console.log(`  Due for fetch: ${dueForFetch.length}`);
+    if (unhealthy.length > 0) {
+      const quarantined = unhealthy.filter(s => s.quarantinedAt).length;
+      console.log(`  Unhealthy: ${unhealthy.length} (${quarantined} quarantined)`);
+    }
+    if (pendingBackfills.length > 0) {
+      const failed = pendingBackfills.filter(b => b.status === 'failed').length;
+      console.log(`  Backfilling: ${pendingBackfills.length}${failed > 0 ? ` (${failed} failed, will retry)` : ''}`);
+    }
     
     // Group by type
     const byType = sources.reduce((acc, s) => {
@@ -309,6 +527,45 @@ program
   });
 
 program
+  .command('health')
+  .description('Show failing and quarantined sources')
+  .option('--release <id>', 'Take a source out of quarantine')
+  .action(async (options) => {
+    const sourceStore = new SourceStore(config.dbUrl);
+
+    if (options.release) {
+      const source = await sourceStore.releaseQuarantine(parseInt(options.release));
+      if (!source) {
+        console.log(`Source ${options.release} isn't quarantined`);
+        return;
+      }
+      await raiseAlert(sourceStore, {
+        sourceId: source.id!, source: source.identifier, sourceType: source.type,
+        kind: 'released', message: 'quarantine cleared from the CLI'
+      });
+      console.log(`✓ Released ${source.type} source ${source.identifier}`);
+      return;
+    }
+
+    const unhealthy = await sourceStore.getUnhealthy();
+    if (unhealthy.length === 0) {
+      console.log('\n✓ All active sources are healthy');
+      return;
+    }
+
+    console.log(`\n🩺 ${unhealthy.length} unhealthy sources:\n`);
+    for (const source of unhealthy) {
+      const status = healthStatus(source);
+      console.log(`${status === 'quarantined' ? '⛔' : '⚠️ '} [${source.sourceId}] ${source.type} ${source.identifier}: ${status}, ${source.consecutiveFailures} failures in a row`);
+      if (source.lastError) console.log(`   Last error: ${source.lastError}`);
+      console.log(`   Last success: ${source.lastSuccessAt ? new Date(source.lastSuccessAt).toISOString() : 'never'}`);
+      if (status === 'failing' && source.nextFetchAt) {
+        console.log(`   Next attempt: ${new Date(source.nextFetchAt).toISOString()}`);
+      }
+    }
+  });
+
+const predictionsCommand = program
   .command('predictions')
   .description('Manage prediction tracking')
   .option('-l, --list', 'List pending predictions')
@@ -372,6 +629,226 @@ program
     });
   });
 
+predictionsCommand
+  .command('resolve')
+  .description('Propose resolutions for predictions past their target date')
+  .option('-l, --limit <number>', 'Max predictions to assess', '20')
+  .action(async (options) => {
+    const orchestrator = new AIIntelOrchestrator(config);
+
+    console.log('Assessing due predictions against later evidence...');
+    const result = await orchestrator.resolvePredictions({ limit: parseInt(options.limit) });
+
+    console.log('\n🔮 Resolution Results:');
+    console.log(`  📋 Assessed: ${result.evaluated}`);
+    console.log(`  📝 Proposed for review: ${result.proposed}`);
+    printValidation(result.validation);
+    if (result.proposed > 0) {
+      console.log('\nReview proposals with: ai-intel predictions review');
+    }
+  });
+
+predictionsCommand
+  .command('calibration')
+  .description('Show calibration (Brier score, log loss, reliability) of resolved predictions')
+  .option('-g, --group-by <field>', 'Group by author, category or topic', 'author')
+  .option('-a, --author <name>', 'Only this author')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    const groupBy = ({ author: 'author', category: 'authorCategory', topic: 'topic' } as const)[
+      options.groupBy as 'author' | 'category' | 'topic'
+    ];
+    if (!groupBy) {
+      console.error(`Unknown grouping: ${options.groupBy} (expected author, category or topic)`);
+      process.exit(1);
+    }
+
+    const tracker = new PredictionTracker(config.dbUrl);
+    const reports = await tracker.getCalibration(groupBy, options.author);
+
+    if (options.json) {
+      console.log(JSON.stringify(reports, null, 2));
+      return;
+    }
+
+    if (reports.length === 0) {
+      console.log('No resolved predictions yet.');
+      return;
+    }
+
+    console.log(`\n🎯 Calibration by ${options.groupBy}:\n`);
+    reports.forEach(r => {
+      const bias = r.overconfidence * 100;
+      const biasLabel = bias > 0 ? `overconfident by ${bias.toFixed(0)} pts` : `underconfident by ${Math.abs(bias).toFixed(0)} pts`;
+      console.log(`${r.group} (${r.count} resolved)`);
+      console.log(`   Brier: ${r.brierScore.toFixed(3)} | Log loss: ${r.logLoss.toFixed(3)} | ${biasLabel}`);
+      console.log(`   Stated confidence ${(r.meanConfidence * 100).toFixed(0)}% vs. observed ${(r.observedRate * 100).toFixed(0)}%`);
+      r.buckets.forEach(b => {
+        console.log(`     ${(b.lower * 100).toFixed(0).padStart(3)}-${(b.upper * 100).toFixed(0)}%: ${(b.observedRate * 100).toFixed(0)}% came true (n=${b.count})`);
+      });
+      console.log();
+    });
+  });
+
+predictionsCommand
+  .command('review')
+  .description('Review proposed prediction resolutions')
+  .option('--accept <id>', 'Accept a proposal and apply it to its prediction')
+  .option('--reject <id>', 'Reject a proposal')
+  .action(async (options) => {
+    const queue = new PredictionResolutionQueue(config.dbUrl);
+
+    if (options.accept) {
+      const tracker = new PredictionTracker(config.dbUrl);
+      const applied = await queue.accept(parseInt(options.accept), tracker);
+      console.log(applied
+        ? `✓ Accepted proposal ${options.accept}`
+        : `Proposal ${options.accept} not found or already reviewed`);
+      return;
+    }
+
+    if (options.reject) {
+      const rejected = await queue.reject(parseInt(options.reject));
+      console.log(rejected
+        ? `✗ Rejected proposal ${options.reject}`
+        : `Proposal ${options.reject} not found or already reviewed`);
+      return;
+    }
+
+    const pending = await queue.getPending();
+    console.log(`\n📝 ${pending.length} proposals awaiting review:\n`);
+
+    pending.forEach(r => {
+      const score = r.accuracyScore != null ? ` (accuracy ${(r.accuracyScore * 100).toFixed(0)}%)` : '';
+      console.log(`#${r.id} → ${r.proposedStatus}${score} | ${r.author}`);
+      console.log(`   "${r.predictionText.slice(0, 80)}${r.predictionText.length > 80 ? '...' : ''}"`);
+      if (r.evidenceSummary) {
+        console.log(`   Evidence: ${r.evidenceSummary.slice(0, 160)}${r.evidenceSummary.length > 160 ? '...' : ''}`);
+      }
+      console.log();
+    });
+  });
+
+const hintsCommand = program
+  .command('hints')
+  .description('Research hints and how often they paid off')
+  .option('-a, --author <name>', 'List hints by this author')
+  .action(async (options) => {
+    const hintStore = new HintStore(config.dbUrl);
+
+    if (options.author) {
+      const hints = await hintStore.getByAuthor(options.author);
+      console.log(`\n💡 Hints by ${options.author}:\n`);
+
+      hints.forEach((h, i) => {
+        const status = h.status === 'paid-off' ? '✓ paid off' : '⏳ open';
+        console.log(`${i + 1}. ${status} [${h.domain}] ${h.impliedCapability}`);
+        console.log(`   "${h.hintText.slice(0, 80)}${h.hintText.length > 80 ? '...' : ''}"`);
+        console.log(`   Made: ${new Date(h.madeAt).toISOString().split('T')[0]} | Confidence: ${(h.confidence * 100).toFixed(0)}%`);
+        console.log();
+      });
+      return;
+    }
+
+    const record = await hintStore.getTrackRecord();
+    if (record.length === 0) {
+      console.log('No hints recorded yet. Enable detection with DETECT_HINTS=true.');
+      return;
+    }
+
+    console.log('\n💡 Hint Track Record:\n');
+    record.forEach(r => {
+      console.log(`${r.author}: ${r.paidOff}/${r.total} paid off (${(r.payoffRate * 100).toFixed(0)}%)`);
+    });
+  });
+
+hintsCommand
+  .command('match')
+  .description('Match open hints against later arXiv papers and blog posts')
+  .option('-l, --limit <number>', 'Max hints to check', '50')
+  .action(async (options) => {
+    const orchestrator = new AIIntelOrchestrator(config);
+
+    console.log('Matching open hints against later releases...');
+    const result = await orchestrator.matchHints({ limit: parseInt(options.limit) });
+
+    console.log('\n💡 Matching Results:');
+    console.log(`  🔍 Checked: ${result.checked}`);
+    console.log(`  ✓ Paid off: ${result.paidOff}`);
+  });
+
+const papersCommand = program
+  .command('papers')
+  .description('Peer-review and citation reception of recent arXiv papers')
+  .option('-d, --days <number>', 'Papers with claims from the last N days', '30')
+  .option('-p, --paper <contentId>', 'Show the snapshot history of one paper')
+  .action(async (options) => {
+    const paperStore = new PaperStore(config.dbUrl);
+
+    if (options.paper) {
+      const history = await paperStore.getHistory(parseInt(options.paper));
+      if (history.length === 0) {
+        console.log(`No snapshots for content ${options.paper}. Run: papers enrich`);
+        return;
+      }
+
+      console.log(`\n📄 Reception history of content ${options.paper}:\n`);
+      history.forEach(s => {
+        const date = new Date(s.capturedAt).toISOString().split('T')[0];
+        if (!s.found) {
+          console.log(`${date} ${s.source}: not found`);
+          return;
+        }
+        const parts = [
+          s.venue,
+          s.citationCount != null ? `${s.citationCount} citations` : null,
+          s.reviewScores?.length ? `reviews ${s.reviewScores.join(', ')}` : null,
+          s.decision
+        ].filter(Boolean);
+        console.log(`${date} ${s.source}: ${parts.join(' | ') || 'no reception yet'}`);
+      });
+      return;
+    }
+
+    const reception = summarizeReception(
+      await paperStore.getReception(parseInt(options.days), LAB_CATEGORIES)
+    );
+    if (reception.topics.length === 0) {
+      console.log('No arXiv papers with recent claims.');
+      return;
+    }
+
+    const overall = reception.overallMedianReviewScore;
+    console.log(`\n📄 Paper Reception (median review score ${overall != null ? overall.toFixed(1) : 'n/a'}):\n`);
+    reception.topics.forEach(t => {
+      console.log(`${t.topic}: ${t.papers} papers, ${t.reviewedPapers} reviewed`);
+      if (t.medianReviewScore != null) {
+        console.log(`   Median review score: ${t.medianReviewScore.toFixed(1)} | Accepted: ${t.accepted} | Rejected: ${t.rejected}`);
+      }
+      if (t.labPromotedPapers > 0) {
+        console.log(`   Lab-promoted: ${t.labPromotedPapers} (${t.labPromotedBelowMedian}/${t.labPromotedReviewed} reviewed below median)`);
+      }
+      if (t.medianCitations != null) {
+        console.log(`   Median citations: ${t.medianCitations}`);
+      }
+    });
+  });
+
+papersCommand
+  .command('enrich')
+  .description('Look up due arXiv papers in Semantic Scholar and OpenReview')
+  .option('-l, --limit <number>', 'Max papers to look up', '50')
+  .action(async (options) => {
+    const orchestrator = new AIIntelOrchestrator(config);
+
+    console.log('Looking up paper reception...');
+    const result = await orchestrator.enrichPapers({ limit: parseInt(options.limit) });
+
+    console.log('\n📄 Enrichment Results:');
+    console.log(`  🔍 Checked: ${result.checked}`);
+    console.log(`  ✓ Records found: ${result.found}`);
+  });
+
 program
   .command('digest')
   .description('Generate or retrieve digest')
@@ -418,4 +895,9 @@ program
 // RUN
 // ============================================================================
 
-program.parse();
+loadExternalAdapters()
+  .then(() => program.parseAsync())
+  .catch(err => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
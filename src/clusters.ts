@@ -0,0 +1,62 @@
+/**
+ * Claim Clustering
+ *
+ * The same idea ("scaling is hitting a wall") is extracted dozens of times a
+ * week from different authors. Claims are grouped incrementally into clusters
+ * of near-duplicates by embedding similarity to each cluster's centroid, so
+ * synthesis, the digest and the claims browser can count distinct ideas
+ * rather than repetitions.
+ */
+
+/**
+ * Minimum cosine similarity between a claim and a cluster centroid for the
+ * claim to join the cluster. Deliberately high: clusters are for restatements
+ * of the same claim, not claims on the same subject.
+ */
+export const CLUSTER_SIMILARITY = 0.88;
+
+/**
+ * Running mean of the cluster's member embeddings after adding one more.
+ */
+export function updateCentroid(centroid: number[], memberCount: number, embedding: number[]): number[] {
+  return centroid.map((value, i) => (value * memberCount + embedding[i]) / (memberCount + 1));
+}
+
+/**
+ * Parse a pgvector value as returned by the driver ("[0.1,0.2,...]").
+ */
+export function parseVector(value: string | number[]): number[] {
+  return Array.isArray(value) ? value : JSON.parse(value);
+}
+
+/**
+ * Collapse claims to one representative per cluster for synthesis. The
+ * representative is the most quoteworthy member in the window; clusterSize
+ * and authorCount describe how often the idea recurred in that window.
+ * Unclustered claims pass through as clusters of one.
+ */
+export function collapseClusters<T extends {
+  id?: string;
+  author?: string;
+  quoteworthiness?: number;
+  cluster_id?: number | null;
+}>(claims: T[]): (T & { clusterSize: number; authorCount: number })[] {
+  const groups = new Map<string, T[]>();
+  for (const claim of claims) {
+    const key = claim.cluster_id != null ? `cluster_${claim.cluster_id}` : `claim_${claim.id}`;
+    groups.set(key, [...(groups.get(key) ?? []), claim]);
+  }
+
+  return Array.from(groups.values())
+    .map(members => {
+      const representative = members.reduce((best, c) =>
+        (c.quoteworthiness ?? 0) > (best.quoteworthiness ?? 0) ? c : best
+      );
+      return {
+        ...representative,
+        clusterSize: members.length,
+        authorCount: new Set(members.map(c => c.author || 'unknown')).size,
+      };
+    })
+    .sort((a, b) => b.clusterSize - a.clusterSize);
+}
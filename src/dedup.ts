@@ -0,0 +1,200 @@
+/**
+ * Cross-Source Deduplication
+ *
+ * The same post often arrives several times: from its own feed, a tweet or
+ * Bluesky post linking to it, an HN or Reddit submission, a cross-post of its
+ * text. Each fetched item is fingerprinted by
+ *
+ *   - its canonical URL (tracking parameters stripped, www. and the arXiv
+ *     version dropped),
+ *   - the URL it shares, for link posts and short posts around one link
+ *     (shortened links like t.co resolved first), and
+ *   - a SimHash of its text,
+ *
+ * and a new item matching content already stored from another source is
+ * linked to it as a duplicate. The canonical item is extracted once; its
+ * duplicates record who shared it (amplification) and aren't processed.
+ */
+
+import { createHash } from 'crypto';
+import type { RawContent } from './types';
+import { rateLimitedFetch } from './ratelimit';
+
+export const DEDUP_CONFIG = {
+  /** Posts with fewer words (links aside) are shares of the link they carry */
+  shortPostWords: 40,
+  /** Texts with fewer words aren't fingerprinted; their SimHash says little */
+  minSimhashWords: 50,
+  /** SimHashes at most this many bits apart are the same text */
+  maxSimhashDistance: 3,
+  /** Only content published this close together is compared by text */
+  simhashWindowDays: 14,
+};
+
+export type DuplicateReason = 'url' | 'link' | 'text';
+
+// ============================================================================
+// URLS
+// ============================================================================
+
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'msclkid', 'igshid', 'mc_cid', 'mc_eid',
+  'ref', 'ref_src', 'ref_url', '_hsenc', '_hsmi',
+  // Substack share and redirect parameters
+  'r', 'triedRedirect', 'isFreemail', 'publication_id', 'post_id', 'showWelcome',
+]);
+
+const SHORTENER_HOSTS = new Set([
+  't.co', 'bit.ly', 'buff.ly', 'ow.ly', 'tinyurl.com', 'lnkd.in', 'dlvr.it', 'trib.al', 'goo.gl',
+]);
+
+/**
+ * The form of a URL that duplicates agree on: https, no www./m. prefix,
+ * no fragment, tracking parameters stripped and the rest sorted, no trailing
+ * slash, and arXiv abstract and PDF links without their version. Returns
+ * null for strings that aren't http(s) URLs.
+ */
+export function normalizeUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return null;
+
+  const host = parsed.hostname.toLowerCase().replace(/^(www|m|mobile)\./, '');
+  let path = parsed.pathname.replace(/\/+$/, '');
+  if (host === 'arxiv.org') {
+    path = path.replace(/^\/(abs|pdf)\/([^/]+?)(v\d+)?(\.pdf)?$/, '/abs/$2');
+  }
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([key]) => !key.startsWith('utm_') && !TRACKING_PARAMS.has(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params)}` : '';
+
+  return `https://${host}${path}${query}`;
+}
+
+// Resolved short links, kept for the life of the process
+const unshortened = new Map<string, string>();
+const MAX_UNSHORTENED = 5000;
+const MAX_REDIRECTS = 5;
+
+/**
+ * Follow a shortened link's redirects (HEAD requests, no body) to where it
+ * points. Links on other hosts, and short links that fail to resolve, are
+ * returned as they are.
+ */
+export async function unshortenUrl(url: string): Promise<string> {
+  const cached = unshortened.get(url);
+  if (cached) return cached;
+
+  let current = url;
+  try {
+    for (let hop = 0; hop < MAX_REDIRECTS; hop++) {
+      const host = new URL(current).hostname.toLowerCase();
+      if (!SHORTENER_HOSTS.has(host)) break;
+
+      const response = await rateLimitedFetch(current, { method: 'HEAD', redirect: 'manual' });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+      current = new URL(location, current).href;
+    }
+  } catch (e) {
+    console.warn(`Could not resolve ${url}: ${e}`);
+    return url;
+  }
+
+  if (unshortened.size >= MAX_UNSHORTENED) unshortened.clear();
+  unshortened.set(url, current);
+  return current;
+}
+
+// ============================================================================
+// TEXT FINGERPRINTS
+// ============================================================================
+
+const URL_PATTERN = /https?:\/\/[^\s<>"')\]]+/g;
+
+function words(text: string): string[] {
+  return text
+    .replace(URL_PATTERN, ' ')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * 64-bit SimHash of a text's words, as a signed bigint (Postgres BIGINT).
+ * Copies that differ in a few words, or a line of boilerplate, hash a bit
+ * or two apart; word pairs or trigrams would spread every edit over several
+ * features and push lightly edited copies past maxSimhashDistance. Returns
+ * null for texts shorter than minSimhashWords.
+ */
+export function simhash(text: string): bigint | null {
+  const tokens = words(text);
+  if (tokens.length < DEDUP_CONFIG.minSimhashWords) return null;
+
+  const weights = new Array<number>(64).fill(0);
+  for (const token of tokens) {
+    const digest = createHash('md5').update(token).digest();
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (digest[bit >> 3] >> (bit & 7)) & 1 ? 1 : -1;
+    }
+  }
+
+  let hash = 0n;
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) hash |= 1n << BigInt(bit);
+  }
+  return BigInt.asIntN(64, hash);
+}
+
+export function hammingDistance(a: bigint, b: bigint): number {
+  let diff = BigInt.asUintN(64, a ^ b);
+  let count = 0;
+  while (diff) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
+
+// ============================================================================
+// SHARED LINKS
+// ============================================================================
+
+/**
+ * The link an item shares, if it's a link post: one the adapter marked
+ * (linksTo), or the first link of a short post (a tweet or Bluesky post
+ * around a link). Longer items that happen to cite links share nothing.
+ */
+export function sharedLink(item: RawContent): string | undefined {
+  if (item.linksTo) return item.linksTo;
+  if (words(item.content).length >= DEDUP_CONFIG.shortPostWords) return undefined;
+
+  const candidates = [
+    ...((item.metadata?.links as string[] | undefined) ?? []),
+    ...(item.content.match(URL_PATTERN) ?? []),
+  ];
+  const own = item.url ? normalizeUrl(item.url) : null;
+  return candidates.find(link => normalizeUrl(link) !== own);
+}
+
+/** An item's dedup fingerprint, as stored on its content row */
+export interface ContentFingerprint {
+  canonicalUrl: string | null;
+  sharedUrl: string | null;
+  simhash: bigint | null;
+}
+
+export async function fingerprint(item: RawContent): Promise<ContentFingerprint> {
+  const shared = sharedLink(item);
+  return {
+    canonicalUrl: item.url ? normalizeUrl(item.url) : null,
+    sharedUrl: shared ? normalizeUrl(await unshortenUrl(shared)) : null,
+    simhash: simhash(item.content),
+  };
+}
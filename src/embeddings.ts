@@ -5,8 +5,12 @@
  * - Ollama (local, free) - for development or cost optimization
  * - OpenAI (ada-002 or text-embedding-3-small)
  * - Voyage AI (specialized for retrieval)
+ *
+ * Requests go through the shared rate limiter, keyed by the provider's host.
  */
 
+import { rateLimitedFetch } from './ratelimit';
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -115,6 +119,8 @@ class OllamaEmbeddings implements EmbeddingProvider {
     if (this.model.includes('all-minilm')) this.dimension = 384;
   }
   
+  // Ollama runs alongside the pipeline, so it isn't rate limited; embedBatch's
+  // concurrency is the only bound
   async embed(text: string): Promise<number[]> {
     const response = await fetch(`${this.baseUrl}/api/embeddings`, {
       method: 'POST',
@@ -169,7 +175,7 @@ class OpenAIEmbeddings implements EmbeddingProvider {
   }
   
   async embedBatch(texts: string[]): Promise<number[][]> {
-    const response = await fetch('https://api.openai.com/v1/embeddings', {
+    const response = await rateLimitedFetch('https://api.openai.com/v1/embeddings', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -213,7 +219,7 @@ class VoyageEmbeddings implements EmbeddingProvider {
   }
   
   async embedBatch(texts: string[]): Promise<number[][]> {
-    const response = await fetch('https://api.voyageai.com/v1/embeddings', {
+    const response = await rateLimitedFetch('https://api.voyageai.com/v1/embeddings', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
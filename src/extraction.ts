@@ -0,0 +1,113 @@
+/**
+ * Chunked Extraction
+ *
+ * Long items (essays, transcripts) are split into chunks with chunkText() and
+ * claims are extracted per chunk, so a 6,000-word post is read in full rather
+ * than judged by its opening paragraph. Claims from overlapping chunks are
+ * merged per content item, and each claim records which chunk it came from
+ * and where its supporting quote sits in the original text.
+ */
+
+import { chunkText, type Chunk } from './embeddings';
+import type { ExtractedClaim, FilteredContent, QuotedContent, RawContent } from './types';
+
+export const EXTRACTION_CHUNK_SIZE = 3000;
+export const EXTRACTION_CHUNK_OVERLAP = 200;
+
+/**
+ * One prompt-sized piece of a content item.
+ */
+export interface ExtractionUnit {
+  item: FilteredContent;
+  chunk: Chunk;
+  chunkCount: number;
+}
+
+function contentText(item: RawContent): string {
+  return item.content || (item as any).content_text || '';
+}
+
+/**
+ * What the relevance filter reads of an item: its title and the first chunk
+ * extraction would read, so a long post is judged by its opening section
+ * rather than its first couple of sentences.
+ */
+export function filterSample(item: RawContent): string {
+  const opening = chunkForExtraction(contentText(item))[0].text;
+  return item.title ? `${item.title}\n\n${opening}` : opening;
+}
+
+/**
+ * Posts the item quotes or reposts, as extraction context: who wrote them and
+ * what they said. Empty for items that quote nothing.
+ */
+export function quotedContext(item: FilteredContent): Pick<QuotedContent, 'kind' | 'author' | 'text'>[] {
+  const quoted: QuotedContent[] = Array.isArray(item.metadata?.quoted) ? item.metadata.quoted : [];
+  return quoted.map(q => ({ kind: q.kind, author: q.author, text: q.text }));
+}
+
+/**
+ * Split text on paragraphs, falling back to sentences and then fixed windows
+ * when a paragraph (e.g. an unbroken transcript) is still far too long.
+ */
+export function chunkForExtraction(text: string): Chunk[] {
+  if (text.length <= EXTRACTION_CHUNK_SIZE) {
+    return [{ text, index: 0, startChar: 0, endChar: text.length }];
+  }
+
+  const options = { maxChunkSize: EXTRACTION_CHUNK_SIZE, overlap: EXTRACTION_CHUNK_OVERLAP };
+  const tooLong = (chunks: Chunk[]) => chunks.some(c => c.text.length > EXTRACTION_CHUNK_SIZE * 1.5);
+
+  let chunks = chunkText(text, { ...options, splitOn: 'paragraph' });
+  if (tooLong(chunks)) chunks = chunkText(text, { ...options, splitOn: 'sentence' });
+  if (tooLong(chunks)) chunks = chunkText(text, { ...options, splitOn: 'fixed' });
+  return chunks;
+}
+
+export function splitForExtraction(content: FilteredContent[]): ExtractionUnit[] {
+  return content.flatMap(item => {
+    const chunks = chunkForExtraction(contentText(item));
+    return chunks.map(chunk => ({ item, chunk, chunkCount: chunks.length }));
+  });
+}
+
+/**
+ * Character offsets of a quote in the full text. The search starts a little
+ * before the chunk's nominal start, since chunk offsets from overlapping
+ * paragraph splits are approximate. Returns null if the quote isn't verbatim.
+ */
+export function locateQuote(
+  text: string,
+  quote: string | undefined,
+  chunkStart = 0
+): { start: number; end: number } | null {
+  const needle = quote?.trim();
+  if (!needle) return null;
+
+  let start = text.indexOf(needle, Math.max(0, chunkStart - EXTRACTION_CHUNK_OVERLAP));
+  if (start === -1) start = text.indexOf(needle);
+  return start === -1 ? null : { start, end: start + needle.length };
+}
+
+function normalizeClaimText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Merge claims extracted from different chunks of the same content item.
+ * Claims with the same normalized text (typically from chunk overlap) collapse
+ * to the most quoteworthy copy.
+ */
+export function mergeChunkClaims(claims: ExtractedClaim[]): ExtractedClaim[] {
+  const merged = new Map<string, ExtractedClaim>();
+
+  for (const claim of claims) {
+    const key = `${claim.contentId ?? claim.sourceUrl ?? ''}|${normalizeClaimText(claim.claimText)}`;
+    const existing = merged.get(key);
+    if (!existing || (claim.quoteworthiness ?? 0) > (existing.quoteworthiness ?? 0)) {
+      merged.set(key, claim);
+    }
+  }
+
+  return Array.from(merged.values());
+}
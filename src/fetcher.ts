@@ -1,38 +1,66 @@
 /**
  * Content Fetcher
  * 
- * Fetches content from all source types and normalizes for processing.
- * Integrates with the storage layer.
+ * Fetches content from all registered source adapters and normalizes for
+ * processing. Integrates with the storage layer.
  */
 
-import Parser from 'rss-parser';
-import { JSDOM } from 'jsdom';
-import { execSync } from 'child_process';
-import type { RawContent, SourceType, Source, ContentCategory } from './types';
-import { ContentStore, SourceStore } from './storage';
+import { z } from 'zod';
+import type { RawContent, Source } from './types';
+import { BackfillStore, ContentStore, SourceStore, type Content, type FetchedContentOutcome } from './storage';
+import { getAdapter, listAdapters, type FetchContext } from './adapters';
+import { TWITTER_API_CONFIG, tweetsToContent, type ApiTweet } from './adapters/twitter';
+import { rateLimitedFetch } from './ratelimit';
+import { failureAlertKind, healthStatus, raiseAlert, skipReason, type SourceAlertKind } from './health';
+import { fingerprint, type ContentFingerprint } from './dedup';
+import { asFeedItem, expandSummaries } from './adapters/articles';
 import sourcesData from '../data/sources.json';
 
 // ============================================================================
-// CONFIGURATION
+// TYPES
 // ============================================================================
 
-// TwitterAPI.io configuration (https://twitterapi.io)
-// Rate limits by credit tier: https://twitterapi.io/qps-limits
-// ≥50,000 credits = 20 QPS (50ms between requests)
-const TWITTER_API_CONFIG = {
-  baseUrl: 'https://api.twitterapi.io',
-  apiKey: process.env.TWITTER_API_KEY || '',
-  rateLimitMs: 50, // Paid tier (≥50k credits): 20 QPS = 50ms between requests
-};
+export interface FetchedSource extends Record<FetchedContentOutcome, number> {
+  source: string;
+  /** Items the source returned */
+  count: number;
+  /** New items stored as duplicates of content from another source */
+  duplicates: number;
+  notModified: boolean;
+}
+
+export interface BackfilledSource extends Omit<FetchedSource, 'notModified'> {
+  /** Pages read this run */
+  pages: number;
+  /** Whether the backfill reached its date */
+  done: boolean;
+}
 
-// Track last Twitter API call for rate limiting
-let lastTwitterApiCall = 0;
+/**
+ * Comparison key for a person's name: accents, punctuation and middle names
+ * or initials dropped, so "Quoc V. Le" and "Quoc Le" match. Returns '' for
+ * names without a first and last part.
+ */
+export function researcherNameKey(name: string): string {
+  const parts = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s-]/g, '')
+    .split(/[\s-]+/)
+    .filter(part => part.length > 1);
+  return parts.length >= 2 ? `${parts[0]} ${parts[parts.length - 1]}` : '';
+}
 
-// Legacy Nitter instances (fallback, mostly non-functional as of 2025)
-const NITTER_INSTANCES = [
-  'nitter.poast.org',
-  'nitter.privacydev.net',
-];
+/**
+ * How hard a backfill run leans on a platform. Each source reads at most
+ * pagesPerRun pages per run, and pages are at least minPageIntervalMs apart
+ * (longer if the adapter's own rate limit says so).
+ */
+export const BACKFILL_CONFIG = {
+  pagesPerRun: 10,
+  minPageIntervalMs: 5000,
+};
 
 // ============================================================================
 // FETCHER CLASS
@@ -41,33 +69,38 @@ const NITTER_INSTANCES = [
 export class AIIntelFetcher {
   private contentStore: ContentStore;
   private sourceStore: SourceStore;
-  private rssParser: Parser;
+  private backfillStore: BackfillStore;
+  // Loaded once per fetch run, the first time a source returns authored items
+  private researcherNames?: Promise<Map<string, string>>;
   
   constructor(config: { dbUrl: string }) {
     this.contentStore = new ContentStore(config.dbUrl);
     this.sourceStore = new SourceStore(config.dbUrl);
-    this.rssParser = new Parser({
-      customFields: {
-        item: [
-          ['dc:creator', 'creator'],
-          ['content:encoded', 'contentEncoded']
-        ]
-      }
-    });
+    this.backfillStore = new BackfillStore(config.dbUrl);
   }
   
   /**
-   * Fetch content from multiple sources
+   * Fetch content from multiple sources. Each success reports how many items
+   * were new, updated or unchanged; notModified marks a source whose server
+   * answered a conditional request with 304.
+   *
+   * Every outcome is recorded on the source's health (see health.ts).
+   * Quarantined sources and failing ones still backing off are skipped
+   * unless `force` is set.
    */
-  async fetchSources(sources: Source[]): Promise<{
-    successful: { source: string; count: number }[];
+  async fetchSources(sources: Source[], options: { force?: boolean } = {}): Promise<{
+    successful: FetchedSource[];
     failed: { source: string; error: string }[];
+    skipped: { source: string; reason: string }[];
   }> {
-    const successful: { source: string; count: number }[] = [];
+    const successful: FetchedSource[] = [];
     const failed: { source: string; error: string }[] = [];
+    const skipped: { source: string; reason: string }[] = [];
+    this.researcherNames = undefined;
 
-    // Group by source type so same-provider fetches stay sequential (respecting
-    // each provider's rate limits), while different providers run concurrently.
+    // Group by source type so same-provider fetches stay sequential, while
+    // different providers run concurrently. Requests themselves are spaced
+    // per host by the shared rate limiter (ratelimit.ts).
     const byType = new Map<string, Source[]>();
     for (const source of sources) {
       const group = byType.get(source.type) ?? [];
@@ -78,194 +111,358 @@ export class AIIntelFetcher {
     await Promise.all(Array.from(byType.values()).map(async (group) => {
       for (const source of group) {
         try {
-          const content = await this.fetchSource(source);
-
-          // Store content
-          for (const item of content) {
-            await this.contentStore.upsert({
-              sourceId: source.id!,
-              externalId: item.id || `${source.identifier}_${item.publishedAt.getTime()}`,
-              url: item.url,
-              title: item.title,
-              contentText: item.content,
-              contentType: item.sourceType,
-              author: item.author,
-              publishedAt: item.publishedAt,
-              metadata: item.metadata
-            });
+          const previous = (await this.sourceStore.getHealth([source.id!])).get(source.id!);
+          const reason = options.force ? null : skipReason(previous);
+          if (reason) {
+            skipped.push({ source: source.identifier, reason });
+            continue;
           }
 
-          // Mark source as fetched
-          await this.sourceStore.markFetched(source.id!);
+          const context = await this.sourceStore.getFetchContext(source.id!);
+          const fetched = await this.fetchSource(source, context);
+          const stored = await this.storeItems(source, fetched);
 
-          successful.push({ source: source.identifier, count: content.length });
+          // Mark source as fetched
+          await this.sourceStore.markFetched(source.id!, {
+            validators: context.nextValidators,
+            state: context.nextState,
+            newItems: stored.new
+          });
 
-          // Rate limit between same-provider sources
-          await this.sleep(1000);
+          if (previous && healthStatus(previous) !== 'healthy') {
+            await this.raiseAlert(source, 'recovered', `fetched after ${previous.consecutiveFailures} failures`);
+          }
 
-        } catch (error) {
-          failed.push({
+          successful.push({
             source: source.identifier,
-            error: error instanceof Error ? error.message : String(error)
+            ...stored,
+            notModified: context.notModified ?? false
           });
+
+          // Any extra pause the adapter asks for between its sources
+          const pause = getAdapter(source.type)?.rateLimit.minIntervalMs ?? 0;
+          if (pause > 0) await this.sleep(pause);
+
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          failed.push({ source: source.identifier, error: message });
+          await this.recordFailure(source, message);
         }
       }
     }));
 
-    return { successful, failed };
+    return { successful, failed, skipped };
   }
-  
+
   /**
-   * Fetch from a single source
+   * Record a failed fetch on the source's health, alerting on its first
+   * failure and on the one that quarantines it
    */
-  async fetchSource(source: Source): Promise<RawContent[]> {
-    switch (source.type as SourceType) {
-      case 'twitter':
-        return this.fetchTwitter(source.identifier, source.authorName);
-      case 'substack':
-        return this.fetchSubstack(source.identifier, source.authorName);
-      case 'youtube':
-        return this.fetchYouTube(source.identifier, source.authorName);
-      case 'blog':
-        return this.fetchBlog(source.identifier, source.authorName);
-      case 'podcast':
-        return this.fetchPodcast(source.identifier, source.authorName);
-      case 'lesswrong':
-        return this.fetchLessWrong(source.identifier);
-      case 'arxiv':
-        return this.fetchArxiv(source.identifier);
-      case 'bluesky':
-        return this.fetchBluesky(source.identifier, source.authorName);
-      default:
-        throw new Error(`Unknown source type: ${source.type}`);
+  private async recordFailure(source: Source, error: string): Promise<void> {
+    try {
+      const { consecutiveFailures } = await this.sourceStore.recordFailure(source.id!, error);
+      const kind = failureAlertKind(consecutiveFailures);
+      if (kind === 'quarantined') {
+        await this.raiseAlert(source, kind, `${consecutiveFailures} failures in a row, last: ${error}`);
+      } else if (kind) {
+        await this.raiseAlert(source, kind, error);
+      }
+    } catch (e) {
+      console.warn(`Could not record failure of ${source.identifier}: ${e}`);
     }
   }
-  
-  // ============================================================================
-  // TWITTER (via TwitterAPI.io)
-  // ============================================================================
 
-  async fetchTwitter(handle: string, authorName?: string): Promise<RawContent[]> {
-    // Primary: TwitterAPI.io
-    if (TWITTER_API_CONFIG.apiKey) {
-      try {
-        return await this.fetchTwitterViaAPI(handle, authorName);
-      } catch (e) {
-        console.warn(`TwitterAPI.io failed for ${handle}: ${e}`);
-        // Fall through to Nitter fallback
+  private async raiseAlert(source: Source, kind: SourceAlertKind, message: string): Promise<void> {
+    await raiseAlert(this.sourceStore, {
+      sourceId: source.id!, source: source.identifier, sourceType: source.type, kind, message
+    });
+  }
+  
+  /**
+   * Store a source's items, skipping those whose hash hasn't changed, and
+   * count what happened to them. New items are fingerprinted and linked to
+   * the content from other sources they duplicate (see dedup.ts), and new
+   * summaries expanded to their article if the adapter asks for it.
+   */
+  private async storeItems(
+    source: Source,
+    fetched: RawContent[],
+    backfilled = false
+  ): Promise<Omit<FetchedSource, 'source' | 'notModified'>> {
+    const counts: Record<FetchedContentOutcome, number> = { new: 0, updated: 0, unchanged: 0 };
+    let duplicates = 0;
+
+    const externalId = (item: RawContent) => item.id || `${source.identifier}_${item.publishedAt.getTime()}`;
+    const stored = await this.contentStore.findStoredExternalIds(source.id!, fetched.map(externalId));
+    const content = getAdapter(source.type)?.expandsSummaries
+      ? await this.expandNewSummaries(source, fetched, stored, externalId)
+      : fetched;
+    await this.attributeAuthors(content);
+
+    for (const item of content) {
+      const isNew = !stored.has(externalId(item));
+      const dedup = isNew ? await this.findDuplicate(source.id!, item) : undefined;
+
+      const outcome = await this.contentStore.upsertFetched({
+        sourceId: source.id!,
+        externalId: externalId(item),
+        url: item.url,
+        title: item.title,
+        contentText: item.content,
+        contentHtml: item.html,
+        contentType: item.sourceType,
+        author: item.author,
+        researcher: item.researcher,
+        publishedAt: item.publishedAt,
+        backfilled,
+        metadata: item.metadata,
+        ...dedup?.fingerprint,
+        duplicateOf: dedup?.canonical?.id,
+        duplicateReason: dedup?.canonical?.reason,
+        fingerprintedAt: dedup ? new Date() : undefined
+      });
+      counts[outcome]++;
+
+      if (outcome !== 'new' || !dedup) continue;
+      if (dedup.canonical) duplicates++;
+      if (dedup.fingerprint.canonicalUrl) {
+        await this.contentStore.adoptSharers(source.id!, externalId(item), dedup.fingerprint.canonicalUrl);
       }
     }
 
-    // Fallback: Nitter (mostly non-functional as of 2025)
-    return this.fetchTwitterViaNitter(handle, authorName);
+    return { count: fetched.length, ...counts, duplicates };
   }
 
-  private async fetchTwitterViaAPI(handle: string, authorName?: string): Promise<RawContent[]> {
-    // Rate limiting for TwitterAPI.io (free tier: 1 req/5s)
-    const now = Date.now();
-    const timeSinceLastCall = now - lastTwitterApiCall;
-    if (timeSinceLastCall < TWITTER_API_CONFIG.rateLimitMs) {
-      await this.sleep(TWITTER_API_CONFIG.rateLimitMs - timeSinceLastCall);
-    }
-    lastTwitterApiCall = Date.now();
-
-    const response = await fetch(
-      `${TWITTER_API_CONFIG.baseUrl}/twitter/user/last_tweets?userName=${encodeURIComponent(handle)}`,
-      {
-        headers: {
-          'X-API-Key': TWITTER_API_CONFIG.apiKey,
-        },
-      }
+  /**
+   * Expand short feed items to the article on their linked page (see
+   * articles.ts). Only new items are downloaded, plus stored ones whose feed
+   * summary changed; the rest keep the article stored with them, as does a
+   * changed item whose download fails, so their text (and hash) stays put.
+   */
+  private async expandNewSummaries(
+    source: Source,
+    items: RawContent[],
+    stored: Set<string>,
+    externalId: (item: RawContent) => string
+  ): Promise<RawContent[]> {
+    const previous = await this.contentStore.getExpandedArticles(
+      source.id!, items.map(externalId).filter(id => stored.has(id))
     );
+    const keepStored = (item: RawContent, article: Content): RawContent => ({
+      ...item,
+      content: article.contentText!,
+      html: article.contentHtml,
+      metadata: {
+        ...item.metadata,
+        extractionMethod: article.metadata?.extractionMethod,
+        feedSummary: item.content,
+        wordCount: article.metadata?.wordCount
+      }
+    });
 
-    if (!response.ok) {
-      throw new Error(`TwitterAPI.io returned ${response.status}: ${await response.text()}`);
+    const expanded: RawContent[] = [];
+    for (const item of items) {
+      const article = previous.get(externalId(item));
+      if (article && article.metadata?.feedSummary === item.content) {
+        expanded.push(keepStored(item, article));
+      } else if (article || !stored.has(externalId(item))) {
+        const [fresh] = await expandSummaries([item]);
+        expanded.push(article && fresh.metadata?.extractionMethod === 'feed' ? keepStored(item, article) : fresh);
+      } else {
+        // Stored with its feed text: a page that failed or had nothing more
+        // isn't downloaded again every fetch
+        expanded.push(asFeedItem(item));
+      }
     }
+    return expanded;
+  }
 
-    const data = await response.json() as {
-      status: string;
-      data: {
-        tweets: Array<{
-          id: string;
-          text: string;
-          url: string;
-          createdAt: string;
-          likeCount: number;
-          retweetCount: number;
-          replyCount: number;
-          viewCount: number;
-          author: {
-            userName: string;
-            name: string;
-          };
-          isReply: boolean;
-          quoted_tweet?: object;
-          retweeted_tweet?: object;
-        }>;
+  /**
+   * Fingerprint a new item and find the canonical item it duplicates. Dedup
+   * failures (a short link that won't resolve, say) never block the store.
+   */
+  private async findDuplicate(sourceId: number, item: RawContent): Promise<{
+    fingerprint: ContentFingerprint;
+    canonical: Awaited<ReturnType<ContentStore['findCanonical']>>;
+  } | undefined> {
+    try {
+      const fingerprinted = await fingerprint(item);
+      return {
+        fingerprint: fingerprinted,
+        canonical: await this.contentStore.findCanonical(sourceId, fingerprinted, item.publishedAt)
       };
-    };
+    } catch (e) {
+      console.warn(`Could not check ${item.url ?? item.id} for duplicates: ${e}`);
+      return undefined;
+    }
+  }
 
-    if (data.status !== 'success' || !data.data?.tweets) {
-      throw new Error(`TwitterAPI.io error: ${JSON.stringify(data)}`);
+  /**
+   * Fingerprint content stored without one (before dedup existed, or by
+   * Twitter monitoring), oldest first, linking duplicates as a fetch would
+   */
+  async fingerprintStored(options: { limit?: number } = {}): Promise<{ fingerprinted: number; duplicates: number }> {
+    const rows = await this.contentStore.getUnfingerprinted(options.limit);
+    let duplicates = 0;
+
+    for (const row of rows) {
+      const item: RawContent = {
+        id: row.externalId,
+        source: '',
+        sourceType: '',
+        author: '',
+        content: row.contentText ?? '',
+        url: row.url,
+        publishedAt: new Date(row.publishedAt!),
+        metadata: row.metadata
+      };
+      const dedup = await this.findDuplicate(row.sourceId, item);
+      if (!dedup) continue;
+
+      await this.contentStore.setFingerprint(row.id!, dedup.fingerprint, dedup.canonical);
+      if (dedup.canonical) duplicates++;
+      if (dedup.fingerprint.canonicalUrl) {
+        await this.contentStore.adoptSharers(row.sourceId, row.externalId, dedup.fingerprint.canonicalUrl);
+      }
     }
 
-    return data.data.tweets
-      .filter(tweet => !tweet.isReply) // Filter out replies for cleaner signal
-      .map(tweet => ({
-        id: tweet.id,
-        source: `twitter:${handle}`,
-        sourceType: 'twitter' as SourceType,
-        author: authorName || tweet.author?.name || handle,
-        content: tweet.text,
-        url: tweet.url || `https://twitter.com/${handle}/status/${tweet.id}`,
-        publishedAt: new Date(tweet.createdAt),
-        metadata: {
-          likeCount: tweet.likeCount,
-          retweetCount: tweet.retweetCount,
-          replyCount: tweet.replyCount,
-          viewCount: tweet.viewCount,
-          isRetweet: !!tweet.retweeted_tweet,
-          isQuote: !!tweet.quoted_tweet,
-          provider: 'twitterapi.io'
-        }
-      }));
+    return { fingerprinted: rows.length, duplicates };
   }
 
-  private async fetchTwitterViaNitter(handle: string, authorName?: string): Promise<RawContent[]> {
-    for (const instance of NITTER_INSTANCES) {
+  // ============================================================================
+  // HISTORICAL BACKFILL
+  // ============================================================================
+
+  /**
+   * Queue backfills of the given sources back to `since`. Sources whose
+   * adapter can't page back through history are returned as unsupported.
+   */
+  async queueBackfills(sources: Source[], since: Date): Promise<{ queued: Source[]; unsupported: Source[] }> {
+    const queued: Source[] = [];
+    const unsupported: Source[] = [];
+
+    for (const source of sources) {
+      if (!getAdapter(source.type)?.backfill) {
+        unsupported.push(source);
+        continue;
+      }
+      await this.backfillStore.start(source.id!, since);
+      queued.push(source);
+    }
+
+    return { queued, unsupported };
+  }
+
+  /**
+   * Advance the pending backfills of the given sources (all pending ones if
+   * none are given), one source at a time and at most
+   * BACKFILL_CONFIG.pagesPerRun pages each, pausing between pages so the
+   * regular fetches of the same platform aren't starved. Progress is saved
+   * after every page, so a run that stops early resumes where it left off.
+   */
+  async runBackfills(
+    sources?: Source[],
+    options: { pagesPerRun?: number } = {}
+  ): Promise<{
+    successful: BackfilledSource[];
+    failed: { source: string; error: string }[];
+  }> {
+    const pagesPerRun = options.pagesPerRun ?? BACKFILL_CONFIG.pagesPerRun;
+    const successful: BackfilledSource[] = [];
+    const failed: { source: string; error: string }[] = [];
+    this.researcherNames = undefined;
+
+    const byId = new Map((sources ?? await this.sourceStore.getActive()).map(s => [s.id!, s]));
+    const pending = (await this.backfillStore.getPending()).filter(b => byId.has(b.sourceId));
+
+    for (const backfill of pending) {
+      const source = byId.get(backfill.sourceId)!;
+      const adapter = getAdapter(source.type);
+      if (!adapter?.backfill) continue;
+
+      const result: BackfilledSource = {
+        source: source.identifier, pages: 0, count: 0, new: 0, updated: 0, unchanged: 0, duplicates: 0, done: false
+      };
+      let cursor = backfill.cursor ?? undefined;
+
       try {
-        const feed = await this.rssParser.parseURL(
-          `https://${instance}/${handle}/rss`
-        );
+        while (result.pages < pagesPerRun) {
+          if (result.pages > 0) {
+            await this.sleep(Math.max(adapter.rateLimit.minIntervalMs, BACKFILL_CONFIG.minPageIntervalMs));
+          }
 
-        return feed.items.map(item => {
-          const dom = new JSDOM(item.content || '');
-          const text = dom.window.document.body.textContent?.trim() || '';
-          const tweetId = item.guid?.split('/status/')[1] || item.guid || '';
-
-          return {
-            id: tweetId,
-            source: `twitter:${handle}`,
-            sourceType: 'twitter' as SourceType,
-            author: authorName || handle,
-            content: text,
-            url: `https://twitter.com/${handle}/status/${tweetId}`,
-            publishedAt: new Date(item.pubDate || Date.now()),
-            metadata: {
-              isThread: item.content?.includes('Show this thread'),
-              nitterInstance: instance,
-              provider: 'nitter'
-            }
-          };
-        });
-      } catch (e) {
-        continue; // Try next instance
+          const page = await adapter.backfill(source, { since: new Date(backfill.since), cursor });
+          const stored = await this.storeItems(source, page.items, true);
+          await this.backfillStore.recordPage(source.id!, page.cursor, stored.new);
+
+          result.pages++;
+          for (const key of ['count', 'new', 'updated', 'unchanged', 'duplicates'] as const) {
+            result[key] += stored[key];
+          }
+          cursor = page.cursor;
+          if (!cursor) {
+            result.done = true;
+            break;
+          }
+        }
+        successful.push(result);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await this.backfillStore.recordFailure(source.id!, message);
+        failed.push({ source: source.identifier, error: message });
       }
     }
 
-    throw new Error(`All Twitter fetch methods failed for ${handle}`);
+    return { successful, failed };
   }
 
+  /**
+   * Match the authors of multi-author items (papers) to tracked researchers
+   * by name. Matches are listed in metadata.researchers, in author order, and
+   * the first becomes the item's researcher for attribution.
+   */
+  private async attributeAuthors(items: RawContent[]): Promise<void> {
+    const authored = items.filter(item => item.authors?.length);
+    if (authored.length === 0) return;
+
+    this.researcherNames ??= this.sourceStore.getResearcherNames().then(rows => {
+      const byKey = new Map<string, string>();
+      for (const { name, handle } of rows) {
+        const key = researcherNameKey(name);
+        if (key && !byKey.has(key)) byKey.set(key, handle);
+      }
+      return byKey;
+    });
+    const names = await this.researcherNames;
+
+    for (const item of authored) {
+      const handles = [...new Set(
+        item.authors!
+          .map(author => names.get(researcherNameKey(author)))
+          .filter((handle): handle is string => !!handle)
+      )];
+      if (handles.length === 0) continue;
+
+      item.researcher = handles[0];
+      item.metadata = { ...item.metadata, researchers: handles };
+    }
+  }
+
+  /**
+   * Fetch from a single source via the adapter registered for its type
+   */
+  async fetchSource(source: Source, context?: FetchContext): Promise<RawContent[]> {
+    const adapter = getAdapter(source.type);
+    if (!adapter) {
+      throw new Error(`Unknown source type: ${source.type}`);
+    }
+    return adapter.fetch(source, context);
+  }
+  
+  // ============================================================================
+  // TWITTER MONITORING (via TwitterAPI.io)
+  // ============================================================================
+
   /**
    * Monitor Twitter accounts for new tweets using advanced_search endpoint
    *
@@ -299,18 +496,11 @@ export class AIIntelFetcher {
     const untilStr = now.toISOString().split('T')[0];
 
     for (const handle of handles) {
-      // Rate limiting
-      const timeSinceLastCall = Date.now() - lastTwitterApiCall;
-      if (timeSinceLastCall < TWITTER_API_CONFIG.rateLimitMs) {
-        await this.sleep(TWITTER_API_CONFIG.rateLimitMs - timeSinceLastCall);
-      }
-      lastTwitterApiCall = Date.now();
-
       try {
         // Build advanced search query: from:handle since:date until:date
         const query = `from:${handle} since:${sinceStr} until:${untilStr}`;
 
-        const response = await fetch(
+        const response = await rateLimitedFetch(
           `${TWITTER_API_CONFIG.baseUrl}/twitter/tweet/advanced_search?query=${encodeURIComponent(query)}&queryType=Latest`,
           {
             headers: {
@@ -326,42 +516,17 @@ export class AIIntelFetcher {
         }
 
         const data = await response.json() as {
-          tweets?: Array<{
-            id: string;
-            text: string;
-            url?: string;
-            createdAt: string;
-            likeCount?: number;
-            retweetCount?: number;
-            replyCount?: number;
-            viewCount?: number;
-            author?: { userName: string; name: string };
-            isReply?: boolean;
-          }>;
+          tweets?: ApiTweet[];
           has_next_page?: boolean;
           next_cursor?: string;
         };
 
-        const tweets = (data.tweets || [])
-          .filter(t => !t.isReply)
-          .filter(t => new Date(t.createdAt) >= since) // Double-check time window
-          .map(tweet => ({
-            id: tweet.id,
-            source: `twitter:${handle}`,
-            sourceType: 'twitter' as SourceType,
-            author: tweet.author?.name || handle,
-            content: tweet.text,
-            url: tweet.url || `https://twitter.com/${handle}/status/${tweet.id}`,
-            publishedAt: new Date(tweet.createdAt),
-            metadata: {
-              likeCount: tweet.likeCount || 0,
-              retweetCount: tweet.retweetCount || 0,
-              replyCount: tweet.replyCount || 0,
-              viewCount: tweet.viewCount || 0,
-              provider: 'twitterapi.io',
-              monitorMode: true
-            }
-          }));
+        const recent = (data.tweets || [])
+          .filter(t => new Date(t.createdAt) >= since); // Double-check time window
+        const tweets = (await tweetsToContent(recent, handle)).map(tweet => ({
+          ...tweet,
+          metadata: { ...tweet.metadata, monitorMode: true }
+        }));
 
         results.push({ handle, tweets });
 
@@ -371,7 +536,7 @@ export class AIIntelFetcher {
           const source = sources.find(s => s.identifier.toLowerCase() === handle.toLowerCase());
           if (source?.id) {
             for (const tweet of tweets) {
-              await this.contentStore.upsert({
+              await this.contentStore.upsertFetched({
                 sourceId: source.id,
                 externalId: tweet.id || `${handle}_${tweet.publishedAt.getTime()}`,
                 url: tweet.url,
@@ -394,300 +559,6 @@ export class AIIntelFetcher {
     return results;
   }
 
-  // ============================================================================
-  // SUBSTACK
-  // ============================================================================
-  
-  async fetchSubstack(feedUrl: string, authorName?: string): Promise<RawContent[]> {
-    const feed = await this.rssParser.parseURL(feedUrl);
-    
-    return feed.items.map(item => {
-      // Substack includes full content in content:encoded
-      const fullContent = item.contentEncoded || item.content || '';
-      const dom = new JSDOM(fullContent);
-      const textContent = dom.window.document.body.textContent?.trim() || '';
-      
-      return {
-        id: item.guid || item.link || '',
-        source: `substack:${new URL(feedUrl).hostname}`,
-        sourceType: 'substack' as SourceType,
-        author: authorName || item.creator || feed.title || '',
-        title: item.title,
-        content: textContent,
-        url: item.link,
-        publishedAt: new Date(item.pubDate || Date.now()),
-        metadata: {
-          htmlContent: fullContent,
-          wordCount: textContent.split(/\s+/).length
-        }
-      };
-    });
-  }
-  
-  // ============================================================================
-  // YOUTUBE
-  // ============================================================================
-  
-  async fetchYouTube(channelId: string, authorName?: string): Promise<RawContent[]> {
-    try {
-      // Get recent videos
-      const output = execSync(
-        `yt-dlp --flat-playlist -j --playlist-end 20 "https://www.youtube.com/channel/${channelId}/videos" 2>/dev/null`,
-        { maxBuffer: 10 * 1024 * 1024, timeout: 60000 }
-      );
-      
-      const videos = output
-        .toString()
-        .trim()
-        .split('\n')
-        .filter(Boolean)
-        .map(line => JSON.parse(line));
-      
-      // Fetch transcripts for each video
-      const results: RawContent[] = [];
-      
-      for (const video of videos.slice(0, 10)) { // Limit to 10 for transcripts
-        const transcript = await this.fetchYouTubeTranscript(video.id);
-        
-        results.push({
-          id: video.id,
-          source: `youtube:${channelId}`,
-          sourceType: 'youtube' as SourceType,
-          author: authorName || video.uploader || '',
-          title: video.title,
-          content: transcript || video.description || '',
-          url: `https://youtube.com/watch?v=${video.id}`,
-          publishedAt: video.timestamp ? new Date(video.timestamp * 1000) : new Date(),
-          metadata: {
-            duration: video.duration,
-            hasTranscript: !!transcript,
-            description: video.description
-          }
-        });
-        
-        await this.sleep(500); // Rate limit
-      }
-      
-      return results;
-    } catch (e) {
-      throw new Error(`Failed to fetch YouTube: ${e}`);
-    }
-  }
-  
-  private async fetchYouTubeTranscript(videoId: string): Promise<string | null> {
-    const tempFile = `/tmp/${videoId}.en.json3`;
-    try {
-      // Use yt-dlp to get subtitles
-      const output = execSync(
-        `yt-dlp --skip-download --write-auto-sub --sub-lang en --sub-format json3 -o "/tmp/%(id)s" "https://youtube.com/watch?v=${videoId}" 2>/dev/null && cat ${tempFile} 2>/dev/null`,
-        { maxBuffer: 10 * 1024 * 1024, timeout: 30000 }
-      );
-
-      const data = JSON.parse(output.toString());
-      const text = data.events
-        ?.filter((e: any) => e.segs)
-        .map((e: any) => e.segs.map((s: any) => s.utf8).join(''))
-        .join(' ');
-
-      return text || null;
-    } catch {
-      return null;
-    } finally {
-      // Clean up temp file
-      try {
-        execSync(`rm -f ${tempFile} 2>/dev/null`);
-      } catch {
-        // Ignore cleanup errors
-      }
-    }
-  }
-  
-  // ============================================================================
-  // BLOG (RSS/Atom)
-  // ============================================================================
-  
-  async fetchBlog(feedUrl: string, authorName?: string): Promise<RawContent[]> {
-    const feed = await this.rssParser.parseURL(feedUrl);
-    
-    return feed.items.map(item => {
-      const fullContent = item.contentEncoded || item.content || '';
-      const dom = new JSDOM(fullContent);
-      const textContent = dom.window.document.body.textContent?.trim() || '';
-      
-      return {
-        id: item.guid || item.link || '',
-        source: `blog:${new URL(feedUrl).hostname}`,
-        sourceType: 'blog' as SourceType,
-        author: authorName || item.creator || feed.title || '',
-        title: item.title,
-        content: textContent || item.contentSnippet || '',
-        url: item.link,
-        publishedAt: new Date(item.pubDate || Date.now()),
-        metadata: {
-          htmlContent: fullContent
-        }
-      };
-    });
-  }
-  
-  // ============================================================================
-  // PODCAST
-  // ============================================================================
-  
-  async fetchPodcast(feedUrl: string, authorName?: string): Promise<RawContent[]> {
-    const feed = await this.rssParser.parseURL(feedUrl);
-    
-    return feed.items.map(item => ({
-      id: item.guid || item.link || '',
-      source: `podcast:${feed.title || new URL(feedUrl).hostname}`,
-      sourceType: 'podcast' as SourceType,
-      author: authorName || feed.title || '',
-      title: item.title,
-      content: item.contentSnippet || item.content || '',
-      url: item.link,
-      publishedAt: new Date(item.pubDate || Date.now()),
-      metadata: {
-        duration: item.itunes?.duration,
-        audioUrl: item.enclosure?.url,
-        episodeNumber: item.itunes?.episode
-      }
-    }));
-  }
-  
-  // ============================================================================
-  // LESSWRONG / ALIGNMENT FORUM
-  // ============================================================================
-  
-  async fetchLessWrong(tag: string = 'ai'): Promise<RawContent[]> {
-    // LessWrong API uses tag slugs (e.g., "ai-safety") not tag IDs
-    // Using filterSettings for more reliable tag filtering
-    const query = `
-      query GetPosts($tagSlug: String) {
-        posts(input: {
-          terms: {
-            limit: 50
-            filterSettings: { tags: [{ tagSlug: $tagSlug, filterMode: "Required" }] }
-            sortedBy: "new"
-          }
-        }) {
-          results {
-            _id
-            title
-            slug
-            postedAt
-            baseScore
-            user { username displayName }
-            contents { html wordCount }
-          }
-        }
-      }
-    `;
-
-    const response = await fetch('https://www.lesswrong.com/graphql', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        query,
-        variables: { tagSlug: tag }
-      })
-    });
-    
-    const data = await response.json();
-    const posts = data.data?.posts?.results || [];
-    
-    return posts.map((post: any) => {
-      const dom = new JSDOM(post.contents?.html || '');
-      const textContent = dom.window.document.body.textContent?.trim() || '';
-      
-      return {
-        id: post._id,
-        source: 'lesswrong',
-        sourceType: 'lesswrong' as SourceType,
-        author: post.user?.displayName || post.user?.username || '',
-        title: post.title,
-        content: textContent,
-        url: `https://www.lesswrong.com/posts/${post._id}/${post.slug}`,
-        publishedAt: new Date(post.postedAt),
-        metadata: {
-          score: post.baseScore,
-          wordCount: post.contents?.wordCount
-        }
-      };
-    });
-  }
-  
-  // ============================================================================
-  // ARXIV
-  // ============================================================================
-  
-  async fetchArxiv(query: string): Promise<RawContent[]> {
-    // If query looks like a category (e.g., "cs.AI"), format for arXiv API
-    // arXiv expects "cat:cs.AI" for category search
-    const searchQuery = query.match(/^[a-z]+\.[A-Z]+$/i)
-      ? `cat:${query}`
-      : query;
-
-    const params = new URLSearchParams({
-      search_query: searchQuery,
-      start: '0',
-      max_results: '50',
-      sortBy: 'submittedDate',
-      sortOrder: 'descending'
-    });
-    
-    const response = await fetch(`http://export.arxiv.org/api/query?${params}`);
-    const xml = await response.text();
-    
-    const feed = await this.rssParser.parseString(xml);
-    
-    return feed.items.map(item => ({
-      id: item.id?.split('/abs/')[1] || item.guid || '',
-      source: 'arxiv',
-      sourceType: 'arxiv' as SourceType,
-      author: '', // arXiv author parsing is complex
-      title: item.title?.replace(/\n/g, ' ').trim(),
-      content: item.summary?.replace(/\n/g, ' ').trim() || '',
-      url: item.id,
-      publishedAt: new Date(item.pubDate || Date.now()),
-      metadata: {
-        categories: item.categories,
-        pdfUrl: item.id?.replace('/abs/', '/pdf/') + '.pdf'
-      }
-    }));
-  }
-  
-  // ============================================================================
-  // BLUESKY
-  // ============================================================================
-  
-  async fetchBluesky(handle: string, authorName?: string): Promise<RawContent[]> {
-    // Use AT Protocol public API
-    const response = await fetch(
-      `https://public.api.bsky.app/xrpc/app.bsky.feed.getAuthorFeed?actor=${handle}&limit=50`
-    );
-    
-    if (!response.ok) {
-      throw new Error(`Bluesky API error: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    
-    return data.feed.map((item: any) => ({
-      id: item.post.uri,
-      source: `bluesky:${handle}`,
-      sourceType: 'bluesky' as SourceType,
-      author: authorName || item.post.author.displayName || handle,
-      content: item.post.record.text,
-      url: `https://bsky.app/profile/${item.post.author.handle}/post/${item.post.uri.split('/').pop()}`,
-      publishedAt: new Date(item.post.record.createdAt),
-      metadata: {
-        likes: item.post.likeCount,
-        reposts: item.post.repostCount,
-        replies: item.post.replyCount
-      }
-    }));
-  }
-  
   // ============================================================================
   // UTILITIES
   // ============================================================================
@@ -697,109 +568,83 @@ export class AIIntelFetcher {
   }
 }
 
+/**
+ * Total item outcomes across a fetch run, for reporting
+ */
+export function summarizeFetch(
+  successful: FetchedSource[]
+): Record<FetchedContentOutcome, number> & { duplicates: number; notModified: number } {
+  const totals = { new: 0, updated: 0, unchanged: 0, duplicates: 0, notModified: 0 };
+  for (const result of successful) {
+    totals.new += result.new;
+    totals.updated += result.updated;
+    totals.unchanged += result.unchanged;
+    totals.duplicates += result.duplicates;
+    if (result.notModified) totals.notModified++;
+  }
+  return totals;
+}
+
 // ============================================================================
 // SOURCE SEEDER
 // ============================================================================
 
+/**
+ * An entry of the `researchers` section: one person's accounts, keyed by
+ * source type, with each value the account's source identifier. The handle
+ * is the key researcher views and predictions use for all of them.
+ */
+const researcherSchema = z.object({
+  handle: z.string().min(1),
+  accounts: z.record(z.string().min(1)),
+});
+
+/**
+ * Seed sources from data/sources.json. Each registered adapter reads the
+ * section named after its type; entries that fail its config schema are
+ * skipped with a warning. The `researchers` section then links accounts
+ * belonging to the same person.
+ */
 export async function seedSources(dbUrl: string): Promise<void> {
   const store = new SourceStore(dbUrl);
+  const sections = sourcesData as Record<string, unknown[]>;
   let count = 0;
+  let skipped = 0;
+
+  for (const adapter of listAdapters()) {
+    for (const entry of sections[adapter.type] ?? []) {
+      const parsed = adapter.configSchema.safeParse(entry);
+      if (!parsed.success) {
+        console.warn(`Skipping invalid ${adapter.type} source ${JSON.stringify(entry)}: ${parsed.error.issues[0]?.message}`);
+        skipped++;
+        continue;
+      }
 
-  // Twitter sources
-  for (const source of sourcesData.twitter) {
-    await store.upsert({
-      type: 'twitter',
-      identifier: source.handle,
-      authorName: source.name,
-      category: source.category as ContentCategory,
-      fetchFrequencyHours: source.priority === 'high' ? 4 : 6
-    });
-    count++;
-  }
-
-  // Substack sources
-  for (const source of sourcesData.substack) {
-    await store.upsert({
-      type: 'substack',
-      identifier: source.url,
-      authorName: source.author,
-      category: source.category as ContentCategory,
-      fetchFrequencyHours: source.tier === 1 ? 6 : 12
-    });
-    count++;
-  }
-
-  // YouTube channels
-  for (const source of sourcesData.youtube) {
-    await store.upsert({
-      type: 'youtube',
-      identifier: source.id,
-      authorName: source.name,
-      category: source.category as ContentCategory,
-      fetchFrequencyHours: 24
-    });
-    count++;
-  }
-
-  // Blogs
-  for (const source of sourcesData.blog) {
-    await store.upsert({
-      type: 'blog',
-      identifier: source.url,
-      authorName: source.author,
-      category: source.category as ContentCategory,
-      fetchFrequencyHours: 24
-    });
-    count++;
-  }
-
-  // LessWrong tags
-  for (const source of sourcesData.lesswrong) {
-    await store.upsert({
-      type: 'lesswrong',
-      identifier: source.tag,
-      authorName: source.name,
-      category: (source.category || 'safety') as ContentCategory,
-      fetchFrequencyHours: 12
-    });
-    count++;
+      await store.upsert(adapter.toSource(parsed.data));
+      count++;
+    }
   }
 
-  // arXiv categories
-  for (const source of sourcesData.arxiv) {
-    await store.upsert({
-      type: 'arxiv',
-      identifier: source.category,
-      authorName: source.name,
-      category: 'academic' as ContentCategory,
-      fetchFrequencyHours: 24
-    });
-    count++;
-  }
+  let researchers = 0;
+  for (const entry of sections.researchers ?? []) {
+    const parsed = researcherSchema.safeParse(entry);
+    if (!parsed.success) {
+      console.warn(`Skipping invalid researcher ${JSON.stringify(entry)}: ${parsed.error.issues[0]?.message}`);
+      continue;
+    }
 
-  // Bluesky handles
-  for (const source of sourcesData.bluesky) {
-    await store.upsert({
-      type: 'bluesky',
-      identifier: source.handle,
-      authorName: source.name,
-      category: source.category as ContentCategory,
-      fetchFrequencyHours: 6
-    });
-    count++;
+    const accounts = Object.entries(parsed.data.accounts).map(([type, identifier]) => ({ type, identifier }));
+    const linked = await store.linkResearcher(parsed.data.handle, accounts);
+    if (linked < accounts.length) {
+      console.warn(`Researcher ${parsed.data.handle}: ${accounts.length - linked} of ${accounts.length} accounts aren't seeded sources`);
+    }
+    researchers++;
   }
 
-  // Podcasts
-  for (const source of sourcesData.podcast) {
-    await store.upsert({
-      type: 'podcast',
-      identifier: source.rss,
-      authorName: source.name,
-      category: source.category as ContentCategory,
-      fetchFrequencyHours: 48
-    });
-    count++;
-  }
+  await store.syncAdapters(listAdapters());
 
-  console.log(`Sources seeded successfully: ${count} sources added`);
+  console.log(
+    `Sources seeded successfully: ${count} sources added${skipped > 0 ? `, ${skipped} skipped` : ''}` +
+    (researchers > 0 ? `, ${researchers} researchers linked` : '')
+  );
 }
@@ -0,0 +1,131 @@
+/**
+ * Source Health
+ *
+ * Every fetch of a source records whether it worked. A failing source is
+ * retried with exponential backoff rather than every cycle, and after
+ * quarantineAfter consecutive failures it's quarantined: left out of fetch
+ * runs until someone clears it (`ai-intel health --release` or the admin
+ * sources page) or a forced fetch succeeds.
+ *
+ * Each change of a source's health (failing, quarantined, recovered,
+ * released) raises an alert: it's stored in source_alerts, logged, and posted
+ * to SOURCE_ALERT_WEBHOOK_URL when that's set.
+ */
+
+import type { SourceStore } from './storage';
+
+export const SOURCE_HEALTH_CONFIG = {
+  quarantineAfter: Number(process.env.SOURCE_QUARANTINE_AFTER) || 5,
+  // The first retry waits backoffBaseMinutes, doubling with each failure
+  backoffBaseMinutes: 30,
+  backoffMaxMinutes: 48 * 60,
+  // Weight of the latest fetch in the average item yield
+  yieldWeight: 0.2,
+  alertWebhookUrl: process.env.SOURCE_ALERT_WEBHOOK_URL || '',
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SourceHealthStatus = 'healthy' | 'failing' | 'quarantined';
+
+/** A source's fetch record (the health columns of sources) */
+export interface SourceHealth {
+  sourceId: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+  lastSuccessAt: Date | null;
+  /** Moving average of new items per successful fetch */
+  avgItemYield: number | null;
+  /** Earliest time a failing source is retried */
+  nextFetchAt: Date | null;
+  quarantinedAt: Date | null;
+}
+
+export type SourceAlertKind = 'failing' | 'quarantined' | 'recovered' | 'released';
+
+export interface SourceAlert {
+  sourceId: number;
+  source: string;
+  sourceType: string;
+  kind: SourceAlertKind;
+  message: string;
+}
+
+// ============================================================================
+// HEALTH
+// ============================================================================
+
+export function healthStatus(health: Pick<SourceHealth, 'consecutiveFailures' | 'quarantinedAt'>): SourceHealthStatus {
+  if (health.quarantinedAt) return 'quarantined';
+  return health.consecutiveFailures > 0 ? 'failing' : 'healthy';
+}
+
+/**
+ * Why a fetch run should leave a source out, or null to fetch it:
+ * quarantined, or failing and not yet due its retry
+ */
+export function skipReason(health: SourceHealth | undefined, now = new Date()): string | null {
+  if (!health) return null;
+  if (health.quarantinedAt) {
+    return `quarantined after ${health.consecutiveFailures} failures`;
+  }
+  if (health.nextFetchAt && new Date(health.nextFetchAt) > now) {
+    return `backing off until ${new Date(health.nextFetchAt).toISOString()}`;
+  }
+  return null;
+}
+
+/**
+ * The alert a failed fetch raises, if it changed the source's health: its
+ * first failure, or the failure that quarantined it
+ */
+export function failureAlertKind(consecutiveFailures: number): SourceAlertKind | null {
+  if (consecutiveFailures === SOURCE_HEALTH_CONFIG.quarantineAfter) return 'quarantined';
+  return consecutiveFailures === 1 ? 'failing' : null;
+}
+
+// ============================================================================
+// ALERTS
+// ============================================================================
+
+const ALERT_ICONS: Record<SourceAlertKind, string> = {
+  failing: '⚠️',
+  quarantined: '⛔',
+  recovered: '✅',
+  released: '🔓',
+};
+
+export function formatAlert(alert: SourceAlert): string {
+  return `${ALERT_ICONS[alert.kind]} ${alert.sourceType} source ${alert.source} ${alert.kind}: ${alert.message}`;
+}
+
+/**
+ * Post an alert to the configured webhook as `{ text }`, the shape Slack
+ * incoming webhooks (and Slack-compatible ones) expect, with the alert
+ * itself alongside. Does nothing without a URL.
+ */
+export async function postAlert(alert: SourceAlert, url = SOURCE_HEALTH_CONFIG.alertWebhookUrl): Promise<void> {
+  if (!url) return;
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text: formatAlert(alert), alert }),
+  });
+  if (!response.ok) {
+    throw new Error(`Alert webhook returned ${response.status}`);
+  }
+}
+
+/** Store, log and (when a webhook is configured) post an alert */
+export async function raiseAlert(store: Pick<SourceStore, 'recordAlert'>, alert: SourceAlert): Promise<void> {
+  console.warn(formatAlert(alert));
+  await store.recordAlert(alert);
+  try {
+    await postAlert(alert);
+  } catch (e) {
+    console.warn(`Alert webhook failed: ${e}`);
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Research Hints
+ *
+ * Lab researchers often hint at work before it is published ("can't say much,
+ * but..."). Hints are detected on lab-researcher content the filter marks as
+ * research-hint, stored with the capability they imply, and later matched
+ * against arXiv papers and blog posts. A hint "pays off" when a sufficiently
+ * similar release appears after it was made, which gives each researcher a
+ * track record for how reliable their hints are.
+ */
+
+import type { ResearchHint } from './storage';
+
+/**
+ * Content types a hint can be paid off by. Tweets and podcasts repeating the
+ * hint don't count; a paper or a lab/blog post announcing the work does.
+ */
+export const HINT_PAYOFF_SOURCE_TYPES = ['arxiv', 'blog'];
+
+/**
+ * Minimum cosine similarity between the implied capability and a later claim
+ * for the claim's release to count as the payoff.
+ */
+export const HINT_PAYOFF_SIMILARITY = 0.75;
+
+/**
+ * Normalize one hint from the detection prompt. Returns null when the model
+ * didn't say what capability is being hinted at, since there is nothing to
+ * match a release against.
+ */
+export function hintFromDetection(
+  detection: any,
+  context: {
+    contentId: number;
+    author: string;
+    madeAt: Date;
+  }
+): ResearchHint | null {
+  const impliedCapability = typeof detection?.impliedCapability === 'string'
+    ? detection.impliedCapability.trim()
+    : '';
+  if (!impliedCapability) return null;
+
+  const confidence = typeof detection.confidence === 'number' ? detection.confidence : NaN;
+
+  return {
+    contentId: context.contentId,
+    author: context.author,
+    hintText: typeof detection.hintText === 'string' && detection.hintText.trim()
+      ? detection.hintText.trim()
+      : impliedCapability,
+    impliedCapability,
+    confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0.5,
+    timeframe: typeof detection.timeframe === 'string' ? detection.timeframe : undefined,
+    domain: typeof detection.domain === 'string' && detection.domain ? detection.domain : 'general',
+    madeAt: context.madeAt,
+  };
+}
@@ -1,4 +1,5 @@
 import { randomUUID } from "node:crypto";
+import type { z } from 'zod';
 /**
  * AI Intelligence Extraction & Synthesis Layer
  * 
@@ -10,20 +11,61 @@ import { randomUUID } from "node:crypto";
  * Pipeline:
  * 1. INGEST: Raw content from fetchers → preprocessing
  * 2. FILTER: content-filter skill (routes to GLM via haiku)
+ *    (optional) HINTS: research-hint detection on lab-researcher content
+ *    ARGUMENTS: argument mapping of long-form critic content
  * 3. EXTRACT: claim-extraction skill (nuanced Claude analysis)
- * 4. ENRICH: Add embeddings, cross-references, topic tags
+ * 4. ENRICH: Add embeddings, supporting/contradicting claim relations
+ *    then CLUSTER: group near-duplicate claims once stored
  * 5. SYNTHESIZE: topic-synthesis + hype-assessment skills
  * 6. OUTPUT: digest-generation skill produces weekly digest
  */
 
 import { AIIntelAgent, GLMClient, ZAI_CONFIG } from './agent-sdk-wrapper';
-import { ContentStore, ClaimStore, SynthesisStore, type EnrichedClaim } from './storage';
+import {
+  ContentStore,
+  ClaimStore,
+  SynthesisStore,
+  PredictionTracker,
+  PredictionResolutionQueue,
+  HintStore,
+  ArgumentStore,
+  ClusterStore,
+  PaperStore,
+  type EnrichedClaim,
+  type Prediction as StoredPrediction
+} from './storage';
 import { EmbeddingService } from './embeddings';
 import { FILTER_PROMPT } from './prompts';
+import { predictionFromClaim, resolutionFromAssessment, type PredictionEvidence } from './predictions';
+import { hintFromDetection, HINT_PAYOFF_SIMILARITY, HINT_PAYOFF_SOURCE_TYPES } from './hints';
+import { argumentMapFromResult, isLongFormCritique } from './arguments';
+import {
+  classifyRelation,
+  isStoredRelation,
+  stanceHeuristic,
+  RELATION_MIN_SIMILARITY,
+  RELATION_NEIGHBOURS
+} from './relations';
+import { CLUSTER_SIMILARITY, collapseClusters, parseVector, updateCentroid } from './clusters';
+import { locateQuote, mergeChunkClaims, splitForExtraction, type ExtractionUnit } from './extraction';
+import { verifyClaimQuote } from './quotes';
+import {
+  describeReception,
+  summarizeReception,
+  LAB_CATEGORIES,
+  OpenReviewClient,
+  PAPER_MAX_AGE_DAYS,
+  PAPER_REFRESH_DAYS,
+  SemanticScholarClient,
+  type PaperMetadataClient,
+  type PaperReception
+} from './papers';
+import { FilterAssessmentSchema, validateListOutput, type ValidationStats } from './schemas';
 import type {
   RawContent,
   FilteredContent,
   ExtractedClaim,
+  EnrichedClaim as RelatedClaim,
   HypeDelta,
   TopicConsensus
 } from './types';
@@ -38,6 +80,10 @@ export interface OrchestratorConfig {
   embeddingProvider?: 'ollama' | 'openai' | 'voyage';
   useSkills?: boolean;
   glmFallback?: boolean;
+  detectHints?: boolean;
+  dropUnverifiedQuotes?: boolean;
+  /** Paper metadata sources; defaults to Semantic Scholar and OpenReview */
+  paperClients?: PaperMetadataClient[];
 }
 
 export interface ProcessingResult {
@@ -45,6 +91,7 @@ export interface ProcessingResult {
   relevant: number;
   claimsExtracted: number;
   timestamp: Date;
+  validation: ValidationStats;  // Model outputs that failed schema validation, per stage
 }
 
 export interface SynthesisOptions {
@@ -57,11 +104,13 @@ export interface SynthesisResult {
   syntheses: TopicSynthesis[];
   hypeAssessment: HypeAssessment;
   digest: string | null;
+  validation: ValidationStats;
 }
 
 interface TopicSynthesis {
   topic: string;
-  claimCount: number; // For balanced digest coverage
+  claimCount: number; // Distinct claims (clusters), for balanced digest coverage
+  mentionCount: number; // Raw claims including near-duplicates
   labConsensus: string;
   criticConsensus: string;
   agreements: string[];
@@ -111,9 +160,18 @@ export class AIIntelOrchestrator {
   public contentStore: ContentStore;
   public claimStore: ClaimStore;
   public synthesisStore: SynthesisStore;
+  public predictionTracker: PredictionTracker;
+  public resolutionQueue: PredictionResolutionQueue;
+  public hintStore: HintStore;
+  public argumentStore: ArgumentStore;
+  public clusterStore: ClusterStore;
+  public paperStore: PaperStore;
   private embeddings: EmbeddingService;
   private useSkills: boolean;
   private glmFallback: boolean;
+  private detectHints: boolean;
+  private dropUnverifiedQuotes: boolean;
+  private paperClients: PaperMetadataClient[];
   
   constructor(config: OrchestratorConfig) {
     this.agent = new AIIntelAgent({
@@ -127,10 +185,19 @@ export class AIIntelOrchestrator {
     this.contentStore = new ContentStore(config.dbUrl);
     this.claimStore = new ClaimStore(config.dbUrl);
     this.synthesisStore = new SynthesisStore(config.dbUrl);
+    this.predictionTracker = new PredictionTracker(config.dbUrl);
+    this.resolutionQueue = new PredictionResolutionQueue(config.dbUrl);
+    this.hintStore = new HintStore(config.dbUrl);
+    this.argumentStore = new ArgumentStore(config.dbUrl);
+    this.clusterStore = new ClusterStore(config.dbUrl);
+    this.paperStore = new PaperStore(config.dbUrl);
     this.embeddings = new EmbeddingService(config.embeddingProvider || 'ollama');
     
     this.useSkills = config.useSkills !== false;
     this.glmFallback = config.glmFallback || false;
+    this.detectHints = config.detectHints || false;
+    this.dropUnverifiedQuotes = config.dropUnverifiedQuotes || false;
+    this.paperClients = config.paperClients ?? [new SemanticScholarClient(), new OpenReviewClient()];
   }
   
   /**
@@ -138,32 +205,57 @@ export class AIIntelOrchestrator {
    */
   async processBatch(rawContent: RawContent[]): Promise<ProcessingResult> {
     console.log(`Processing batch of ${rawContent.length} items`);
+    this.agent.resetValidationStats();
 
-    // Mark ALL input content as processed (even if filtered out)
-    const allContentIds = rawContent
-      .map((item: any) => item.id)
-      .filter((id: any) => typeof id === 'number' && id > 0);
+    // Items whose filter or extraction batch produced no usable output. They
+    // stay unprocessed, so the next run retries them.
+    const failed = new Set<RawContent>();
+
+    // Duplicates of content from another source (see dedup.ts) are covered
+    // by their canonical item; they're only marked processed
+    const canonical = rawContent.filter((item: any) => !item.duplicate_of);
+    const assessed = await this.filterStage(canonical, failed);
 
-    const filtered = await this.filterStage(rawContent);
+    const extracted = await this.extractStage(assessed, failed);
+    const filtered = assessed.filter(item => !failed.has(item));
     console.log(`Filtered to ${filtered.length} relevant items`);
+    if (failed.size > 0) {
+      console.warn(`${failed.size} items left unprocessed after their filter or extraction batch failed`);
+    }
+
+    const hints = this.detectHints ? await this.hintStage(filtered) : new Map();
+    const argumentMaps = this.useSkills ? await this.argumentStage(filtered) : new Map();
 
-    const claims = await this.extractStage(filtered);
+    const claims = this.verifyStage(filtered, extracted);
     console.log(`Extracted ${claims.length} claims`);
 
     const enriched = await this.enrichStage(claims);
 
-    await this.storeResults(filtered, enriched);
+    await this.storeResults(filtered, enriched, hints, argumentMaps);
 
-    // Mark all input content as processed (not just filtered)
+    // Mark all input content as processed (not just filtered), except what failed
+    const failedIds = new Set([...failed].map((item: any) => item.id));
+    const allContentIds = rawContent
+      .map((item: any) => item.id)
+      .filter((id: any) => typeof id === 'number' && id > 0 && !failedIds.has(id));
     if (allContentIds.length > 0) {
       await this.contentStore.markProcessed(allContentIds);
     }
 
+    // The batch's claims are stored; clustering them is bookkeeping that the
+    // next batch (or `clusters --backfill`) picks up if it fails here
+    try {
+      await this.clusterClaims();
+    } catch (e) {
+      console.warn(`Failed to cluster claims: ${e}`);
+    }
+
     return {
       processed: rawContent.length,
       relevant: filtered.length,
       claimsExtracted: claims.length,
-      timestamp: new Date()
+      timestamp: new Date(),
+      validation: this.agent.getValidationStats()
     };
   }
   
@@ -177,6 +269,7 @@ export class AIIntelOrchestrator {
       generateDigest = true 
     } = options;
     
+    this.agent.resetValidationStats();
     const recentClaims = await this.claimStore.getRecent(lookbackDays);
     const byTopic = this.groupByTopic(recentClaims);
     
@@ -188,11 +281,18 @@ export class AIIntelOrchestrator {
       syntheses.push(synthesis);
     }
     
-    const hypeAssessment = await this.generateHypeAssessment(syntheses);
+    const reception = summarizeReception(
+      await this.paperStore.getReception(lookbackDays, LAB_CATEGORIES)
+    );
+    reception.topics = reception.topics.filter(t => !topics || topics.includes(t.topic));
+
+    const hypeAssessment = await this.generateHypeAssessment(syntheses, reception);
     
     let digest: string | null = null;
     if (generateDigest) {
-      digest = await this.agent.generateDigest(syntheses, hypeAssessment);
+      const criticArguments = (await this.argumentStore.getRecent(lookbackDays))
+        .filter(a => !topics || topics.includes(a.topic));
+      digest = await this.agent.generateDigest(syntheses, hypeAssessment, criticArguments);
     }
     
     await this.synthesisStore.save({
@@ -203,14 +303,192 @@ export class AIIntelOrchestrator {
       digest
     });
     
-    return { syntheses, hypeAssessment, digest };
+    return { syntheses, hypeAssessment, digest, validation: this.agent.getValidationStats() };
   }
   
+  /**
+   * Prediction resolution (runs separately, e.g. daily). Due predictions are
+   * assessed against later evidence; the proposals go to the review queue and
+   * nothing is applied until a human accepts them.
+   */
+  async resolvePredictions(options: { limit?: number } = {}): Promise<{
+    evaluated: number;
+    proposed: number;
+    validation: ValidationStats;
+  }> {
+    this.agent.resetValidationStats();
+    const due = await this.predictionTracker.getDue(options.limit ?? 20);
+    if (due.length === 0) {
+      return { evaluated: 0, proposed: 0, validation: this.agent.getValidationStats() };
+    }
+
+    const withEvidence: (Omit<StoredPrediction, 'evidence'> & { evidence: PredictionEvidence[] })[] = [];
+    for (const prediction of due) {
+      withEvidence.push({ ...prediction, evidence: await this.gatherEvidence(prediction) });
+    }
+
+    const BATCH_SIZE = 10;
+    let proposed = 0;
+
+    for (let i = 0; i < withEvidence.length; i += BATCH_SIZE) {
+      const batch = withEvidence.slice(i, i + BATCH_SIZE);
+      const result = await this.agent.resolvePredictions(batch);
+
+      for (const assessment of result.assessments || []) {
+        const prediction = batch.find(p => p.id === assessment.predictionId);
+        if (!prediction) continue;
+
+        const resolution = resolutionFromAssessment(prediction.id!, assessment, prediction.evidence);
+        if (!resolution) {
+          console.warn(`Skipping assessment with invalid status for ${prediction.id}: ${assessment.status}`);
+          continue;
+        }
+
+        await this.resolutionQueue.propose(resolution);
+        proposed++;
+      }
+    }
+
+    return { evaluated: due.length, proposed, validation: this.agent.getValidationStats() };
+  }
+
+  /**
+   * Find claims published after a prediction was made that are semantically
+   * close to it. Embedding failures degrade to "no evidence" rather than
+   * aborting the run.
+   */
+  private async gatherEvidence(prediction: StoredPrediction): Promise<PredictionEvidence[]> {
+    try {
+      const embedding = await this.embeddings.embed(prediction.text);
+      const similar = await this.claimStore.findSimilar(embedding, {
+        limit: 8,
+        minSimilarity: 0.5,
+        excludeId: prediction.claimId,
+        publishedAfter: new Date(prediction.madeAt)
+      });
+
+      return similar.map(({ claim, similarity }) => ({
+        claimId: claim.id!,
+        text: claim.claimText || (claim as any).claim_text,
+        author: claim.author,
+        publishedAt: claim.publishedAt,
+        sourceUrl: claim.sourceUrl || (claim as any).source_url,
+        similarity
+      }));
+    } catch (e) {
+      console.warn(`Failed to gather evidence for prediction ${prediction.id}: ${e}`);
+      return [];
+    }
+  }
+  
+  /**
+   * Hint matching (runs separately, e.g. daily). Each open hint's implied
+   * capability is compared against claims from later arXiv and blog content;
+   * the first close enough match marks the hint as paid off.
+   */
+  async matchHints(options: { limit?: number } = {}): Promise<{ checked: number; paidOff: number }> {
+    const open = await this.hintStore.getOpen(options.limit ?? 50);
+    let paidOff = 0;
+
+    for (const hint of open) {
+      try {
+        const embedding = await this.embeddings.embed(hint.impliedCapability);
+        const [match] = await this.claimStore.findSimilar(embedding, {
+          limit: 1,
+          minSimilarity: HINT_PAYOFF_SIMILARITY,
+          publishedAfter: new Date(hint.madeAt),
+          sourceTypes: HINT_PAYOFF_SOURCE_TYPES
+        });
+        if (!match) continue;
+
+        await this.hintStore.markPaidOff(hint.id!, {
+          contentId: match.claim.contentId ?? (match.claim as any).content_id,
+          claimId: match.claim.id!,
+          similarity: match.similarity
+        });
+        paidOff++;
+      } catch (e) {
+        console.warn(`Failed to match hint ${hint.id}: ${e}`);
+      }
+    }
+
+    await this.hintStore.markChecked(open.map(h => h.id!));
+    return { checked: open.length, paidOff };
+  }
+
+  /**
+   * Paper enrichment (runs separately, e.g. daily). Each due arXiv paper is
+   * looked up in every paper metadata source and each answer, found or not,
+   * is stored as a new snapshot. One source failing doesn't stop the others.
+   */
+  async enrichPapers(options: { limit?: number } = {}): Promise<{ checked: number; found: number }> {
+    const due = await this.paperStore.getDue(PAPER_REFRESH_DAYS, options.limit ?? 50, PAPER_MAX_AGE_DAYS);
+    let found = 0;
+
+    for (const paper of due) {
+      for (const client of this.paperClients) {
+        try {
+          const record = await client.lookup(paper);
+          await this.paperStore.record(paper.contentId, client.source, record);
+          if (record) found++;
+        } catch (e) {
+          console.warn(`Failed to look up ${paper.arxivId} in ${client.source}: ${e}`);
+        }
+      }
+    }
+
+    return { checked: due.length, found };
+  }
+
+  /**
+   * Assign embedded, unclustered claims to the nearest cluster, or start a new
+   * one when nothing is close enough. Runs after each batch is stored, and can
+   * be run on its own to backfill older claims.
+   */
+  async clusterClaims(options: { limit?: number } = {}): Promise<{ clustered: number; created: number }> {
+    const client = await this.clusterStore.connect();
+    let clustered = 0;
+    let created = 0;
+
+    try {
+      await client.query('BEGIN');
+
+      const pending = await this.clusterStore.getUnclustered(options.limit ?? 500, client);
+      for (const claim of pending) {
+        const embedding = parseVector(claim.embedding);
+        const nearest = await this.clusterStore.findNearest(embedding, client);
+
+        if (nearest && nearest.similarity >= CLUSTER_SIMILARITY) {
+          const centroid = updateCentroid(parseVector(nearest.centroid), nearest.memberCount, embedding);
+          await this.clusterStore.addMember(nearest.id, claim, centroid, client);
+        } else {
+          await this.clusterStore.create(claim, embedding, client);
+          created++;
+        }
+        clustered++;
+      }
+
+      await client.query('COMMIT');
+    } catch (e) {
+      await client.query('ROLLBACK');
+      throw e;
+    } finally {
+      client.release();
+    }
+
+    return { clustered, created };
+  }
+
   // ============================================================================
   // STAGE 1: FILTER
   // ============================================================================
   
-  private async filterStage(content: RawContent[]): Promise<FilteredContent[]> {
+  /**
+   * Assess content for relevance. Items whose batch can't be assessed (no
+   * usable model output, or their assessment dropped as invalid) are added
+   * to `failed` rather than treated as irrelevant.
+   */
+  private async filterStage(content: RawContent[], failed: Set<RawContent>): Promise<FilteredContent[]> {
     // Pre-filter obvious noise before LLM processing
     const preFiltered = content.filter(item => {
       const text = item.content || (item as any).content_text || '';
@@ -242,27 +520,26 @@ export class AIIntelOrchestrator {
         console.log(`  Filtering batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(preFiltered.length / BATCH_SIZE)} (${batch.length} items)`);
 
         const result = await this.agent.filterContent(batch);
-        const filtered = this.applyFilterResults(batch, result);
-        allFiltered.push(...filtered);
+        allFiltered.push(...this.applyFilterResults(batch, result, failed));
       }
 
       return allFiltered;
     } else if (this.glm && this.glmFallback) {
-      return this.filterWithGLM(preFiltered);
+      return this.filterWithGLM(preFiltered, failed);
     } else {
       return preFiltered.map(c => ({
         ...c,
         relevance: 1.0,
         topic: 'general',
         contentType: 'opinion',
-        authorCategory: 'unknown',
+        authorCategory: c.metadata?.defaultAuthorCategory || 'unknown',
         isSubstantive: true,
         brief: ''
       } as FilteredContent));
     }
   }
   
-  private async filterWithGLM(content: RawContent[]): Promise<FilteredContent[]> {
+  private async filterWithGLM(content: RawContent[], failed: Set<RawContent>): Promise<FilteredContent[]> {
     const BATCH_SIZE = 20;
     const results: FilteredContent[] = [];
     
@@ -276,55 +553,157 @@ export class AIIntelOrchestrator {
         responseFormat: { type: 'json_object' }
       });
       
-      const parsed = JSON.parse(response.content);
-      const filtered = this.applyFilterResults(batch, parsed);
-      results.push(...filtered);
+      // No repair round-trip on the fallback path: invalid assessments are
+      // counted and dropped rather than filtered with defaulted fields
+      let parsed: unknown = null;
+      try {
+        parsed = JSON.parse(response.content);
+      } catch {}
+      const validated = validateListOutput('assessments', FilterAssessmentSchema, parsed);
+      if (!validated.success || validated.dropped > 0) {
+        this.agent.recordValidation('filter', 'invalid');
+        this.agent.recordValidation('filter', 'failed');
+        console.warn(`  GLM filter output failed validation: ${validated.errors.slice(0, 3).join('; ')}`);
+      }
+
+      results.push(...this.applyFilterResults(
+        batch,
+        validated.success ? { assessments: validated.items, dropped: validated.dropped } : null,
+        failed
+      ));
     }
     
     return results;
   }
   
-  private applyFilterResults(content: RawContent[], result: any): FilteredContent[] {
-    const assessments = result.assessments || [];
+  /**
+   * Apply a batch's assessments, matched to items by idx (by position when
+   * the model left idx out). With no result, or assessments dropped as
+   * invalid, unassessed items go to `failed` instead of being filtered out.
+   */
+  private applyFilterResults(
+    content: RawContent[],
+    result: { assessments: z.output<typeof FilterAssessmentSchema>[]; dropped: number } | null,
+    failed: Set<RawContent>
+  ): FilteredContent[] {
+    const assessments = new Map((result?.assessments ?? []).map((a, position) => [a.idx ?? position, a]));
+    const incomplete = !result || result.dropped > 0;
     
     return content
       .map((item, idx) => {
-        const assessment = assessments[idx];
+        const assessment = assessments.get(idx);
+        if (!assessment && incomplete) failed.add(item);
         if (!assessment || assessment.relevance < 0.3) return null;
         
         return {
           ...item,
           relevance: assessment.relevance,
-          topic: assessment.topic || 'general',
-          contentType: assessment.contentType || 'opinion',
-          authorCategory: assessment.authorCategory || 'unknown',
-          isSubstantive: assessment.isSubstantive !== false,
+          topic: assessment.topic,
+          contentType: assessment.contentType,
+          // Sources like Hacker News declare a default for authors the model can't place
+          authorCategory: assessment.authorCategory === 'unknown' && item.metadata?.defaultAuthorCategory
+            ? item.metadata.defaultAuthorCategory
+            : assessment.authorCategory,
+          isSubstantive: assessment.isSubstantive,
           brief: assessment.brief || ''
         } as FilteredContent;
       })
       .filter((item): item is FilteredContent => item !== null);
   }
   
+  // ============================================================================
+  // STAGE 1b: HINT DETECTION (optional)
+  // ============================================================================
+
+  /**
+   * Run hint detection on lab-researcher content the filter flagged as
+   * research-hint. Returns the raw detections keyed by content item; they are
+   * normalized and stored alongside the content in storeResults.
+   */
+  private async hintStage(content: FilteredContent[]): Promise<Map<FilteredContent, any[]>> {
+    const candidates = content.filter(item =>
+      item.contentType === 'research-hint' && item.authorCategory === 'lab-researcher'
+    );
+    const detected = new Map<FilteredContent, any[]>();
+
+    for (const item of candidates) {
+      const result = await this.agent.detectHints({
+        ...item,
+        affiliation: item.metadata?.affiliation || item.authorCategory
+      });
+      const hints = Array.isArray(result.hints) ? result.hints : [];
+      if (hints.length > 0) detected.set(item, hints);
+    }
+
+    if (candidates.length > 0) {
+      console.log(`Detected hints in ${detected.size}/${candidates.length} research-hint items`);
+    }
+    return detected;
+  }
+
+  // ============================================================================
+  // STAGE 1c: ARGUMENT MAPPING
+  // ============================================================================
+
+  /**
+   * Map the argument structure of long-form critic content (see
+   * isLongFormCritique). Returns the raw maps keyed by content item; they are
+   * stored with links to the item's claims in storeResults.
+   */
+  private async argumentStage(content: FilteredContent[]): Promise<Map<FilteredContent, any>> {
+    const candidates = content.filter(isLongFormCritique);
+    const mapped = new Map<FilteredContent, any>();
+
+    for (const item of candidates) {
+      const result = await this.agent.mapArgument(item);
+      if (result?.mainThesis) mapped.set(item, result);
+    }
+
+    if (candidates.length > 0) {
+      console.log(`Mapped arguments for ${mapped.size}/${candidates.length} long-form critiques`);
+    }
+    return mapped;
+  }
+
   // ============================================================================
   // STAGE 2: EXTRACT
   // ============================================================================
   
-  private async extractStage(content: FilteredContent[]): Promise<ExtractedClaim[]> {
+  /**
+   * Extract claims. Items with a chunk in a batch that produced no usable
+   * output are added to `failed`, and their claims from other chunks dropped.
+   */
+  private async extractStage(content: FilteredContent[], failed: Set<RawContent>): Promise<ExtractedClaim[]> {
     if (this.useSkills) {
+      // Long items are split into chunks so essays and transcripts are read
+      // in full; claims from overlapping chunks are merged per item afterwards.
+      const units = splitForExtraction(content);
+      if (units.length > content.length) {
+        console.log(`  Split ${content.length} items into ${units.length} chunks`);
+      }
+
       // Process in batches of 10 (Agent SDK prompt limit for deeper extraction)
       const BATCH_SIZE = 10;
-      const allClaims: ExtractedClaim[] = [];
+      const allClaims: { claim: ExtractedClaim; item?: RawContent }[] = [];
 
-      for (let i = 0; i < content.length; i += BATCH_SIZE) {
-        const batch = content.slice(i, i + BATCH_SIZE);
-        console.log(`  Extracting batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(content.length / BATCH_SIZE)} (${batch.length} items)`);
+      for (let i = 0; i < units.length; i += BATCH_SIZE) {
+        const batch = units.slice(i, i + BATCH_SIZE);
+        console.log(`  Extracting batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(units.length / BATCH_SIZE)} (${batch.length} chunks)`);
 
         const result = await this.agent.extractClaims(batch);
-        const claims = this.normalizeClaimResults(result);
-        allClaims.push(...claims);
+        if (!result) {
+          batch.forEach(unit => failed.add(unit.item));
+          continue;
+        }
+        this.normalizeClaimResults(result, batch).forEach((claim, c) => {
+          const idx = result.claims[c].idx;
+          allClaims.push({ claim, item: typeof idx === 'number' ? batch[idx]?.item : undefined });
+        });
       }
 
-      return allClaims;
+      return mergeChunkClaims(
+        allClaims.filter(({ item }) => !item || !failed.has(item)).map(({ claim }) => claim)
+      );
     } else {
       return this.extractDirect(content);
     }
@@ -350,11 +729,18 @@ export class AIIntelOrchestrator {
     }));
   }
   
-  private normalizeClaimResults(result: any): ExtractedClaim[] {
+  private normalizeClaimResults(result: any, units: ExtractionUnit[] = []): ExtractedClaim[] {
     const claims: ExtractedClaim[] = [];
     const claimsArray = result.claims || result.raw?.claims || [];
 
     for (const claim of claimsArray) {
+      // Tie the claim back to the chunk it was extracted from, and locate its
+      // quote in the item's full text
+      const unit = typeof claim.idx === 'number' ? units[claim.idx] : undefined;
+      const quote = unit
+        ? locateQuote(unit.item.content || (unit.item as any).content_text || '', claim.originalQuote, unit.chunk.startChar)
+        : null;
+
       claims.push({
         id: randomUUID(),
         contentId: claim.contentId,  // Will be set during storage if undefined
@@ -369,15 +755,45 @@ export class AIIntelOrchestrator {
         quoteworthiness: claim.quoteworthiness ?? 0.3,
         relatedTo: claim.relatedTo || [],
         authorCategory: claim.authorCategory || 'unknown',
-        sourceUrl: claim.sourceUrl,  // Used to link back to content during storage
+        sourceUrl: claim.sourceUrl ?? unit?.item.url,  // Used to link back to content during storage
         extractedAt: new Date(),
-        originalQuote: claim.originalQuote
+        originalQuote: claim.originalQuote,
+        chunkIndex: unit?.chunk.index,
+        quoteStart: quote?.start,
+        quoteEnd: quote?.end
       });
     }
 
     return claims;
   }
   
+  /**
+   * Check each claim's originalQuote against the text of the item it was
+   * extracted from. Unverified quotes are flagged on the claim, or the claim
+   * is dropped when dropUnverifiedQuotes is set.
+   */
+  private verifyStage(content: FilteredContent[], claims: ExtractedClaim[]): ExtractedClaim[] {
+    const textByRef = new Map<string | number, string>();
+    for (const item of content) {
+      const text = item.content || (item as any).content_text || '';
+      if (item.url) textByRef.set(item.url, text);
+      if ((item as any).id != null) textByRef.set((item as any).id, text);
+    }
+
+    const verified = claims.map(claim => verifyClaimQuote(
+      claim,
+      (claim.sourceUrl ? textByRef.get(claim.sourceUrl) : undefined) ??
+        (claim.contentId != null ? textByRef.get(claim.contentId) : undefined)
+    ));
+
+    const unverified = verified.filter(c => c.quoteVerified === false);
+    if (unverified.length > 0) {
+      console.warn(`${unverified.length} claims have quotes not found in their source${this.dropUnverifiedQuotes ? ' (dropped)' : ''}`);
+    }
+
+    return this.dropUnverifiedQuotes ? verified.filter(c => c.quoteVerified !== false) : verified;
+  }
+
   // ============================================================================
   // STAGE 3: ENRICH
   // ============================================================================
@@ -397,8 +813,74 @@ export class AIIntelOrchestrator {
         }
       }));
     }
+
+    await this.relateClaims(claims);
     return claims;
   }
+
+  /**
+   * Compare each embedded claim with its nearest stored claims and classify
+   * every close pair as supporting, contradicting or unrelated. Pairs are
+   * judged by the model in batches when skills are enabled; the stance
+   * heuristic always contributes. Results land on claim.relations and become
+   * edges in storeResults.
+   */
+  private async relateClaims(claims: ExtractedClaim[]): Promise<void> {
+    const pairs: {
+      pairId: string;
+      claim: RelatedClaim;
+      neighbour: { id: string; claimText: string; author?: string; stance?: string; bullishness?: number };
+      similarity: number;
+    }[] = [];
+
+    for (const claim of claims as RelatedClaim[]) {
+      if (!claim.embedding) continue;
+      try {
+        const neighbours = await this.claimStore.findSimilar(claim.embedding, {
+          limit: RELATION_NEIGHBOURS,
+          minSimilarity: RELATION_MIN_SIMILARITY
+        });
+        for (const { claim: neighbour, similarity } of neighbours) {
+          pairs.push({
+            pairId: `pair_${pairs.length}`,
+            claim,
+            neighbour: {
+              id: neighbour.id!,
+              claimText: neighbour.claimText || (neighbour as any).claim_text,
+              author: neighbour.author,
+              stance: neighbour.stance,
+              bullishness: neighbour.bullishness
+            },
+            similarity
+          });
+        }
+      } catch (e) {
+        console.warn(`Failed to find neighbours for claim: ${e}`);
+      }
+    }
+
+    if (pairs.length === 0) return;
+
+    const judgements = new Map<string, any>();
+    if (this.useSkills) {
+      const BATCH_SIZE = 20;
+      for (let i = 0; i < pairs.length; i += BATCH_SIZE) {
+        const result = await this.agent.classifyClaimRelations(pairs.slice(i, i + BATCH_SIZE));
+        for (const judgement of result.judgements || []) {
+          judgements.set(judgement.pairId, judgement);
+        }
+      }
+    }
+
+    for (const pair of pairs) {
+      const relation = classifyRelation(
+        judgements.get(pair.pairId),
+        stanceHeuristic(pair.claim, pair.neighbour),
+        { targetClaimId: pair.neighbour.id, similarity: pair.similarity }
+      );
+      pair.claim.relations = [...(pair.claim.relations ?? []), relation];
+    }
+  }
   
   // ============================================================================
   // STAGE 4: STORE
@@ -406,7 +888,9 @@ export class AIIntelOrchestrator {
   
   private async storeResults(
     filtered: FilteredContent[],
-    claims: ExtractedClaim[]
+    claims: ExtractedClaim[],
+    hints: Map<FilteredContent, any[]> = new Map(),
+    argumentMaps: Map<FilteredContent, any> = new Map()
   ): Promise<void> {
     // Content and claims are written together in a single transaction so a
     // mid-batch failure can't leave content marked processed without its claims
@@ -420,6 +904,8 @@ export class AIIntelOrchestrator {
       // a sourceUrl rather than a numeric contentId.
       const contentIdMap = new Map<string, number>();
       const urlToContentId = new Map<string, number>();
+      const publishedAtByContentId = new Map<number, Date>();
+      const contentIdByItem = new Map<FilteredContent, number>();
       const processedIds: number[] = [];
 
       // First, store all content and collect their database IDs
@@ -431,6 +917,9 @@ export class AIIntelOrchestrator {
           const externalId = anyItem.external_id || `${item.source}_${item.publishedAt.getTime()}`;
           contentIdMap.set(externalId, anyItem.id);
           if (item.url) urlToContentId.set(item.url, anyItem.id);
+          const publishedAt = item.publishedAt ?? anyItem.published_at;
+          if (publishedAt) publishedAtByContentId.set(anyItem.id, new Date(publishedAt));
+          contentIdByItem.set(item, anyItem.id);
           processedIds.push(anyItem.id);
           continue;
         }
@@ -456,6 +945,8 @@ export class AIIntelOrchestrator {
         }, client);
         contentIdMap.set(externalId, contentId);
         if (item.url) urlToContentId.set(item.url, contentId);
+        publishedAtByContentId.set(contentId, item.publishedAt);
+        contentIdByItem.set(item, contentId);
         processedIds.push(contentId);
       }
 
@@ -467,6 +958,8 @@ export class AIIntelOrchestrator {
       // The set of content IDs actually stored in this batch. A claim may only
       // be attributed to one of these.
       const validContentIds = new Set(contentIdMap.values());
+      const storedPredictions: { claimId: string; contentId: number; claim: ExtractedClaim }[] = [];
+      const claimIdsByContentId = new Map<number, string[]>();
 
       // Now store claims with proper contentId references
       for (const claim of claims) {
@@ -487,7 +980,8 @@ export class AIIntelOrchestrator {
           continue;
         }
 
-        await this.claimStore.upsert({
+        const relations = (claim as RelatedClaim).relations ?? [];
+        const claimId = await this.claimStore.upsert({
           contentId,
           claimText: claim.claimText,
           claimType: claim.claimType,
@@ -501,11 +995,99 @@ export class AIIntelOrchestrator {
           quoteworthiness: claim.quoteworthiness,
           relatedTo: claim.relatedTo,
           originalQuote: claim.originalQuote,
+          chunkIndex: claim.chunkIndex,
+          quoteStart: claim.quoteStart,
+          quoteEnd: claim.quoteEnd,
+          quoteVerified: claim.quoteVerified,
+          quoteMatchScore: claim.quoteMatchScore,
           author: claim.author,
           authorCategory: claim.authorCategory,
           sourceUrl: claim.sourceUrl,
           extractedAt: claim.extractedAt,
+          // Stored so later batches can find this claim as a neighbour
+          embedding: (claim as RelatedClaim).embedding,
+          relatedClaims: relations.map(r => r.targetClaimId),
+          potentialContradictions: relations.filter(r => r.relation === 'contradicts').map(r => r.targetClaimId),
         } as EnrichedClaim, client);
+
+        for (const relation of relations.filter(isStoredRelation)) {
+          await this.claimStore.addEdge({
+            sourceClaimId: claimId,
+            targetClaimId: relation.targetClaimId,
+            relation: relation.relation as 'supports' | 'contradicts',
+            confidence: relation.confidence,
+            similarity: relation.similarity,
+            method: relation.method,
+            rationale: relation.rationale,
+          }, client);
+        }
+
+        claimIdsByContentId.set(contentId, [...(claimIdsByContentId.get(contentId) ?? []), claimId]);
+
+        if (claim.claimType === 'prediction') {
+          storedPredictions.push({ claimId, contentId, claim });
+        }
+      }
+
+      // Every prediction claim enters the ledger in the same transaction, so a
+      // prediction row never exists without the claim it links back to.
+      if (storedPredictions.length > 0) {
+        const authors = await this.contentStore.getSourceIdentifiers(
+          [...new Set(storedPredictions.map(p => p.contentId))],
+          client
+        );
+
+        for (const { claimId, contentId, claim } of storedPredictions) {
+          await this.predictionTracker.record(predictionFromClaim(claim, {
+            claimId,
+            author: authors.get(contentId) || claim.author || 'unknown',
+            madeAt: publishedAtByContentId.get(contentId) ?? claim.extractedAt ?? new Date(),
+          }), client);
+        }
+      }
+
+      // Hints reference the content they were detected in, so they can only be
+      // stored once that content has an ID.
+      const hintContentIds = [...hints.keys()]
+        .map(item => contentIdByItem.get(item))
+        .filter((id): id is number => id !== undefined);
+      if (hintContentIds.length > 0) {
+        const authors = await this.contentStore.getSourceIdentifiers(hintContentIds, client);
+
+        for (const [item, detections] of hints) {
+          const contentId = contentIdByItem.get(item);
+          if (contentId === undefined) continue;
+
+          for (const detection of detections) {
+            const hint = hintFromDetection(detection, {
+              contentId,
+              author: authors.get(contentId) || item.author || 'unknown',
+              madeAt: publishedAtByContentId.get(contentId) ?? new Date(),
+            });
+            if (hint) await this.hintStore.record(hint, client);
+          }
+        }
+      }
+
+      // Argument maps link to the claims extracted from the same content.
+      const argumentContentIds = [...argumentMaps.keys()]
+        .map(item => contentIdByItem.get(item))
+        .filter((id): id is number => id !== undefined);
+      if (argumentContentIds.length > 0) {
+        const authors = await this.contentStore.getSourceIdentifiers(argumentContentIds, client);
+
+        for (const [item, result] of argumentMaps) {
+          const contentId = contentIdByItem.get(item);
+          if (contentId === undefined) continue;
+
+          const map = argumentMapFromResult(result, {
+            contentId,
+            author: authors.get(contentId) || item.author || 'unknown',
+            topic: item.topic || 'general',
+            claimIds: claimIdsByContentId.get(contentId) ?? [],
+          });
+          if (map) await this.argumentStore.upsert(map, client);
+        }
       }
 
       await client.query('COMMIT');
@@ -531,12 +1113,25 @@ export class AIIntelOrchestrator {
     return groups;
   }
 
+  /**
+   * Synthesize one topic from its claims, collapsed to one representative per
+   * cluster so repetition of the same idea doesn't crowd out distinct ones.
+   */
   private async synthesizeTopic(topic: string, claims: any[]): Promise<TopicSynthesis> {
-    const result = await this.agent.synthesize(claims, topic);
+    const distinct = collapseClusters(claims);
+
+    // Contradictions were classified at enrichment time; hand them to the
+    // synthesis instead of asking the model to rediscover them.
+    const contradictions = await this.claimStore.getEdges(
+      claims.map(c => c.id).filter(Boolean),
+      'contradicts'
+    );
+    const result = await this.agent.synthesize(distinct, topic, contradictions);
 
     return {
       topic,
-      claimCount: claims.length, // Include for balanced digest coverage
+      claimCount: distinct.length,
+      mentionCount: claims.length,
       labConsensus: result.labConsensus || '',
       criticConsensus: result.criticConsensus || '',
       agreements: result.agreements || [],
@@ -549,15 +1144,43 @@ export class AIIntelOrchestrator {
     };
   }
   
-  private async generateHypeAssessment(syntheses: TopicSynthesis[]): Promise<HypeAssessment> {
-    const result = await this.agent.useSkill('hype-assessment', { syntheses });
-    
+  /**
+   * Hype assessment across topics. When the skill's output can't be validated
+   * the assessment is derived from the topics' own hype deltas rather than
+   * defaulted to a neutral 0.5. Paper reception, where there is any, is
+   * given to the skill and quoted in the derived reasoning.
+   */
+  private async generateHypeAssessment(
+    syntheses: TopicSynthesis[],
+    reception?: PaperReception
+  ): Promise<HypeAssessment> {
+    const withReception = reception && reception.topics.length > 0 ? reception : undefined;
+    const result = await this.agent.assessHype(syntheses, withReception);
+    if (result) return result;
+
+    const score = (s: TopicSynthesis): TopicHypeScore => {
+      const topicReception = withReception?.topics.find(t => t.topic === s.topic);
+      const papers = topicReception
+        ? describeReception(topicReception, withReception!.overallMedianReviewScore)
+        : null;
+      return {
+        topic: s.topic,
+        score: s.hypeDelta.delta,
+        reasoning: `Lab sentiment ${s.hypeDelta.labSentiment.toFixed(2)} vs critic sentiment ${s.hypeDelta.criticSentiment.toFixed(2)}` +
+          (papers ? `; papers: ${papers}` : ''),
+        keyEvidence: []
+      };
+    };
+    const sentiments = syntheses.map(s => (s.hypeDelta.labSentiment + s.hypeDelta.criticSentiment) / 2);
+
     return {
-      overhypedTopics: result.overhypedTopics || [],
-      underhypedTopics: result.underhypedTopics || [],
-      accuratelyAssessedTopics: result.accuratelyAssessedTopics || [],
-      overallFieldSentiment: result.overallFieldSentiment ?? 0.5,
-      summary: result.summary || ''
+      overhypedTopics: syntheses.filter(s => s.hypeDelta.delta > 0.2).map(score),
+      underhypedTopics: syntheses.filter(s => s.hypeDelta.delta < -0.2).map(score),
+      accuratelyAssessedTopics: syntheses.filter(s => Math.abs(s.hypeDelta.delta) <= 0.2).map(score),
+      overallFieldSentiment: sentiments.length > 0
+        ? sentiments.reduce((a, b) => a + b, 0) / sentiments.length
+        : 0.5,
+      summary: 'Hype assessment unavailable; derived from per-topic hype deltas.'
     };
   }
   
@@ -595,6 +1218,15 @@ export class AIIntelOrchestrator {
 // ============================================================================
 
 export { AIIntelAgent, GLMClient, ZAI_CONFIG } from './agent-sdk-wrapper';
-export { ContentStore, ClaimStore, SynthesisStore } from './storage';
+export {
+  ContentStore,
+  ClaimStore,
+  SynthesisStore,
+  PredictionTracker,
+  PredictionResolutionQueue,
+  HintStore,
+  ArgumentStore,
+  PaperStore
+} from './storage';
 export { EmbeddingService } from './embeddings';
 export { AIIntelFetcher, seedSources } from './fetcher';
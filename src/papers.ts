@@ -0,0 +1,282 @@
+/**
+ * Paper Reception
+ *
+ * An arXiv abstract says nothing about how a paper was received. Each arXiv
+ * item is looked up in Semantic Scholar (citations, venue) and OpenReview
+ * (review scores, decision), and every lookup is stored as a time-stamped
+ * snapshot so reception can be followed as citations accrue and reviews land.
+ * The hype assessment compares how papers labs promoted were reviewed with
+ * how papers were reviewed overall.
+ *
+ * The metadata clients sit behind PaperMetadataClient so the orchestrator can
+ * be given other implementations (e.g. in tests).
+ */
+
+import type { ContentCategory } from './types';
+import { rateLimitedFetch } from './ratelimit';
+
+/** Re-check a paper's reception at most this often */
+export const PAPER_REFRESH_DAYS = 7;
+
+/** Papers older than this are no longer re-checked */
+export const PAPER_MAX_AGE_DAYS = 365;
+
+/** Source categories whose content counts as a lab promoting a paper */
+export const LAB_CATEGORIES: ContentCategory[] = [
+  'anthropic', 'openai', 'deepmind', 'meta', 'xai', 'mistral', 'cohere',
+  'huggingface', 'ai2', 'nvidia', 'stability', 'together', 'reka'
+];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PaperMetadataSource = 'semantic-scholar' | 'openreview';
+
+/** The paper to look up: an arXiv content item */
+export interface PaperRef {
+  contentId: number;
+  arxivId: string;
+  title: string;
+}
+
+/** What one metadata source knows about a paper at lookup time */
+export interface PaperRecord {
+  externalId: string;
+  url?: string;
+  citationCount?: number;
+  influentialCitationCount?: number;
+  venue?: string;
+  reviewScores?: number[];
+  decision?: string;
+}
+
+export interface PaperMetadataClient {
+  readonly source: PaperMetadataSource;
+  /** The paper's record, or null when the source doesn't have it */
+  lookup(paper: PaperRef): Promise<PaperRecord | null>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** arXiv id without its version suffix: 2610.11873v2 -> 2610.11873 */
+export function arxivBaseId(id: string): string {
+  return id.replace(/v\d+$/, '');
+}
+
+/** Title comparison key: lowercase letters and digits only */
+export function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+/**
+ * Numeric review rating. OpenReview venues record it either as a number or
+ * as a string like "6: marginally above the acceptance threshold".
+ */
+export function parseReviewScore(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const match = value.match(/^\s*(-?\d+(?:\.\d+)?)/);
+  return match ? Number(match[1]) : null;
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+// ============================================================================
+// SEMANTIC SCHOLAR
+// ============================================================================
+
+export class SemanticScholarClient implements PaperMetadataClient {
+  readonly source = 'semantic-scholar' as const;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(config: { baseUrl?: string; apiKey?: string } = {}) {
+    this.baseUrl = config.baseUrl || 'https://api.semanticscholar.org/graph/v1';
+    this.apiKey = config.apiKey ?? process.env.SEMANTIC_SCHOLAR_API_KEY;
+  }
+
+  async lookup(paper: PaperRef): Promise<PaperRecord | null> {
+    const fields = 'paperId,url,venue,citationCount,influentialCitationCount';
+    const response = await rateLimitedFetch(
+      `${this.baseUrl}/paper/arXiv:${arxivBaseId(paper.arxivId)}?fields=${fields}`,
+      { headers: this.apiKey ? { 'x-api-key': this.apiKey } : {} }
+    );
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Semantic Scholar API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return {
+      externalId: data.paperId,
+      url: data.url,
+      citationCount: data.citationCount ?? undefined,
+      influentialCitationCount: data.influentialCitationCount ?? undefined,
+      venue: data.venue || undefined,
+    };
+  }
+}
+
+// ============================================================================
+// OPENREVIEW
+// ============================================================================
+
+interface OpenReviewNote {
+  id: string;
+  forum: string;
+  invitations?: string[];
+  content: Record<string, { value?: unknown } | undefined>;
+}
+
+/**
+ * OpenReview doesn't index arXiv ids, so papers are found by title: the
+ * forum whose title matches exactly (ignoring case and punctuation).
+ */
+export class OpenReviewClient implements PaperMetadataClient {
+  readonly source = 'openreview' as const;
+  private baseUrl: string;
+
+  constructor(config: { baseUrl?: string } = {}) {
+    this.baseUrl = config.baseUrl || 'https://api2.openreview.net';
+  }
+
+  async lookup(paper: PaperRef): Promise<PaperRecord | null> {
+    const params = new URLSearchParams({
+      term: paper.title,
+      type: 'terms',
+      content: 'all',
+      source: 'forum',
+      limit: '10',
+    });
+    const { notes } = await this.getJson<{ notes: OpenReviewNote[] }>(`/notes/search?${params}`);
+
+    const title = normalizeTitle(paper.title);
+    const forum = notes.find(note => normalizeTitle(String(note.content.title?.value ?? '')) === title);
+    if (!forum) return null;
+
+    const { notes: replies } = await this.getJson<{ notes: OpenReviewNote[] }>(
+      `/notes?forum=${encodeURIComponent(forum.id)}&limit=1000`
+    );
+    const byInvitation = (suffix: string) =>
+      replies.filter(note => note.invitations?.some(invitation => invitation.endsWith(suffix)));
+
+    const reviewScores = byInvitation('/-/Official_Review')
+      .map(review => parseReviewScore(review.content.rating?.value))
+      .filter((score): score is number => score !== null);
+    const decision = byInvitation('/-/Decision')[0]?.content.decision?.value;
+
+    return {
+      externalId: forum.id,
+      url: `https://openreview.net/forum?id=${forum.id}`,
+      venue: typeof forum.content.venue?.value === 'string' ? forum.content.venue.value : undefined,
+      reviewScores,
+      decision: typeof decision === 'string' ? decision : undefined,
+    };
+  }
+
+  private async getJson<T>(path: string): Promise<T> {
+    const response = await rateLimitedFetch(`${this.baseUrl}${path}`);
+    if (!response.ok) {
+      throw new Error(`OpenReview API error: ${response.status}`);
+    }
+    return response.json() as Promise<T>;
+  }
+}
+
+// ============================================================================
+// RECEPTION SUMMARY
+// ============================================================================
+
+/** One paper with claims in the period, and its latest reception */
+export interface PaperReceptionRow {
+  contentId: number;
+  topic: string;
+  meanReviewScore: number | null;
+  decision: string | null;
+  citationCount: number | null;
+  /** Lab-source items linking to the paper */
+  labMentions: number;
+}
+
+export interface TopicReception {
+  topic: string;
+  papers: number;
+  reviewedPapers: number;
+  medianReviewScore: number | null;
+  accepted: number;
+  rejected: number;
+  medianCitations: number | null;
+  labPromotedPapers: number;
+  labPromotedReviewed: number;
+  /** Lab-promoted papers scored below the median across all reviewed papers */
+  labPromotedBelowMedian: number;
+}
+
+export interface PaperReception {
+  overallMedianReviewScore: number | null;
+  topics: TopicReception[];
+}
+
+/**
+ * Per-topic reception of the period's papers. "Below median" is measured
+ * against every reviewed paper in the period, so topics are comparable.
+ */
+export function summarizeReception(rows: PaperReceptionRow[]): PaperReception {
+  const scored = (list: PaperReceptionRow[]) =>
+    list.map(r => r.meanReviewScore).filter((s): s is number => s !== null);
+  const overallMedian = median(scored(rows));
+
+  const byTopic = new Map<string, PaperReceptionRow[]>();
+  for (const row of rows) {
+    byTopic.set(row.topic, [...(byTopic.get(row.topic) ?? []), row]);
+  }
+
+  const topics = [...byTopic.entries()].map(([topic, papers]) => {
+    const promoted = papers.filter(p => p.labMentions > 0);
+    const promotedScores = scored(promoted);
+    return {
+      topic,
+      papers: papers.length,
+      reviewedPapers: scored(papers).length,
+      medianReviewScore: median(scored(papers)),
+      accepted: papers.filter(p => /accept/i.test(p.decision ?? '')).length,
+      rejected: papers.filter(p => /reject/i.test(p.decision ?? '')).length,
+      medianCitations: median(papers.map(p => p.citationCount).filter((c): c is number => c !== null)),
+      labPromotedPapers: promoted.length,
+      labPromotedReviewed: promotedScores.length,
+      labPromotedBelowMedian: overallMedian === null ? 0 : promotedScores.filter(s => s < overallMedian).length,
+    };
+  });
+
+  return {
+    overallMedianReviewScore: overallMedian,
+    topics: topics.sort((a, b) => b.papers - a.papers),
+  };
+}
+
+/** One-line description of a topic's reception, for assessment reasoning */
+export function describeReception(reception: TopicReception, overallMedian: number | null): string | null {
+  if (reception.reviewedPapers === 0 && reception.medianCitations === null) return null;
+
+  const parts = [`${reception.papers} papers`];
+  if (reception.reviewedPapers > 0) {
+    parts.push(`median review score ${reception.medianReviewScore!.toFixed(1)}` +
+      (overallMedian !== null ? ` (all topics ${overallMedian.toFixed(1)})` : ''));
+  }
+  if (reception.labPromotedReviewed > 0) {
+    parts.push(`${reception.labPromotedBelowMedian} of ${reception.labPromotedReviewed} reviewed lab-promoted papers below median`);
+  }
+  if (reception.medianCitations !== null) {
+    parts.push(`median ${reception.medianCitations} citations`);
+  }
+  return parts.join(', ');
+}
@@ -0,0 +1,234 @@
+/**
+ * Prediction Ledger
+ *
+ * Turns extracted prediction claims into tracked predictions with a concrete
+ * target date, so they can later be resolved against what actually happened.
+ * Resolution is model-assisted but human-approved: assessments become
+ * proposals in the review queue (see PredictionResolutionQueue).
+ */
+
+import type { Timeframe, PredictionStatus } from './types';
+import type { Prediction, PredictionResolution } from './storage';
+
+// ============================================================================
+// TARGET DATES
+// ============================================================================
+
+/**
+ * How far past the publish date a prediction is considered due, by timeframe.
+ * Each horizon is the upper bound of its band (see Timeframe in types.ts).
+ * Predictions without a stated timeframe get the medium-term midpoint so they
+ * still come up for review rather than staying pending forever.
+ */
+export const TIMEFRAME_HORIZON_MONTHS: Record<Exclude<Timeframe, null>, number> = {
+  'near-term': 12,
+  'medium-term': 36,
+  'long-term': 120,
+  'unspecified': 24,
+};
+
+export function deriveTargetDate(timeframe: Timeframe | string | undefined, madeAt: Date): Date {
+  const months =
+    TIMEFRAME_HORIZON_MONTHS[timeframe as Exclude<Timeframe, null>] ??
+    TIMEFRAME_HORIZON_MONTHS.unspecified;
+
+  const target = new Date(madeAt.getTime());
+  target.setUTCMonth(target.getUTCMonth() + months);
+  return target;
+}
+
+// ============================================================================
+// CLAIM → PREDICTION
+// ============================================================================
+
+export function predictionFromClaim(
+  claim: {
+    claimText: string;
+    confidence: number;
+    timeframe?: Timeframe | string;
+    topic: string;
+  },
+  context: {
+    claimId: string;
+    author: string;
+    madeAt: Date;
+  }
+): Prediction {
+  const timeframe = claim.timeframe || 'unspecified';
+
+  return {
+    claimId: context.claimId,
+    text: claim.claimText,
+    author: context.author,
+    confidence: claim.confidence,
+    timeframe,
+    topic: claim.topic,
+    madeAt: context.madeAt,
+    targetDate: deriveTargetDate(timeframe, context.madeAt),
+  };
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+export const PREDICTION_STATUSES: readonly PredictionStatus[] = [
+  'verified',
+  'falsified',
+  'partially-verified',
+  'too-early',
+  'unfalsifiable',
+  'ambiguous',
+];
+
+/**
+ * A later claim offered to the model as evidence for or against a prediction.
+ */
+export interface PredictionEvidence {
+  claimId: string;
+  text: string;
+  author?: string;
+  publishedAt?: Date;
+  sourceUrl?: string;
+  similarity: number;
+}
+
+/**
+ * Turn one model assessment into a proposal for the review queue. Returns null
+ * for assessments with an unknown status; evidence IDs are restricted to the
+ * evidence actually shown to the model.
+ */
+export function resolutionFromAssessment(
+  predictionId: string,
+  assessment: any,
+  evidence: PredictionEvidence[]
+): PredictionResolution | null {
+  if (!PREDICTION_STATUSES.includes(assessment?.status)) return null;
+
+  const score = typeof assessment.accuracyScore === 'number' ? assessment.accuracyScore : NaN;
+  const shownIds = new Set(evidence.map(e => e.claimId));
+  const citedIds: string[] = Array.isArray(assessment.evidenceClaimIds)
+    ? assessment.evidenceClaimIds.filter((id: unknown) => typeof id === 'string' && shownIds.has(id))
+    : [];
+
+  return {
+    predictionId,
+    proposedStatus: assessment.status,
+    accuracyScore: Number.isFinite(score) ? Math.min(1, Math.max(0, score)) : undefined,
+    evidenceSummary: typeof assessment.evidence === 'string' ? assessment.evidence : undefined,
+    evidenceClaimIds: citedIds,
+    notes: typeof assessment.notes === 'string' ? assessment.notes : undefined,
+  };
+}
+
+// ============================================================================
+// CALIBRATION
+// ============================================================================
+
+/**
+ * Statuses that count as resolved for calibration. too-early, unfalsifiable
+ * and ambiguous predictions say nothing about whether the author was right.
+ */
+export const RESOLVED_STATUSES: readonly PredictionStatus[] = [
+  'verified',
+  'falsified',
+  'partially-verified',
+];
+
+export type CalibrationGrouping = 'author' | 'authorCategory' | 'topic';
+
+export interface CalibrationBucket {
+  lower: number;
+  upper: number;
+  count: number;
+  meanConfidence: number;
+  observedRate: number;
+}
+
+export interface CalibrationReport {
+  group: string;
+  count: number;
+  brierScore: number;
+  logLoss: number;
+  meanConfidence: number;
+  observedRate: number;
+  overconfidence: number;       // meanConfidence - observedRate; > 0 = overconfident
+  buckets: CalibrationBucket[];
+}
+
+/**
+ * Outcome of a resolved prediction on a 0-1 scale. An explicit accuracy score
+ * wins; otherwise verified/falsified map to 1/0 and partial verification to 0.5.
+ */
+export function predictionOutcome(status: string, accuracyScore?: number | null): number | null {
+  if (!RESOLVED_STATUSES.includes(status as PredictionStatus)) return null;
+  if (typeof accuracyScore === 'number' && Number.isFinite(accuracyScore)) {
+    return Math.min(1, Math.max(0, accuracyScore));
+  }
+  if (status === 'verified') return 1;
+  if (status === 'falsified') return 0;
+  return 0.5;
+}
+
+// Confidence is clamped away from 0 and 1 so a single certain miss can't make
+// log loss infinite.
+const LOG_LOSS_EPSILON = 0.01;
+const BUCKET_COUNT = 10;
+
+export function computeCalibration(
+  group: string,
+  resolved: { confidence: number; outcome: number }[]
+): CalibrationReport {
+  const rows = resolved.filter(r => Number.isFinite(r.confidence) && Number.isFinite(r.outcome));
+  const n = rows.length;
+
+  if (n === 0) {
+    return {
+      group,
+      count: 0,
+      brierScore: 0,
+      logLoss: 0,
+      meanConfidence: 0,
+      observedRate: 0,
+      overconfidence: 0,
+      buckets: [],
+    };
+  }
+
+  let brier = 0;
+  let logLoss = 0;
+  let confidenceSum = 0;
+  let outcomeSum = 0;
+  const bucketRows: { confidence: number; outcome: number }[][] =
+    Array.from({ length: BUCKET_COUNT }, () => []);
+
+  for (const { confidence, outcome } of rows) {
+    const p = Math.min(1 - LOG_LOSS_EPSILON, Math.max(LOG_LOSS_EPSILON, confidence));
+    brier += (confidence - outcome) ** 2;
+    logLoss += -(outcome * Math.log(p) + (1 - outcome) * Math.log(1 - p));
+    confidenceSum += confidence;
+    outcomeSum += outcome;
+    bucketRows[Math.min(BUCKET_COUNT - 1, Math.floor(confidence * BUCKET_COUNT))].push({ confidence, outcome });
+  }
+
+  const buckets = bucketRows
+    .map((bucket, i) => ({
+      lower: i / BUCKET_COUNT,
+      upper: (i + 1) / BUCKET_COUNT,
+      count: bucket.length,
+      meanConfidence: bucket.reduce((s, r) => s + r.confidence, 0) / (bucket.length || 1),
+      observedRate: bucket.reduce((s, r) => s + r.outcome, 0) / (bucket.length || 1),
+    }))
+    .filter(bucket => bucket.count > 0);
+
+  return {
+    group,
+    count: n,
+    brierScore: brier / n,
+    logLoss: logLoss / n,
+    meanConfidence: confidenceSum / n,
+    observedRate: outcomeSum / n,
+    overconfidence: (confidenceSum - outcomeSum) / n,
+    buckets,
+  };
+}
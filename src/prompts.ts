@@ -6,6 +6,7 @@
  * - Claude Opus 4.5: Nuanced extraction, synthesis (higher reasoning)
  */
 
+import { filterSample, quotedContext } from './extraction';
 import type { RawContent, FilteredContent, TopicSynthesis, HypeAssessment } from './types';
 
 // ============================================================================
@@ -22,7 +23,7 @@ ${items.map((item, idx) => `
 - **Author**: ${item.author}
 - **Published**: ${item.publishedAt}
 - **Content**:
-${item.content?.slice(0, 2000) || '[No content]'}
+${filterSample(item) || '[No content]'}
 `).join('\n---\n')}
 
 ## Your Task
@@ -92,6 +93,8 @@ Return JSON only:
 // EXTRACTION PROMPTS (Claude Opus 4.5)
 // ============================================================================
 
+const QUOTED_LABELS = { quote: 'Quoted', retweet: 'Retweeted', parent: 'Replying to' } as const;
+
 export const CLAIM_EXTRACTION_PROMPT = (items: FilteredContent[]) => `You are an expert analyst extracting structured intelligence from AI research content. Your goal is to identify and structure claims, predictions, hints, and opinions.
 
 ## Content to Analyze
@@ -104,7 +107,9 @@ ${items.map((item, idx) => `
 - **Published**: ${item.publishedAt}
 - **Full Content**:
 ${item.content}
-`).join('\n---\n')}
+${quotedContext(item).map(q => `- **${QUOTED_LABELS[q.kind]} @${q.author}** (context, not the author's words):
+${q.text}
+`).join('')}`).join('\n---\n')}
 
 ## Extraction Guidelines
 
@@ -200,7 +205,8 @@ Return JSON only:
 - A tweet saying "Interesting paper" is NOT a claim
 - Look for IMPLICIT claims too ("We've made a lot of progress" implies capability gains)
 - Pay attention to who is speaking - lab researchers hinting at their own work is high signal
-- Critics often make claims by contradiction ("X is wrong, therefore Y")`;
+- Critics often make claims by contradiction ("X is wrong, therefore Y")
+- Quoted, retweeted and replied-to posts are someone else's words: never attribute their claims to the author unless the author's own text states or endorses them`;
 
 // ============================================================================
 // SYNTHESIS PROMPTS (Claude Opus 4.5)
@@ -403,11 +409,16 @@ export const PREDICTION_TRACKING_PROMPT = (predictions: any[]) => `You are track
 ## Predictions to Evaluate
 
 ${predictions.map(p => `
-### Prediction by ${p.author} (${p.madeAt})
+### Prediction ${p.id} by ${p.author} (${p.madeAt})
 "${p.text}"
-- **Timeframe**: ${p.timeframe}
+- **Timeframe**: ${p.timeframe}${p.targetDate ? ` (due ${p.targetDate})` : ''}
 - **Original confidence**: ${p.confidence}
 - **Topic**: ${p.topic}
+
+**Evidence published since the prediction was made:**
+${p.evidence?.length
+  ? p.evidence.map((e: any) => `- [${e.claimId}] ${e.author || 'Unknown'} (${e.publishedAt}): ${e.text}`).join('\n')
+  : '- No related content found'}
 `).join('\n---\n')}
 
 ## Your Task
@@ -422,13 +433,30 @@ For each prediction, assess:
    - unfalsifiable: Cannot be objectively assessed
    - ambiguous: Prediction was too vague to evaluate
 
-2. **evidence**: What evidence supports your assessment?
+2. **evidence**: What evidence supports your assessment? Base this on the evidence listed above and cite claim IDs where relevant.
 
 3. **accuracyScore**: If verifiable, how accurate was it? (0.0-1.0)
 
-4. **notes**: Any relevant context
+4. **evidenceClaimIds**: IDs of the evidence items your assessment relies on
+
+5. **notes**: Any relevant context
+
+## Response Format
+
+Return JSON only:
 
-Return JSON array of assessments.`;
+{
+  "assessments": [
+    {
+      "predictionId": "pred_...",
+      "status": "partially-verified",
+      "accuracyScore": 0.6,
+      "evidence": "Summary of what happened",
+      "evidenceClaimIds": ["claim_..."],
+      "notes": "..."
+    }
+  ]
+}`;
 
 export const ARGUMENT_MAPPING_PROMPT = (criticContent: any) => `You are mapping the argument structure of an AI critic's position.
 
@@ -456,7 +484,55 @@ Extract the logical structure:
 
 7. **steelmanResponse**: What would a strong response from the other side look like?
 
-Return as structured JSON.`;
+State each premise as a single self-contained sentence, in the critic's terms,
+so it can be quoted on its own.
+
+## Output Format
+
+Return JSON only:
+{
+  "mainThesis": "...",
+  "premises": ["...", "..."],
+  "evidence": ["..."],
+  "targetClaims": ["..."],
+  "concessions": ["..."],
+  "weaknesses": ["..."],
+  "steelmanResponse": "..."
+}`;
+
+export const CLAIM_RELATION_PROMPT = (pairs: any[]) => `You are judging how pairs of AI research claims relate to each other.
+
+Each pair has a NEW claim and an EARLIER claim that is semantically similar.
+Decide, in the sense of natural language inference, whether the new claim:
+
+- **supports**: agrees with or strengthens the earlier claim
+- **contradicts**: asserts the opposite, or cannot be true if the earlier one is
+- **unrelated**: is about something different, or is compatible without agreeing
+
+Similar wording is not agreement: "reasoning will plateau" and "reasoning will
+not plateau" are similar but contradict. Differences in degree ("soon" vs.
+"within a decade") contradict only if both can't hold.
+
+## Pairs
+
+${pairs.map(p => `### ${p.pairId}
+NEW (${p.claim.author || 'unknown'}, ${p.claim.stance || 'neutral'}): ${p.claim.claimText}
+EARLIER (${p.neighbour.author || 'unknown'}, ${p.neighbour.stance || 'neutral'}): ${p.neighbour.claimText}
+`).join('\n')}
+
+## Output Format
+
+Return JSON only, one judgement per pair:
+{
+  "judgements": [
+    {
+      "pairId": "...",
+      "relation": "supports" | "contradicts" | "unrelated",
+      "confidence": 0.0-1.0,
+      "rationale": "One sentence"
+    }
+  ]
+}`;
 
 export const HINT_DETECTION_PROMPT = (content: any) => `You are detecting hints about unreleased AI research or capabilities.
 
@@ -486,7 +562,48 @@ For each detected hint:
 4. **timeframe**: When might this be revealed?
 5. **domain**: What area of AI (reasoning, multimodal, safety, etc.)
 
-Return JSON array. Return empty array if no credible hints detected.`;
+Describe impliedCapability concretely enough to recognize the paper or
+announcement that would confirm it (e.g. "agent that completes multi-day
+software tasks unattended", not "better agents").
+
+## Output Format
+
+Return JSON only:
+{
+  "hints": [
+    {
+      "hintText": "...",
+      "impliedCapability": "...",
+      "confidence": 0.6,
+      "timeframe": "...",
+      "domain": "..."
+    }
+  ]
+}
+
+Return {"hints": []} if no credible hints detected.`;
+
+// ============================================================================
+// OUTPUT REPAIR
+// ============================================================================
+
+export const OUTPUT_REPAIR_PROMPT = (output: string, errors: string[]) => `Your previous response did not match the required JSON format.
+
+## Your Previous Response
+
+${output.slice(0, 20000)}
+
+## Validation Errors
+
+${errors.map(e => `- ${e}`).join('\n')}
+
+## Your Task
+
+Return the same content as corrected JSON that fixes every error above. Use
+only the allowed values for enum fields and keep numbers within their ranges.
+Don't drop items that were already valid, and don't add new ones.
+
+Return JSON only, no markdown or explanation.`;
 
 export default {
   FILTER_PROMPT,
@@ -496,5 +613,7 @@ export default {
   DIGEST_PROMPT,
   PREDICTION_TRACKING_PROMPT,
   ARGUMENT_MAPPING_PROMPT,
-  HINT_DETECTION_PROMPT
+  CLAIM_RELATION_PROMPT,
+  HINT_DETECTION_PROMPT,
+  OUTPUT_REPAIR_PROMPT
 };
@@ -0,0 +1,131 @@
+/**
+ * Quote Verification
+ *
+ * Extracted claims carry an originalQuote, but the model can paraphrase or
+ * invent one. After extraction each quote is fuzzy-matched against the text
+ * of the content it was attributed to. Matching aligns word tokens in order,
+ * so whitespace, punctuation and curly-vs-straight quote characters don't
+ * matter but reordered or negated wording does. Claims whose quotes can't be
+ * found are flagged, or dropped when the orchestrator is configured to.
+ */
+
+import type { ExtractedClaim } from './types';
+
+/**
+ * Share of the quote's words that must line up, in order, with the
+ * best-matching span of the source text for the quote to count as verified.
+ */
+export const QUOTE_MATCH_THRESHOLD = 0.85;
+
+export interface QuoteMatch {
+  verified: boolean;
+  score: number;
+  start?: number;
+  end?: number;
+}
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Words that flip a sentence's meaning. "t" is the tail of n't contractions,
+// which tokenize as "don" + "t".
+const NEGATIONS = new Set(['not', 'no', 'never', 'nor', 'neither', 'none', 'nothing', 'nobody', 'cannot', 't']);
+
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), m => ({
+    word: m[0].toLowerCase(),
+    start: m.index!,
+    end: m.index! + m[0].length,
+  }));
+}
+
+function negations(words: string[]): number {
+  return words.filter(word => NEGATIONS.has(word)).length;
+}
+
+/**
+ * Find the span of the text that best matches the quote. The quote is
+ * aligned word by word against every span of the text (edit distance with a
+ * free start and end in the text), so reordered words cost edits where a
+ * bag-of-words overlap would not. The score is the share of the quote's
+ * words not edited. A span that differs from the quote in its negations
+ * ("will" vs "won't", an added "not") is never verified, however close.
+ */
+export function matchQuote(text: string, quote: string): QuoteMatch {
+  const needle = tokenize(quote).map(t => t.word);
+  const haystack = tokenize(text);
+  const n = needle.length;
+  if (n === 0 || haystack.length === 0) return { verified: false, score: 0 };
+
+  // One column per text word: distance[i] is the fewest edits aligning the
+  // quote's first i words with a span ending at this word, which starts at
+  // origin[i]. An empty quote prefix matches anywhere for free.
+  let distance = Array.from({ length: n + 1 }, (_, i) => i);
+  let origin = new Array<number>(n + 1).fill(0);
+  let best = { distance: n, start: 0, end: 0 };
+
+  for (let j = 0; j < haystack.length; j++) {
+    const nextDistance = [0];
+    const nextOrigin = [j + 1];
+    origin[0] = j;
+
+    for (let i = 1; i <= n; i++) {
+      const substitute = distance[i - 1] + (needle[i - 1] === haystack[j].word ? 0 : 1);
+      const extraWord = distance[i] + 1;
+      const missingWord = nextDistance[i - 1] + 1;
+
+      if (substitute <= extraWord && substitute <= missingWord) {
+        nextDistance.push(substitute);
+        nextOrigin.push(origin[i - 1]);
+      } else if (extraWord <= missingWord) {
+        nextDistance.push(extraWord);
+        nextOrigin.push(origin[i]);
+      } else {
+        nextDistance.push(missingWord);
+        nextOrigin.push(nextOrigin[i - 1]);
+      }
+    }
+
+    if (nextDistance[n] < best.distance) {
+      best = { distance: nextDistance[n], start: Math.min(nextOrigin[n], j), end: j };
+    }
+    distance = nextDistance;
+    origin = nextOrigin;
+  }
+
+  const span = haystack.slice(best.start, best.end + 1);
+  const score = 1 - best.distance / n;
+  const sameNegations = negations(needle) === negations(span.map(t => t.word));
+  return {
+    verified: score >= QUOTE_MATCH_THRESHOLD && sameNegations,
+    score: Math.round(score * 1000) / 1000,
+    start: haystack[best.start].start,
+    end: haystack[best.end].end,
+  };
+}
+
+/**
+ * Verify a claim's quote against its source text. Claims without a quote are
+ * returned unchanged (quoteVerified stays undefined). A quote already located
+ * verbatim during extraction keeps its offsets; otherwise the best fuzzy
+ * match's span is recorded.
+ */
+export function verifyClaimQuote<T extends ExtractedClaim>(claim: T, sourceText: string | undefined): T {
+  if (!claim.originalQuote?.trim()) return claim;
+  if (claim.quoteStart != null && claim.quoteEnd != null) {
+    return { ...claim, quoteVerified: true, quoteMatchScore: 1 };
+  }
+  if (!sourceText) return { ...claim, quoteVerified: false, quoteMatchScore: 0 };
+
+  const match = matchQuote(sourceText, claim.originalQuote);
+  return {
+    ...claim,
+    quoteVerified: match.verified,
+    quoteMatchScore: match.score,
+    quoteStart: match.verified ? match.start : undefined,
+    quoteEnd: match.verified ? match.end : undefined,
+  };
+}
@@ -0,0 +1,235 @@
+/**
+ * Rate Limiting
+ *
+ * Every outbound HTTP request (source adapters, remote embedding providers,
+ * GLM) goes through one limiter: a token bucket per provider host, so
+ * requests to the same provider are spaced however many sources, fetch runs
+ * or embedding batches are in flight, while different providers proceed
+ * concurrently. The local Ollama server isn't a provider and isn't limited.
+ *
+ * Responses with 429 or 5xx are retried with jittered exponential backoff;
+ * a Retry-After header is honoured and, on 429, pauses the whole host. Each
+ * host's requests, waits and retries are counted in its metrics.
+ *
+ * Policies come from RATE_LIMIT_CONFIG.providers, keyed by host name, and
+ * can be overridden with RATE_LIMITS, a JSON object of the same shape:
+ *   RATE_LIMITS='{"api.twitterapi.io": {"requestsPerSecond": 3, "burst": 1}}'
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ProviderPolicy {
+  /** Sustained request rate */
+  requestsPerSecond: number;
+  /** Requests that can go out back to back after an idle spell */
+  burst: number;
+}
+
+export interface ProviderMetrics {
+  requests: number;
+  /** Total time requests waited for a token or a Retry-After pause */
+  waitMs: number;
+  retries: number;
+  /** 429 responses */
+  rateLimited: number;
+  /** 5xx responses */
+  serverErrors: number;
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+function envPolicies(): Record<string, ProviderPolicy> {
+  if (!process.env.RATE_LIMITS) return {};
+  try {
+    return JSON.parse(process.env.RATE_LIMITS);
+  } catch {
+    console.warn('RATE_LIMITS is not valid JSON, ignoring it');
+    return {};
+  }
+}
+
+export const RATE_LIMIT_CONFIG = {
+  /** Hosts without a policy of their own (feeds, blogs, Mastodon instances) */
+  defaultPolicy: { requestsPerSecond: 2, burst: 4 } as ProviderPolicy,
+  providers: {
+    // TwitterAPI.io by credit tier (https://twitterapi.io/qps-limits):
+    // ≥50,000 credits = 20 QPS
+    'api.twitterapi.io': { requestsPerSecond: 20, burst: 1 },
+    // arXiv asks API clients to wait 3 seconds between requests
+    'export.arxiv.org': { requestsPerSecond: 1 / 3, burst: 1 },
+    'arxiv.org': { requestsPerSecond: 1 / 3, burst: 1 },
+    'www.lesswrong.com': { requestsPerSecond: 1, burst: 2 },
+    // 3,000 requests per 5 minutes per IP on the public AppView
+    'public.api.bsky.app': { requestsPerSecond: 5, burst: 10 },
+    // Unauthenticated clients get roughly 10 requests a minute
+    'www.reddit.com': { requestsPerSecond: 1 / 6, burst: 1 },
+    'api.github.com': { requestsPerSecond: 1, burst: 5 },
+    'hn.algolia.com': { requestsPerSecond: 5, burst: 10 },
+    'hacker-news.firebaseio.com': { requestsPerSecond: 5, burst: 10 },
+    // yt-dlp calls, which acquire a token without going through fetch
+    'www.youtube.com': { requestsPerSecond: 2, burst: 1 },
+    'api.semanticscholar.org': { requestsPerSecond: 1, burst: 1 },
+    'api2.openreview.net': { requestsPerSecond: 2, burst: 2 },
+    'api.openai.com': { requestsPerSecond: 50, burst: 20 },
+    'api.voyageai.com': { requestsPerSecond: 5, burst: 5 },
+    'api.z.ai': { requestsPerSecond: 5, burst: 5 },
+    ...envPolicies(),
+  } as Record<string, ProviderPolicy>,
+  /** Retries of a 429 or 5xx response before it's returned to the caller */
+  maxRetries: 3,
+  retryBaseMs: 1000,
+  /** A Retry-After longer than this isn't waited out; the response is returned */
+  retryMaxMs: 60_000,
+};
+
+export function policyFor(host: string): ProviderPolicy {
+  return RATE_LIMIT_CONFIG.providers[host] ?? RATE_LIMIT_CONFIG.defaultPolicy;
+}
+
+// ============================================================================
+// TOKEN BUCKET
+// ============================================================================
+
+/**
+ * Tokens are reserved rather than awaited: a request takes a token
+ * immediately, possibly driving the count negative, and waits for as long as
+ * the refill takes to cover it. Concurrent callers therefore queue in order
+ * without polling.
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = performance.now();
+  private pausedUntil = 0;
+
+  constructor(policy: ProviderPolicy) {
+    this.tokens = policy.burst;
+  }
+
+  /** Take a token, returning how long to wait before using it */
+  reserve(policy: ProviderPolicy): number {
+    const now = performance.now();
+    const elapsed = Math.max(0, now - this.updatedAt) / 1000;
+    this.tokens = Math.min(policy.burst, this.tokens + elapsed * policy.requestsPerSecond) - 1;
+    this.updatedAt = now;
+
+    const refillWait = this.tokens < 0 ? (-this.tokens / policy.requestsPerSecond) * 1000 : 0;
+    return Math.max(refillWait, this.pausedUntil - now);
+  }
+
+  /** Hold every request for `ms` (a 429's Retry-After) */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, performance.now() + ms);
+  }
+}
+
+// ============================================================================
+// RATE LIMITER
+// ============================================================================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** Retry-After in milliseconds, given as seconds or an HTTP date */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+  if (/^\d+(\.\d+)?$/.test(value.trim())) return Number(value) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+export class RateLimiter {
+  private buckets = new Map<string, TokenBucket>();
+  private metrics = new Map<string, ProviderMetrics>();
+
+  /** Wait for a request slot on `host` */
+  async acquire(host: string): Promise<void> {
+    const policy = policyFor(host);
+    let bucket = this.buckets.get(host);
+    if (!bucket) {
+      bucket = new TokenBucket(policy);
+      this.buckets.set(host, bucket);
+    }
+
+    const metrics = this.metricsFor(host);
+    metrics.requests++;
+    const wait = bucket.reserve(policy);
+    if (wait > 0) {
+      metrics.waitMs += wait;
+      await sleep(wait);
+    }
+  }
+
+  /**
+   * fetch() through the host's bucket, retrying 429 and 5xx responses. The
+   * last response is returned whatever its status, so callers check
+   * response.ok as they would with fetch.
+   */
+  async fetch(input: string | URL, init?: RequestInit): Promise<Response> {
+    const host = new URL(input).hostname;
+    const metrics = this.metricsFor(host);
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(host);
+      const response = await fetch(input, init);
+      if (!isRetryable(response.status)) return response;
+
+      if (response.status === 429) metrics.rateLimited++;
+      else metrics.serverErrors++;
+      if (attempt >= RATE_LIMIT_CONFIG.maxRetries) return response;
+
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      if (retryAfter !== null && retryAfter > RATE_LIMIT_CONFIG.retryMaxMs) return response;
+
+      // Full jitter on the backoff; a little on top of Retry-After so callers
+      // paused together don't all return at once
+      const backoff = RATE_LIMIT_CONFIG.retryBaseMs * 2 ** attempt;
+      const delay = retryAfter !== null
+        ? retryAfter + Math.random() * RATE_LIMIT_CONFIG.retryBaseMs
+        : Math.min(RATE_LIMIT_CONFIG.retryMaxMs, Math.random() * backoff);
+
+      if (response.status === 429) this.buckets.get(host)?.pause(delay);
+      // Free the connection before waiting
+      await response.body?.cancel().catch(() => {});
+
+      metrics.retries++;
+      metrics.waitMs += delay;
+      await sleep(delay);
+    }
+  }
+
+  /** Counters per host since startup (or the last reset) */
+  getMetrics(): Record<string, ProviderMetrics> {
+    return Object.fromEntries(
+      Array.from(this.metrics.entries()).map(([host, metrics]) => [host, { ...metrics }])
+    );
+  }
+
+  resetMetrics(): void {
+    this.metrics.clear();
+  }
+
+  private metricsFor(host: string): ProviderMetrics {
+    let metrics = this.metrics.get(host);
+    if (!metrics) {
+      metrics = { requests: 0, waitMs: 0, retries: 0, rateLimited: 0, serverErrors: 0 };
+      this.metrics.set(host, metrics);
+    }
+    return metrics;
+  }
+}
+
+/** The process-wide limiter every provider client shares */
+export const rateLimiter = new RateLimiter();
+
+export function rateLimitedFetch(input: string | URL, init?: RequestInit): Promise<Response> {
+  return rateLimiter.fetch(input, init);
+}
@@ -0,0 +1,97 @@
+/**
+ * Claim Relations
+ *
+ * During enrichment each new claim is compared with its nearest earlier
+ * claims. Every close neighbour is classified as supporting, contradicting or
+ * unrelated by combining an NLI-style model judgement with a stance and
+ * bullishness heuristic. Supporting and contradicting pairs are stored as
+ * typed claim-to-claim edges.
+ */
+
+import type { ClaimRelation, ClaimRelationType } from './types';
+
+/**
+ * Neighbour search parameters. Claims below this similarity are rarely about
+ * the same thing, so judging them wastes model calls.
+ */
+export const RELATION_NEIGHBOURS = 5;
+export const RELATION_MIN_SIMILARITY = 0.75;
+
+/**
+ * Edges below this confidence are dropped rather than stored.
+ */
+export const RELATION_MIN_CONFIDENCE = 0.5;
+
+const RELATION_TYPES: readonly ClaimRelationType[] = ['supports', 'contradicts', 'unrelated'];
+
+interface StanceFields {
+  stance?: string | null;
+  bullishness?: number | null;
+}
+
+/**
+ * Guess a relation from stance and bullishness alone. Opposite stances (or a
+ * wide bullishness gap) suggest contradiction; matching stances with similar
+ * bullishness suggest support. Returns null when the signal is ambiguous.
+ */
+export function stanceHeuristic(a: StanceFields, b: StanceFields): ClaimRelationType | null {
+  const opposed =
+    (a.stance === 'bullish' && b.stance === 'bearish') ||
+    (a.stance === 'bearish' && b.stance === 'bullish');
+
+  const gap = typeof a.bullishness === 'number' && typeof b.bullishness === 'number'
+    ? Math.abs(a.bullishness - b.bullishness)
+    : null;
+
+  if (opposed || (gap !== null && gap >= 0.5)) return 'contradicts';
+  if (a.stance && a.stance === b.stance && a.stance !== 'neutral' && (gap === null || gap <= 0.2)) {
+    return 'supports';
+  }
+  return null;
+}
+
+/**
+ * Combine the model judgement (if any) with the heuristic. The judgement
+ * decides the relation; the heuristic nudges its confidence up when it agrees
+ * and down when it points the opposite way. Without a judgement the heuristic
+ * stands alone at a confidence below RELATION_MIN_CONFIDENCE: it still flags
+ * the claim's potentialContradictions, but isn't stored as an edge.
+ */
+export function classifyRelation(
+  judgement: { relation?: unknown; confidence?: unknown; rationale?: unknown } | undefined,
+  heuristic: ClaimRelationType | null,
+  neighbour: { targetClaimId: string; similarity: number }
+): ClaimRelation {
+  const relation = judgement && RELATION_TYPES.includes(judgement.relation as ClaimRelationType)
+    ? judgement.relation as ClaimRelationType
+    : null;
+
+  if (!relation) {
+    return {
+      ...neighbour,
+      relation: heuristic ?? 'unrelated',
+      confidence: heuristic ? 0.4 : 0,
+      method: 'heuristic',
+    };
+  }
+
+  let confidence = typeof judgement!.confidence === 'number' ? judgement!.confidence : 0.5;
+  if (relation !== 'unrelated' && heuristic) {
+    confidence += heuristic === relation ? 0.1 : -0.2;
+  }
+
+  return {
+    ...neighbour,
+    relation,
+    confidence: Math.min(1, Math.max(0, confidence)),
+    method: 'nli',
+    rationale: typeof judgement!.rationale === 'string' ? judgement!.rationale : undefined,
+  };
+}
+
+/**
+ * Relations worth storing as edges.
+ */
+export function isStoredRelation(relation: ClaimRelation): boolean {
+  return relation.relation !== 'unrelated' && relation.confidence >= RELATION_MIN_CONFIDENCE;
+}
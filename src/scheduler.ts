@@ -7,7 +7,8 @@
  */
 
 import { AIIntelOrchestrator } from './index';
-import { AIIntelFetcher } from './fetcher';
+import { AIIntelFetcher, summarizeFetch } from './fetcher';
+import { listAdapters, loadExternalAdapters } from './adapters';
 import { SourceStore, ContentStore } from './storage';
 
 // ============================================================================
@@ -19,32 +20,41 @@ const config = {
   dbUrl: process.env.DATABASE_URL || 'postgresql://localhost/ai_intel',
   embeddingProvider: (process.env.EMBEDDING_PROVIDER || 'ollama') as 'ollama' | 'openai' | 'voyage',
   useSkills: process.env.USE_SKILLS !== 'false',
-  glmFallback: process.env.GLM_FALLBACK === 'true'
+  glmFallback: process.env.GLM_FALLBACK === 'true',
+  detectHints: process.env.DETECT_HINTS === 'true',
+  dropUnverifiedQuotes: process.env.DROP_UNVERIFIED_QUOTES === 'true'
 };
 
-// Schedule configuration (in milliseconds)
+// Schedule configuration (in milliseconds). Each registered source type is
+// fetched every defaultFetchFrequencyHours of its adapter.
 const SCHEDULES = {
-  // High-frequency sources (Twitter) - every 4 hours
-  twitter: 4 * 60 * 60 * 1000,
-  
-  // Medium-frequency (Substacks, YouTube) - every 6 hours
-  substacks: 6 * 60 * 60 * 1000,
-  youtube: 6 * 60 * 60 * 1000,
-  
-  // Low-frequency (Blogs, Podcasts) - every 12 hours
-  blogs: 12 * 60 * 60 * 1000,
-  podcasts: 12 * 60 * 60 * 1000,
-  
   // Processing - every 2 hours
   processing: 2 * 60 * 60 * 1000,
   
   // Synthesis - daily at midnight
   synthesis: 24 * 60 * 60 * 1000,
   
+  // Prediction resolution proposals - daily
+  predictionResolution: 24 * 60 * 60 * 1000,
+  
+  // Hint-to-release matching - daily
+  hintMatching: 24 * 60 * 60 * 1000,
+  
+  // Paper reception lookups (Semantic Scholar, OpenReview) - daily
+  paperEnrichment: 24 * 60 * 60 * 1000,
+  
+  // Historical backfills (queued with fetch --backfill) - hourly, a few pages
+  // per source each time, with backfilled content processed when the
+  // regular queue is empty
+  backfill: 60 * 60 * 1000,
+  
   // Weekly digest - every Sunday
   weeklyDigest: 7 * 24 * 60 * 60 * 1000
 };
 
+// Backfilled items processed per backfill run
+const BACKFILL_PROCESS_LIMIT = 20;
+
 // ============================================================================
 // SCHEDULER CLASS
 // ============================================================================
@@ -66,6 +76,12 @@ class AIIntelScheduler {
   
   async start(): Promise<void> {
     console.log('🚀 AI Intelligence Scheduler starting...');
+
+    // Register adapters listed in SOURCE_ADAPTERS before any fetch runs
+    const external = await loadExternalAdapters();
+    if (external.length > 0) {
+      console.log(`  Loaded source adapters: ${external.join(', ')}`);
+    }
     
     // Initialize orchestrator (creates skills/agents)
     await this.orchestrator.initialize();
@@ -73,13 +89,15 @@ class AIIntelScheduler {
     this.running = true;
     
     // Schedule all tasks
-    this.scheduleFetch('twitter', SCHEDULES.twitter);
-    this.scheduleFetch('substack', SCHEDULES.substacks);
-    this.scheduleFetch('youtube', SCHEDULES.youtube);
-    this.scheduleFetch('blog', SCHEDULES.blogs);
-    this.scheduleFetch('podcast', SCHEDULES.podcasts);
+    for (const adapter of listAdapters()) {
+      this.scheduleFetch(adapter.type, adapter.defaultFetchFrequencyHours * 60 * 60 * 1000);
+    }
     this.scheduleProcessing();
     this.scheduleSynthesis();
+    this.schedulePredictionResolution();
+    this.scheduleHintMatching();
+    this.schedulePaperEnrichment();
+    this.scheduleBackfill();
     this.scheduleWeeklyDigest();
     
     // Run initial fetch and process
@@ -142,6 +160,46 @@ class AIIntelScheduler {
     console.log(`  📅 Scheduled: synthesis every ${SCHEDULES.synthesis / 1000 / 60 / 60} hours`);
   }
   
+  private schedulePredictionResolution(): void {
+    const timer = setInterval(async () => {
+      if (!this.running) return;
+      await this.runPredictionResolution();
+    }, SCHEDULES.predictionResolution);
+    
+    this.timers.set('prediction-resolution', timer);
+    console.log(`  📅 Scheduled: prediction resolution every ${SCHEDULES.predictionResolution / 1000 / 60 / 60} hours`);
+  }
+  
+  private scheduleHintMatching(): void {
+    const timer = setInterval(async () => {
+      if (!this.running) return;
+      await this.runHintMatching();
+    }, SCHEDULES.hintMatching);
+    
+    this.timers.set('hint-matching', timer);
+    console.log(`  📅 Scheduled: hint matching every ${SCHEDULES.hintMatching / 1000 / 60 / 60} hours`);
+  }
+  
+  private schedulePaperEnrichment(): void {
+    const timer = setInterval(async () => {
+      if (!this.running) return;
+      await this.runPaperEnrichment();
+    }, SCHEDULES.paperEnrichment);
+    
+    this.timers.set('paper-enrichment', timer);
+    console.log(`  📅 Scheduled: paper enrichment every ${SCHEDULES.paperEnrichment / 1000 / 60 / 60} hours`);
+  }
+  
+  private scheduleBackfill(): void {
+    const timer = setInterval(async () => {
+      if (!this.running) return;
+      await this.runBackfill();
+    }, SCHEDULES.backfill);
+    
+    this.timers.set('backfill', timer);
+    console.log(`  📅 Scheduled: backfill every ${SCHEDULES.backfill / 1000 / 60} minutes`);
+  }
+  
   private scheduleWeeklyDigest(): void {
     // Calculate time until next Sunday midnight
     const now = new Date();
@@ -176,8 +234,9 @@ class AIIntelScheduler {
     console.log(`📡 Fetching ${sources.length} due sources...`);
     
     const results = await this.fetcher.fetchSources(sources);
+    const totals = summarizeFetch(results.successful);
     
-    console.log(`  ✓ Fetched: ${results.successful.length}`);
+    console.log(`  ✓ Fetched: ${results.successful.length} (${totals.new} new, ${totals.updated} updated, ${totals.unchanged} unchanged items)`);
     if (results.failed.length > 0) {
       console.log(`  ✗ Failed: ${results.failed.length}`);
       results.failed.forEach(f => console.log(`    - ${f.source}: ${f.error}`));
@@ -190,7 +249,9 @@ class AIIntelScheduler {
     const sources = await this.sourceStore.getByType(sourceType);
     const results = await this.fetcher.fetchSources(sources);
     
-    console.log(`  ✓ ${sourceType}: ${results.successful.length} fetched, ${results.failed.length} failed`);
+    const totals = summarizeFetch(results.successful);
+    
+    console.log(`  ✓ ${sourceType}: ${results.successful.length} fetched, ${results.failed.length} failed, ${results.skipped.length} unhealthy skipped; ${totals.new} new, ${totals.updated} updated items`);
   }
   
   private async runProcessing(): Promise<void> {
@@ -220,6 +281,50 @@ class AIIntelScheduler {
     console.log(`  ✓ Synthesized ${result.syntheses.length} topics`);
   }
   
+  private async runPredictionResolution(): Promise<void> {
+    console.log(`🔮 [${new Date().toISOString()}] Resolving due predictions...`);
+    
+    const result = await this.orchestrator.resolvePredictions({ limit: 20 });
+    
+    console.log(`  ✓ Assessed ${result.evaluated}, proposed ${result.proposed} for review`);
+  }
+  
+  private async runHintMatching(): Promise<void> {
+    console.log(`💡 [${new Date().toISOString()}] Matching research hints against releases...`);
+    
+    const result = await this.orchestrator.matchHints({ limit: 50 });
+    
+    console.log(`  ✓ Checked ${result.checked} open hints, ${result.paidOff} paid off`);
+  }
+  
+  private async runPaperEnrichment(): Promise<void> {
+    console.log(`📄 [${new Date().toISOString()}] Looking up paper reception...`);
+    
+    const result = await this.orchestrator.enrichPapers({ limit: 100 });
+    
+    console.log(`  ✓ Checked ${result.checked} papers, ${result.found} records found`);
+  }
+  
+  private async runBackfill(): Promise<void> {
+    console.log(`📚 [${new Date().toISOString()}] Advancing backfills...`);
+    
+    const results = await this.fetcher.runBackfills();
+    const done = results.successful.filter(r => r.done).length;
+    const items = results.successful.reduce((sum, r) => sum + r.new, 0);
+    
+    console.log(`  ✓ ${results.successful.length} advanced (${done} complete), ${items} new items, ${results.failed.length} failed`);
+    
+    // Backfilled content waits for the regular queue to empty
+    const waiting = await this.contentStore.getUnprocessed(1, 1);
+    if (waiting.length > 0 && !waiting[0].backfilled) return;
+    
+    const content = await this.contentStore.getUnprocessedBackfill(BACKFILL_PROCESS_LIMIT);
+    if (content.length === 0) return;
+    
+    const result = await this.orchestrator.processBatch(content as any);
+    console.log(`  ✓ Processed ${result.processed} backfilled items, ${result.claimsExtracted} claims`);
+  }
+  
   private async runWeeklyDigest(): Promise<void> {
     console.log(`📝 [${new Date().toISOString()}] Generating weekly digest...`);
     
@@ -0,0 +1,228 @@
+/**
+ * Output Schemas
+ *
+ * zod schemas for the structured outputs the pipeline reads from the model:
+ * filter assessments, extracted claims, topic syntheses, the hype assessment
+ * and prediction assessments. Enum fields are checked against the unions in
+ * types.ts, so a made-up topic or stance is a validation error rather than
+ * something silently defaulted downstream.
+ */
+
+import { z } from 'zod';
+import type {
+  AuthorCategory,
+  ClaimType,
+  ContentType,
+  EvidenceQuality,
+  PredictionStatus,
+  Stance,
+  Timeframe,
+  Topic
+} from './types';
+
+// ============================================================================
+// ENUMS
+// ============================================================================
+
+// Each record must list exactly the members of its union, so the schemas
+// can't drift from types.ts without a compile error.
+const TOPICS = {
+  scaling: true, reasoning: true, agents: true, safety: true, interpretability: true,
+  multimodal: true, rlhf: true, robotics: true, benchmarks: true, infrastructure: true,
+  policy: true, general: true, other: true,
+} satisfies Record<Topic, true>;
+
+const CONTENT_TYPES = {
+  prediction: true, 'research-hint': true, opinion: true, factual: true,
+  critique: true, meta: true, noise: true,
+} satisfies Record<ContentType, true>;
+
+const AUTHOR_CATEGORIES = {
+  'lab-researcher': true, critic: true, academic: true,
+  independent: true, journalist: true, unknown: true,
+} satisfies Record<AuthorCategory, true>;
+
+const CLAIM_TYPES = {
+  fact: true, prediction: true, hint: true, opinion: true, critique: true, question: true,
+} satisfies Record<ClaimType, true>;
+
+const STANCES = { bullish: true, bearish: true, neutral: true } satisfies Record<Stance, true>;
+
+const TIMEFRAMES = {
+  'near-term': true, 'medium-term': true, 'long-term': true, unspecified: true,
+} satisfies Record<NonNullable<Timeframe>, true>;
+
+const EVIDENCE_QUALITIES = {
+  strong: true, moderate: true, weak: true, 'appeal-to-authority': true,
+} satisfies Record<EvidenceQuality, true>;
+
+const PREDICTION_STATUSES = {
+  verified: true, falsified: true, 'partially-verified': true,
+  'too-early': true, unfalsifiable: true, ambiguous: true,
+} satisfies Record<PredictionStatus, true>;
+
+function enumOf<T extends string>(values: Record<T, true>) {
+  return z.enum(Object.keys(values) as [T, ...T[]]);
+}
+
+export const TopicSchema = enumOf<Topic>(TOPICS);
+export const ClaimTypeSchema = enumOf<ClaimType>(CLAIM_TYPES);
+export const StanceSchema = enumOf<Stance>(STANCES);
+
+const unit = z.number().min(0).max(1);
+
+// ============================================================================
+// STAGE OUTPUTS
+// ============================================================================
+
+export const FilterAssessmentSchema = z.object({
+  idx: z.number().int().optional(),
+  relevance: unit,
+  topic: TopicSchema,
+  contentType: enumOf<ContentType>(CONTENT_TYPES),
+  authorCategory: enumOf<AuthorCategory>(AUTHOR_CATEGORIES),
+  isSubstantive: z.boolean(),
+  brief: z.string().optional(),
+});
+
+export const FilterOutputSchema = z.object({
+  assessments: z.array(FilterAssessmentSchema),
+});
+
+export const ClaimOutputSchema = z.object({
+  idx: z.number().int().optional(),
+  contentId: z.union([z.number(), z.string()]).nullish(),
+  claimText: z.string().min(1),
+  claimType: ClaimTypeSchema,
+  topic: TopicSchema,
+  stance: StanceSchema,
+  bullishness: unit,
+  confidence: unit,
+  timeframe: enumOf<NonNullable<Timeframe>>(TIMEFRAMES).nullish(),
+  targetEntity: z.string().nullish(),
+  evidenceProvided: enumOf<EvidenceQuality>(EVIDENCE_QUALITIES).nullish(),
+  quoteworthiness: unit.optional(),
+  relatedTo: z.array(z.string()).optional(),
+  originalQuote: z.string().nullish(),
+  author: z.string().nullish(),
+  authorCategory: enumOf<AuthorCategory>(AUTHOR_CATEGORIES).nullish(),
+  sourceUrl: z.string().nullish(),
+});
+
+export const ExtractionOutputSchema = z.object({
+  claims: z.array(ClaimOutputSchema),
+});
+
+export const SynthesisOutputSchema = z.object({
+  labConsensus: z.string(),
+  criticConsensus: z.string(),
+  agreements: z.array(z.string()).default([]),
+  disagreements: z.array(z.object({
+    point: z.string(),
+    labPosition: z.string(),
+    criticPosition: z.string(),
+  })).default([]),
+  emergingNarratives: z.array(z.string()).default([]),
+  predictions: z.array(z.object({
+    text: z.string(),
+    author: z.string(),
+    confidence: unit,
+    timeframe: z.string(),
+  })).default([]),
+  evidenceQuality: unit,
+  // Computed from claim bullishness when the model leaves it out
+  hypeDelta: z.object({
+    delta: z.number().min(-1).max(1),
+    labSentiment: unit,
+    criticSentiment: unit,
+  }).passthrough().optional(),
+  synthesisNarrative: z.string(),
+});
+
+const TopicHypeScoreSchema = z.object({
+  topic: z.string(),
+  score: z.number().min(-1).max(1),
+  reasoning: z.string(),
+  keyEvidence: z.array(z.string()).default([]),
+});
+
+export const HypeAssessmentOutputSchema = z.object({
+  overhypedTopics: z.array(TopicHypeScoreSchema),
+  underhypedTopics: z.array(TopicHypeScoreSchema),
+  accuratelyAssessedTopics: z.array(TopicHypeScoreSchema).default([]),
+  overallFieldSentiment: unit,
+  summary: z.string(),
+});
+
+export const PredictionTrackingOutputSchema = z.object({
+  assessments: z.array(z.object({
+    predictionId: z.string(),
+    status: enumOf<PredictionStatus>(PREDICTION_STATUSES),
+    accuracyScore: unit.nullish(),
+    evidence: z.string().optional(),
+    evidenceClaimIds: z.array(z.string()).default([]),
+    notes: z.string().optional(),
+  })),
+});
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export type OutputStage = 'filter' | 'extraction' | 'synthesis' | 'hype-assessment' | 'prediction-tracking';
+
+/**
+ * Per-stage validation outcomes: outputs that failed validation, and of those,
+ * how many a repair prompt fixed and how many were given up on.
+ */
+export type ValidationStats = Record<OutputStage, { invalid: number; repaired: number; failed: number }>;
+
+export function emptyValidationStats(): ValidationStats {
+  const stats = {} as ValidationStats;
+  for (const stage of ['filter', 'extraction', 'synthesis', 'hype-assessment', 'prediction-tracking'] as const) {
+    stats[stage] = { invalid: 0, repaired: 0, failed: 0 };
+  }
+  return stats;
+}
+
+/**
+ * Validate parsed model output. Errors are formatted as "path: message" for
+ * the repair prompt, capped so a wholly wrong output doesn't flood it.
+ */
+export function validateOutput<S extends z.ZodTypeAny>(
+  schema: S,
+  value: unknown
+): { success: true; data: z.output<S> } | { success: false; errors: string[] } {
+  const result = schema.safeParse(value);
+  if (result.success) return { success: true, data: result.data };
+
+  const errors = result.error.issues
+    .slice(0, 20)
+    .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+  return { success: false, errors };
+}
+
+/**
+ * Validate a list output ({ [key]: [...] }) item by item. Items failing
+ * `itemSchema` are dropped and their errors returned, so one bad enum value
+ * doesn't cost the rest of the batch. Fails only when there is no list.
+ */
+export function validateListOutput<I extends z.ZodTypeAny>(
+  key: string,
+  itemSchema: I,
+  value: unknown
+): { success: true; items: z.output<I>[]; dropped: number; errors: string[] } | { success: false; errors: string[] } {
+  const list = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+  if (!Array.isArray(list)) {
+    return { success: false, errors: [`${key}: Expected array, received ${list === undefined ? 'nothing' : typeof list}`] };
+  }
+
+  const items: z.output<I>[] = [];
+  const errors: string[] = [];
+  list.forEach((entry, i) => {
+    const result = validateOutput(itemSchema, entry);
+    if (result.success) items.push(result.data);
+    else errors.push(...result.errors.map(error => `${key}.${i}.${error.replace(/^\(root\): /, '')}`));
+  });
+  return { success: true, items, dropped: list.length - items.length, errors: errors.slice(0, 20) };
+}
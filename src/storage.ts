@@ -6,14 +6,31 @@
  * - Claim storage with embeddings
  * - Synthesis results
  * - Prediction tracking
+ * - Research hints
+ * - Argument maps of long-form critiques
+ * - Claim clusters (near-duplicate claims)
+ * - Paper reception snapshots
+ * - Source health and alerts
  */
 
+import { createHash } from 'crypto';
 import pg from 'pg';
 const { Pool } = pg;
 type PoolType = InstanceType<typeof Pool>;
 type DbClient = pg.PoolClient;
 
 import type { SourceType, ContentCategory } from './types';
+import type { CacheValidators, FetchContext, SourceAdapter } from './adapters/registry';
+import {
+  RESOLVED_STATUSES,
+  computeCalibration,
+  predictionOutcome,
+  type CalibrationGrouping,
+  type CalibrationReport
+} from './predictions';
+import type { PaperMetadataSource, PaperRecord, PaperReceptionRow, PaperRef } from './papers';
+import { SOURCE_HEALTH_CONFIG, type SourceAlert, type SourceHealth } from './health';
+import { DEDUP_CONFIG, type ContentFingerprint, type DuplicateReason } from './dedup';
 
 // ============================================================================
 // TYPES
@@ -31,6 +48,15 @@ export interface Source {
   isActive?: boolean;
 }
 
+/** The adapter fields mirrored into source_adapters */
+export type SourceAdapterInfo = Pick<
+  SourceAdapter,
+  'type' | 'displayName' | 'description' | 'identifierLabel' | 'profileUrl' | 'rateLimit' | 'defaultFetchFrequencyHours'
+>;
+
+/** What writing a fetched item did to the content table */
+export type FetchedContentOutcome = 'new' | 'updated' | 'unchanged';
+
 export interface Content {
   id?: number;
   sourceId: number;
@@ -41,13 +67,34 @@ export interface Content {
   contentHtml?: string;
   contentType?: string;
   author?: string;
+  researcher?: string;  // Tracked researcher among the authors, when not the source's owner
   publishedAt?: Date;
   fetchedAt?: Date;
   processedAt?: Date;  // Track when content was processed
+  backfilled?: boolean;  // Read from the source's history rather than its current feed
   wordCount?: number;
+  // Dedup fingerprint and, for a duplicate, its canonical item (see dedup.ts)
+  canonicalUrl?: string | null;
+  sharedUrl?: string | null;
+  simhash?: bigint | null;
+  duplicateOf?: number | null;
+  duplicateReason?: DuplicateReason | null;
+  fingerprintedAt?: Date;
   metadata?: Record<string, any>;
 }
 
+/** A canonical item and the other sources that shared it */
+export interface AmplifiedContent {
+  id: number;
+  title: string | null;
+  url: string | null;
+  /** Source of the canonical item */
+  source: string;
+  shares: number;
+  /** Researcher handles (else source identifiers) of the sharing sources */
+  shared_by: string[];
+}
+
 export interface FilteredContent extends Content {
   relevanceScore: number;
   primaryTopic: string;
@@ -70,6 +117,11 @@ export interface ExtractedClaim {
   quoteworthiness?: number;
   relatedTo?: string[];
   originalQuote?: string;
+  chunkIndex?: number;
+  quoteStart?: number;
+  quoteEnd?: number;
+  quoteVerified?: boolean;
+  quoteMatchScore?: number;
   author?: string;
   authorCategory?: string;
   sourceUrl?: string;
@@ -82,6 +134,34 @@ export interface EnrichedClaim extends ExtractedClaim {
   potentialContradictions?: string[];
 }
 
+/**
+ * A typed relation from a newer claim to an earlier one it supports or
+ * contradicts (see relations.ts).
+ */
+export interface ClaimEdge {
+  id?: number;
+  sourceClaimId: string;
+  targetClaimId: string;
+  relation: 'supports' | 'contradicts';
+  confidence: number;
+  similarity: number;
+  method: 'nli' | 'heuristic';
+  rationale?: string;
+  createdAt?: Date;
+}
+
+export interface ClaimCluster {
+  id?: number;
+  topic: string;
+  canonicalClaimId: string;
+  canonicalText: string;
+  memberCount: number;
+  authorCount: number;
+  authors: string[];
+  firstSeen: Date;
+  lastSeen: Date;
+}
+
 export interface SynthesisResult {
   id?: number;
   generatedAt: Date;
@@ -100,12 +180,77 @@ export interface Prediction {
   timeframe: string;
   topic: string;
   madeAt: Date;
+  targetDate?: Date;
   verifiedAt?: Date;
   status?: string;
   accuracyScore?: number;
   evidence?: string;
 }
 
+export interface ResearchHint {
+  id?: number;
+  contentId: number;
+  author: string;
+  hintText: string;
+  impliedCapability: string;
+  confidence: number;
+  timeframe?: string;
+  domain: string;
+  madeAt: Date;
+  status?: 'open' | 'paid-off';
+  paidOffContentId?: number;
+  paidOffClaimId?: string;
+  matchSimilarity?: number;
+  paidOffAt?: Date;
+}
+
+export interface ArgumentMap {
+  id?: number;
+  contentId: number;
+  author: string;
+  topic: string;
+  mainThesis: string;
+  premises: string[];
+  evidence: string[];
+  targetClaims: string[];
+  concessions: string[];
+  weaknesses: string[];
+  steelmanResponse?: string;
+  claimIds: string[];      // claims extracted from the same content
+  mappedAt?: Date;
+}
+
+export interface PaperSnapshot {
+  contentId: number;
+  source: PaperMetadataSource;
+  found: boolean;
+  externalId?: string;
+  url?: string;
+  citationCount?: number;
+  influentialCitationCount?: number;
+  venue?: string;
+  reviewScores?: number[];
+  meanReviewScore?: number;
+  decision?: string;
+  capturedAt: Date;
+}
+
+export type BackfillStatus = 'pending' | 'running' | 'done' | 'failed';
+
+/** A source's historical backfill and how far it has got */
+export interface SourceBackfill {
+  sourceId: number;
+  since: Date;
+  cursor: Record<string, any> | null;
+  status: BackfillStatus;
+  pages: number;
+  items: number;
+  error: string | null;
+  startedAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
+
 // ============================================================================
 // BASE STORE
 // ============================================================================
@@ -144,6 +289,12 @@ class BaseStore {
 // CONTENT STORE
 // ============================================================================
 
+function contentHash(content: Content): string {
+  return createHash('sha256')
+    .update(`${content.title ?? ''}\0${content.contentText ?? ''}`)
+    .digest('hex');
+}
+
 export class ContentStore extends BaseStore {
   async upsert(content: Content, client?: DbClient): Promise<number> {
     const result = await this.queryOne<{ id: number }>(`
@@ -175,6 +326,237 @@ export class ContentStore extends BaseStore {
     return result!.id;
   }
   
+  /**
+   * Store an item from a source fetch. Only the title and text are hashed:
+   * a new hash counts the item as updated and bumps fetched_at, while
+   * metadata (engagement counts) is kept current either way without counting
+   * as an update. Rows where nothing changed aren't written. The backfilled
+   * flag is only set on insert: an item the regular fetch already stored
+   * stays regular.
+   */
+  async upsertFetched(content: Content): Promise<FetchedContentOutcome> {
+    const row = await this.queryOne<{ id: number; inserted: boolean; changed: boolean }>(`
+      WITH previous AS (
+        SELECT content_hash, researcher FROM content WHERE source_id = $1 AND external_id = $2
+      )
+      INSERT INTO content (
+        source_id, external_id, url, title, content_text, content_html,
+        content_type, author, published_at, fetched_at, first_fetched_at,
+        word_count, metadata, content_hash, researcher, backfilled,
+        canonical_url, shared_url, simhash, duplicate_of, duplicate_reason, fingerprinted_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW(), $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
+      ON CONFLICT (source_id, external_id) DO UPDATE SET
+        title = EXCLUDED.title,
+        content_text = EXCLUDED.content_text,
+        content_html = EXCLUDED.content_html,
+        word_count = EXCLUDED.word_count,
+        metadata = EXCLUDED.metadata,
+        content_hash = EXCLUDED.content_hash,
+        researcher = EXCLUDED.researcher,
+        fetched_at = CASE WHEN content.content_hash IS DISTINCT FROM EXCLUDED.content_hash
+          THEN NOW() ELSE content.fetched_at END
+      WHERE content.content_hash IS DISTINCT FROM EXCLUDED.content_hash
+        OR content.researcher IS DISTINCT FROM EXCLUDED.researcher
+        OR content.metadata IS DISTINCT FROM EXCLUDED.metadata
+      RETURNING id, (xmax = 0) AS inserted,
+        (SELECT content_hash FROM previous) IS DISTINCT FROM content_hash
+          OR (SELECT researcher FROM previous) IS DISTINCT FROM researcher AS changed
+    `, [
+      content.sourceId,
+      content.externalId,
+      content.url,
+      content.title,
+      content.contentText,
+      content.contentHtml,
+      content.contentType,
+      content.author,
+      content.publishedAt,
+      content.wordCount,
+      JSON.stringify(content.metadata || {}),
+      contentHash(content),
+      content.researcher ?? null,
+      content.backfilled ?? false,
+      content.canonicalUrl ?? null,
+      content.sharedUrl ?? null,
+      content.simhash?.toString() ?? null,
+      content.duplicateOf ?? null,
+      content.duplicateReason ?? null,
+      content.fingerprintedAt ?? null
+    ]);
+
+    // No row back means the conflict update's WHERE excluded it
+    if (!row) return 'unchanged';
+    if (row.inserted) return 'new';
+    return row.changed ? 'updated' : 'unchanged';
+  }
+  
+  /** Which of the given external IDs the source has already stored */
+  async findStoredExternalIds(sourceId: number, externalIds: string[]): Promise<Set<string>> {
+    if (externalIds.length === 0) return new Set();
+    const rows = await this.query<{ external_id: string }>(`
+      SELECT external_id FROM content WHERE source_id = $1 AND external_id = ANY($2)
+    `, [sourceId, externalIds]);
+    return new Set(rows.map(r => r.external_id));
+  }
+
+  /**
+   * Stored items of the source whose text was expanded from a feed summary
+   * to the linked article (see articles.ts), by external ID
+   */
+  async getExpandedArticles(sourceId: number, externalIds: string[]): Promise<Map<string, Content>> {
+    if (externalIds.length === 0) return new Map();
+    const rows = await this.query<{ external_id: string; content_text: string; content_html: string | null; metadata: Record<string, any> }>(`
+      SELECT external_id, content_text, content_html, metadata FROM content
+      WHERE source_id = $1 AND external_id = ANY($2) AND metadata->>'feedSummary' IS NOT NULL
+    `, [sourceId, externalIds]);
+    return new Map(rows.map(row => [row.external_id, {
+      sourceId,
+      externalId: row.external_id,
+      contentText: row.content_text,
+      contentHtml: row.content_html ?? undefined,
+      metadata: row.metadata
+    }]));
+  }
+
+  /**
+   * The canonical item a new item from `sourceId` duplicates, if any: content
+   * from another source at the same URL, the original or an earlier share of
+   * the link it shares, or text whose SimHash is within maxSimhashDistance
+   * bits and published within simhashWindowDays. URL matches win over text
+   * matches, then the first fetched; a match that is itself a duplicate
+   * resolves to its canonical item.
+   */
+  async findCanonical(
+    sourceId: number,
+    fingerprint: ContentFingerprint,
+    publishedAt: Date
+  ): Promise<{ id: number; reason: DuplicateReason } | null> {
+    return this.queryOne<{ id: number; reason: DuplicateReason }>(`
+      SELECT id, reason FROM (
+        SELECT COALESCE(duplicate_of, id) AS id, first_fetched_at,
+          CASE
+            WHEN canonical_url = $2 THEN 'url'
+            WHEN canonical_url = $3 OR shared_url = $3 THEN 'link'
+            ELSE 'text'
+          END AS reason
+        FROM content
+        WHERE source_id <> $1
+          AND (
+            canonical_url = $2
+            OR canonical_url = $3
+            OR shared_url = $3
+            OR (
+              bit_count((simhash # $4::bigint)::bit(64)) <= $5
+              AND published_at BETWEEN $6::timestamptz - make_interval(days => $7)
+                AND $6::timestamptz + make_interval(days => $7)
+            )
+          )
+      ) matches
+      ORDER BY CASE reason WHEN 'url' THEN 0 WHEN 'link' THEN 1 ELSE 2 END, first_fetched_at
+      LIMIT 1
+    `, [
+      sourceId,
+      fingerprint.canonicalUrl,
+      fingerprint.sharedUrl,
+      fingerprint.simhash?.toString() ?? null,
+      DEDUP_CONFIG.maxSimhashDistance,
+      publishedAt,
+      DEDUP_CONFIG.simhashWindowDays
+    ]);
+  }
+
+  /**
+   * Point earlier shares of `canonicalUrl` from other sources (a tweet of a
+   * blog post fetched before the post itself), and their duplicates, at the
+   * source's item stored under `externalId` (or at its canonical item, if it
+   * is a duplicate itself). Shares already processed keep their claims.
+   */
+  async adoptSharers(sourceId: number, externalId: string, canonicalUrl: string): Promise<number> {
+    const row = await this.queryOne<{ adopted: number }>(`
+      WITH canonical AS (
+        SELECT COALESCE(duplicate_of, id) AS id FROM content
+        WHERE source_id = $1 AND external_id = $2
+      ), sharers AS (
+        UPDATE content SET duplicate_of = canonical.id, duplicate_reason = 'link'
+        FROM canonical
+        WHERE content.shared_url = $3 AND content.source_id <> $1 AND content.id <> canonical.id
+        RETURNING content.id
+      ), followers AS (
+        UPDATE content SET duplicate_of = canonical.id
+        FROM canonical
+        WHERE content.duplicate_of IN (SELECT id FROM sharers)
+      )
+      SELECT COUNT(*)::int AS adopted FROM sharers
+    `, [sourceId, externalId, canonicalUrl]);
+    return row?.adopted ?? 0;
+  }
+
+  /**
+   * Content stored before it could be fingerprinted (before dedup existed, or
+   * by a path that doesn't fingerprint), oldest first
+   */
+  async getUnfingerprinted(limit = 500): Promise<Content[]> {
+    const rows = await this.query<any>(`
+      SELECT id, source_id, external_id, url, title, content_text, published_at, metadata
+      FROM content
+      WHERE fingerprinted_at IS NULL
+      ORDER BY first_fetched_at
+      LIMIT $1
+    `, [limit]);
+    return rows.map(row => ({
+      id: row.id,
+      sourceId: row.source_id,
+      externalId: row.external_id,
+      url: row.url ?? undefined,
+      title: row.title ?? undefined,
+      contentText: row.content_text ?? '',
+      publishedAt: row.published_at,
+      metadata: row.metadata,
+    }));
+  }
+
+  /** Store a fingerprint and, if the item duplicates earlier content, its canonical item */
+  async setFingerprint(
+    id: number,
+    fingerprint: ContentFingerprint,
+    duplicate: { id: number; reason: DuplicateReason } | null
+  ): Promise<void> {
+    await this.execute(`
+      UPDATE content SET
+        canonical_url = $2, shared_url = $3, simhash = $4, fingerprinted_at = NOW(),
+        duplicate_of = COALESCE(duplicate_of, $5), duplicate_reason = COALESCE(duplicate_reason, $6)
+      WHERE id = $1
+    `, [
+      id,
+      fingerprint.canonicalUrl,
+      fingerprint.sharedUrl,
+      fingerprint.simhash?.toString() ?? null,
+      duplicate?.id ?? null,
+      duplicate?.reason ?? null
+    ]);
+  }
+
+  /**
+   * Canonical items shared most often across sources in the last `days`
+   * days, with who shared them: the amplification signal
+   */
+  async getAmplified(days: number, limit = 20): Promise<AmplifiedContent[]> {
+    const safeDays = Math.max(0, Math.floor(Number(days) || 0));
+    return this.query<AmplifiedContent>(`
+      SELECT c.id, c.title, c.url, s.identifier AS source,
+        COUNT(d.id)::int AS shares,
+        array_agg(DISTINCT COALESCE(ds.researcher, ds.identifier)) AS shared_by
+      FROM content c
+      JOIN sources s ON c.source_id = s.id
+      JOIN content d ON d.duplicate_of = c.id
+      JOIN sources ds ON d.source_id = ds.id
+      WHERE d.published_at > NOW() - make_interval(days => $1)
+      GROUP BY c.id, s.identifier
+      ORDER BY shares DESC, MAX(d.published_at) DESC
+      LIMIT $2
+    `, [safeDays, limit]);
+  }
+  
   async upsertMany(contents: Content[]): Promise<void> {
     for (const content of contents) {
       await this.upsert(content);
@@ -211,6 +593,7 @@ export class ContentStore extends BaseStore {
     `, [sourceId, limit]);
   }
 
+  /** Unprocessed content from the last `days` days, backfilled items last */
   async getUnprocessed(days: number, limit = 100): Promise<Content[]> {
     const safeDays = Math.max(0, Math.floor(Number(days) || 0));
     return this.query<Content>(`
@@ -219,11 +602,44 @@ export class ContentStore extends BaseStore {
       JOIN sources s ON c.source_id = s.id
       WHERE c.published_at > NOW() - make_interval(days => $1)
         AND c.processed_at IS NULL
-      ORDER BY c.published_at DESC
+        AND c.duplicate_of IS NULL
+      ORDER BY c.backfilled ASC, c.published_at DESC
       LIMIT $2
     `, [safeDays, limit]);
   }
 
+  /**
+   * Unprocessed backfilled content of any age, newest first. Processed in
+   * small batches after the regular queue, so history doesn't hold up news.
+   */
+  async getUnprocessedBackfill(limit = 20): Promise<Content[]> {
+    return this.query<Content>(`
+      SELECT c.*, s.type as source_type, s.author_name, s.category
+      FROM content c
+      JOIN sources s ON c.source_id = s.id
+      WHERE c.backfilled AND c.processed_at IS NULL AND c.duplicate_of IS NULL
+      ORDER BY c.published_at DESC
+      LIMIT $1
+    `, [limit]);
+  }
+
+  /**
+   * Resolve each content item's author to a researcher handle: the tracked
+   * researcher matched among a paper's authors, else the source's researcher
+   * handle, else its identifier. This is the key the researcher views use
+   * (content.author is free-form and often empty).
+   */
+  async getSourceIdentifiers(ids: number[], client?: DbClient): Promise<Map<number, string>> {
+    if (ids.length === 0) return new Map();
+    const rows = await this.query<{ id: number; identifier: string }>(`
+      SELECT c.id, COALESCE(c.researcher, s.researcher, s.identifier) as identifier
+      FROM content c
+      JOIN sources s ON c.source_id = s.id
+      WHERE c.id = ANY($1)
+    `, [ids], client);
+    return new Map(rows.map(row => [row.id, row.identifier]));
+  }
+
   async markProcessed(ids: number[], client?: DbClient): Promise<void> {
     if (ids.length === 0) return;
     await this.execute(`
@@ -246,8 +662,9 @@ export class ClaimStore extends BaseStore {
         id, content_id, claim_text, claim_type, topic, stance,
         bullishness, confidence, timeframe, target_entity,
         evidence_provided, quoteworthiness, related_to, original_quote,
-        author, author_category, source_url, extracted_at, metadata
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, NOW(), $18)
+        author, author_category, source_url, extracted_at, metadata,
+        chunk_index, quote_start, quote_end, quote_verified, quote_match_score
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, NOW(), $18, $19, $20, $21, $22, $23)
       ON CONFLICT (id) DO UPDATE SET
         claim_text = EXCLUDED.claim_text,
         bullishness = EXCLUDED.bullishness,
@@ -274,7 +691,12 @@ export class ClaimStore extends BaseStore {
       JSON.stringify({
         relatedClaims: claim.relatedClaims,
         potentialContradictions: claim.potentialContradictions
-      })
+      }),
+      claim.chunkIndex ?? null,
+      claim.quoteStart ?? null,
+      claim.quoteEnd ?? null,
+      claim.quoteVerified ?? null,
+      claim.quoteMatchScore ?? null
     ], client);
 
     // Store embedding if present
@@ -332,30 +754,44 @@ export class ClaimStore extends BaseStore {
     limit?: number;
     excludeId?: string;
     minSimilarity?: number;
-  } = {}): Promise<{ claim: ExtractedClaim; similarity: number }[]> {
-    const { limit = 5, excludeId, minSimilarity = 0.5 } = options;
+    publishedAfter?: Date;
+    sourceTypes?: string[];
+  } = {}): Promise<{ claim: ExtractedClaim & { publishedAt?: Date }; similarity: number }[]> {
+    const { limit = 5, excludeId, minSimilarity = 0.5, publishedAfter, sourceTypes } = options;
     
     // Using pgvector cosine distance
     let sql = `
       SELECT 
         c.*,
+        ct.published_at as "publishedAt",
         1 - (e.embedding <=> $1::vector) as similarity
       FROM content_embeddings e
       JOIN extracted_claims c ON c.id = e.content_id::text
+      LEFT JOIN content ct ON ct.id = c.content_id
       WHERE 1 - (e.embedding <=> $1::vector) > $2
     `;
     
     const params: any[] = [`[${embedding.join(',')}]`, minSimilarity];
     
     if (excludeId) {
-      sql += ` AND c.id != $3`;
       params.push(excludeId);
+      sql += ` AND c.id != $${params.length}`;
+    }
+
+    if (publishedAfter) {
+      params.push(publishedAfter);
+      sql += ` AND ct.published_at > $${params.length}`;
+    }
+
+    if (sourceTypes?.length) {
+      params.push(sourceTypes);
+      sql += ` AND ct.content_type = ANY($${params.length})`;
     }
     
     sql += ` ORDER BY e.embedding <=> $1::vector LIMIT $${params.length + 1}`;
     params.push(limit);
     
-    const rows = await this.query<ExtractedClaim & { similarity: number }>(sql, params);
+    const rows = await this.query<ExtractedClaim & { publishedAt?: Date; similarity: number }>(sql, params);
     
     return rows.map(row => ({
       claim: row,
@@ -373,6 +809,62 @@ export class ClaimStore extends BaseStore {
     `, [claimId, text, `[${embedding.join(',')}]`], client);
   }
   
+  async addEdge(edge: ClaimEdge, client?: DbClient): Promise<void> {
+    await this.execute(`
+      INSERT INTO claim_edges (
+        source_claim_id, target_claim_id, relation, confidence, similarity, method, rationale
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (source_claim_id, target_claim_id) DO UPDATE SET
+        relation = EXCLUDED.relation,
+        confidence = EXCLUDED.confidence,
+        similarity = EXCLUDED.similarity,
+        method = EXCLUDED.method,
+        rationale = EXCLUDED.rationale
+    `, [
+      edge.sourceClaimId,
+      edge.targetClaimId,
+      edge.relation,
+      edge.confidence,
+      edge.similarity,
+      edge.method,
+      edge.rationale
+    ], client);
+  }
+
+  /**
+   * Edges touching any of the given claims, in either direction, with the
+   * text and author of both ends.
+   */
+  async getEdges(claimIds: string[], relation?: ClaimEdge['relation']): Promise<(ClaimEdge & {
+    sourceText: string;
+    sourceAuthor?: string;
+    targetText: string;
+    targetAuthor?: string;
+  })[]> {
+    if (claimIds.length === 0) return [];
+    const params: any[] = [claimIds];
+    let sql = `
+      SELECT
+        e.id, e.source_claim_id as "sourceClaimId", e.target_claim_id as "targetClaimId",
+        e.relation, e.confidence, e.similarity, e.method, e.rationale, e.created_at as "createdAt",
+        sc.claim_text as "sourceText", sc.author as "sourceAuthor",
+        tc.claim_text as "targetText", tc.author as "targetAuthor"
+      FROM claim_edges e
+      JOIN extracted_claims sc ON sc.id = e.source_claim_id
+      JOIN extracted_claims tc ON tc.id = e.target_claim_id
+      WHERE (e.source_claim_id = ANY($1) OR e.target_claim_id = ANY($1))
+    `;
+
+    if (relation) {
+      params.push(relation);
+      sql += ` AND e.relation = $2`;
+    }
+
+    sql += ` ORDER BY e.confidence DESC`;
+
+    return this.query(sql, params);
+  }
+  
   private generateId(): string {
     return `claim_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
   }
@@ -422,14 +914,14 @@ export class SynthesisStore extends BaseStore {
 // ============================================================================
 
 export class PredictionTracker extends BaseStore {
-  async record(prediction: Prediction): Promise<string> {
+  async record(prediction: Prediction, client?: DbClient): Promise<string> {
     const id = prediction.id || `pred_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
     
     await this.execute(`
       INSERT INTO predictions (
         id, claim_id, text, author, confidence, timeframe,
-        topic, made_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        topic, made_at, target_date
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
       ON CONFLICT (id) DO NOTHING
     `, [
       id,
@@ -439,13 +931,20 @@ export class PredictionTracker extends BaseStore {
       prediction.confidence,
       prediction.timeframe,
       prediction.topic,
-      prediction.madeAt
-    ]);
+      prediction.madeAt,
+      prediction.targetDate
+    ], client);
     
     return id;
   }
   
-  async updateStatus(id: string, status: string, accuracyScore?: number, evidence?: string): Promise<void> {
+  async updateStatus(
+    id: string,
+    status: string,
+    accuracyScore?: number,
+    evidence?: string,
+    client?: DbClient
+  ): Promise<void> {
     await this.execute(`
       UPDATE predictions SET
         status = $2,
@@ -453,7 +952,7 @@ export class PredictionTracker extends BaseStore {
         evidence = $4,
         verified_at = NOW()
       WHERE id = $1
-    `, [id, status, accuracyScore, evidence]);
+    `, [id, status, accuracyScore, evidence], client);
   }
   
   async getPending(timeframe?: string): Promise<Prediction[]> {
@@ -474,6 +973,27 @@ export class PredictionTracker extends BaseStore {
     return this.query<Prediction>(sql, params);
   }
   
+  /**
+   * Pending predictions whose target date has passed and that don't already
+   * have a resolution awaiting review.
+   */
+  async getDue(limit = 20): Promise<Prediction[]> {
+    return this.query<Prediction>(`
+      SELECT
+        p.id, p.claim_id as "claimId", p.text, p.author, p.confidence,
+        p.timeframe, p.topic, p.made_at as "madeAt", p.target_date as "targetDate"
+      FROM predictions p
+      WHERE (p.status IS NULL OR p.status = 'too-early')
+        AND p.target_date <= NOW()
+        AND NOT EXISTS (
+          SELECT 1 FROM prediction_resolutions r
+          WHERE r.prediction_id = p.id AND r.review_status = 'pending'
+        )
+      ORDER BY p.target_date ASC
+      LIMIT $1
+    `, [limit]);
+  }
+  
   async getByAuthor(author: string): Promise<Prediction[]> {
     return this.query<Prediction>(`
       SELECT * FROM predictions
@@ -519,12 +1039,714 @@ export class PredictionTracker extends BaseStore {
       averageAccuracy: parseFloat(row.avg_accuracy) || 0
     };
   }
+  
+  /**
+   * Calibration of resolved predictions against the confidence they were made
+   * with, grouped by author, author category (via the source claim) or topic.
+   */
+  async getCalibration(groupBy: CalibrationGrouping = 'author', author?: string): Promise<CalibrationReport[]> {
+    const params: any[] = [RESOLVED_STATUSES];
+    let sql = `
+      SELECT
+        p.author, p.topic, p.confidence, p.status, p.accuracy_score,
+        COALESCE(c.author_category, 'unknown') as author_category
+      FROM predictions p
+      LEFT JOIN extracted_claims c ON c.id = p.claim_id
+      WHERE p.status = ANY($1) AND p.confidence IS NOT NULL
+    `;
+
+    if (author) {
+      params.push(author);
+      sql += ` AND p.author = $2`;
+    }
+
+    const rows = await this.query<{
+      author: string;
+      topic: string;
+      confidence: number;
+      status: string;
+      accuracy_score: number | null;
+      author_category: string;
+    }>(sql, params);
+
+    const groupKey = {
+      author: (r: typeof rows[number]) => r.author || 'unknown',
+      authorCategory: (r: typeof rows[number]) => r.author_category,
+      topic: (r: typeof rows[number]) => r.topic || 'general',
+    }[groupBy];
+
+    const groups = new Map<string, { confidence: number; outcome: number }[]>();
+    for (const row of rows) {
+      const outcome = predictionOutcome(row.status, row.accuracy_score);
+      if (outcome === null) continue;
+      const key = groupKey(row);
+      const group = groups.get(key) ?? [];
+      group.push({ confidence: Number(row.confidence), outcome });
+      groups.set(key, group);
+    }
+
+    return Array.from(groups.entries())
+      .map(([key, resolved]) => computeCalibration(key, resolved))
+      .sort((a, b) => b.count - a.count);
+  }
+}
+
+// ============================================================================
+// PREDICTION RESOLUTION QUEUE
+// ============================================================================
+
+export interface PredictionResolution {
+  id?: number;
+  predictionId: string;
+  proposedStatus: string;
+  accuracyScore?: number;
+  evidenceSummary?: string;
+  evidenceClaimIds?: string[];
+  notes?: string;
+  reviewStatus?: 'pending' | 'accepted' | 'rejected';
+  proposedAt?: Date;
+  reviewedAt?: Date;
+}
+
+/**
+ * Review queue for LLM-proposed prediction resolutions. Proposals never touch
+ * the predictions table directly; a human accepts or rejects each one, and
+ * only an accepted proposal is applied via PredictionTracker.updateStatus.
+ */
+export class PredictionResolutionQueue extends BaseStore {
+  async propose(resolution: PredictionResolution): Promise<number> {
+    const row = await this.queryOne<{ id: number }>(`
+      INSERT INTO prediction_resolutions (
+        prediction_id, proposed_status, accuracy_score, evidence_summary,
+        evidence_claim_ids, notes, review_status, proposed_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, 'pending', NOW())
+      RETURNING id
+    `, [
+      resolution.predictionId,
+      resolution.proposedStatus,
+      resolution.accuracyScore,
+      resolution.evidenceSummary,
+      resolution.evidenceClaimIds || [],
+      resolution.notes
+    ]);
+
+    return row!.id;
+  }
+
+  async getPending(limit = 50): Promise<(PredictionResolution & { predictionText: string; author: string })[]> {
+    return this.query(`
+      SELECT
+        r.id, r.prediction_id as "predictionId", r.proposed_status as "proposedStatus",
+        r.accuracy_score as "accuracyScore", r.evidence_summary as "evidenceSummary",
+        r.evidence_claim_ids as "evidenceClaimIds", r.notes,
+        r.review_status as "reviewStatus", r.proposed_at as "proposedAt",
+        p.text as "predictionText", p.author
+      FROM prediction_resolutions r
+      JOIN predictions p ON p.id = r.prediction_id
+      WHERE r.review_status = 'pending'
+      ORDER BY r.proposed_at ASC
+      LIMIT $1
+    `, [limit]);
+  }
+
+  /**
+   * Accept a pending proposal and apply it to the prediction. Returns false if
+   * the proposal doesn't exist or was already reviewed.
+   */
+  async accept(id: number, tracker: PredictionTracker): Promise<boolean> {
+    const client = await this.connect();
+    try {
+      await client.query('BEGIN');
+
+      const resolution = await this.markReviewed(id, 'accepted', client);
+      if (!resolution) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      await tracker.updateStatus(
+        resolution.predictionId,
+        resolution.proposedStatus,
+        resolution.accuracyScore ?? undefined,
+        resolution.evidenceSummary ?? undefined,
+        client
+      );
+
+      await client.query('COMMIT');
+      return true;
+    } catch (e) {
+      await client.query('ROLLBACK');
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+
+  async reject(id: number): Promise<boolean> {
+    return (await this.markReviewed(id, 'rejected')) !== null;
+  }
+
+  private async markReviewed(
+    id: number,
+    reviewStatus: 'accepted' | 'rejected',
+    client?: DbClient
+  ): Promise<PredictionResolution | null> {
+    return this.queryOne<PredictionResolution>(`
+      UPDATE prediction_resolutions SET
+        review_status = $2,
+        reviewed_at = NOW()
+      WHERE id = $1 AND review_status = 'pending'
+      RETURNING
+        id, prediction_id as "predictionId", proposed_status as "proposedStatus",
+        accuracy_score as "accuracyScore", evidence_summary as "evidenceSummary"
+    `, [id, reviewStatus], client);
+  }
+}
+
+// ============================================================================
+// HINT STORE
+// ============================================================================
+
+export class HintStore extends BaseStore {
+  /**
+   * Record a detected hint. Reprocessing the same content doesn't duplicate
+   * hints: a repeat of the same hint text on the same content is ignored.
+   */
+  async record(hint: ResearchHint, client?: DbClient): Promise<void> {
+    await this.execute(`
+      INSERT INTO research_hints (
+        content_id, author, hint_text, implied_capability,
+        confidence, timeframe, domain, made_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT (content_id, hint_text) DO NOTHING
+    `, [
+      hint.contentId,
+      hint.author,
+      hint.hintText,
+      hint.impliedCapability,
+      hint.confidence,
+      hint.timeframe,
+      hint.domain,
+      hint.madeAt
+    ], client);
+  }
+
+  /**
+   * Hints that haven't paid off yet, least recently checked first so a backlog
+   * of hints that never pay off can't starve newer ones.
+   */
+  async getOpen(limit = 50): Promise<ResearchHint[]> {
+    return this.query<ResearchHint>(`
+      SELECT
+        id, content_id as "contentId", author, hint_text as "hintText",
+        implied_capability as "impliedCapability", confidence, timeframe,
+        domain, made_at as "madeAt", status
+      FROM research_hints
+      WHERE status = 'open'
+      ORDER BY checked_at ASC NULLS FIRST, made_at ASC
+      LIMIT $1
+    `, [limit]);
+  }
+
+  async markChecked(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.execute(`
+      UPDATE research_hints SET checked_at = NOW()
+      WHERE id = ANY($1)
+    `, [ids]);
+  }
+
+  async getByAuthor(author: string): Promise<ResearchHint[]> {
+    return this.query<ResearchHint>(`
+      SELECT
+        id, content_id as "contentId", author, hint_text as "hintText",
+        implied_capability as "impliedCapability", confidence, timeframe,
+        domain, made_at as "madeAt", status,
+        paid_off_content_id as "paidOffContentId", paid_off_claim_id as "paidOffClaimId",
+        match_similarity as "matchSimilarity", paid_off_at as "paidOffAt"
+      FROM research_hints
+      WHERE author = $1
+      ORDER BY made_at DESC
+    `, [author]);
+  }
+
+  async markPaidOff(
+    id: number,
+    match: { contentId: number; claimId: string; similarity: number }
+  ): Promise<void> {
+    await this.execute(`
+      UPDATE research_hints SET
+        status = 'paid-off',
+        paid_off_content_id = $2,
+        paid_off_claim_id = $3,
+        match_similarity = $4,
+        paid_off_at = NOW()
+      WHERE id = $1
+    `, [id, match.contentId, match.claimId, match.similarity]);
+  }
+
+  /**
+   * Per-author hint reliability: how many hints were made and how many were
+   * followed by a matching release.
+   */
+  async getTrackRecord(author?: string): Promise<{
+    author: string;
+    total: number;
+    paidOff: number;
+    payoffRate: number;
+  }[]> {
+    const params: any[] = [];
+    let sql = `
+      SELECT
+        author,
+        COUNT(*) as total,
+        COUNT(*) FILTER (WHERE status = 'paid-off') as paid_off
+      FROM research_hints
+    `;
+
+    if (author) {
+      params.push(author);
+      sql += ` WHERE author = $1`;
+    }
+
+    sql += ` GROUP BY author ORDER BY paid_off DESC, total DESC`;
+
+    const rows = await this.query<{ author: string; total: string; paid_off: string }>(sql, params);
+
+    return rows.map(row => {
+      const total = parseInt(row.total);
+      const paidOff = parseInt(row.paid_off);
+      return {
+        author: row.author,
+        total,
+        paidOff,
+        payoffRate: total > 0 ? paidOff / total : 0
+      };
+    });
+  }
+}
+
+// ============================================================================
+// PAPER STORE
+// ============================================================================
+
+export class PaperStore extends BaseStore {
+  /**
+   * arXiv papers whose reception is due a check: never looked up, or last
+   * looked up more than refreshDays ago. Papers past maxAgeDays are left alone.
+   */
+  async getDue(refreshDays: number, limit = 50, maxAgeDays = 365): Promise<PaperRef[]> {
+    return this.query<PaperRef>(`
+      SELECT c.id as "contentId", c.external_id as "arxivId", c.title
+      FROM content c
+      JOIN sources s ON s.id = c.source_id
+      LEFT JOIN (
+        SELECT content_id, MAX(captured_at) as captured_at
+        FROM paper_snapshots
+        GROUP BY content_id
+      ) ps ON ps.content_id = c.id
+      WHERE s.type = 'arxiv'
+        AND c.published_at > NOW() - make_interval(days => $3)
+        AND (ps.captured_at IS NULL OR ps.captured_at < NOW() - make_interval(days => $1))
+      ORDER BY ps.captured_at ASC NULLS FIRST, c.published_at DESC
+      LIMIT $2
+    `, [refreshDays, limit, maxAgeDays]);
+  }
+
+  /**
+   * Record one lookup. Misses are recorded too (found = false), so a paper
+   * no source knows isn't looked up again before its next refresh.
+   */
+  async record(contentId: number, source: PaperMetadataSource, record: PaperRecord | null): Promise<void> {
+    const scores = record?.reviewScores ?? [];
+    await this.execute(`
+      INSERT INTO paper_snapshots (
+        content_id, source, found, external_id, url, citation_count,
+        influential_citation_count, venue, review_scores, mean_review_score, decision
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    `, [
+      contentId,
+      source,
+      record !== null,
+      record?.externalId ?? null,
+      record?.url ?? null,
+      record?.citationCount ?? null,
+      record?.influentialCitationCount ?? null,
+      record?.venue ?? null,
+      record?.reviewScores ?? null,
+      scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : null,
+      record?.decision ?? null
+    ]);
+  }
+
+  /** Every snapshot of a paper, oldest first */
+  async getHistory(contentId: number): Promise<PaperSnapshot[]> {
+    return this.query<PaperSnapshot>(`
+      SELECT
+        content_id as "contentId", source, found, external_id as "externalId", url,
+        citation_count as "citationCount",
+        influential_citation_count as "influentialCitationCount", venue,
+        review_scores as "reviewScores", mean_review_score as "meanReviewScore",
+        decision, captured_at as "capturedAt"
+      FROM paper_snapshots
+      WHERE content_id = $1
+      ORDER BY captured_at ASC
+    `, [contentId]);
+  }
+
+  /**
+   * Latest reception of the arXiv papers with claims extracted in the last
+   * `days` days. A paper's topic is its claims' most common topic; lab
+   * mentions count items from lab sources linking to the paper on arXiv
+   * (their URL, shared link or metadata links), found in one pass over lab
+   * content rather than a text search per paper.
+   */
+  async getReception(days: number, labCategories: ContentCategory[]): Promise<PaperReceptionRow[]> {
+    return this.query<PaperReceptionRow>(`
+      WITH papers AS (
+        SELECT
+          c.id, regexp_replace(c.external_id, 'v[0-9]+$', '') as arxiv_id,
+          MODE() WITHIN GROUP (ORDER BY ec.topic) as topic
+        FROM content c
+        JOIN sources s ON s.id = c.source_id AND s.type = 'arxiv'
+        JOIN extracted_claims ec ON ec.content_id = c.id
+        WHERE ec.extracted_at > NOW() - make_interval(days => $1)
+        GROUP BY c.id
+      ),
+      latest AS (
+        SELECT DISTINCT ON (content_id, source)
+          content_id, source, citation_count, mean_review_score, decision
+        FROM paper_snapshots
+        WHERE found
+        ORDER BY content_id, source, captured_at DESC
+      ),
+      lab_mentions AS (
+        SELECT linked.arxiv_id, COUNT(DISTINCT lc.id)::int as mentions
+        FROM content lc
+        JOIN sources ls ON ls.id = lc.source_id
+        CROSS JOIN LATERAL (
+          SELECT (regexp_matches(link, 'arxiv\\.org/(?:abs|pdf)/([0-9]{4}\\.[0-9]{4,5})', 'gi'))[1] as arxiv_id
+          FROM unnest(ARRAY[lc.url, lc.shared_url] || ARRAY(
+            SELECT jsonb_array_elements_text(lc.metadata->'links')
+            WHERE jsonb_typeof(lc.metadata->'links') = 'array'
+          )) as link
+        ) linked
+        WHERE ls.category = ANY($2) AND ls.type <> 'arxiv'
+        GROUP BY linked.arxiv_id
+      )
+      SELECT
+        p.id as "contentId", COALESCE(p.topic, 'general') as topic,
+        rv.mean_review_score as "meanReviewScore", rv.decision,
+        sc.citation_count as "citationCount",
+        COALESCE(lm.mentions, 0) as "labMentions"
+      FROM papers p
+      LEFT JOIN latest rv ON rv.content_id = p.id AND rv.source = 'openreview'
+      LEFT JOIN latest sc ON sc.content_id = p.id AND sc.source = 'semantic-scholar'
+      LEFT JOIN lab_mentions lm ON lm.arxiv_id = p.arxiv_id
+    `, [days, labCategories]);
+  }
+}
+
+// ============================================================================
+// ARGUMENT STORE
+// ============================================================================
+
+const ARGUMENT_MAP_COLUMNS = `
+  a.id, a.content_id as "contentId", a.author, a.topic, a.main_thesis as "mainThesis",
+  a.premises, a.evidence, a.target_claims as "targetClaims", a.concessions,
+  a.weaknesses, a.steelman_response as "steelmanResponse", a.claim_ids as "claimIds",
+  a.mapped_at as "mappedAt"
+`;
+
+export class ArgumentStore extends BaseStore {
+  /**
+   * Store the argument map for a piece of content. Each content item has at
+   * most one map; remapping it replaces the previous one.
+   */
+  async upsert(map: ArgumentMap, client?: DbClient): Promise<void> {
+    await this.execute(`
+      INSERT INTO argument_maps (
+        content_id, author, topic, main_thesis, premises, evidence,
+        target_claims, concessions, weaknesses, steelman_response, claim_ids
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      ON CONFLICT (content_id) DO UPDATE SET
+        main_thesis = EXCLUDED.main_thesis,
+        premises = EXCLUDED.premises,
+        evidence = EXCLUDED.evidence,
+        target_claims = EXCLUDED.target_claims,
+        concessions = EXCLUDED.concessions,
+        weaknesses = EXCLUDED.weaknesses,
+        steelman_response = EXCLUDED.steelman_response,
+        claim_ids = EXCLUDED.claim_ids,
+        mapped_at = NOW()
+    `, [
+      map.contentId,
+      map.author,
+      map.topic,
+      map.mainThesis,
+      map.premises,
+      map.evidence,
+      map.targetClaims,
+      map.concessions,
+      map.weaknesses,
+      map.steelmanResponse,
+      map.claimIds
+    ], client);
+  }
+
+  /**
+   * Argument maps for content published in the lookback window, newest first.
+   */
+  async getRecent(days: number, topic?: string): Promise<(ArgumentMap & { title?: string; url?: string })[]> {
+    const safeDays = Math.max(0, Math.floor(Number(days) || 0));
+    const params: any[] = [safeDays];
+
+    let sql = `
+      SELECT ${ARGUMENT_MAP_COLUMNS}, c.title, c.url
+      FROM argument_maps a
+      JOIN content c ON c.id = a.content_id
+      WHERE c.published_at > NOW() - make_interval(days => $1)
+    `;
+
+    if (topic) {
+      params.push(topic);
+      sql += ` AND a.topic = $${params.length}`;
+    }
+
+    sql += ` ORDER BY c.published_at DESC`;
+
+    return this.query(sql, params);
+  }
+
+  async getByContent(contentId: number): Promise<ArgumentMap | null> {
+    return this.queryOne<ArgumentMap>(`
+      SELECT ${ARGUMENT_MAP_COLUMNS}
+      FROM argument_maps a
+      WHERE a.content_id = $1
+    `, [contentId]);
+  }
+}
+
+// ============================================================================
+// CLUSTER STORE
+// ============================================================================
+
+/**
+ * Claims grouped into clusters of near-duplicates (see clusters.ts). Each
+ * cluster keeps a centroid embedding; extracted_claims.cluster_id points to
+ * the claim's cluster.
+ */
+export class ClusterStore extends BaseStore {
+  /**
+   * Embedded claims not yet assigned to a cluster, oldest first so clusters
+   * are seeded by the first occurrence of an idea.
+   */
+  async getUnclustered(limit = 500, client?: DbClient): Promise<{
+    id: string;
+    claimText: string;
+    topic: string;
+    author: string;
+    extractedAt: Date;
+    embedding: string;
+  }[]> {
+    return this.query(`
+      SELECT
+        c.id, c.claim_text as "claimText", c.topic,
+        COALESCE(ct.researcher, s.researcher, s.identifier, c.author, 'unknown') as author,
+        c.extracted_at as "extractedAt", e.embedding::text as embedding
+      FROM extracted_claims c
+      JOIN content_embeddings e ON e.content_id = c.id AND e.chunk_index = 0
+      LEFT JOIN content ct ON ct.id = c.content_id
+      LEFT JOIN sources s ON s.id = ct.source_id
+      WHERE c.cluster_id IS NULL
+      ORDER BY c.extracted_at ASC
+      LIMIT $1
+    `, [limit], client);
+  }
+
+  async findNearest(embedding: number[], client?: DbClient): Promise<{
+    id: number;
+    memberCount: number;
+    centroid: string;
+    similarity: number;
+  } | null> {
+    return this.queryOne(`
+      SELECT
+        id, member_count as "memberCount", centroid::text as centroid,
+        1 - (centroid <=> $1::vector) as similarity
+      FROM claim_clusters
+      ORDER BY centroid <=> $1::vector
+      LIMIT 1
+    `, [`[${embedding.join(',')}]`], client);
+  }
+
+  /**
+   * Start a new cluster seeded by a claim.
+   */
+  async create(
+    claim: { id: string; claimText: string; topic: string; author: string; extractedAt: Date },
+    embedding: number[],
+    client?: DbClient
+  ): Promise<number> {
+    const row = await this.queryOne<{ id: number }>(`
+      INSERT INTO claim_clusters (
+        topic, canonical_claim_id, canonical_text, centroid,
+        member_count, author_count, authors, first_seen, last_seen
+      ) VALUES ($1, $2, $3, $4::vector, 1, 1, ARRAY[$5::varchar], $6, $6)
+      RETURNING id
+    `, [
+      claim.topic,
+      claim.id,
+      claim.claimText,
+      `[${embedding.join(',')}]`,
+      claim.author,
+      claim.extractedAt
+    ], client);
+
+    await this.assign(claim.id, row!.id, client);
+    return row!.id;
+  }
+
+  async addMember(
+    clusterId: number,
+    claim: { id: string; author: string; extractedAt: Date },
+    centroid: number[],
+    client?: DbClient
+  ): Promise<void> {
+    await this.execute(`
+      UPDATE claim_clusters SET
+        centroid = $2::vector,
+        member_count = member_count + 1,
+        authors = CASE WHEN $3 = ANY(authors) THEN authors ELSE array_append(authors, $3::varchar) END,
+        author_count = CASE WHEN $3 = ANY(authors) THEN author_count ELSE author_count + 1 END,
+        first_seen = LEAST(first_seen, $4),
+        last_seen = GREATEST(last_seen, $4),
+        updated_at = NOW()
+      WHERE id = $1
+    `, [clusterId, `[${centroid.join(',')}]`, claim.author, claim.extractedAt], client);
+
+    await this.assign(claim.id, clusterId, client);
+  }
+
+  /**
+   * Clusters with members seen in the lookback window, most repeated first.
+   */
+  async getRecent(days: number, topic?: string): Promise<ClaimCluster[]> {
+    const safeDays = Math.max(0, Math.floor(Number(days) || 0));
+    const params: any[] = [safeDays];
+    let sql = `
+      SELECT
+        id, topic, canonical_claim_id as "canonicalClaimId", canonical_text as "canonicalText",
+        member_count as "memberCount", author_count as "authorCount", authors,
+        first_seen as "firstSeen", last_seen as "lastSeen"
+      FROM claim_clusters
+      WHERE last_seen > NOW() - make_interval(days => $1)
+    `;
+
+    if (topic) {
+      params.push(topic);
+      sql += ` AND topic = $2`;
+    }
+
+    sql += ` ORDER BY member_count DESC, last_seen DESC`;
+
+    return this.query<ClaimCluster>(sql, params);
+  }
+
+  private async assign(claimId: string, clusterId: number, client?: DbClient): Promise<void> {
+    await this.execute(`
+      UPDATE extracted_claims SET cluster_id = $2
+      WHERE id = $1
+    `, [claimId, clusterId], client);
+  }
+}
+
+// ============================================================================
+// BACKFILL STORE
+// ============================================================================
+
+const BACKFILL_COLUMNS = `
+  source_id as "sourceId", since, cursor, status, pages, items, error,
+  started_at as "startedAt", updated_at as "updatedAt", completed_at as "completedAt"
+`;
+
+export class BackfillStore extends BaseStore {
+  /**
+   * Queue a backfill of a source back to `since`. A backfill already queued
+   * to the same date is left as it is, so it resumes from its cursor; a
+   * different date starts over.
+   */
+  async start(sourceId: number, since: Date): Promise<void> {
+    await this.execute(`
+      INSERT INTO source_backfills (source_id, since, status)
+      VALUES ($1, $2, 'pending')
+      ON CONFLICT (source_id) DO UPDATE SET
+        since = EXCLUDED.since,
+        cursor = NULL,
+        status = 'pending',
+        pages = 0,
+        items = 0,
+        error = NULL,
+        started_at = NOW(),
+        updated_at = NOW(),
+        completed_at = NULL
+      WHERE source_backfills.since <> EXCLUDED.since
+    `, [sourceId, since]);
+  }
+
+  /** Backfills not yet done, failed ones included so they're retried */
+  async getPending(): Promise<SourceBackfill[]> {
+    return this.query<SourceBackfill>(`
+      SELECT ${BACKFILL_COLUMNS}
+      FROM source_backfills
+      WHERE status <> 'done'
+      ORDER BY started_at ASC
+    `);
+  }
+
+  async getAll(): Promise<SourceBackfill[]> {
+    return this.query<SourceBackfill>(`
+      SELECT ${BACKFILL_COLUMNS}
+      FROM source_backfills
+      ORDER BY started_at DESC
+    `);
+  }
+
+  /** Record a page read: where the next one starts, or that it's done */
+  async recordPage(sourceId: number, cursor: Record<string, any> | undefined, items: number): Promise<void> {
+    await this.execute(`
+      UPDATE source_backfills SET
+        cursor = $2,
+        status = CASE WHEN $2::jsonb IS NULL THEN 'done' ELSE 'running' END,
+        pages = pages + 1,
+        items = items + $3,
+        error = NULL,
+        updated_at = NOW(),
+        completed_at = CASE WHEN $2::jsonb IS NULL THEN NOW() END
+      WHERE source_id = $1
+    `, [sourceId, cursor ? JSON.stringify(cursor) : null, items]);
+  }
+
+  /** Record a failed page; the cursor is kept, so the retry starts there */
+  async recordFailure(sourceId: number, error: string): Promise<void> {
+    await this.execute(`
+      UPDATE source_backfills SET status = 'failed', error = $2, updated_at = NOW()
+      WHERE source_id = $1
+    `, [sourceId, error]);
+  }
 }
 
 // ============================================================================
 // SOURCE STORE
 // ============================================================================
 
+const HEALTH_COLUMNS = `
+  id as "sourceId", consecutive_failures as "consecutiveFailures",
+  last_error as "lastError", last_error_at as "lastErrorAt",
+  last_success_at as "lastSuccessAt", avg_item_yield as "avgItemYield",
+  next_fetch_at as "nextFetchAt", quarantined_at as "quarantinedAt"
+`;
+
 export class SourceStore extends BaseStore {
   async upsert(source: Source): Promise<number> {
     const row = await this.queryOne<{ id: number }>(`
@@ -567,17 +1789,204 @@ export class SourceStore extends BaseStore {
     `, [type]);
   }
   
-  async markFetched(id: number): Promise<void> {
+  /**
+   * Mark a source fetched. Validators and adapter state, when the adapter
+   * returned them, are kept for the next fetch. A successful fetch clears
+   * the source's failures, backoff and quarantine, and `newItems` feeds its
+   * average item yield.
+   */
+  async markFetched(
+    id: number,
+    update: { validators?: CacheValidators; state?: Record<string, any>; newItems?: number } = {}
+  ): Promise<void> {
+    const sets = ['last_fetched = NOW()'];
+    const params: any[] = [id];
+
+    if (update.validators) {
+      params.push(update.validators.etag ?? null, update.validators.lastModified ?? null);
+      sets.push(`etag = $${params.length - 1}, last_modified = $${params.length}`);
+    }
+    if (update.state) {
+      params.push(JSON.stringify(update.state));
+      sets.push(`adapter_state = $${params.length}`);
+    }
+    if (update.newItems !== undefined) {
+      params.push(update.newItems, SOURCE_HEALTH_CONFIG.yieldWeight);
+      const items = `$${params.length - 1}::real`;
+      const weight = `$${params.length}::real`;
+      sets.push(`avg_item_yield = COALESCE(avg_item_yield * (1 - ${weight}) + ${items} * ${weight}, ${items})`);
+    }
+    sets.push('last_success_at = NOW()', 'consecutive_failures = 0', 'next_fetch_at = NULL', 'quarantined_at = NULL');
+
     await this.execute(`
-      UPDATE sources SET last_fetched = NOW()
+      UPDATE sources SET ${sets.join(', ')}
+      WHERE id = $1
+    `, params);
+  }
+
+  /**
+   * Record a failed fetch and back the source off: the next attempt waits
+   * backoffBaseMinutes, doubled for each earlier consecutive failure, and
+   * the quarantineAfter-th failure in a row quarantines the source. Returns
+   * the failure count and whether the source is now quarantined.
+   */
+  async recordFailure(id: number, error: string): Promise<{ consecutiveFailures: number; quarantined: boolean }> {
+    const row = await this.queryOne<{ consecutiveFailures: number; quarantined: boolean }>(`
+      UPDATE sources SET
+        consecutive_failures = consecutive_failures + 1,
+        last_error = $2,
+        last_error_at = NOW(),
+        next_fetch_at = NOW() + make_interval(mins => LEAST($4::int, $3::int * power(2, consecutive_failures))::int),
+        quarantined_at = COALESCE(quarantined_at, CASE WHEN consecutive_failures + 1 >= $5::int THEN NOW() END)
       WHERE id = $1
+      RETURNING consecutive_failures as "consecutiveFailures", quarantined_at IS NOT NULL as quarantined
+    `, [
+      id,
+      error,
+      SOURCE_HEALTH_CONFIG.backoffBaseMinutes,
+      SOURCE_HEALTH_CONFIG.backoffMaxMinutes,
+      SOURCE_HEALTH_CONFIG.quarantineAfter
+    ]);
+
+    return row ?? { consecutiveFailures: 0, quarantined: false };
+  }
+
+  /**
+   * Take a source out of quarantine with a clean slate. Returns the source,
+   * or null if it wasn't quarantined.
+   */
+  async releaseQuarantine(id: number): Promise<Source | null> {
+    return this.queryOne<Source>(`
+      UPDATE sources SET quarantined_at = NULL, consecutive_failures = 0, next_fetch_at = NULL
+      WHERE id = $1 AND quarantined_at IS NOT NULL
+      RETURNING *
+    `, [id]);
+  }
+
+  /** Health of the given sources, keyed by source id */
+  async getHealth(ids: number[]): Promise<Map<number, SourceHealth>> {
+    if (ids.length === 0) return new Map();
+    const rows = await this.query<SourceHealth>(`
+      SELECT ${HEALTH_COLUMNS} FROM sources WHERE id = ANY($1)
+    `, [ids]);
+    return new Map(rows.map(row => [row.sourceId, row]));
+  }
+
+  /** Active sources that are failing or quarantined, worst first */
+  async getUnhealthy(): Promise<(SourceHealth & { type: string; identifier: string })[]> {
+    return this.query<SourceHealth & { type: string; identifier: string }>(`
+      SELECT ${HEALTH_COLUMNS}, type, identifier
+      FROM sources
+      WHERE is_active = true AND (consecutive_failures > 0 OR quarantined_at IS NOT NULL)
+      ORDER BY quarantined_at IS NULL, consecutive_failures DESC, identifier
+    `);
+  }
+
+  async recordAlert(alert: SourceAlert): Promise<void> {
+    await this.execute(`
+      INSERT INTO source_alerts (source_id, kind, message) VALUES ($1, $2, $3)
+    `, [alert.sourceId, alert.kind, alert.message]);
+  }
+
+  /**
+   * Link a researcher's accounts under one handle, unlinking any accounts no
+   * longer listed for it. Returns how many of the accounts are known sources.
+   */
+  async linkResearcher(
+    handle: string,
+    accounts: { type: SourceType; identifier: string }[]
+  ): Promise<number> {
+    const types = accounts.map(a => a.type);
+    const identifiers = accounts.map(a => a.identifier);
+
+    await this.execute(`
+      UPDATE sources SET researcher = NULL
+      WHERE researcher = $1
+        AND (type, identifier) NOT IN (SELECT * FROM unnest($2::text[], $3::text[]))
+    `, [handle, types, identifiers]);
+
+    const linked = await this.query<{ id: number }>(`
+      UPDATE sources s SET researcher = $1
+      FROM unnest($2::text[], $3::text[]) AS a(type, identifier)
+      WHERE s.type = a.type AND s.identifier = a.identifier
+      RETURNING s.id
+    `, [handle, types, identifiers]);
+
+    return linked.length;
+  }
+
+  /**
+   * Researcher handles keyed by the names they're tracked under, for matching
+   * paper authors. A researcher with several named accounts has several names.
+   */
+  async getResearcherNames(): Promise<{ name: string; handle: string }[]> {
+    return this.query<{ name: string; handle: string }>(`
+      SELECT DISTINCT author_name as name, COALESCE(researcher, identifier) as handle
+      FROM sources
+      WHERE author_name IS NOT NULL AND is_active = true
+    `);
+  }
+
+  /** What the previous fetch of a source left for the next one */
+  async getFetchContext(id: number): Promise<FetchContext> {
+    const row = await this.queryOne<{
+      etag: string | null;
+      last_modified: string | null;
+      adapter_state: Record<string, any> | null;
+    }>(`
+      SELECT etag, last_modified, adapter_state FROM sources WHERE id = $1
     `, [id]);
+
+    return {
+      validators: {
+        etag: row?.etag ?? undefined,
+        lastModified: row?.last_modified ?? undefined,
+      },
+      state: row?.adapter_state ?? undefined,
+    };
   }
   
+  /**
+   * Record the registered adapters so the web admin, which can't import
+   * them, can label and link sources by type.
+   */
+  async syncAdapters(adapters: SourceAdapterInfo[]): Promise<void> {
+    for (const adapter of adapters) {
+      await this.execute(`
+        INSERT INTO source_adapters (
+          type, display_name, description, identifier_label, profile_url,
+          min_interval_ms, default_fetch_frequency_hours, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+        ON CONFLICT (type) DO UPDATE SET
+          display_name = EXCLUDED.display_name,
+          description = EXCLUDED.description,
+          identifier_label = EXCLUDED.identifier_label,
+          profile_url = EXCLUDED.profile_url,
+          min_interval_ms = EXCLUDED.min_interval_ms,
+          default_fetch_frequency_hours = EXCLUDED.default_fetch_frequency_hours,
+          updated_at = NOW()
+      `, [
+        adapter.type,
+        adapter.displayName,
+        adapter.description,
+        adapter.identifierLabel,
+        adapter.profileUrl ?? null,
+        adapter.rateLimit.minIntervalMs,
+        adapter.defaultFetchFrequencyHours
+      ]);
+    }
+  }
+
+  /**
+   * Active sources whose fetch interval has passed. Quarantined sources and
+   * failing ones still backing off aren't due.
+   */
   async getDueForFetch(): Promise<Source[]> {
     return this.query<Source>(`
       SELECT * FROM sources
       WHERE is_active = true
+        AND quarantined_at IS NULL
+        AND (next_fetch_at IS NULL OR next_fetch_at <= NOW())
         AND (
           last_fetched IS NULL
           OR last_fetched < NOW() - (fetch_frequency_hours || ' hours')::interval
@@ -690,6 +2099,7 @@ export async function initializeDatabase(
       timeframe VARCHAR(50),
       topic VARCHAR(100),
       made_at TIMESTAMPTZ NOT NULL,
+      target_date TIMESTAMPTZ,
       verified_at TIMESTAMPTZ,
       status VARCHAR(50),
       accuracy_score FLOAT,
@@ -707,6 +2117,210 @@ export async function initializeDatabase(
     CREATE INDEX IF NOT EXISTS idx_predictions_author ON predictions(author);
   `);
 
+  // Columns added after the initial schema. ADD COLUMN IF NOT EXISTS keeps
+  // re-running init safe against databases created by earlier versions.
+  await pool.query(`
+    ALTER TABLE predictions ADD COLUMN IF NOT EXISTS target_date TIMESTAMPTZ;
+    CREATE INDEX IF NOT EXISTS idx_predictions_target_date ON predictions(target_date);
+
+    CREATE TABLE IF NOT EXISTS prediction_resolutions (
+      id SERIAL PRIMARY KEY,
+      prediction_id VARCHAR(100) NOT NULL REFERENCES predictions(id),
+      proposed_status VARCHAR(50) NOT NULL,
+      accuracy_score FLOAT,
+      evidence_summary TEXT,
+      evidence_claim_ids TEXT[],
+      notes TEXT,
+      review_status VARCHAR(20) NOT NULL DEFAULT 'pending',
+      proposed_at TIMESTAMPTZ DEFAULT NOW(),
+      reviewed_at TIMESTAMPTZ
+    );
+    CREATE INDEX IF NOT EXISTS idx_resolutions_review ON prediction_resolutions(review_status, proposed_at);
+
+    CREATE TABLE IF NOT EXISTS research_hints (
+      id SERIAL PRIMARY KEY,
+      content_id INT REFERENCES content(id),
+      author VARCHAR(255),
+      hint_text TEXT NOT NULL,
+      implied_capability TEXT NOT NULL,
+      confidence FLOAT,
+      timeframe VARCHAR(100),
+      domain VARCHAR(100),
+      made_at TIMESTAMPTZ NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'open',
+      paid_off_content_id INT REFERENCES content(id),
+      paid_off_claim_id VARCHAR(100),
+      match_similarity FLOAT,
+      paid_off_at TIMESTAMPTZ,
+      checked_at TIMESTAMPTZ,
+      detected_at TIMESTAMPTZ DEFAULT NOW(),
+      UNIQUE(content_id, hint_text)
+    );
+    CREATE INDEX IF NOT EXISTS idx_hints_status ON research_hints(status, made_at);
+    CREATE INDEX IF NOT EXISTS idx_hints_author ON research_hints(author);
+
+    CREATE TABLE IF NOT EXISTS argument_maps (
+      id SERIAL PRIMARY KEY,
+      content_id INT NOT NULL UNIQUE REFERENCES content(id),
+      author VARCHAR(255),
+      topic VARCHAR(100),
+      main_thesis TEXT NOT NULL,
+      premises TEXT[],
+      evidence TEXT[],
+      target_claims TEXT[],
+      concessions TEXT[],
+      weaknesses TEXT[],
+      steelman_response TEXT,
+      claim_ids TEXT[],
+      mapped_at TIMESTAMPTZ DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS idx_argument_maps_topic ON argument_maps(topic);
+
+    CREATE TABLE IF NOT EXISTS claim_edges (
+      id SERIAL PRIMARY KEY,
+      source_claim_id VARCHAR(100) NOT NULL REFERENCES extracted_claims(id),
+      target_claim_id VARCHAR(100) NOT NULL REFERENCES extracted_claims(id),
+      relation VARCHAR(20) NOT NULL,
+      confidence FLOAT,
+      similarity FLOAT,
+      method VARCHAR(20),
+      rationale TEXT,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      UNIQUE(source_claim_id, target_claim_id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_claim_edges_target ON claim_edges(target_claim_id);
+
+    CREATE TABLE IF NOT EXISTS claim_clusters (
+      id SERIAL PRIMARY KEY,
+      topic VARCHAR(100),
+      canonical_claim_id VARCHAR(100) REFERENCES extracted_claims(id),
+      canonical_text TEXT NOT NULL,
+      centroid vector(${dim}),
+      member_count INT NOT NULL DEFAULT 1,
+      author_count INT NOT NULL DEFAULT 1,
+      authors VARCHAR(255)[],
+      first_seen TIMESTAMPTZ,
+      last_seen TIMESTAMPTZ,
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS idx_clusters_last_seen ON claim_clusters(last_seen);
+
+    ALTER TABLE extracted_claims ADD COLUMN IF NOT EXISTS cluster_id INT REFERENCES claim_clusters(id);
+    CREATE INDEX IF NOT EXISTS idx_claims_cluster ON extracted_claims(cluster_id);
+
+    -- Chunked extraction: which chunk of a long item a claim came from, and
+    -- where its supporting quote sits in the item's full text
+    ALTER TABLE extracted_claims ADD COLUMN IF NOT EXISTS chunk_index INT;
+    ALTER TABLE extracted_claims ADD COLUMN IF NOT EXISTS quote_start INT;
+    ALTER TABLE extracted_claims ADD COLUMN IF NOT EXISTS quote_end INT;
+
+    -- Quote verification: whether original_quote was found in the source text
+    ALTER TABLE extracted_claims ADD COLUMN IF NOT EXISTS quote_verified BOOLEAN;
+    ALTER TABLE extracted_claims ADD COLUMN IF NOT EXISTS quote_match_score REAL;
+
+    -- Conditional fetches: HTTP validators from each source's last response,
+    -- and a hash of each item's title and text so unchanged items skip the write
+    ALTER TABLE sources ADD COLUMN IF NOT EXISTS etag TEXT;
+    ALTER TABLE sources ADD COLUMN IF NOT EXISTS last_modified TEXT;
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS first_fetched_at TIMESTAMPTZ;
+
+    -- Whatever an adapter keeps between fetches of a source (e.g. star counts)
+    ALTER TABLE sources ADD COLUMN IF NOT EXISTS adapter_state JSONB;
+
+    -- One researcher's accounts on several platforms share a researcher handle,
+    -- which researcher views and predictions use instead of the identifier
+    ALTER TABLE sources ADD COLUMN IF NOT EXISTS researcher VARCHAR(255);
+    CREATE INDEX IF NOT EXISTS idx_sources_researcher ON sources(researcher);
+
+    -- Papers are attributed to the tracked researcher among their authors,
+    -- ahead of the source (the arXiv feed they came from)
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS researcher VARCHAR(255);
+
+    -- Paper reception: each lookup of an arXiv paper in Semantic Scholar or
+    -- OpenReview is kept, so citations and reviews can be followed over time
+    CREATE TABLE IF NOT EXISTS paper_snapshots (
+      id SERIAL PRIMARY KEY,
+      content_id INT NOT NULL REFERENCES content(id),
+      source VARCHAR(30) NOT NULL,
+      found BOOLEAN NOT NULL,
+      external_id VARCHAR(255),
+      url TEXT,
+      citation_count INT,
+      influential_citation_count INT,
+      venue TEXT,
+      review_scores REAL[],
+      mean_review_score REAL,
+      decision VARCHAR(255),
+      captured_at TIMESTAMPTZ DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS idx_paper_snapshots_content ON paper_snapshots(content_id, captured_at);
+
+    -- Historical backfill: one per source, with the adapter's cursor so an
+    -- interrupted backfill resumes, and a flag on the content it stored so
+    -- that content is processed after the regular queue
+    CREATE TABLE IF NOT EXISTS source_backfills (
+      source_id INT PRIMARY KEY REFERENCES sources(id),
+      since TIMESTAMPTZ NOT NULL,
+      cursor JSONB,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending',
+      pages INT NOT NULL DEFAULT 0,
+      items INT NOT NULL DEFAULT 0,
+      error TEXT,
+      started_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW(),
+      completed_at TIMESTAMPTZ
+    );
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS backfilled BOOLEAN NOT NULL DEFAULT false;
+    CREATE INDEX IF NOT EXISTS idx_content_backfill_queue ON content(published_at) WHERE backfilled AND processed_at IS NULL;
+
+    -- Source health: consecutive failures with backoff and quarantine, the
+    -- last error and success, and the average new items per fetch
+    ALTER TABLE sources ADD COLUMN IF NOT EXISTS consecutive_failures INT NOT NULL DEFAULT 0;
+    ALTER TABLE sources ADD COLUMN IF NOT EXISTS last_error TEXT;
+    ALTER TABLE sources ADD COLUMN IF NOT EXISTS last_error_at TIMESTAMPTZ;
+    ALTER TABLE sources ADD COLUMN IF NOT EXISTS last_success_at TIMESTAMPTZ;
+    ALTER TABLE sources ADD COLUMN IF NOT EXISTS avg_item_yield REAL;
+    ALTER TABLE sources ADD COLUMN IF NOT EXISTS next_fetch_at TIMESTAMPTZ;
+    ALTER TABLE sources ADD COLUMN IF NOT EXISTS quarantined_at TIMESTAMPTZ;
+
+    -- Every change of a source's health, for the admin page and alerting
+    CREATE TABLE IF NOT EXISTS source_alerts (
+      id SERIAL PRIMARY KEY,
+      source_id INT NOT NULL REFERENCES sources(id) ON DELETE CASCADE,
+      kind VARCHAR(20) NOT NULL,
+      message TEXT,
+      created_at TIMESTAMPTZ DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS idx_source_alerts_created ON source_alerts(created_at);
+
+    CREATE INDEX IF NOT EXISTS idx_content_url ON content(url);
+
+    -- Cross-source duplicates (see dedup.ts): each item's canonical URL, the
+    -- link it shares and a SimHash of its text, and the item it duplicates
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS canonical_url TEXT;
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS shared_url TEXT;
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS simhash BIGINT;
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS fingerprinted_at TIMESTAMPTZ;
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS duplicate_of INT REFERENCES content(id) ON DELETE SET NULL;
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS duplicate_reason VARCHAR(10);
+    CREATE INDEX IF NOT EXISTS idx_content_canonical_url ON content(canonical_url) WHERE canonical_url IS NOT NULL;
+    CREATE INDEX IF NOT EXISTS idx_content_shared_url ON content(shared_url) WHERE shared_url IS NOT NULL;
+    CREATE INDEX IF NOT EXISTS idx_content_duplicate_of ON content(duplicate_of) WHERE duplicate_of IS NOT NULL;
+
+    -- Registered source adapters, mirrored for the web admin
+    CREATE TABLE IF NOT EXISTS source_adapters (
+      type VARCHAR(50) PRIMARY KEY,
+      display_name VARCHAR(100) NOT NULL,
+      description TEXT,
+      identifier_label VARCHAR(100),
+      profile_url TEXT,
+      min_interval_ms INT,
+      default_fetch_frequency_hours INT,
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    );
+  `);
+
   // ivfflat supports up to 2000 dimensions. For larger embeddings (e.g.
   // OpenAI text-embedding-3-large at 3072) skip the ANN index; queries still
   // work via exact search.
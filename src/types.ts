@@ -6,7 +6,8 @@
 // SOURCE TYPES
 // ============================================================================
 
-export type SourceType = 
+/** Source types with an adapter in src/adapters */
+export type BuiltinSourceType =
   | 'twitter'
   | 'substack'
   | 'youtube'
@@ -14,7 +15,14 @@ export type SourceType =
   | 'podcast'
   | 'lesswrong'
   | 'arxiv'
-  | 'bluesky';
+  | 'bluesky'
+  | 'hackernews'
+  | 'reddit'
+  | 'github'
+  | 'mastodon';
+
+// Adapters loaded from SOURCE_ADAPTERS register further types at runtime
+export type SourceType = BuiltinSourceType | (string & {});
 
 export type AuthorCategory = 
   | 'lab-researcher'
@@ -54,12 +62,30 @@ export interface RawContent {
   sourceType: SourceType;
   author: string;
   content: string;
+  html?: string;  // Cleaned article HTML, when the text came from the linked page
   title?: string;
   url?: string;
+  linksTo?: string;  // Set on link-only posts; stored as a duplicate of this URL's content (see dedup.ts)
+  authors?: string[];  // Every author of multi-author content (papers), matched to tracked researchers
+  researcher?: string;  // Handle of the first tracked researcher among `authors`
   publishedAt: Date;
   metadata?: Record<string, any>;
 }
 
+/**
+ * Another post that an item quotes, reposts or replies to, kept with the item
+ * (in metadata.quoted) as context. It is not the item author's own text.
+ */
+export interface QuotedContent {
+  kind: 'quote' | 'retweet' | 'parent';
+  id?: string;
+  author: string;
+  authorName?: string;
+  text: string;
+  url?: string;
+  segment?: number;  // Which segment of a stitched thread quoted it
+}
+
 export interface FilteredContent extends RawContent {
   relevance: number;
   topic: Topic;
@@ -139,6 +165,11 @@ export interface ExtractedClaim {
   quoteworthiness?: number;    // 0.0 to 1.0
   relatedTo?: string[];        // entities, papers, models mentioned
   originalQuote?: string;
+  chunkIndex?: number;         // chunk of a long item the claim was extracted from
+  quoteStart?: number;         // character offsets of originalQuote in the full content
+  quoteEnd?: number;
+  quoteVerified?: boolean;     // originalQuote found in the source text (undefined if no quote)
+  quoteMatchScore?: number;    // 0.0 to 1.0 - share of the quote's words matched
   author?: string;
   authorCategory?: AuthorCategory;
   sourceUrl?: string;
@@ -149,6 +180,21 @@ export interface EnrichedClaim extends ExtractedClaim {
   embedding?: number[];
   relatedClaims?: string[];
   potentialContradictions?: string[];
+  relations?: ClaimRelation[];
+}
+
+export type ClaimRelationType = 'supports' | 'contradicts' | 'unrelated';
+
+/**
+ * How a new claim relates to an earlier, semantically close claim.
+ */
+export interface ClaimRelation {
+  targetClaimId: string;
+  relation: ClaimRelationType;
+  confidence: number;          // 0.0 to 1.0
+  similarity: number;          // embedding cosine similarity
+  method: 'nli' | 'heuristic';
+  rationale?: string;
 }
 
 // ============================================================================
@@ -172,7 +218,7 @@ export interface Disagreement {
 
 export interface TopicSynthesis {
   topic: Topic;
-  claimCount: number; // Number of claims analyzed for this topic
+  claimCount: number; // Number of distinct claims (clusters) analyzed for this topic
   labConsensus: string;
   criticConsensus: string;
   keyAgreements: string[];
@@ -369,6 +415,7 @@ export interface Source {
   identifier: string;
   authorName?: string;
   category?: ContentCategory;
+  researcher?: string;  // Shared handle linking one person's accounts across platforms
   tags?: string[];
   lastFetched?: Date;
   fetchFrequencyHours?: number;